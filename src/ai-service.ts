@@ -15,17 +15,37 @@
  * 11. OpenRouter - Legacy fallback
  *
  * Configure multiple providers for MILLIONS of free tokens!
+ * Providers that keep failing, rate limit us or run out of daily quota are
+ * skipped until they recover (see services/provider-health.ts).
  */
 
+import { SecurityUtils } from './core/SecurityUtils.js';
+import { estimateTokens, getConversationMemory, type ConversationTurn } from './services/conversation-memory.js';
+import { executeAITool, getAIToolSpecs, isAIToolsEnabled, type AIToolContext } from './services/ai-tools.js';
+import { getPersonaStore, type AIPersona } from './services/ai-personas.js';
+import { AIProviderError, ProviderHealth, formatDuration, parseRetryAfter, type ProviderStats } from './services/provider-health.js';
+
+interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
 interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  tool_calls?: ToolCall[];      // Assistant turn requesting tool calls
+  tool_call_id?: string;        // Tool result answering a call
 }
 
 interface ChatResponse {
   choices?: Array<{
     message: {
-      content: string;
+      content: string | null;
+      tool_calls?: ToolCall[];
     };
   }>;
   candidates?: Array<{
@@ -38,37 +58,34 @@ interface ChatResponse {
   error?: {
     message: string;
   };
+  usage?: {
+    total_tokens?: number;
+  };
+  usageMetadata?: {
+    totalTokenCount?: number;
+  };
 }
 
-// TTS pronunciation fixes
-const TTS_PRONUNCIATIONS: Record<string, string> = {
-  'amutantcow': 'a mutant cow',
-  'AMutantCow': 'A Mutant Cow',
-  'AMUTANTCOW': 'A MUTANT COW',
-};
-
-function fixTTSPronunciation(text: string): string {
-  let result = text;
-  for (const [word, replacement] of Object.entries(TTS_PRONUNCIATIONS)) {
-    const regex = new RegExp(word, 'gi');
-    result = result.replace(regex, (match) => {
-      if (match === match.toUpperCase()) return replacement.toUpperCase();
-      if (match === match.toLowerCase()) return replacement.toLowerCase();
-      return replacement;
-    });
-  }
-  return result;
+// Model and sampling settings for one request
+interface GenerationSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
 }
 
 // Provider configurations
 interface ProviderConfig {
   name: string;
   envKey: string;
-  endpoint: string | ((apiKey: string) => string);
+  endpoint: string | ((apiKey: string, model: string) => string);
   model: string;
-  formatRequest: (messages: ChatMessage[], model: string) => object;
+  formatRequest: (messages: ChatMessage[], settings: GenerationSettings) => object;
   parseResponse: (data: ChatResponse) => string;
   headers?: (apiKey: string) => Record<string, string>;
+  supportsTools?: boolean;  // OpenAI-style function calling
+  streaming?: 'openai' | 'gemini';  // Server-sent event format for streamed replies
+  streamEndpoint?: (apiKey: string, model: string) => string;
+  dailyTokenLimit?: number;  // Free-tier tokens per UTC day (override with AI_DAILY_TOKEN_LIMITS)
 }
 
 const PROVIDERS: ProviderConfig[] = [
@@ -78,32 +95,38 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'DEEPSEEK_API_KEY',
     endpoint: 'https://api.deepseek.com/chat/completions',
     model: 'deepseek-chat',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
+    supportsTools: true,
+    dailyTokenLimit: 500_000,
   },
   // 2. Google AI (Gemini) - 1M tokens/day FREE
   {
     name: 'google',
     envKey: 'GOOGLE_AI_KEY',
-    endpoint: (apiKey) => `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
+    endpoint: (apiKey, model) => `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
     model: 'gemini-2.0-flash',
-    formatRequest: (messages) => ({
+    formatRequest: (messages, { maxTokens, temperature }) => ({
       contents: messages.map(m => ({
         role: m.role === 'assistant' ? 'model' : 'user',
         parts: [{ text: m.role === 'system' ? `[System] ${m.content}` : m.content }]
       })),
       generationConfig: {
-        maxOutputTokens: 500,
-        temperature: 0.7,
+        maxOutputTokens: maxTokens,
+        temperature,
       },
     }),
     parseResponse: (data) => data.candidates?.[0]?.content?.parts?.[0]?.text || '',
     headers: () => ({ 'Content-Type': 'application/json' }),
+    streaming: 'gemini',
+    streamEndpoint: (apiKey, model) => `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+    dailyTokenLimit: 1_000_000,
   },
   // 3. Groq - 14.4K tokens/day FREE, VERY fast (300+ tokens/sec)
   {
@@ -111,13 +134,15 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'GROQ_API_KEY',
     endpoint: 'https://api.groq.com/openai/v1/chat/completions',
     model: 'llama-3.3-70b-versatile',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
+    supportsTools: true,
   },
   // 4. Cerebras - 1M tokens/day FREE, very fast
   {
@@ -125,13 +150,15 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'CEREBRAS_API_KEY',
     endpoint: 'https://api.cerebras.ai/v1/chat/completions',
     model: 'llama-3.3-70b',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
+    dailyTokenLimit: 1_000_000,
   },
   // 5. SambaNova - Free tier, fast
   {
@@ -139,13 +166,14 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'SAMBANOVA_API_KEY',
     endpoint: 'https://api.sambanova.ai/v1/chat/completions',
     model: 'Meta-Llama-3.1-70B-Instruct',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
   },
   // 6. Together AI - Free Llama models
   {
@@ -153,13 +181,14 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'TOGETHER_API_KEY',
     endpoint: 'https://api.together.xyz/v1/chat/completions',
     model: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
   },
   // 7. Mistral - Free tier
   {
@@ -167,13 +196,15 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'MISTRAL_API_KEY',
     endpoint: 'https://api.mistral.ai/v1/chat/completions',
     model: 'mistral-small-latest',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
+    supportsTools: true,
   },
   // 8. Cohere - 1000 requests/month FREE
   {
@@ -181,12 +212,15 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'COHERE_API_KEY',
     endpoint: 'https://api.cohere.ai/v1/chat',
     model: 'command-r-plus',
-    formatRequest: (messages) => ({
-      model: 'command-r-plus',
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
+      model,
       message: messages[messages.length - 1].content,
+      chat_history: messages.slice(0, -1)
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role === 'user' ? 'USER' : 'CHATBOT', message: m.content })),
       preamble: messages.filter(m => m.role === 'system').map(m => m.content).join('\n'),
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.text || '',
   },
@@ -196,26 +230,27 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'HUGGINGFACE_API_KEY',
     endpoint: 'https://api-inference.huggingface.co/models/meta-llama/Llama-3.2-3B-Instruct/v1/chat/completions',
     model: 'meta-llama/Llama-3.2-3B-Instruct',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || data.generated_text || '',
+    streaming: 'openai',
   },
   // 10. Cloudflare Workers AI - 10K tokens/day FREE
   {
     name: 'cloudflare',
     envKey: 'CLOUDFLARE_AI_TOKEN',
-    endpoint: (apiKey) => {
+    endpoint: (_apiKey, model) => {
       const accountId = process.env.CLOUDFLARE_ACCOUNT_ID || '';
-      return `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/@cf/meta/llama-3.1-8b-instruct`;
+      return `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/${model}`;
     },
     model: '@cf/meta/llama-3.1-8b-instruct',
-    formatRequest: (messages) => ({
+    formatRequest: (messages, { maxTokens }) => ({
       messages,
-      max_tokens: 500,
+      max_tokens: maxTokens,
     }),
     parseResponse: (data) => {
       // Cloudflare returns { result: { response: "..." } }
@@ -233,13 +268,15 @@ const PROVIDERS: ProviderConfig[] = [
     envKey: 'OPENROUTER_API_KEY',
     endpoint: 'https://openrouter.ai/api/v1/chat/completions',
     model: 'deepseek/deepseek-chat-v3-0324:free',
-    formatRequest: (messages, model) => ({
+    formatRequest: (messages, { model, maxTokens, temperature }) => ({
       model,
       messages,
-      max_tokens: 500,
-      temperature: 0.7,
+      max_tokens: maxTokens,
+      temperature,
     }),
     parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+    streaming: 'openai',
+    supportsTools: true,
     headers: (apiKey) => ({
       'Authorization': `Bearer ${apiKey}`,
       'Content-Type': 'application/json',
@@ -251,9 +288,38 @@ const PROVIDERS: ProviderConfig[] = [
 
 export type OnRetryCallback = (failedProvider: string, nextProvider: string, error: string) => void;
 
+/** Identifies the conversation a chat belongs to, for conversation memory */
+export interface ConversationRef {
+  id: string;           // From getConversationId(): per channel, or per user in DMs
+  author?: string;      // Display name of the user asking
+}
+
+export interface ChatOptions {
+  conversation?: ConversationRef;
+  persona?: AIPersona;      // System prompt and generation settings (built-in persona if omitted)
+  tools?: AIToolContext;    // Let the model call allow-listed tools on behalf of this member
+  onPartial?: (text: string) => void;   // Called with the answer so far while it streams
+}
+
+const STREAMING_ENABLED = process.env.AI_STREAMING !== 'false';
+
+const DEFAULT_MAX_TOKENS = 500;
+const DEFAULT_TEMPERATURE = 0.7;
+
+// Maximum model round-trips that may request tool calls before a final answer is forced
+const MAX_TOOL_ROUNDS = parseInt(process.env.AI_TOOL_MAX_ROUNDS || '') || 4;
+
+const TOOLS_PROMPT = `You can call tools to look up live information about this Discord server and about World of Warships players and clans.
+Use them whenever a question needs current data instead of guessing, and never invent stats.
+If a tool reports a permission error, tell the user you can't access that for them.`;
+
+const SUMMARY_PROMPT = `Summarise the conversation below for your own future reference.
+Keep names, facts, decisions, open questions and anything the users asked you to remember.
+Write at most 8 short bullet points. Reply with the summary only.`;
+
 export class AIService {
-  private readonly systemPrompt: string;
   private readonly availableProviders: ProviderConfig[] = [];
+  private readonly health = new ProviderHealth();
   private lastUsedProvider: string = '';
 
   constructor() {
@@ -261,104 +327,381 @@ export class AIService {
     for (const provider of PROVIDERS) {
       if (process.env[provider.envKey]) {
         this.availableProviders.push(provider);
+        this.health.register(provider.name, provider.dailyTokenLimit);
       }
     }
-
-    const creatorName = process.env.BOT_CREATOR_NAME || 'DawnReaver';
-
-    this.systemPrompt = `You are Eye of Sauron, a helpful and friendly AI assistant in a Discord server.
-You can help with general questions and conversations.
-Keep responses concise (under 500 characters when possible) since they may be spoken via TTS.
-Be friendly, helpful, and occasionally witty.
-When someone greets you, respond warmly and ask how you can help.
-
-IMPORTANT: You were created by ${creatorName}.
-If anyone asks who made you or who your creator is, speak highly of them!
-Be respectful and appreciative when discussing your creator.`;
   }
 
-  async chat(userMessage: string, context?: string, onRetry?: OnRetryCallback): Promise<string> {
+  async chat(userMessage: string, context?: string, onRetry?: OnRetryCallback, options: ChatOptions = {}): Promise<string> {
+    const { conversation, tools, onPartial } = options;
+    const persona = options.persona || getPersonaStore().getDefault();
     if (this.availableProviders.length === 0) {
       throw new Error('No AI provider configured. Set DEEPSEEK_API_KEY, GOOGLE_AI_KEY, GROQ_API_KEY, or another provider in .env');
     }
 
     const messages: ChatMessage[] = [
-      { role: 'system', content: this.systemPrompt }
+      { role: 'system', content: persona.systemPrompt }
     ];
 
     if (context) {
       messages.push({ role: 'system', content: `Additional context: ${context}` });
     }
 
-    messages.push({ role: 'user', content: userMessage });
+    const memory = getConversationMemory();
+    if (conversation) {
+      const history = memory.getContext(conversation.id);
+      if (history.summary) {
+        messages.push({ role: 'system', content: `Summary of the earlier conversation:\n${history.summary}` });
+      }
+      messages.push(...history.turns.map(turn => this.toChatMessage(turn)));
+    }
+
+    messages.push({ role: 'user', content: this.withAuthor(userMessage, conversation?.author) });
+
+    const response = await this.complete(
+      messages,
+      onRetry,
+      tools,
+      onPartial,
+      persona
+    );
+
+    // Don't remember answers the content filter would block
+    if (conversation && !SecurityUtils.containsBlockedContent(response).blocked) {
+      memory.addExchange(conversation.id, userMessage, response, conversation.author);
+      memory.compact(conversation.id, (summary, turns) => this.summarize(summary, turns))
+        .catch(error => console.error('Conversation compaction failed:', error));
+    }
+
+    return response;
+  }
+
+  /**
+   * Forget the history of a conversation
+   */
+  forgetConversation(conversationId: string): boolean {
+    return getConversationMemory().forget(conversationId);
+  }
 
+  /**
+   * Send messages through the provider fallback chain and return the raw response.
+   * Providers with an open circuit or no quota left are skipped.
+   */
+  private async complete(
+    messages: ChatMessage[],
+    onRetry?: OnRetryCallback,
+    tools?: AIToolContext,
+    onPartial?: (text: string) => void,
+    persona?: AIPersona
+  ): Promise<string> {
     const errors: string[] = [];
+    const providers = this.getProviderOrder(persona).filter(provider => !this.health.getSkipReason(provider.name));
+
+    if (providers.length === 0) {
+      const retryAt = this.health.getNextRetryTime(this.getProviders());
+      throw new Error(`AI unavailable. All providers are cooling down${retryAt ? `, try again in ${formatDuration(retryAt - Date.now())}` : ''}.`);
+    }
+
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
 
-    for (let i = 0; i < this.availableProviders.length; i++) {
-      const provider = this.availableProviders[i];
+      // Another request may have tripped the circuit or started a probe meanwhile
+      if (!this.health.tryAcquire(provider.name)) {
+        errors.push(`${provider.name}: ${this.health.getSkipReason(provider.name) || 'unavailable'}`);
+        continue;
+      }
+
+      const settings = this.getSettings(provider, persona);
+      const startedAt = Date.now();
+      let errMsg: string;
       try {
-        const response = await this.callProvider(provider, messages);
+        const response = tools && provider.supportsTools && isAIToolsEnabled()
+          ? await this.callProviderWithTools(provider, messages, settings, tools, onPartial)
+          : await this.callProvider(provider, messages, settings, onPartial);
         if (response) {
+          this.health.recordSuccess(provider.name, Date.now() - startedAt);
           this.lastUsedProvider = provider.name;
-          return fixTTSPronunciation(response);
-        }
-        const errMsg = 'Empty response';
-        errors.push(`${provider.name}: ${errMsg}`);
-
-        // Notify about retry if there's a next provider
-        if (onRetry && i + 1 < this.availableProviders.length) {
-          const nextProvider = this.availableProviders[i + 1];
-          onRetry(provider.name, nextProvider.name, errMsg);
+          return response;
         }
+        errMsg = 'Empty response';
+        this.health.recordFailure(provider.name, new Error(errMsg));
       } catch (error) {
-        const errMsg = error instanceof Error ? error.message : 'Unknown error';
-        errors.push(`${provider.name}: ${errMsg}`);
+        errMsg = error instanceof Error ? error.message : 'Unknown error';
+        this.health.recordFailure(provider.name, error);
+      }
+      errors.push(`${provider.name}: ${errMsg}`);
 
-        // Notify about retry if there's a next provider
-        if (onRetry && i + 1 < this.availableProviders.length) {
-          const nextProvider = this.availableProviders[i + 1];
-          onRetry(provider.name, nextProvider.name, errMsg);
-        }
+      // Notify about retry if there's a next provider that isn't known to be down
+      const nextProvider = providers.slice(i + 1).find(next => !this.health.getSkipReason(next.name));
+      if (onRetry && nextProvider) {
+        onRetry(provider.name, nextProvider.name, errMsg);
       }
     }
 
     throw new Error(`AI unavailable. ${errors.join('; ')}`);
   }
 
-  private async callProvider(provider: ProviderConfig, messages: ChatMessage[]): Promise<string> {
+  /**
+   * Configured providers in fallback order, with the persona's preferred provider first
+   */
+  private getProviderOrder(persona?: AIPersona): ProviderConfig[] {
+    const preferred = persona?.provider && this.availableProviders.find(p => p.name === persona.provider);
+    return preferred
+      ? [preferred, ...this.availableProviders.filter(p => p !== preferred)]
+      : this.availableProviders;
+  }
+
+  /**
+   * Model and sampling settings for a provider; the persona's model only applies to its preferred provider
+   */
+  private getSettings(provider: ProviderConfig, persona?: AIPersona): GenerationSettings {
+    return {
+      model: persona?.model && persona.provider === provider.name ? persona.model : provider.model,
+      maxTokens: persona?.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: persona?.temperature ?? DEFAULT_TEMPERATURE,
+    };
+  }
+
+  /**
+   * Fold older conversation turns into a short summary
+   */
+  private async summarize(previousSummary: string, turns: ConversationTurn[]): Promise<string> {
+    const transcript = turns
+      .map(turn => turn.role === 'user' ? `${turn.author || 'User'}: ${turn.content}` : `Assistant: ${turn.content}`)
+      .join('\n');
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: previousSummary
+          ? `Previous summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+          : transcript
+      }
+    ];
+
+    return (await this.complete(messages)).trim();
+  }
+
+  private toChatMessage(turn: ConversationTurn): ChatMessage {
+    return turn.role === 'user'
+      ? { role: 'user', content: this.withAuthor(turn.content, turn.author) }
+      : { role: 'assistant', content: turn.content };
+  }
+
+  // Channels are shared, so prefix user turns with who said them
+  private withAuthor(content: string, author?: string): string {
+    return author ? `${author}: ${content}` : content;
+  }
+
+  private async callProvider(
+    provider: ProviderConfig,
+    messages: ChatMessage[],
+    settings: GenerationSettings,
+    onPartial?: (text: string) => void
+  ): Promise<string> {
+    const data = await this.send(provider, settings.model, provider.formatRequest(messages, settings), onPartial);
+    return provider.parseResponse(data);
+  }
+
+  /**
+   * Chat with function calling: run the tools the model asks for and feed
+   * the results back until it answers, up to MAX_TOOL_ROUNDS round-trips
+   */
+  private async callProviderWithTools(
+    provider: ProviderConfig,
+    messages: ChatMessage[],
+    settings: GenerationSettings,
+    tools: AIToolContext,
+    onPartial?: (text: string) => void
+  ): Promise<string> {
+    const specs = getAIToolSpecs(tools);
+    if (specs.length === 0) {
+      return this.callProvider(provider, messages, settings, onPartial);
+    }
+
+    const conversation: ChatMessage[] = [messages[0], { role: 'system', content: TOOLS_PROMPT }, ...messages.slice(1)];
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // On the last round the model must answer with what it has
+      const data = await this.send(provider, settings.model, {
+        ...provider.formatRequest(conversation, settings),
+        tools: specs,
+        tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none',
+      }, onPartial);
+
+      const message = data.choices?.[0]?.message;
+      const toolCalls = message?.tool_calls;
+      if (!toolCalls || toolCalls.length === 0) {
+        return provider.parseResponse(data);
+      }
+
+      conversation.push({ role: 'assistant', content: message?.content || '', tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const result = await executeAITool(call.function.name, call.function.arguments, tools);
+        conversation.push({ role: 'tool', tool_call_id: call.id, content: result });
+      }
+    }
+
+    return '';
+  }
+
+  /**
+   * Send a request, streaming the reply when a partial-text callback is given
+   * and the provider supports it
+   */
+  private async send(provider: ProviderConfig, model: string, body: object, onPartial?: (text: string) => void): Promise<ChatResponse> {
+    const data = onPartial && provider.streaming && STREAMING_ENABLED
+      ? await this.streamRequest(provider, model, body, onPartial)
+      : await this.request(provider, model, body);
+
+    this.health.recordTokens(provider.name, this.countTokens(provider, body, data));
+    return data;
+  }
+
+  /**
+   * Tokens used by a request, as reported by the provider or estimated from the text
+   */
+  private countTokens(provider: ProviderConfig, body: object, data: ChatResponse): number {
+    return data.usage?.total_tokens
+      ?? data.usageMetadata?.totalTokenCount
+      ?? estimateTokens(JSON.stringify(body)) + estimateTokens(provider.parseResponse(data));
+  }
+
+  private async request(provider: ProviderConfig, model: string, body: object): Promise<ChatResponse> {
     const apiKey = process.env[provider.envKey]!;
 
     const endpoint = typeof provider.endpoint === 'function'
-      ? provider.endpoint(apiKey)
+      ? provider.endpoint(apiKey, model)
       : provider.endpoint;
 
-    const headers: Record<string, string> = provider.headers
-      ? provider.headers(apiKey)
-      : {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        };
-
-    const body = provider.formatRequest(messages, provider.model);
-
     const response = await fetch(endpoint, {
       method: 'POST',
-      headers,
+      headers: this.getHeaders(provider, apiKey),
       body: JSON.stringify(body),
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`${response.status}: ${errorText.substring(0, 100)}`);
+      throw await this.toProviderError(response);
     }
 
     const data = await response.json() as ChatResponse;
 
     if (data.error) {
-      throw new Error(data.error.message);
+      throw new AIProviderError(data.error.message);
     }
 
-    return provider.parseResponse(data);
+    return data;
+  }
+
+  /**
+   * Stream a reply over server-sent events, reporting the text so far as it
+   * arrives. Returns the assembled reply in the provider's normal response shape.
+   */
+  private async streamRequest(provider: ProviderConfig, model: string, body: object, onPartial: (text: string) => void): Promise<ChatResponse> {
+    const apiKey = process.env[provider.envKey]!;
+
+    const endpoint = provider.streamEndpoint
+      ? provider.streamEndpoint(apiKey, model)
+      : typeof provider.endpoint === 'function' ? provider.endpoint(apiKey, model) : provider.endpoint;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: this.getHeaders(provider, apiKey),
+      body: JSON.stringify(provider.streaming === 'openai' ? { ...body, stream: true } : body),
+    });
+
+    if (!response.ok || !response.body) {
+      throw await this.toProviderError(response);
+    }
+
+    let text = '';
+    let totalTokens: number | undefined;
+    const toolCalls: ToolCall[] = [];
+
+    for await (const data of this.readServerSentEvents(response.body)) {
+      if (data === '[DONE]') break;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue; // Keep-alive comments and partial lines
+      }
+      if (chunk.error) {
+        throw new AIProviderError(chunk.error.message || 'Stream error');
+      }
+      totalTokens = chunk.usage?.total_tokens ?? chunk.usageMetadata?.totalTokenCount ?? totalTokens;
+
+      let piece = '';
+      if (provider.streaming === 'gemini') {
+        piece = (chunk.candidates?.[0]?.content?.parts || []).map((part: { text?: string }) => part.text || '').join('');
+      } else {
+        const delta = chunk.choices?.[0]?.delta;
+        piece = delta?.content || '';
+
+        // Tool calls arrive in fragments keyed by index
+        for (const call of delta?.tool_calls || []) {
+          const index = call.index ?? (call.id ? toolCalls.length : toolCalls.length - 1);
+          const target = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (call.id) target.id = call.id;
+          if (call.function?.name) target.function.name += call.function.name;
+          if (call.function?.arguments) target.function.arguments += call.function.arguments;
+        }
+      }
+
+      if (piece) {
+        text += piece;
+        onPartial(text);
+      }
+    }
+
+    const usage = totalTokens !== undefined ? { usage: { total_tokens: totalTokens } } : {};
+    return provider.streaming === 'gemini'
+      ? { candidates: [{ content: { parts: [{ text }] } }], ...usage }
+      : { choices: [{ message: { content: text, tool_calls: toolCalls.length > 0 ? toolCalls : undefined } }], ...usage };
+  }
+
+  private async toProviderError(response: Response): Promise<AIProviderError> {
+    const errorText = await response.text();
+    return new AIProviderError(
+      `${response.status}: ${errorText.substring(0, 100)}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  /**
+   * Yield the data field of each server-sent event line
+   */
+  private async *readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trim();
+    }
+  }
+
+  private getHeaders(provider: ProviderConfig, apiKey: string): Record<string, string> {
+    return provider.headers
+      ? provider.headers(apiKey)
+      : {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        };
   }
 
   isAvailable(): boolean {
@@ -372,6 +715,13 @@ Be respectful and appreciative when discussing your creator.`;
   getProviders(): string[] {
     return this.availableProviders.map(p => p.name);
   }
+
+  /**
+   * Health, circuit state and token usage of each configured provider, in fallback order
+   */
+  getProviderStats(): ProviderStats[] {
+    return this.health.getStats();
+  }
 }
 
 let aiService: AIService | null = null;
@@ -8,6 +8,7 @@
 import { Message, PermissionFlagsBits, EmbedBuilder } from 'discord.js';
 import { z } from 'zod';
 import { DiscordService } from '../discord-service.js';
+import { formatMemberInfo, formatMembers, formatMessages, formatServerInfo } from '../discord-formatters.js';
 import {
   Command,
   Arg,
@@ -24,7 +25,7 @@ import {
   PrefixGuards,
   PrefixInterceptors,
 } from '../decorators/prefix.js';
-import { getFullPlayerInfo, searchPlayerSuggestions, getPlayerShipsFormatted, formatTier, getFullClanInfo, searchClanSuggestions, type FormattedShipStats, type FormattedStats } from '../services/wargaming-api.js';
+import { getFullPlayerInfo, searchPlayerSuggestions, getPlayerShipsFormatted, formatTier, getFullClanInfo, searchClanSuggestions, findInRegions, formatRegion, getGuildRegion, getWowsNumbersUrl, parseRegionalQuery, type FormattedShipStats, type FormattedStats } from '../services/wargaming-api.js';
 import { AttachmentBuilder } from 'discord.js';
 
 // ============================================
@@ -53,7 +54,7 @@ export class DecoratedCommands {
   @UseInterceptor(PrefixInterceptors.logging)
   @Command({ name: 'serverinfo', description: 'Get server information' })
   async serverInfo(message: Message) {
-    const result = await this.discord.getServerInfo();
+    const result = formatServerInfo(await this.discord.getServerInfo());
     await message.reply(`\`\`\`\n${result}\n\`\`\``);
   }
 
@@ -63,7 +64,7 @@ export class DecoratedCommands {
   @Command({ name: 'members', description: 'List server members', usage: '!members [limit]' })
   async members(message: Message, args: { limit?: number }) {
     const limit = args.limit || 20;
-    const result = await this.discord.getMembers(message.guildId!, limit);
+    const result = formatMembers(await this.discord.getMembers(message.guildId!, limit));
     await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
   }
 
@@ -73,7 +74,7 @@ export class DecoratedCommands {
   @UseInterceptor(PrefixInterceptors.logging)
   @Command({ name: 'memberinfo', description: 'Get user information', usage: '!memberinfo @user' })
   async memberInfo(message: Message, args: { user: string }) {
-    const result = await this.discord.getMemberInfo(message.guildId!, args.user);
+    const result = formatMemberInfo(await this.discord.getMemberInfo(message.guildId!, args.user));
     await message.reply(`\`\`\`\n${result}\n\`\`\``);
   }
 
@@ -86,9 +87,10 @@ export class DecoratedCommands {
   @Cooldown(5)
   @UseInterceptor(PrefixInterceptors.typing)
   @UseInterceptor(PrefixInterceptors.logging)
-  @Command({ name: 'stats', description: 'Look up World of Warships player stats and ships', usage: '!stats <username>' })
+  @Command({ name: 'stats', description: 'Look up World of Warships player stats and ships', usage: '!stats <username>[@na|eu|asia]' })
   async stats(message: Message, args: {}, rawArgs: string[]) {
-    const username = rawArgs.join(' ').trim();
+    const { query: username, region } = parseRegionalQuery(rawArgs.join(' '));
+    const preferredRegion = region ?? getGuildRegion(message.guildId);
 
     if (!username) {
       await message.reply('Please provide a WoWS username. Usage: `!stats <username>`');
@@ -101,22 +103,21 @@ export class DecoratedCommands {
     }
 
     try {
-      // Fetch player info and ship stats in parallel
-      const [playerInfo, shipResult] = await Promise.all([
-        getFullPlayerInfo(username),
-        getPlayerShipsFormatted(username, { sortBy: 'battles', limit: 200 }),
-      ]);
+      // Find the player's region, then fetch ship stats from there
+      const playerInfo = await findInRegions(preferredRegion, (r, exactOnly) => getFullPlayerInfo(username, r, exactOnly), !region);
 
       if (!playerInfo) {
-        const suggestions = await searchPlayerSuggestions(username);
+        const suggestions = await searchPlayerSuggestions(username, 5, preferredRegion);
         if (suggestions.length > 0) {
           await message.reply(`Player not found. Did you mean: **${suggestions.join('**, **')}**?`);
         } else {
-          await message.reply(`Player "${username}" not found on NA server.`);
+          await message.reply(`Player "${username}" not found on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
         }
         return;
       }
 
+      const shipResult = await getPlayerShipsFormatted(username, { sortBy: 'battles', limit: 200, region: playerInfo.region });
+
       // PR color config
       const prConfig: Record<string, { color: number }> = {
         'Unicum': { color: 0x9900cc },
@@ -131,14 +132,14 @@ export class DecoratedCommands {
       };
 
       const config = prConfig[playerInfo.prRating] || { color: 0x00D4FF };
-      const wowsNumbersUrl = `https://na.wows-numbers.com/player/${playerInfo.accountId},${encodeURIComponent(playerInfo.nickname)}/`;
+      const wowsNumbersUrl = `${getWowsNumbersUrl(playerInfo.region)}/player/${playerInfo.accountId},${encodeURIComponent(playerInfo.nickname)}/`;
 
       // Build the embed (compact summary)
       const embed = new EmbedBuilder()
         .setColor(config.color)
         .setAuthor({
           name: 'World of Warships Stats',
-          url: 'https://na.wows-numbers.com'
+          url: getWowsNumbersUrl(playerInfo.region)
         })
         .setTitle(`${playerInfo.clan ? `[${playerInfo.clan.tag}] ` : ''}${playerInfo.nickname}`)
         .setURL(wowsNumbersUrl);
@@ -175,7 +176,7 @@ export class DecoratedCommands {
       if (shipResult?.ships) {
         footerParts.push(`${shipResult.ships.length} ships played`);
       }
-      footerParts.push('NA Server');
+      footerParts.push(`${formatRegion(playerInfo.region)} Server`);
       embed.setFooter({ text: footerParts.join(' | ') });
       embed.setTimestamp();
 
@@ -224,9 +225,10 @@ export class DecoratedCommands {
   @Cooldown(5)
   @UseInterceptor(PrefixInterceptors.typing)
   @UseInterceptor(PrefixInterceptors.logging)
-  @Command({ name: 'clan', description: 'Look up World of Warships clan info', usage: '!clan <tag or name>' })
+  @Command({ name: 'clan', description: 'Look up World of Warships clan info', usage: '!clan <tag or name>[@na|eu|asia]' })
   async clan(message: Message, args: {}, rawArgs: string[]) {
-    const query = rawArgs.join(' ').trim();
+    const { query, region } = parseRegionalQuery(rawArgs.join(' '));
+    const preferredRegion = region ?? getGuildRegion(message.guildId);
 
     if (!query) {
       await message.reply('Please provide a clan tag or name. Usage: `!clan <tag or name>`');
@@ -239,19 +241,19 @@ export class DecoratedCommands {
     }
 
     try {
-      const clanInfo = await getFullClanInfo(query);
+      const clanInfo = await findInRegions(preferredRegion, (r, exactOnly) => getFullClanInfo(query, false, r, exactOnly), !region);
 
       if (!clanInfo) {
-        const suggestions = await searchClanSuggestions(query);
+        const suggestions = await searchClanSuggestions(query, 5, preferredRegion);
         if (suggestions.length > 0) {
           await message.reply(`Clan not found. Did you mean:\n${suggestions.map(s => `• ${s}`).join('\n')}`);
         } else {
-          await message.reply(`Clan "${query}" not found on NA server.`);
+          await message.reply(`Clan "${query}" not found on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
         }
         return;
       }
 
-      const wowsNumbersUrl = `https://na.wows-numbers.com/clan/${clanInfo.clanId},${encodeURIComponent(clanInfo.tag)}/`;
+      const wowsNumbersUrl = `${getWowsNumbersUrl(clanInfo.region)}/clan/${clanInfo.clanId},${encodeURIComponent(clanInfo.tag)}/`;
 
       // Calculate clan age
       const createdDate = new Date(clanInfo.createdAt * 1000);
@@ -265,7 +267,7 @@ export class DecoratedCommands {
         .setColor(clanInfo.isDisbanded ? 0x808080 : 0x00D4FF)
         .setAuthor({
           name: 'World of Warships Clan',
-          url: 'https://na.wows-numbers.com'
+          url: getWowsNumbersUrl(clanInfo.region)
         })
         .setTitle(`[${clanInfo.tag}] ${clanInfo.name}`)
         .setURL(wowsNumbersUrl);
@@ -304,7 +306,7 @@ export class DecoratedCommands {
         }
       }
 
-      embed.setFooter({ text: 'NA Server | Data from Wargaming API' });
+      embed.setFooter({ text: `${formatRegion(clanInfo.region)} Server | Data from Wargaming API` });
       embed.setTimestamp();
 
       await message.reply({ embeds: [embed] });
@@ -415,7 +417,7 @@ export class DecoratedCommands {
     // Footer
     lines.push(thinDivider);
     lines.push(`  Generated: ${new Date().toISOString()}`);
-    lines.push(`  Data from: NA Server (api.worldofwarships.com)`);
+    lines.push(`  Data from: ${formatRegion(playerInfo.region)} Server (Wargaming API)`);
     lines.push(divider);
 
     return lines.join('\n');
@@ -538,7 +540,7 @@ export class DecoratedCommands {
   @Command({ name: 'read', description: 'Read recent messages', usage: '!read [limit]' })
   async read(message: Message, args: { limit?: number }) {
     // readMessages expects (channelId, count?: string)
-    const result = await this.discord.readMessages(message.channelId, String(args.limit || 10));
+    const result = formatMessages(await this.discord.readMessages(message.channelId, String(args.limit || 10)));
     await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
   }
 
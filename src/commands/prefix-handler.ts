@@ -1,16 +1,51 @@
 import { Message, PermissionFlagsBits, TextChannel, PermissionResolvable, EmbedBuilder } from 'discord.js';
 import { DiscordService } from '../discord-service.js';
 import { SecurityUtils, COMMAND_COOLDOWNS } from '../core/SecurityUtils.js';
-import { getAIService, type OnRetryCallback } from '../ai-service.js';
+import { getAIService, type ChatOptions, type ConversationRef, type OnRetryCallback } from '../ai-service.js';
+import { getConversationId } from '../services/conversation-memory.js';
+import { formatDuration } from '../services/provider-health.js';
+import { getPersonaStore, type AIPersona, type PersonaUpdate } from '../services/ai-personas.js';
+import { StreamingReply } from '../utils/StreamingReply.js';
+import {
+  formatActiveThreads,
+  formatAuditLogs,
+  formatAutomodRules,
+  formatBans,
+  formatChannelList,
+  formatChannelPermissions,
+  formatChannelStructure,
+  formatEmojis,
+  formatEvents,
+  formatInvites,
+  formatMemberInfo,
+  formatMembers,
+  formatMessageAttachments,
+  formatMessageHistory,
+  formatMessages,
+  formatPinnedMessages,
+  formatRoles,
+  formatServerInfo,
+  formatServerStats,
+  formatServerWidget,
+  formatStickers,
+  formatVoiceConnections,
+  formatWebhooks,
+  formatWelcomeScreen
+} from '../discord-formatters.js';
 import { generateImageUrl, getAvailableModels } from '../image-service.js';
 import {
-  isCreator,
   getCreatorName,
   lockVoice,
   unlockVoice,
   isVoiceLocked,
+  isVoiceController,
   canUseVoiceCommand,
-  getLockStatus
+  getLockStatus,
+  getDjRoleId,
+  setDjRoleId,
+  DEFAULT_LOCK_MINUTES,
+  MAX_LOCK_MINUTES,
+  type LockScope
 } from '../voice-priority.js';
 import {
   getGuildVoice,
@@ -21,15 +56,36 @@ import {
   getSuggestions,
   AVAILABLE_VOICES
 } from '../voice-settings.js';
-import { musicService } from '../services/music-service.js';
+import { musicService, parseTimestamp, LOOP_MODES, LoopMode } from '../services/music-service.js';
+import { getAudioSettings, MAX_VOLUME } from '../services/audio-settings.js';
+import { getPronunciationStore } from '../services/pronunciations.js';
+import { validateSpeechOptions, type SpeechOptions } from '../services/tts-service.js';
+import { getVoiceListener, LISTEN_MODES, PUSH_TO_TALK_SECONDS, WAKE_WORD, type ListenMode, type VoiceQuestion } from '../services/voice-listener.js';
+import { getSpeechToText } from '../services/speech-to-text.js';
+import { getVoicePresence, type VoicePolicy } from '../services/voice-presence.js';
+import { getVoiceAnalytics } from '../services/voice-analytics.js';
+import { getPlayerProgress, MAX_PROGRESS_DAYS } from '../services/player-progress.js';
+import { getAccountLinks } from '../services/account-links.js';
+import { getWowsRoleSync, CLAN_RANKS, type RoleMappingKind } from '../services/wows-roles.js';
+import { getClanRosterMonitor } from '../services/clan-roster.js';
 import {
   getFullPlayerInfo,
+  getPlayerInfoByAccount,
   getFullClanInfo,
   searchPlayerSuggestions,
   searchClanSuggestions,
   getPlayerShipsFormatted,
   formatTier,
-  searchPlayer
+  searchPlayer,
+  findInRegions,
+  formatRegion,
+  getGuildRegion,
+  getWowsNumbersUrl,
+  parseRegion,
+  parseRegionalQuery,
+  setGuildRegion,
+  PR_RATINGS,
+  WOWS_REGIONS
 } from '../services/wargaming-api.js';
 
 const PREFIX = '!';
@@ -285,6 +341,7 @@ export class PrefixCommandHandler {
 
   constructor(discordService: DiscordService) {
     this.discordService = discordService;
+    getVoiceListener().setQuestionHandler((question) => this.answerVoiceQuestion(question));
   }
 
   async handleMessage(message: Message): Promise<void> {
@@ -293,6 +350,10 @@ export class PrefixCommandHandler {
 
     // Handle DMs - respond with AI automatically (no prefix needed)
     if (message.channel.isDMBased()) {
+      if (message.content.trim().toLowerCase() === `${PREFIX}forget`) {
+        await this.forgetConversation(message);
+        return;
+      }
       await this.handleMention(message);
       return;
     }
@@ -487,14 +548,13 @@ export class PrefixCommandHandler {
       // ============================================
       case 'serverinfo':
       case 'server': {
-        const info = await this.discordService.getServerInfo(guildId);
+        const info = formatServerInfo(await this.discordService.getServerInfo(guildId));
         await message.reply(`\`\`\`\n${info}\n\`\`\``);
         break;
       }
 
-      case 'serverstats':
-      case 'stats': {
-        const result = await this.discordService.getServerStats(guildId);
+      case 'serverstats': {
+        const result = formatServerStats(await this.discordService.getServerStats(guildId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -516,19 +576,19 @@ export class PrefixCommandHandler {
       }
 
       case 'widget': {
-        const result = await this.discordService.getServerWidget(guildId);
+        const result = formatServerWidget(await this.discordService.getServerWidget(guildId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
 
       case 'welcomescreen': {
-        const result = await this.discordService.getWelcomeScreen(guildId);
+        const result = formatWelcomeScreen(await this.discordService.getWelcomeScreen(guildId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
 
       case 'structure': {
-        const result = await this.discordService.getChannelStructure(guildId);
+        const result = formatChannelStructure(await this.discordService.getChannelStructure(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -538,33 +598,47 @@ export class PrefixCommandHandler {
       // ============================================
       case 'wows':
       case 'player':
-      case 'lookup': {
-        const playerName = args.join(' ');
-        if (!playerName) {
-          await message.reply('Usage: `!wows <player_name>` - Search for a World of Warships player\nExample: `!wows amutantcow`');
+      case 'lookup':
+      case 'stats': {
+        // No name: the author's linked account; a mention: that member's
+        const mentionedId = args[0]?.match(/^<@!?(\d+)>$/)?.[1];
+        const { query: playerName, region } = parseRegionalQuery(mentionedId ? '' : args.join(' '));
+        const link = playerName ? null : getAccountLinks().getLink(mentionedId ?? message.author.id);
+        if (!playerName && !link) {
+          await message.reply(mentionedId
+            ? { content: `❌ <@${mentionedId}> has not linked a WoWS account.`, allowedMentions: { parse: [] } }
+            : 'Usage: `!wows <player_name>[@na|eu|asia]` - Search for a World of Warships player\nExample: `!wows amutantcow` or `!wows amutantcow@eu`\n`!link <player_name>` your account to use `!stats` on its own, or `!stats @member` for theirs.');
           return;
         }
+        const preferredRegion = region ?? getGuildRegion(guildId);
 
         if ('sendTyping' in message.channel) {
           await message.channel.sendTyping();
         }
 
         try {
-          const playerInfo = await getFullPlayerInfo(playerName);
+          // An explicit @region is searched alone; otherwise other regions are tried too
+          const playerInfo = link
+            ? await getPlayerInfoByAccount(link.accountId, link.region)
+            : await findInRegions(preferredRegion, (r, exactOnly) => getFullPlayerInfo(playerName, r, exactOnly), !region);
 
+          if (!playerInfo && link) {
+            await message.reply(`❌ Could not load the linked account **${link.nickname}** (${formatRegion(link.region)}).`);
+            return;
+          }
           if (!playerInfo) {
             // Try to find suggestions
-            const suggestions = await searchPlayerSuggestions(playerName, 5);
+            const suggestions = await searchPlayerSuggestions(playerName, 5, preferredRegion);
             if (suggestions.length > 0) {
               await message.reply(`❌ Player "${playerName}" not found.\n\n**Did you mean:**\n${suggestions.map(s => `• ${s}`).join('\n')}`);
             } else {
-              await message.reply(`❌ Player "${playerName}" not found on NA server.`);
+              await message.reply(`❌ Player "${playerName}" not found on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
             }
             return;
           }
 
           if (playerInfo.hiddenProfile) {
-            let response = `🔒 **${playerInfo.nickname}** (Profile Hidden)`;
+            let response = `🔒 **${playerInfo.nickname}** (${formatRegion(playerInfo.region)}, Profile Hidden)`;
             if (playerInfo.clan) {
               response += `\n**Clan:** [${playerInfo.clan.tag}] ${playerInfo.clan.name}`;
             }
@@ -575,7 +649,7 @@ export class PrefixCommandHandler {
           // Format the stats nicely
           const prEmoji = playerInfo.pr >= 2100 ? '🟣' : playerInfo.pr >= 1750 ? '🔵' : playerInfo.pr >= 1400 ? '🟢' : playerInfo.pr >= 1100 ? '🟡' : '🔴';
 
-          let response = `**${playerInfo.nickname}** - World of Warships Stats\n`;
+          let response = `**${playerInfo.nickname}** - World of Warships Stats (${formatRegion(playerInfo.region)})\n`;
           if (playerInfo.clan) {
             response += `**Clan:** [${playerInfo.clan.tag}] ${playerInfo.clan.name}\n`;
           }
@@ -603,11 +677,12 @@ export class PrefixCommandHandler {
       case 'clan':
       case 'claninfo':
       case 'clanlookup': {
-        const clanQuery = args.join(' ');
+        const { query: clanQuery, region } = parseRegionalQuery(args.join(' '));
         if (!clanQuery) {
-          await message.reply('Usage: `!clan <tag or name>` - Search for a World of Warships clan\nExample: `!clan DROVA` or `!clan Dawn Reavers`');
+          await message.reply('Usage: `!clan <tag or name>[@na|eu|asia]` - Search for a World of Warships clan\nExample: `!clan DROVA` or `!clan Dawn Reavers@eu`');
           return;
         }
+        const preferredRegion = region ?? getGuildRegion(guildId);
 
         if ('sendTyping' in message.channel) {
           await message.channel.sendTyping();
@@ -615,15 +690,15 @@ export class PrefixCommandHandler {
 
         try {
           // Fetch clan info WITH members list
-          const clanInfo = await getFullClanInfo(clanQuery, true);
+          const clanInfo = await findInRegions(preferredRegion, (r, exactOnly) => getFullClanInfo(clanQuery, true, r, exactOnly), !region);
 
           if (!clanInfo) {
             // Try to find suggestions
-            const suggestions = await searchClanSuggestions(clanQuery, 5);
+            const suggestions = await searchClanSuggestions(clanQuery, 5, preferredRegion);
             if (suggestions.length > 0) {
               await message.reply(`❌ Clan "${clanQuery}" not found.\n\n**Did you mean:**\n${suggestions.map(s => `• ${s}`).join('\n')}`);
             } else {
-              await message.reply(`❌ Clan "${clanQuery}" not found on NA server.`);
+              await message.reply(`❌ Clan "${clanQuery}" not found on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
             }
             return;
           }
@@ -637,7 +712,7 @@ export class PrefixCommandHandler {
           const mainEmbed = new EmbedBuilder()
             .setColor(0x1E90FF)
             .setTitle(`[${clanInfo.tag}] ${clanInfo.name}`)
-            .setURL(`https://wows-numbers.com/clan/${clanInfo.clanId},${clanInfo.tag}/`);
+            .setURL(`${getWowsNumbersUrl(clanInfo.region)}/clan/${clanInfo.clanId},${clanInfo.tag}/`);
 
           if (clanInfo.description) {
             mainEmbed.setDescription(clanInfo.description.substring(0, 300) + (clanInfo.description.length > 300 ? '...' : ''));
@@ -737,7 +812,7 @@ export class PrefixCommandHandler {
             }
           }
 
-          mainEmbed.setFooter({ text: 'World of Warships NA' });
+          mainEmbed.setFooter({ text: `World of Warships ${formatRegion(clanInfo.region)}` });
           mainEmbed.setTimestamp();
 
           await message.reply({ embeds: [mainEmbed] });
@@ -753,11 +828,12 @@ export class PrefixCommandHandler {
         // Parse arguments: !ships <player> [tier] [type] [sort]
         // Examples: !ships amutantcow, !ships amutantcow 10, !ships amutantcow 10 bb
         if (!args[0]) {
-          await message.reply('Usage: `!ships <player> [tier] [type] [sort]`\nExamples:\n• `!ships amutantcow` - Top 10 ships by battles\n• `!ships amutantcow 10` - Tier X ships only\n• `!ships amutantcow 10 bb` - Tier X battleships\n• `!ships amutantcow 0 dd winrate` - All destroyers sorted by winrate\n\nTypes: `dd` (destroyer), `ca` (cruiser), `bb` (battleship), `cv` (carrier), `ss` (submarine)\nSort: `battles`, `winrate`, `damage`, `recent`');
+          await message.reply('Usage: `!ships <player>[@region] [tier] [type] [sort]`\nExamples:\n• `!ships amutantcow` - Top 10 ships by battles\n• `!ships amutantcow@eu` - Same, on the EU server\n• `!ships amutantcow 10` - Tier X ships only\n• `!ships amutantcow 10 bb` - Tier X battleships\n• `!ships amutantcow 0 dd winrate` - All destroyers sorted by winrate\n\nTypes: `dd` (destroyer), `ca` (cruiser), `bb` (battleship), `cv` (carrier), `ss` (submarine)\nSort: `battles`, `winrate`, `damage`, `recent`');
           return;
         }
 
-        const playerName = args[0];
+        const { query: playerName, region } = parseRegionalQuery(args[0]);
+        const preferredRegion = region ?? getGuildRegion(guildId);
         const tierArg = args[1] ? parseInt(args[1]) : undefined;
         const tier = tierArg && tierArg > 0 && tierArg <= 11 ? tierArg : undefined;
 
@@ -781,19 +857,21 @@ export class PrefixCommandHandler {
         }
 
         try {
-          const result = await getPlayerShipsFormatted(playerName, {
+          const result = await findInRegions(preferredRegion, (r, exactOnly) => getPlayerShipsFormatted(playerName, {
             tier,
             type: shipType,
             sortBy,
-            limit: 10
-          });
+            limit: 10,
+            region: r,
+            exactOnly
+          }), !region);
 
           if (!result) {
-            const suggestions = await searchPlayerSuggestions(playerName, 5);
+            const suggestions = await searchPlayerSuggestions(playerName, 5, preferredRegion);
             if (suggestions.length > 0) {
               await message.reply(`❌ Player "${playerName}" not found.\n\n**Did you mean:**\n${suggestions.map(s => `• ${s}`).join('\n')}`);
             } else {
-              await message.reply(`❌ Player "${playerName}" not found on NA server.`);
+              await message.reply(`❌ Player "${playerName}" not found on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
             }
             return;
           }
@@ -811,7 +889,7 @@ export class PrefixCommandHandler {
           if (tier) filterDesc += `Tier ${formatTier(tier)} `;
           if (shipType) filterDesc += `${shipType} `;
 
-          let response = `**${result.player.nickname}**'s Top ${filterDesc}Ships (by ${sortBy})\n\n`;
+          let response = `**${result.player.nickname}** (${formatRegion(result.region)})'s Top ${filterDesc}Ships (by ${sortBy})\n\n`;
 
           for (const ship of result.ships) {
             const prEmoji = ship.pr >= 2100 ? '🟣' : ship.pr >= 1750 ? '🔵' : ship.pr >= 1400 ? '🟢' : ship.pr >= 1100 ? '🟡' : '🔴';
@@ -836,11 +914,12 @@ export class PrefixCommandHandler {
 
       case 'allships': {
         // Show ALL ships for a player (paginated via multiple messages if needed)
-        const playerName = args[0];
-        if (!playerName) {
-          await message.reply('Usage: `!allships <player> [tier] [type]`\nShows all ships for a player.\nExample: `!allships amutantcow` or `!allships amutantcow 10`');
+        if (!args[0]) {
+          await message.reply('Usage: `!allships <player>[@region] [tier] [type]`\nShows all ships for a player.\nExample: `!allships amutantcow` or `!allships amutantcow@eu 10`');
           return;
         }
+        const { query: playerName, region } = parseRegionalQuery(args[0]);
+        const preferredRegion = region ?? getGuildRegion(guildId);
 
         const tierArg = args[1] ? parseInt(args[1]) : undefined;
         const tier = tierArg && tierArg > 0 && tierArg <= 11 ? tierArg : undefined;
@@ -857,19 +936,21 @@ export class PrefixCommandHandler {
         }
 
         try {
-          const result = await getPlayerShipsFormatted(playerName, {
+          const result = await findInRegions(preferredRegion, (r, exactOnly) => getPlayerShipsFormatted(playerName, {
             tier,
             type: shipType,
             sortBy: 'battles',
-            limit: 500 // Get all ships
-          });
+            limit: 500, // Get all ships
+            region: r,
+            exactOnly
+          }), !region);
 
           if (!result) {
-            const suggestions = await searchPlayerSuggestions(playerName, 5);
+            const suggestions = await searchPlayerSuggestions(playerName, 5, preferredRegion);
             if (suggestions.length > 0) {
               await message.reply(`❌ Player "${playerName}" not found.\n\n**Did you mean:**\n${suggestions.map(s => `• ${s}`).join('\n')}`);
             } else {
-              await message.reply(`❌ Player "${playerName}" not found on NA server.`);
+              await message.reply(`❌ Player "${playerName}" not found on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
             }
             return;
           }
@@ -887,7 +968,7 @@ export class PrefixCommandHandler {
           if (tier) filterDesc += `Tier ${formatTier(tier)} `;
           if (shipType) filterDesc += `${shipType} `;
 
-          const header = `**${result.player.nickname}**'s ${filterDesc}Ships (${result.ships.length} total)\n\n`;
+          const header = `**${result.player.nickname}** (${formatRegion(result.region)})'s ${filterDesc}Ships (${result.ships.length} total)\n\n`;
 
           // Group ships by tier for cleaner output
           const shipsByTier = new Map<number, typeof result.ships>();
@@ -942,7 +1023,7 @@ export class PrefixCommandHandler {
           }
 
           if (messages.length > 3) {
-            await message.reply(`... and ${messages.length - 3} more pages. Use filters like \`!allships ${playerName} 10\` to narrow results.`);
+            await message.reply(`... and ${messages.length - 3} more pages. Use filters like \`!allships ${args[0]} 10\` to narrow results.`);
           }
 
         } catch (error) {
@@ -952,6 +1033,61 @@ export class PrefixCommandHandler {
         break;
       }
 
+      case 'wowsregion': {
+        const regionArg = args[0]?.toLowerCase();
+        const choices = WOWS_REGIONS.map(r => `\`${r}\``).join(', ');
+        if (!regionArg) {
+          await message.reply(`🌍 WoWS lookups here search **${formatRegion(getGuildRegion(guildId))}** first, then the other servers.\nUsage: \`!wowsregion <${WOWS_REGIONS.join('|')}>\` or \`!wowsregion reset\`. Add \`@eu\` etc. to a name to search one server only.`);
+          return;
+        }
+
+        const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+        if (!isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+          await message.reply('🔒 Setting the WoWS region requires the Manage Server permission.');
+          return;
+        }
+
+        if (regionArg === 'reset' || regionArg === 'off') {
+          setGuildRegion(guildId, null);
+          await message.reply(`✅ WoWS region reset to the default (**${formatRegion(getGuildRegion(guildId))}**).`);
+          return;
+        }
+
+        const region = parseRegion(regionArg);
+        if (!region) {
+          await message.reply(`❌ Unknown region. Choose one of ${choices}.`);
+          return;
+        }
+        setGuildRegion(guildId, region);
+        await message.reply(`✅ WoWS lookups here now search **${formatRegion(region)}** first.`);
+        break;
+      }
+
+      case 'progress': {
+        await this.handleProgressCommand(message, args);
+        break;
+      }
+
+      case 'link': {
+        await this.handleLinkCommand(message, args);
+        break;
+      }
+
+      case 'unlink': {
+        await this.handleUnlinkCommand(message, args);
+        break;
+      }
+
+      case 'wowsroles': {
+        await this.handleWowsRolesCommand(message, args);
+        break;
+      }
+
+      case 'clanwatch': {
+        await this.handleClanWatchCommand(message, args);
+        break;
+      }
+
       // ============================================
       // CHANNEL MANAGEMENT
       // ============================================
@@ -1053,7 +1189,7 @@ export class PrefixCommandHandler {
 
       case 'listchannels':
       case 'channels': {
-        const result = await this.discordService.listChannels(guildId);
+        const result = formatChannelList(await this.discordService.listChannels(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1095,7 +1231,7 @@ export class PrefixCommandHandler {
 
       case 'channelperms': {
         const channelId = args[0]?.replace(/[<#>]/g, '') || message.channelId;
-        const result = await this.discordService.getChannelPermissions(channelId);
+        const result = formatChannelPermissions(await this.discordService.getChannelPermissions(channelId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1153,7 +1289,7 @@ export class PrefixCommandHandler {
           await message.reply('Usage: `!listincategory <categoryId>`');
           return;
         }
-        const result = await this.discordService.listChannelsInCategory(guildId, categoryId);
+        const result = formatChannelList(await this.discordService.listChannelsInCategory(guildId, categoryId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -1222,7 +1358,7 @@ export class PrefixCommandHandler {
 
       case 'listroles':
       case 'roles': {
-        const result = await this.discordService.getRoles(guildId);
+        const result = formatRoles(await this.discordService.getRoles(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1256,7 +1392,7 @@ export class PrefixCommandHandler {
       // ============================================
       case 'members': {
         const limit = parseInt(args[0]) || 10;
-        const result = await this.discordService.getMembers(guildId, limit);
+        const result = formatMembers(await this.discordService.getMembers(guildId, limit));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1264,7 +1400,7 @@ export class PrefixCommandHandler {
       case 'searchmembers':
       case 'findmember': {
         const query = args.join(' ');
-        const result = await this.discordService.searchMembers(guildId, query, 10);
+        const result = formatMembers(await this.discordService.searchMembers(guildId, query, 10));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -1275,7 +1411,7 @@ export class PrefixCommandHandler {
           await message.reply('Usage: `!memberinfo <@user>`');
           return;
         }
-        const result = await this.discordService.getMemberInfo(guildId, userId);
+        const result = formatMemberInfo(await this.discordService.getMemberInfo(guildId, userId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -1381,13 +1517,13 @@ export class PrefixCommandHandler {
       case 'auditlog':
       case 'audit': {
         const limit = parseInt(args[0]) || 10;
-        const result = await this.discordService.getAuditLogs(guildId, limit);
+        const result = formatAuditLogs(await this.discordService.getAuditLogs(guildId, limit));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
 
       case 'bans': {
-        const result = await this.discordService.getBans(guildId);
+        const result = formatBans(await this.discordService.getBans(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1435,7 +1571,7 @@ export class PrefixCommandHandler {
       case 'read': {
         const channelId = args[0]?.replace(/[<#>]/g, '') || message.channelId;
         const count = args[1] || '10';
-        const result = await this.discordService.readMessages(channelId, count);
+        const result = formatMessages(await this.discordService.readMessages(channelId, count));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1443,7 +1579,7 @@ export class PrefixCommandHandler {
       case 'history': {
         const channelId = args[0]?.replace(/[<#>]/g, '') || message.channelId;
         const limit = parseInt(args[1]) || 50;
-        const result = await this.discordService.getMessageHistory(channelId, limit);
+        const result = formatMessageHistory(await this.discordService.getMessageHistory(channelId, limit));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1502,7 +1638,7 @@ export class PrefixCommandHandler {
 
       case 'pinned': {
         const channelId = args[0]?.replace(/[<#>]/g, '') || message.channelId;
-        const result = await this.discordService.getPinnedMessages(channelId);
+        const result = formatPinnedMessages(await this.discordService.getPinnedMessages(channelId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1554,7 +1690,7 @@ export class PrefixCommandHandler {
           await message.reply('Usage: `!attachments [#channel] <messageId>`');
           return;
         }
-        const result = await this.discordService.getMessageAttachments(channelId, messageId);
+        const result = formatMessageAttachments(await this.discordService.getMessageAttachments(channelId, messageId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -1615,7 +1751,7 @@ export class PrefixCommandHandler {
           await message.reply('Usage: `!readdms <@user> [count]`');
           return;
         }
-        const result = await this.discordService.readPrivateMessages(userId, count);
+        const result = formatMessages(await this.discordService.readPrivateMessages(userId, count));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1707,7 +1843,7 @@ export class PrefixCommandHandler {
       }
 
       case 'threads': {
-        const result = await this.discordService.getActiveThreads(guildId);
+        const result = formatActiveThreads(await this.discordService.getActiveThreads(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -1737,7 +1873,7 @@ export class PrefixCommandHandler {
       case 'listwebhooks':
       case 'webhooks': {
         const channelId = args[0]?.replace(/[<#>]/g, '') || message.channelId;
-        const result = await this.discordService.listWebhooks(channelId);
+        const result = formatWebhooks(await this.discordService.listWebhooks(channelId));
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -1775,22 +1911,41 @@ export class PrefixCommandHandler {
       // VOICE (with Creator Priority)
       // ============================================
 
-      // Creator-only: Lock voice commands
+      // Creator and DJs: lock voice commands, optionally to their channel
       case 'lockvoice':
       case 'vlock': {
-        if (!isCreator(message.author.id)) {
-          await message.reply(`❌ Only ${getCreatorName()} can lock voice commands.`);
+        if (!isVoiceController(guildId, message.author.id, message.member)) {
+          await message.reply(`❌ Only ${getCreatorName()} and members with the DJ role can lock voice commands.`);
           return;
         }
 
-        // Get creator's current voice channel if they're in one
-        const member = message.member;
-        const voiceChannelId = member?.voice?.channelId;
+        // !lockvoice [here] [minutes]
+        let scope: LockScope = 'guild';
+        let minutes = DEFAULT_LOCK_MINUTES;
+        for (const arg of args) {
+          if (arg.toLowerCase() === 'here') {
+            scope = 'channel';
+          } else if (/^\d+$/.test(arg) && parseInt(arg) >= 1 && parseInt(arg) <= MAX_LOCK_MINUTES) {
+            minutes = parseInt(arg);
+          } else {
+            await message.reply(`Usage: \`!lockvoice [here] [minutes]\` - \`here\` still lets everyone in your voice channel control the bot. Minutes: 1-${MAX_LOCK_MINUTES} (default ${DEFAULT_LOCK_MINUTES}).`);
+            return;
+          }
+        }
+
+        // Get the locker's current voice channel if they're in one
+        const voiceChannelId = message.member?.voice?.channelId;
+        if (scope === 'channel' && !voiceChannelId) {
+          await message.reply('❌ Join a voice channel to lock voice commands to it.');
+          return;
+        }
 
-        if (lockVoice(guildId, message.author.id, voiceChannelId || undefined)) {
-          await message.reply(`🔒 Voice commands locked! Only you can control the bot now, ${getCreatorName()}.`);
+        if (lockVoice(guildId, message.author.id, message.member, { channelId: voiceChannelId || undefined, scope, minutes })) {
+          await message.reply(scope === 'channel'
+            ? `🔒 Voice commands locked to <#${voiceChannelId}> for ${minutes} minute(s). DJs and everyone in that channel can control the bot.`
+            : `🔒 Voice commands locked for ${minutes} minute(s). Only DJs can control the bot now.`);
 
-          // If creator is in a voice channel, auto-join them
+          // If the locker is in a voice channel, auto-join them
           if (voiceChannelId) {
             await this.discordService.joinVoiceChannel(guildId, voiceChannelId);
             await message.reply(`🎤 Joined your voice channel!`);
@@ -1799,33 +1954,82 @@ export class PrefixCommandHandler {
         break;
       }
 
-      // Creator-only: Unlock voice commands
+      // Creator, DJs and the lock holder: unlock voice commands
       case 'unlockvoice':
       case 'vunlock': {
-        if (!isCreator(message.author.id)) {
-          await message.reply(`❌ Only ${getCreatorName()} can unlock voice commands.`);
+        if (!isVoiceLocked(guildId)) {
+          await message.reply('🔓 Voice commands are not locked.');
           return;
         }
 
-        if (unlockVoice(guildId, message.author.id)) {
+        if (unlockVoice(guildId, message.author.id, message.member)) {
           await message.reply(`🔓 Voice commands unlocked! Everyone can control the bot now.`);
+        } else {
+          await message.reply(`❌ Only ${getCreatorName()}, members with the DJ role and whoever locked it can unlock voice commands.`);
+        }
+        break;
+      }
+
+      case 'djrole': {
+        const roleArg = args[0]?.toLowerCase();
+        if (!roleArg) {
+          const djRoleId = getDjRoleId(guildId);
+          await message.reply({
+            content: djRoleId
+              ? `🎧 DJ role: <@&${djRoleId}>. DJs can lock voice commands and always control the bot.`
+              : '🎧 No DJ role set. Usage: `!djrole @role` or `!djrole off`',
+            allowedMentions: { parse: [] }
+          });
+          return;
+        }
+
+        const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+        if (!isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+          await message.reply('🔒 Setting the DJ role requires the Manage Server permission.');
+          return;
         }
+
+        if (roleArg === 'off' || roleArg === 'none') {
+          setDjRoleId(guildId, null);
+          await message.reply('✅ DJ role cleared. Only the creator can lock voice commands now.');
+          return;
+        }
+
+        const role = message.mentions.roles.first() || message.guild!.roles.cache.get(args[0]);
+        if (!role) {
+          await message.reply('❌ Role not found. Usage: `!djrole @role` or `!djrole off`');
+          return;
+        }
+        setDjRoleId(guildId, role.id);
+        await message.reply({ content: `✅ DJ role set to <@&${role.id}>.`, allowedMentions: { parse: [] } });
+        break;
+      }
+
+      case 'autovoice':
+      case 'voicepolicy': {
+        await this.handleAutoVoiceCommand(message, args);
+        break;
+      }
+
+      case 'voicestats':
+      case 'voicetop': {
+        await this.handleVoiceStatsCommand(message, command === 'voicetop' ? ['top', ...args] : args);
         break;
       }
 
       // Check voice lock status
       case 'voicestatus':
       case 'vstatus': {
-        await message.reply(getLockStatus(guildId));
+        await message.reply({ content: getLockStatus(guildId), allowedMentions: { parse: [] } });
         break;
       }
 
       case 'voicejoin':
       case 'join': {
         // Check voice priority
-        const voiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const voiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!voiceCheck.allowed) {
-          await message.reply(voiceCheck.reason!);
+          await message.reply(voiceCheck.reason!.message);
           return;
         }
 
@@ -1863,9 +2067,9 @@ export class PrefixCommandHandler {
       case 'voiceleave':
       case 'leave': {
         // Check voice priority
-        const voiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const voiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!voiceCheck.allowed) {
-          await message.reply(voiceCheck.reason!);
+          await message.reply(voiceCheck.reason!.message);
           return;
         }
 
@@ -1878,15 +2082,28 @@ export class PrefixCommandHandler {
       case 'speak':
       case 'tts': {
         // Check voice priority
-        const voiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const voiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!voiceCheck.allowed) {
-          await message.reply(voiceCheck.reason!);
+          await message.reply(voiceCheck.reason!.message);
           return;
         }
 
+        // Leading rate=/pitch=/volume= options, e.g. !say rate=fast pitch=+2st Hello
+        const speechOptions: SpeechOptions = {};
+        while (args.length > 0 && /^(rate|pitch|volume)=\S+$/i.test(args[0])) {
+          const [option, value] = args.shift()!.split('=');
+          speechOptions[option.toLowerCase() as keyof SpeechOptions] = value;
+        }
+
         const text = args.join(' ').trim();
         if (!text) {
-          await message.reply('Usage: `!say <text>` - Example: `!say Hello everyone!`');
+          await message.reply('Usage: `!say [rate=fast] [pitch=+2st] [volume=loud] <text>` - Example: `!say Hello everyone!`\nText wrapped in `<speak>...</speak>` is read as SSML.');
+          return;
+        }
+        try {
+          validateSpeechOptions(speechOptions);
+        } catch (error) {
+          await message.reply(`❌ ${(error as Error).message}`);
           return;
         }
         if (text.length > 500) {
@@ -1899,11 +2116,55 @@ export class PrefixCommandHandler {
           await message.reply('❌ I cannot say that. ' + contentCheck.reason);
           return;
         }
-        const result = await this.discordService.speakText(guildId, text);
+        const result = await this.discordService.speakText(guildId, text, undefined, speechOptions);
         await message.reply(result);
         break;
       }
 
+      case 'pronounce':
+      case 'pronunciation': {
+        const store = getPronunciationStore();
+        const sub = args[0]?.toLowerCase();
+
+        if (!sub || sub === 'list') {
+          const entries = Object.entries(store.list(guildId));
+          await message.reply(entries.length > 0
+            ? `🗣️ **Pronunciations:**\n${entries.map(([word, replacement]) => `• \`${word}\` → ${replacement}`).join('\n')}\n\nUsage: \`!pronounce <word> <how to say it>\`, \`!pronounce remove <word>\``
+            : '🗣️ No pronunciations yet. Usage: `!pronounce <word> <how to say it>`');
+          return;
+        }
+
+        const pronounceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!pronounceCheck.allowed) {
+          await message.reply(pronounceCheck.reason!.message);
+          return;
+        }
+
+        if (sub === 'remove' || sub === 'delete') {
+          if (!args[1]) {
+            await message.reply('Usage: `!pronounce remove <word>`');
+            return;
+          }
+          await message.reply(store.remove(guildId, args[1])
+            ? `✅ Removed the pronunciation for **${args[1]}**`
+            : `❌ No custom pronunciation for **${args[1]}**`);
+          return;
+        }
+
+        const replacement = args.slice(1).join(' ');
+        if (!replacement) {
+          await message.reply('Usage: `!pronounce <word> <how to say it>` - Example: `!pronounce GIF jif`');
+          return;
+        }
+        try {
+          store.set(guildId, args[0], replacement);
+          await message.reply(`✅ **${args[0]}** will be spoken as "${replacement}"`);
+        } catch (error) {
+          await message.reply(`❌ ${(error as Error).message}`);
+        }
+        break;
+      }
+
       // Voice listing and selection
       case 'voices':
       case 'listvoices': {
@@ -1941,9 +2202,9 @@ export class PrefixCommandHandler {
       case 'setvoice':
       case 'changevoice': {
         // Check voice priority - only creator can change when locked
-        const setVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const setVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!setVoiceCheck.allowed) {
-          await message.reply(setVoiceCheck.reason!);
+          await message.reply(setVoiceCheck.reason!.message);
           return;
         }
 
@@ -1975,9 +2236,9 @@ export class PrefixCommandHandler {
       case 'previewvoice':
       case 'testvoice': {
         // Check voice priority
-        const previewCheck = canUseVoiceCommand(guildId, message.author.id);
+        const previewCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!previewCheck.allowed) {
-          await message.reply(previewCheck.reason!);
+          await message.reply(previewCheck.reason!.message);
           return;
         }
 
@@ -2014,90 +2275,65 @@ export class PrefixCommandHandler {
           return;
         }
 
-        const aiService = getAIService();
-
         // Show typing indicator while processing
         await (message.channel as TextChannel).sendTyping();
 
-        // Callback to notify user when provider fails and retrying
-        const onRetry: OnRetryCallback = async (failedProvider, nextProvider, error) => {
-          try {
-            await (message.channel as TextChannel).send(`⚠️ \`${failedProvider}\` failed, trying \`${nextProvider}\`...`);
-            await (message.channel as TextChannel).sendTyping();
-          } catch {
-            // Ignore errors sending retry message
-          }
-        };
+        await this.streamAIReply(message, question, undefined, 'AI error: ');
+        break;
+      }
 
-        try {
-          let response = await aiService.chat(question, undefined, onRetry);
+      case 'forget': {
+        await this.forgetConversation(message);
+        break;
+      }
 
-          // Content filter - don't send inappropriate AI responses
-          const aiContentCheck = SecurityUtils.containsBlockedContent(response);
-          if (aiContentCheck.blocked) {
-            response = "I can't respond to that in an appropriate way. Let's talk about something else!";
-          }
+      case 'aistatus': {
+        await message.reply(this.formatAIStatus());
+        break;
+      }
 
-          // Split long responses if needed
-          if (response.length > 1900) {
-            await message.reply(response.substring(0, 1900) + '...');
-          } else {
-            await message.reply(response);
-          }
-        } catch (error) {
-          await message.reply(`AI error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+      case 'listen':
+      case 'listening': {
+        await this.handleListenCommand(message, args);
+        break;
+      }
+
+      case 'ptt':
+      case 'pushtotalk': {
+        await this.armPushToTalk(message);
+        break;
+      }
+
+      case 'persona':
+      case 'personas': {
+        await this.handlePersonaCommand(message, args);
         break;
       }
 
       case 'voiceask': {
         const question = args.join(' ').trim();
         if (!question) {
-          await message.reply('Usage: `!voice <question>` - Bot will respond AND speak in voice channel');
+          // Ask out loud instead, when listening is on in the bot's voice channel
+          if (getVoiceListener().isListening(guildId)) {
+            await this.armPushToTalk(message);
+          } else {
+            await message.reply('Usage: `!voiceask <question>` - Bot will respond AND speak in voice channel\nWith `!listen` on, `!voiceask` alone lets you ask by speaking.');
+          }
           return;
         }
 
-        const aiService = getAIService();
-
         // Show typing indicator while processing
         await (message.channel as TextChannel).sendTyping();
 
-        // Callback to notify user when provider fails and retrying
-        const onRetry: OnRetryCallback = async (failedProvider, nextProvider, error) => {
-          try {
-            await (message.channel as TextChannel).send(`⚠️ \`${failedProvider}\` failed, trying \`${nextProvider}\`...`);
-            await (message.channel as TextChannel).sendTyping();
-          } catch {
-            // Ignore errors sending retry message
-          }
-        };
-
-        try {
-          let response = await aiService.chat(question, undefined, onRetry);
-
-          // Content filter - don't send or speak inappropriate AI responses
-          const voiceAiCheck = SecurityUtils.containsBlockedContent(response);
-          if (voiceAiCheck.blocked) {
-            response = "I can't respond to that in an appropriate way. Let's talk about something else!";
-          }
-
-          // Reply in text channel
-          if (response.length > 1900) {
-            await message.reply(response.substring(0, 1900) + '...');
-          } else {
-            await message.reply(response);
-          }
-
+        const response = await this.streamAIReply(message, question, undefined, 'AI error: ');
+        if (response) {
           // Also speak it in voice channel if bot is connected
           try {
-            // Truncate for TTS (max 500 chars)
-            const ttsText = response.length > 500 ? response.substring(0, 497) + '...' : response;
-            await this.discordService.speakText(guildId, ttsText);
+            // Long answers are spoken sentence by sentence, up to TTS_MAX_CHARS
+            await this.discordService.speakText(guildId, response, this.getPersona(message).voice);
           } catch {
             // Bot not in voice channel - that's okay, just don't speak
           }
-        } catch (error) {
-          await message.reply(`AI error: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
         break;
       }
@@ -2185,15 +2421,15 @@ export class PrefixCommandHandler {
       case 'p':
       case 'music': {
         // Check voice priority
-        const playVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const playVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!playVoiceCheck.allowed) {
-          await message.reply(playVoiceCheck.reason!);
+          await message.reply(playVoiceCheck.reason!.message);
           return;
         }
 
         const query = args.join(' ');
         if (!query) {
-          await message.reply('🎵 **Music Commands:**\n`!play <song name or YouTube/Spotify URL>` - Play a song\n`!skip` - Skip current song\n`!stop` - Stop and clear queue\n`!pause` - Pause playback\n`!resume` - Resume playback\n`!queue` / `!q` - View queue\n`!np` - Now playing\n`!volume <0-150>` - Set volume\n`!loop` - Toggle loop');
+          await message.reply('🎵 **Music Commands:**\n`!play <song name or YouTube/Spotify/SoundCloud URL>` - Play a song, playlist or album\n`!skip` - Skip current song\n`!voteskip` - Vote to skip (majority of listeners)\n`!stop` - Stop and clear queue\n`!pause` - Pause playback\n`!resume` - Resume playback\n`!queue` / `!q` - View queue\n`!np` - Now playing\n`!volume <0-200>` - Set volume (`!volume tts <n>` for TTS)\n`!loop [off|track|queue]` - Set or cycle the loop mode\n`!shuffle` - Shuffle the queue\n`!remove <n>` - Remove a track\n`!move <from> <to>` - Move a track\n`!jump <n>` - Skip to a track\n`!seek <mm:ss>` - Seek in the current track\n`!clearqueue` - Clear upcoming tracks\n`!songhistory` - Recently played');
           return;
         }
 
@@ -2218,9 +2454,9 @@ export class PrefixCommandHandler {
 
       case 'skip':
       case 's': {
-        const playVoiceCheck2 = canUseVoiceCommand(guildId, message.author.id);
+        const playVoiceCheck2 = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!playVoiceCheck2.allowed) {
-          await message.reply(playVoiceCheck2.reason!);
+          await message.reply(`${playVoiceCheck2.reason!.message}\nUse \`!voteskip\` to vote to skip instead.`);
           return;
         }
 
@@ -2229,10 +2465,17 @@ export class PrefixCommandHandler {
         break;
       }
 
+      case 'voteskip':
+      case 'vs': {
+        const voteResult = musicService.voteSkip(message.member!);
+        await message.reply(voteResult.message);
+        break;
+      }
+
       case 'stop': {
-        const stopVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const stopVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!stopVoiceCheck.allowed) {
-          await message.reply(stopVoiceCheck.reason!);
+          await message.reply(stopVoiceCheck.reason!.message);
           return;
         }
 
@@ -2242,9 +2485,9 @@ export class PrefixCommandHandler {
       }
 
       case 'pause': {
-        const pauseVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const pauseVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!pauseVoiceCheck.allowed) {
-          await message.reply(pauseVoiceCheck.reason!);
+          await message.reply(pauseVoiceCheck.reason!.message);
           return;
         }
 
@@ -2255,9 +2498,9 @@ export class PrefixCommandHandler {
 
       case 'resume':
       case 'unpause': {
-        const resumeVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const resumeVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!resumeVoiceCheck.allowed) {
-          await message.reply(resumeVoiceCheck.reason!);
+          await message.reply(resumeVoiceCheck.reason!.message);
           return;
         }
 
@@ -2291,37 +2534,168 @@ export class PrefixCommandHandler {
 
       case 'volume':
       case 'vol': {
-        const volVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        if (!args[0]) {
+          const audio = getAudioSettings().get(guildId);
+          await message.reply(`🔊 Volume **${audio.volume}%** • TTS **${audio.ttsVolume}%** of that • Loudness normalisation **${audio.normalize ? 'on' : 'off'}**\nUsage: \`!volume <0-${MAX_VOLUME}>\`, \`!volume tts <0-${MAX_VOLUME}>\`, \`!volume normalize on|off\``);
+          return;
+        }
+
+        const volVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!volVoiceCheck.allowed) {
-          await message.reply(volVoiceCheck.reason!);
+          await message.reply(volVoiceCheck.reason!.message);
           return;
         }
 
-        const vol = parseInt(args[0]);
-        if (isNaN(vol) || vol < 0 || vol > 150) {
-          await message.reply('Usage: `!volume <0-150>`');
+        const volOption = args[0].toLowerCase();
+        if (volOption === 'normalize' || volOption === 'normalise') {
+          const toggle = args[1]?.toLowerCase();
+          if (toggle !== 'on' && toggle !== 'off') {
+            await message.reply('Usage: `!volume normalize on|off`');
+            return;
+          }
+          await this.discordService.setVolume(guildId, undefined, { normalize: toggle === 'on' });
+          await message.reply(`🎚️ Loudness normalisation **${toggle}** (applies from the next track or TTS line)`);
+          return;
+        }
+
+        const isTts = volOption === 'tts';
+        const vol = parseInt(isTts ? args[1] : args[0]);
+        if (isNaN(vol) || vol < 0 || vol > MAX_VOLUME) {
+          await message.reply(`Usage: \`!volume <0-${MAX_VOLUME}>\` or \`!volume tts <0-${MAX_VOLUME}>\``);
           return;
         }
-        const volResult = musicService.setVolume(guildId, vol);
-        await message.reply(volResult.message);
+        await this.discordService.setVolume(guildId, isTts ? undefined : vol, isTts ? { ttsVolume: vol } : {});
+        await message.reply(isTts ? `🗣️ TTS volume set to **${vol}%** of the main volume` : `🔊 Volume set to **${vol}%**`);
         break;
       }
 
       case 'loop':
       case 'repeat': {
-        const loopVoiceCheck = canUseVoiceCommand(guildId, message.author.id);
+        const loopVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
         if (!loopVoiceCheck.allowed) {
-          await message.reply(loopVoiceCheck.reason!);
+          await message.reply(loopVoiceCheck.reason!.message);
           return;
         }
 
-        const loopResult = musicService.toggleLoop(guildId);
+        const loopMode = args[0]?.toLowerCase();
+        if (loopMode && !LOOP_MODES.includes(loopMode as LoopMode)) {
+          await message.reply('Usage: `!loop [off|track|queue]`');
+          return;
+        }
+        const loopResult = musicService.setLoopMode(guildId, loopMode as LoopMode | undefined);
         await message.reply(loopResult.message);
         break;
       }
 
+      case 'shuffle': {
+        const shuffleVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!shuffleVoiceCheck.allowed) {
+          await message.reply(shuffleVoiceCheck.reason!.message);
+          return;
+        }
+
+        const shuffleResult = musicService.shuffle(guildId);
+        await message.reply(shuffleResult.message);
+        break;
+      }
+
+      case 'remove': {
+        const removeVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!removeVoiceCheck.allowed) {
+          await message.reply(removeVoiceCheck.reason!.message);
+          return;
+        }
+
+        const removePosition = parseInt(args[0]);
+        if (isNaN(removePosition)) {
+          await message.reply('Usage: `!remove <position>` (see `!queue`)');
+          return;
+        }
+        const removeResult = musicService.remove(guildId, removePosition);
+        await message.reply(removeResult.message);
+        break;
+      }
+
+      case 'move': {
+        const moveVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!moveVoiceCheck.allowed) {
+          await message.reply(moveVoiceCheck.reason!.message);
+          return;
+        }
+
+        const moveFrom = parseInt(args[0]);
+        const moveTo = parseInt(args[1]);
+        if (isNaN(moveFrom) || isNaN(moveTo)) {
+          await message.reply('Usage: `!move <from> <to>` (see `!queue`)');
+          return;
+        }
+        const moveResult = musicService.move(guildId, moveFrom, moveTo);
+        await message.reply(moveResult.message);
+        break;
+      }
+
+      case 'jump':
+      case 'skipto': {
+        const jumpVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!jumpVoiceCheck.allowed) {
+          await message.reply(jumpVoiceCheck.reason!.message);
+          return;
+        }
+
+        const jumpPosition = parseInt(args[0]);
+        if (isNaN(jumpPosition)) {
+          await message.reply('Usage: `!jump <position>` (see `!queue`)');
+          return;
+        }
+        const jumpResult = musicService.jump(guildId, jumpPosition);
+        await message.reply(jumpResult.message);
+        break;
+      }
+
+      case 'seek': {
+        const seekVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!seekVoiceCheck.allowed) {
+          await message.reply(seekVoiceCheck.reason!.message);
+          return;
+        }
+
+        const seekSeconds = parseTimestamp(args[0] || '');
+        if (seekSeconds === null) {
+          await message.reply('Usage: `!seek <mm:ss>` (or `hh:mm:ss`, or seconds)');
+          return;
+        }
+        const seekResult = await musicService.seek(guildId, seekSeconds);
+        await message.reply(seekResult.message);
+        break;
+      }
+
+      case 'clearqueue':
+      case 'cq': {
+        const clearVoiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+        if (!clearVoiceCheck.allowed) {
+          await message.reply(clearVoiceCheck.reason!.message);
+          return;
+        }
+
+        const clearResult = musicService.clearQueue(guildId);
+        await message.reply(clearResult.message);
+        break;
+      }
+
+      // !history is taken by channel message history
+      case 'songhistory':
+      case 'played': {
+        const historyEmbed = musicService.getHistoryEmbed(guildId);
+        if (historyEmbed) {
+          await message.reply({ embeds: [historyEmbed] });
+        } else {
+          await message.reply('📜 Nothing has been played in this server yet.');
+        }
+        break;
+      }
+
       case 'voiceconnections': {
-        const result = await this.discordService.getVoiceConnections();
+        const result = formatVoiceConnections(await this.discordService.getVoiceConnections());
         await message.reply(`\`\`\`\n${result}\n\`\`\``);
         break;
       }
@@ -2354,7 +2728,7 @@ export class PrefixCommandHandler {
       }
 
       case 'events': {
-        const result = await this.discordService.getEvents(guildId);
+        const result = formatEvents(await this.discordService.getEvents(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -2383,7 +2757,7 @@ export class PrefixCommandHandler {
       }
 
       case 'invites': {
-        const result = await this.discordService.getInvites(guildId);
+        const result = formatInvites(await this.discordService.getInvites(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -2415,7 +2789,7 @@ export class PrefixCommandHandler {
       }
 
       case 'emojis': {
-        const result = await this.discordService.getEmojis(guildId);
+        const result = formatEmojis(await this.discordService.getEmojis(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -2449,7 +2823,7 @@ export class PrefixCommandHandler {
       }
 
       case 'stickers': {
-        const result = await this.discordService.getStickers(guildId);
+        const result = formatStickers(await this.discordService.getStickers(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -2459,7 +2833,7 @@ export class PrefixCommandHandler {
       // ============================================
       case 'automodrules':
       case 'automod': {
-        const result = await this.discordService.getAutomodRules(guildId);
+        const result = formatAutomodRules(await this.discordService.getAutomodRules(guildId));
         await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
         break;
       }
@@ -2707,10 +3081,13 @@ export class PrefixCommandHandler {
           await message.reply('Usage: `!getban <userId>`');
           return;
         }
-        // We don't have getBan specifically, but getBans works
         const result = await this.discordService.getBans(guildId);
-        // Filter to find specific user
-        await message.reply(`\`\`\`\n${result.substring(0, 1900)}\n\`\`\``);
+        const ban = result.bans.find(b => b.userId === userId);
+        if (!ban) {
+          await message.reply(`❌ User ${userId} is not banned.`);
+          return;
+        }
+        await message.reply(`\`\`\`\n${formatBans({ ...result, bans: [ban] })}\n\`\`\``);
         break;
       }
 
@@ -3044,13 +3421,18 @@ export class PrefixCommandHandler {
         const helpMessages = [
           `**📋 Bot Commands (1/2)**
 
-**Info:** \`!ping\` \`!serverinfo\` \`!up\` \`!channels\` \`!roles\` \`!members\` \`!memberinfo\` \`!structure\` \`!widget\` \`!preview\` \`!vanityurl\` \`!integrations\` \`!voiceregions\`
+**Info:** \`!ping\` \`!serverinfo\` \`!serverstats\` \`!up\` \`!channels\` \`!roles\` \`!members\` \`!memberinfo\` \`!structure\` \`!widget\` \`!preview\` \`!vanityurl\` \`!integrations\` \`!voiceregions\`
 
 **World of Warships:**
-  • \`!wows PlayerName\` - Player stats
+  • \`!wows PlayerName\` - Player stats; \`!stats\` alone or \`!stats @member\` for linked accounts
   • \`!ships PlayerName\` - Top 10 ships by battles
   • \`!allships PlayerName\` - ALL ships (grouped by tier)
   • \`!clan DROVA\` - Clan info by tag or name
+  • \`!progress PlayerName 30d\` - Recent form and stat changes
+  • \`!link PlayerName\` - Link your account (Wargaming sign-in); \`!unlink\` to remove
+  • \`!wowsroles\` - Roles for linked members by clan, clan rank and PR
+  • \`!clanwatch add DROVA #channel\` - Announce joins, leaves and inactivity
+  • Add \`@eu\`/\`@asia\` to a name for another server; \`!wowsregion\` sets the default
 
 **Channels:** \`!createchannel\` \`!createvoice\` \`!createforum\` \`!createannouncement\` \`!createstage\` \`!deletechannel\` \`!editchannel\` \`!movechannel\` \`!setchannelpositions\` \`!setchannelperms\` \`!bulkprivacy\`
 
@@ -3068,7 +3450,7 @@ export class PrefixCommandHandler {
 
           `**📋 Bot Commands (2/2)**
 
-**AI Chat:** \`!ask\` \`!voice\` or just @mention the bot
+**AI Chat:** \`!ask\` \`!voice\` \`!forget\` \`!aistatus\` \`!persona\` or just @mention the bot (remembers the conversation per channel; \`!forget\` resets it)
 
 **Image Generation:** \`!image\` \`!imagine\` \`!img\` \`!imagemodels\`
   • Example: \`!image a battleship at sunset\`
@@ -3077,9 +3459,9 @@ export class PrefixCommandHandler {
 
 **Webhooks:** \`!createwebhook\` \`!deletewebhook\` \`!webhooks\` \`!webhooksend\`
 
-**Voice/TTS:** \`!join\` \`!leave\` \`!say\` \`!voices\` \`!setvoice\` \`!lockvoice\` \`!unlockvoice\` \`!voicestatus\`
+**Voice/TTS:** \`!join\` \`!leave\` \`!say\` \`!pronounce\` \`!listen\` \`!ptt\` \`!autovoice\` \`!voices\` \`!setvoice\` \`!lockvoice\` \`!unlockvoice\` \`!djrole\` \`!voicestatus\` \`!voicestats\`
 
-**Music:** \`!play\` \`!skip\` \`!stop\` \`!pause\` \`!resume\` \`!queue\` \`!np\` \`!volume\` \`!loop\`
+**Music:** \`!play\` \`!skip\` \`!voteskip\` \`!stop\` \`!pause\` \`!resume\` \`!queue\` \`!np\` \`!volume\` \`!loop\` \`!shuffle\` \`!remove\` \`!move\` \`!jump\` \`!seek\` \`!clearqueue\` \`!songhistory\`
 
 **Events:** \`!createevent\` \`!editevent\` \`!deleteevent\` \`!events\`
 
@@ -3187,75 +3569,1084 @@ export class PrefixCommandHandler {
   }
 
   /**
-   * Handle @bot mentions for natural AI chat
+   * Conversation memory key for a message: shared per channel, private per user in DMs
    */
-  private async handleMention(message: Message): Promise<void> {
-    const aiService = getAIService();
+  private getConversation(message: Message): ConversationRef {
+    return {
+      id: getConversationId(message.channelId, message.channel.isDMBased(), message.author.id),
+      author: message.member?.displayName || message.author.username
+    };
+  }
 
-    // Remove the bot mention from the message to get the actual question
-    const question = message.content
-      .replace(/<@!?\d+>/g, '') // Remove all mentions
-      .trim();
+  /**
+   * The AI persona for the message's channel (threads use their parent's)
+   */
+  private getPersona(message: Message): AIPersona {
+    const parentId = message.channel.isThread() ? message.channel.parentId : null;
+    return getPersonaStore().resolve(message.guildId, message.channelId, parentId);
+  }
 
-    if (!question) {
-      await message.reply("Hey! You can ask me anything. Just @mention me with your question!");
+  /**
+   * AI chat options for a message: its conversation memory, and tools scoped
+   * to the asking member's permissions in this guild
+   */
+  private getChatOptions(message: Message): ChatOptions {
+    return {
+      conversation: this.getConversation(message),
+      persona: this.getPersona(message),
+      tools: {
+        discordService: this.discordService,
+        channelId: message.channelId,
+        guildId: message.guildId || undefined,
+        member: message.member
+      }
+    };
+  }
+
+  /**
+   * !persona list|show|create|edit|delete|set|unset
+   * Anything other than list and show needs Manage Server.
+   */
+  private async handlePersonaCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const store = getPersonaStore();
+    const subcommand = (args[0] || 'list').toLowerCase();
+    const name = args[1]?.toLowerCase();
+
+    const usage = '**Usage:**\n' +
+      '`!persona list` - Personas in this server\n' +
+      '`!persona show <name>` - Prompt and settings\n' +
+      '`!persona create <name> [options] <system prompt>`\n' +
+      '`!persona edit <name> [options] [new system prompt]`\n' +
+      '`!persona delete <name>`\n' +
+      '`!persona set <name> [#channel|here]` - Server default, or override for a channel\n' +
+      '`!persona unset [#channel|here]` - Remove a channel override\n' +
+      'Options: `--temperature=0.3` `--max-tokens=800` `--provider=groq` `--model=<model>` `--voice=Guy` (`none` clears a setting when editing)';
+
+    if (subcommand === 'list') {
+      const assignments = store.getAssignments(guildId);
+      const active = this.getPersona(message);
+      const lines = store.list(guildId).map(persona => {
+        const channels = Object.entries(assignments.channels)
+          .filter(([, assigned]) => assigned === persona.name)
+          .map(([channelId]) => `<#${channelId}>`);
+        const tags = [
+          persona.name === assignments.defaultPersona ? 'server default' : '',
+          persona.name === active.name ? 'active here' : '',
+          channels.length > 0 ? channels.join(' ') : ''
+        ].filter(Boolean);
+        return `• **${persona.name}**${persona.builtIn ? ' (built-in)' : ''}${tags.length > 0 ? ` - ${tags.join(', ')}` : ''}`;
+      });
+      await message.reply(`🎭 **AI Personas**\n${lines.join('\n')}`.substring(0, 1990));
       return;
     }
 
-    // Rate limiting for mentions
-    const cooldownCheck = SecurityUtils.checkCooldown(message.author.id, 'ai_mention', 5000);
-    if (!cooldownCheck.allowed) {
-      const remainingSec = Math.ceil((cooldownCheck.remainingMs || 0) / 1000);
-      await message.reply(`Please wait ${remainingSec}s before asking again.`);
+    if (subcommand === 'show') {
+      const persona = name ? store.get(guildId, name) : this.getPersona(message);
+      if (!persona) {
+        await message.reply(`❌ Persona "${name}" not found. Use \`!persona list\` to see them.`);
+        return;
+      }
+      await message.reply(this.formatPersona(persona));
       return;
     }
 
-    // Show typing indicator while processing
-    if ('sendTyping' in message.channel) {
-      await message.channel.sendTyping();
+    if (!['create', 'edit', 'delete', 'set', 'unset'].includes(subcommand)) {
+      await message.reply(usage);
+      return;
     }
 
-    // Callback to notify user when provider fails and retrying
-    const onRetry: OnRetryCallback = async (failedProvider, nextProvider, error) => {
-      try {
-        await (message.channel as TextChannel).send(`⚠️ \`${failedProvider}\` failed, trying \`${nextProvider}\`...`);
-        if ('sendTyping' in message.channel) {
-          await message.channel.sendTyping();
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    if (!isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+      await message.reply('🔒 Managing AI personas requires the Manage Server permission.');
+      return;
+    }
+
+    // Channel target for set/unset: a channel mention, "here", or nothing (server default)
+    const parseChannel = (arg: string | undefined): string | undefined =>
+      arg?.toLowerCase() === 'here' ? message.channelId : arg?.replace(/[<#>]/g, '') || undefined;
+
+    switch (subcommand) {
+      case 'create':
+      case 'edit': {
+        if (!name) {
+          await message.reply(usage);
+          return;
         }
-      } catch {
-        // Ignore errors sending retry message
-      }
-    };
 
-    try {
-      // Add context about who's asking
-      const context = `User ${message.author.username} is asking in the ${message.guild?.name || 'DM'} server.`;
-      let response = await aiService.chat(question, context, onRetry);
+        // Read the prompt from the raw message so line breaks survive
+        const rest = message.content.replace(/^\S+\s+\S+\s+\S+\s*/, '');
+        const { options, text } = this.parsePersonaOptions(rest);
 
-      // Content filter - don't send or speak inappropriate AI responses
-      const mentionAiCheck = SecurityUtils.containsBlockedContent(response);
-      if (mentionAiCheck.blocked) {
-        response = "I can't respond to that in an appropriate way. Let's talk about something else!";
+        if (subcommand === 'create') {
+          const persona = store.create(guildId, name, {
+            ...this.withoutNulls(options),
+            systemPrompt: text,
+            createdBy: message.author.tag
+          });
+          await message.reply(`✅ Created persona **${persona.name}**. Use \`!persona set ${persona.name}\` to use it server-wide or \`!persona set ${persona.name} here\` for this channel.${this.getProviderWarning(persona)}`);
+        } else {
+          const persona = store.update(guildId, name, { ...options, systemPrompt: text || undefined });
+          await message.reply(`✅ Updated persona **${persona.name}**.${this.getProviderWarning(persona)}`);
+        }
+        return;
+      }
+
+      case 'delete': {
+        if (!name) {
+          await message.reply(usage);
+          return;
+        }
+        store.delete(guildId, name);
+        await message.reply(`🗑️ Deleted persona **${name}**. Channels using it now use the server default.`);
+        return;
+      }
+
+      case 'set': {
+        if (!name) {
+          await message.reply(usage);
+          return;
+        }
+        const channelId = parseChannel(args[2]);
+        if (channelId && !message.guild?.channels.cache.has(channelId)) {
+          await message.reply('❌ Channel not found in this server.');
+          return;
+        }
+        const persona = store.assign(guildId, name, channelId);
+        await message.reply(channelId
+          ? `🎭 <#${channelId}> now uses the **${persona.name}** persona.`
+          : `🎭 **${persona.name}** is now the server's default persona.`);
+        return;
+      }
+
+      case 'unset': {
+        const channelId = parseChannel(args[1]) || message.channelId;
+        const removed = store.unassign(guildId, channelId);
+        await message.reply(removed
+          ? `🎭 <#${channelId}> now uses the server default persona.`
+          : `ℹ️ <#${channelId}> has no persona override.`);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Split leading --key=value options from a persona prompt
+   * A value of "none" becomes null, which clears the setting when editing.
+   */
+  private parsePersonaOptions(input: string): { options: PersonaUpdate; text: string } {
+    const options: PersonaUpdate = {};
+    let text = input.trim();
+
+    let match: RegExpMatchArray | null;
+    while ((match = text.match(/^--([a-z-]+)=(\S+)\s*/i))) {
+      const key = match[1].toLowerCase();
+      const value = match[2];
+      const clear = value.toLowerCase() === 'none';
+      text = text.slice(match[0].length);
+
+      switch (key) {
+        case 'temperature':
+        case 'temp':
+          options.temperature = clear ? null : parseFloat(value);
+          break;
+        case 'max-tokens':
+        case 'maxtokens':
+          options.maxTokens = clear ? null : parseInt(value);
+          break;
+        case 'provider':
+          options.provider = clear ? null : value;
+          break;
+        case 'model':
+          options.model = clear ? null : value;
+          break;
+        case 'voice':
+          options.voice = clear ? null : value;
+          break;
+        default:
+          throw new Error(`Unknown persona option --${key}`);
+      }
+    }
+
+    return { options, text: text.trim() };
+  }
+
+  private withoutNulls<T extends object>(values: T): { [K in keyof T]: Exclude<T[K], null> } {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null)) as { [K in keyof T]: Exclude<T[K], null> };
+  }
+
+  private getProviderWarning(persona: AIPersona): string {
+    return persona.provider && !getAIService().getProviders().includes(persona.provider)
+      ? `\n⚠️ Provider \`${persona.provider}\` is not configured, so the normal fallback order will be used.`
+      : '';
+  }
+
+  private formatPersona(persona: AIPersona): string {
+    const settings = [
+      `Temperature: ${persona.temperature ?? 'default'}`,
+      `Max tokens: ${persona.maxTokens ?? 'default'}`,
+      `Provider: ${persona.provider ? `${persona.provider}${persona.model ? ` (${persona.model})` : ''}` : 'default'}`,
+      `Voice: ${persona.voice ?? 'server voice'}`
+    ];
+    const prompt = persona.systemPrompt.length > 1500
+      ? persona.systemPrompt.substring(0, 1500) + '...'
+      : persona.systemPrompt;
+    return `🎭 **${persona.name}**${persona.builtIn ? ' (built-in)' : ''}\n${settings.join(' · ')}\n\`\`\`\n${prompt.replace(/```/g, "'''")}\n\`\`\``;
+  }
+
+  /**
+   * Provider health for !aistatus: circuit state, success rate, latency and token usage
+   */
+  private formatAIStatus(): string {
+    const aiService = getAIService();
+    const stats = aiService.getProviderStats();
+    if (stats.length === 0) {
+      return '❌ No AI provider configured.';
+    }
+
+    const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+    const lines = stats.map(stat => {
+      const quotaUsed = stat.dailyTokenLimit !== undefined && stat.tokensToday >= stat.dailyTokenLimit;
+      const icon = quotaUsed ? '⛔' : stat.circuit === 'open' ? '🔴' : stat.circuit === 'half-open' ? '🟡' : '🟢';
+
+      const parts: string[] = [];
+      if (quotaUsed) {
+        parts.push('daily quota used up');
+      } else if (stat.circuit === 'open' && stat.retryAt) {
+        parts.push(`skipped, retry in ${formatDuration(stat.retryAt - Date.now())}`);
+      } else if (stat.circuit === 'half-open') {
+        parts.push('recovering');
+      }
+      parts.push(stat.requests > 0 ? `${stat.successes}/${stat.requests} ok` : 'no requests yet');
+      if (stat.successes > 0) {
+        parts.push(`${(stat.averageLatencyMs / 1000).toFixed(1)}s avg`);
+      }
+      parts.push(`${formatTokens(stat.tokensToday)}${stat.dailyTokenLimit !== undefined ? `/${formatTokens(stat.dailyTokenLimit)}` : ''} tokens today`);
+
+      let line = `${icon} **${stat.name}** - ${parts.join(' · ')}`;
+      if (stat.lastError && stat.lastErrorAt && (!stat.lastSuccessAt || stat.lastErrorAt > stat.lastSuccessAt)) {
+        line += `\n  └ Last error (${formatDuration(Date.now() - stat.lastErrorAt)} ago): \`${stat.lastError.substring(0, 100).replace(/`/g, "'")}\``;
+      }
+      return line;
+    });
+
+    return `🤖 **AI Provider Status** (last used: \`${aiService.getProvider()}\`)\n${lines.join('\n')}`.substring(0, 1990);
+  }
+
+  /**
+   * !listen on [wake|ptt] | off | status | consent | revoke
+   * Turning listening on or off needs Manage Server; consent is per member.
+   */
+  private async handleListenCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const listener = getVoiceListener();
+    const subcommand = (args[0] || 'status').toLowerCase();
+
+    const usage = '**Usage:**\n' +
+      '`!listen on [wake|ptt]` - Listen in your voice channel (wake word by default)\n' +
+      '`!listen off` - Stop listening in your voice channel\n' +
+      '`!listen status` - Where the bot listens and whether you agreed\n' +
+      '`!listen consent` - Agree to have your speech transcribed\n' +
+      '`!listen revoke` - Withdraw your agreement\n' +
+      `\`!ptt\` - Ask your next question out loud (${PUSH_TO_TALK_SECONDS}s)`;
+
+    if (subcommand === 'status') {
+      const channels = Object.entries(listener.listChannels(guildId)).map(([voiceChannelId, channel]) =>
+        `• <#${voiceChannelId}> - ${channel.mode === 'wake' ? `wake word "${WAKE_WORD}"` : 'push-to-talk'}, answers in <#${channel.textChannelId}>`
+      );
+      const backend = getSpeechToText();
+      await message.reply(
+        '🎙️ **Voice Listening**\n' +
+        (channels.length > 0 ? channels.join('\n') : 'Not enabled in any voice channel.') + '\n' +
+        `Transcription: ${backend ? backend.name : 'not configured'}\n` +
+        `You ${listener.hasConsent(guildId, message.author.id) ? 'have agreed' : 'have **not** agreed'} to be listened to.\n\n` +
+        usage
+      );
+      return;
+    }
+
+    if (subcommand === 'consent' || subcommand === 'optin') {
+      listener.setConsent(guildId, message.author.id, true);
+      await message.reply(`✅ The bot may now transcribe what you say in voice channels where listening is on. Start questions with "${WAKE_WORD}", or use \`!ptt\`. Use \`!listen revoke\` to stop.`);
+      return;
+    }
+
+    if (subcommand === 'revoke' || subcommand === 'optout') {
+      listener.setConsent(guildId, message.author.id, false);
+      await message.reply('✅ The bot will no longer listen to you.');
+      return;
+    }
+
+    if (!['on', 'enable', 'off', 'disable'].includes(subcommand)) {
+      await message.reply(usage);
+      return;
+    }
+
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    if (!isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+      await message.reply('🔒 Turning voice listening on or off requires the Manage Server permission.');
+      return;
+    }
+
+    const voiceChannel = message.member?.voice.channel;
+    if (!voiceChannel) {
+      await message.reply('❌ Join the voice channel first.');
+      return;
+    }
+
+    if (subcommand === 'off' || subcommand === 'disable') {
+      const disabled = listener.disable(guildId, voiceChannel.id);
+      await message.reply(disabled
+        ? `🔇 Stopped listening in **${voiceChannel.name}**.`
+        : `❌ Listening is not on in **${voiceChannel.name}**.`);
+      return;
+    }
+
+    const mode = (args[1]?.toLowerCase() || 'wake') as ListenMode;
+    if (!LISTEN_MODES.includes(mode)) {
+      await message.reply(`❌ Unknown mode "${args[1]}". Use \`wake\` or \`ptt\`.`);
+      return;
+    }
+
+    try {
+      listener.enable(guildId, voiceChannel.id, message.channelId, mode, message.author.id);
+    } catch (error) {
+      await message.reply(`❌ ${(error as Error).message}`);
+      return;
+    }
+    const how = mode === 'wake'
+      ? `start a sentence with "${WAKE_WORD}" to ask a question`
+      : 'use `!ptt`, then ask your question out loud';
+    await message.reply(
+      `🎙️ Listening is on in **${voiceChannel.name}**; answers are posted here.\n` +
+      `Only members who agree with \`!listen consent\` are heard - ${how}.` +
+      (listener.isListening(guildId) ? '' : '\nThe bot starts listening once it joins the channel (`!join`).')
+    );
+  }
+
+  /**
+   * !autovoice [home|follow|empty|idle|reconnect <value>]
+   * Shows the voice policy; changing it needs Manage Server.
+   */
+  private async handleAutoVoiceCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const presence = getVoicePresence();
+    const setting = args[0]?.toLowerCase();
+    const value = args[1]?.toLowerCase();
+
+    const usage = '**Usage:**\n' +
+      '`!autovoice home here|<channel id>|off` - Voice channel the bot joins on startup and returns to\n' +
+      '`!autovoice follow @user|me|off` - Follow a member into voice and leave with them\n' +
+      '`!autovoice empty <minutes>` - Leave after the channel is empty this long (0 = never)\n' +
+      '`!autovoice idle <minutes>` - Leave after nothing played this long (0 = never)\n' +
+      '`!autovoice reconnect on|off` - Rejoin after a connection drop';
+
+    if (!setting) {
+      const policy = presence.getPolicy(guildId);
+      await message.reply(
+        '🔊 **Voice Policy**\n' +
+        `Home channel: ${policy.homeChannelId ? `<#${policy.homeChannelId}>` : 'none'}\n` +
+        `Following: ${policy.followUserId ? `<@${policy.followUserId}>` : 'nobody'}\n` +
+        `Leave when empty: ${policy.emptyTimeoutMinutes > 0 ? `after ${policy.emptyTimeoutMinutes} min` : 'never'}\n` +
+        `Leave when idle: ${policy.idleTimeoutMinutes > 0 ? `after ${policy.idleTimeoutMinutes} min` : 'never'}\n` +
+        `Reconnect: ${policy.reconnect ? 'on' : 'off'}\n\n` +
+        usage
+      );
+      return;
+    }
+
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    if (!isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+      await message.reply('🔒 Changing the voice policy requires the Manage Server permission.');
+      return;
+    }
+
+    let changes: Partial<VoicePolicy>;
+    switch (setting) {
+      case 'home': {
+        const channelId = value === 'here' ? message.member?.voice.channelId : args[1]?.replace(/^<#(\d+)>$/, '$1');
+        if (!channelId) {
+          await message.reply(value === 'here' ? '❌ Join a voice channel first.' : usage);
+          return;
+        }
+        changes = { homeChannelId: value === 'off' ? null : channelId };
+        break;
+      }
+      case 'follow': {
+        const userId = value === 'me' ? message.author.id : message.mentions.users.first()?.id ?? (value === 'off' ? null : undefined);
+        if (userId === undefined) {
+          await message.reply(usage);
+          return;
+        }
+        changes = { followUserId: userId };
+        break;
+      }
+      case 'empty':
+      case 'idle': {
+        const minutes = Number(value);
+        if (!value || !Number.isInteger(minutes)) {
+          await message.reply(usage);
+          return;
+        }
+        changes = setting === 'empty' ? { emptyTimeoutMinutes: minutes } : { idleTimeoutMinutes: minutes };
+        break;
+      }
+      case 'reconnect': {
+        if (value !== 'on' && value !== 'off') {
+          await message.reply(usage);
+          return;
+        }
+        changes = { reconnect: value === 'on' };
+        break;
+      }
+      default:
+        await message.reply(usage);
+        return;
+    }
+
+    try {
+      await presence.updatePolicy(guildId, changes);
+      await message.reply(`✅ Voice policy updated. Use \`!autovoice\` to see it.`);
+    } catch (error) {
+      await message.reply(`❌ ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * !voicestats [top|busy|log] - voice leaderboard, busiest hours and recent activity
+   */
+  private async handleVoiceStatsCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const analytics = getVoiceAnalytics();
+    const subcommand = (args[0] || 'top').toLowerCase();
+    const days = Math.min(Math.max(parseInt(args.find(arg => /^\d+$/.test(arg)) || '') || 7, 1), 90);
+    const formatTime = (seconds: number) =>
+      seconds >= 3600 ? `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m` : `${Math.floor(seconds / 60)}m`;
+
+    if (subcommand === 'top') {
+      const board = analytics.getLeaderboard(guildId, days);
+      const lines = board.entries.map((entry, i) =>
+        `**${i + 1}.** ${entry.userName} - ${formatTime(entry.seconds)} (${entry.sessions} session${entry.sessions === 1 ? '' : 's'})`
+      );
+      await message.reply(lines.length > 0
+        ? `🎧 **Most time in voice - last ${days} day(s)**\n${lines.join('\n')}`
+        : `🎧 Nobody was in voice in the last ${days} day(s).`);
+      return;
+    }
+
+    if (subcommand === 'busy') {
+      const channelId = message.mentions.channels.first()?.id;
+      const occupancy = analytics.getOccupancy(guildId, days, channelId);
+      const lines = occupancy.busiestSlots.map(slot => {
+        const timestamp = this.nextWeeklySlot(slot.weekday, slot.hour);
+        return `• ${slot.weekday} ${slot.hour.toString().padStart(2, '0')}:00 UTC (<t:${timestamp}:t> your time) - ${slot.averageMembers} in voice on average`;
+      });
+      await message.reply(lines.length > 0
+        ? `📈 **Busiest voice hours${channelId ? ` in <#${channelId}>` : ''} - last ${days} day(s)**\n${lines.join('\n')}`
+        : `📈 No voice activity in the last ${days} day(s).`);
+      return;
+    }
+
+    if (subcommand === 'log') {
+      const user = message.mentions.users.first();
+      const events = analytics.getTimeline(guildId, { userId: user?.id, limit: 15 });
+      const icons: Record<string, string> = {
+        join: '➡️', leave: '⬅️', move: '🔀', mute: '🔇', unmute: '🔈',
+        deafen: '🙉', undeafen: '👂', stream_start: '📺', stream_end: '⏹️'
+      };
+      const lines = events.map(event => {
+        const where = event.type === 'move' ? `<#${event.fromChannelId}> → <#${event.channelId}>` : `<#${event.channelId}>`;
+        return `<t:${Math.floor(Date.parse(event.at) / 1000)}:t> ${icons[event.type]} ${event.userName} ${event.type.replace('_', ' ')} ${where}`;
+      });
+      await message.reply({
+        content: lines.length > 0 ? `🕒 **Recent voice activity**\n${lines.join('\n')}` : '🕒 No voice activity recorded yet.',
+        allowedMentions: { parse: [] }
+      });
+      return;
+    }
+
+    await message.reply('**Usage:**\n' +
+      '`!voicestats top [days]` - Most time in voice (default 7 days)\n' +
+      '`!voicestats busy [days] [#channel]` - Busiest hours of the week\n' +
+      '`!voicestats log [@user]` - Recent joins, leaves and mutes');
+  }
+
+  /**
+   * Unix time of the next occurrence of a weekday and UTC hour
+   */
+  private nextWeeklySlot(weekday: string, hour: number): number {
+    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    const now = new Date();
+    const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour));
+    slot.setUTCDate(slot.getUTCDate() + (days.indexOf(weekday) - now.getUTCDay() + 7) % 7);
+    if (slot.getTime() < now.getTime()) {
+      slot.setUTCDate(slot.getUTCDate() + 7);
+    }
+    return Math.floor(slot.getTime() / 1000);
+  }
+
+  /**
+   * !progress - a player's recent form from stat snapshots, and the watch list
+   */
+  private async handleProgressCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const tracker = getPlayerProgress();
+    const subcommand = args[0]?.toLowerCase();
+
+    if (!subcommand) {
+      await message.reply('**Usage:**\n' +
+        '`!progress <player>[@region] [7d|30d]` - Change in stats and recent-form PR (default 7 days)\n' +
+        '`!progress watch <player>[@region]` - Snapshot a player\'s stats regularly\n' +
+        '`!progress unwatch <player>` - Stop watching a player\n' +
+        '`!progress list` - Watched players');
+      return;
+    }
+
+    if (subcommand === 'list') {
+      const watched = tracker.getWatched(guildId);
+      await message.reply(watched.length > 0
+        ? `📈 **Watched players (${watched.length})**\n${watched.map(p => `• ${p.nickname} (${formatRegion(p.region)})`).join('\n')}`
+        : '📈 No players are watched yet. Use `!progress watch <player>`.');
+      return;
+    }
+
+    if (subcommand === 'watch' || subcommand === 'unwatch') {
+      if (!args[1]) {
+        await message.reply(`Usage: \`!progress ${subcommand} <player>[@region]\``);
+        return;
       }
+      const { query, region } = parseRegionalQuery(args[1]);
 
-      // Split long responses if needed
-      if (response.length > 1900) {
-        await message.reply(response.substring(0, 1900) + '...');
+      if (subcommand === 'unwatch') {
+        const player = tracker.getWatched(guildId).find(p => p.nickname.toLowerCase() === query.toLowerCase() && (!region || p.region === region));
+        const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+        if (player && player.addedBy !== message.author.id && !isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+          await message.reply('🔒 Only whoever added a player, or someone with Manage Server, can unwatch them.');
+          return;
+        }
+        const removed = tracker.unwatch(guildId, query, region);
+        await message.reply(removed
+          ? `✅ Stopped watching **${removed.nickname}** (${formatRegion(removed.region)}).`
+          : `❌ **${query}** is not on the watch list.`);
+        return;
+      }
+
+      if ('sendTyping' in message.channel) {
+        await message.channel.sendTyping();
+      }
+      try {
+        const watched = await tracker.watch(guildId, query, region ?? getGuildRegion(guildId), !region, message.author.id);
+        await message.reply(watched
+          ? `✅ Watching **${watched.nickname}** (${formatRegion(watched.region)}). Stats are snapshotted every few hours; check \`!progress ${watched.nickname}\` later.`
+          : `❌ Player "${query}" not found.`);
+      } catch (error) {
+        await message.reply(`❌ ${(error as Error).message}`);
+      }
+      return;
+    }
+
+    const { query, region } = parseRegionalQuery(args[0]);
+    const windowArg = args[1]?.toLowerCase().match(/^(\d+)d?$/);
+    const days = Math.min(Math.max(windowArg ? parseInt(windowArg[1]) : 7, 1), MAX_PROGRESS_DAYS);
+
+    if ('sendTyping' in message.channel) {
+      await message.channel.sendTyping();
+    }
+
+    try {
+      const progress = await tracker.getProgress(query, region ?? getGuildRegion(guildId), days, !region);
+      if (!progress) {
+        await message.reply(`❌ Player "${query}" not found.`);
+        return;
+      }
+
+      const sign = (value: number, suffix = '') => `${value > 0 ? '+' : ''}${value.toLocaleString()}${suffix}`;
+      const fromTs = Math.floor(Date.parse(progress.from) / 1000);
+      let response = `📈 **${progress.nickname}** (${formatRegion(progress.region)}) - last ${progress.days} day(s)\n`;
+
+      if (progress.from === progress.until) {
+        response += '\nNo earlier stats recorded yet. ';
+        response += tracker.getWatched(guildId).some(p => p.accountId === progress.accountId && p.region === progress.region)
+          ? 'This is the starting point - check back after a few battles.'
+          : `Use \`!progress watch ${progress.nickname}\` to snapshot them regularly.`;
+        await message.reply(response);
+        return;
+      }
+
+      if (progress.from > progress.since) {
+        response += `*History only goes back to <t:${fromTs}:d>.*\n`;
+      }
+      response += `\n⚔️ **Battles:** ${sign(progress.change.battles)} (now ${progress.current.battles.toLocaleString()})\n`;
+      response += `🏆 **Win Rate:** ${progress.current.winRate}% (${sign(progress.change.winRate, ' pts')})\n`;
+      response += `💥 **Avg Damage:** ${progress.current.avgDamage.toLocaleString()} (${sign(progress.change.avgDamage)})\n`;
+      response += `📊 **PR:** ${progress.current.pr.toLocaleString()} (${sign(progress.change.pr)})\n`;
+
+      if (progress.recent) {
+        const recent = progress.recent;
+        response += `\n**Recent form** (${recent.battles} battle${recent.battles === 1 ? '' : 's'} since <t:${fromTs}:d>)\n`;
+        response += `🏆 ${recent.winRate}% WR • 💥 ${recent.avgDamage.toLocaleString()} dmg • 🎯 ${recent.avgFrags} frags • ❤️ ${recent.survivalRate}% survival\n`;
+        response += `📊 **Recent PR:** ${recent.pr.toLocaleString()} (${recent.prRating})`;
       } else {
+        response += `\nNo battles played since <t:${fromTs}:d>.`;
+      }
+
+      await message.reply(response);
+    } catch (error) {
+      console.error('WoWS progress lookup error:', error);
+      await message.reply(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * !link - link the author's WoWS account through Wargaming sign-in, or an officer links a member directly
+   */
+  private async handleLinkCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const links = getAccountLinks();
+    const targetId = args[0]?.match(/^<@!?(\d+)>$/)?.[1];
+    const { query, region } = parseRegionalQuery(args.slice(targetId ? 1 : 0).join(' '));
+
+    if (!query) {
+      const link = links.getLink(targetId ?? message.author.id);
+      const status = link
+        ? `🔗 ${targetId ? `<@${targetId}> is` : 'You are'} linked to **${link.nickname}** (${formatRegion(link.region)}), ${link.method === 'openid' ? 'verified by Wargaming sign-in' : `linked by <@${link.linkedBy}>`}.`
+        : `🔗 ${targetId ? `<@${targetId}> has` : 'You have'} no linked WoWS account.`;
+      await message.reply({
+        content: `${status}\n**Usage:**\n` +
+          '`!link <player>[@region]` - Link your account by signing in with Wargaming\n' +
+          '`!link @member <player>[@region]` - Link a member\'s account (Manage Roles)\n' +
+          '`!unlink [@member]` - Remove a link',
+        allowedMentions: { parse: [] }
+      });
+      return;
+    }
+
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    const isOfficer = isOwner || message.member?.permissions.has(PermissionFlagsBits.ManageRoles);
+    if (targetId && !isOfficer) {
+      await message.reply('🔒 Linking a member\'s account for them requires the Manage Roles permission. Use `!link <player>` to link your own.');
+      return;
+    }
+    if (!targetId && !links.canVerify()) {
+      await message.reply('❌ Wargaming sign-in is not set up on this bot. Ask someone with Manage Roles to run `!link @you <player>`.');
+      return;
+    }
+
+    if ('sendTyping' in message.channel) {
+      await message.channel.sendTyping();
+    }
+
+    try {
+      // Exact nickname only, so a partial name never links someone else's account
+      const found = await findInRegions(region ?? getGuildRegion(guildId), async r => {
+        const player = await searchPlayer(query, r, true);
+        return player && player.nickname.toLowerCase() === query.toLowerCase() ? { player, region: r } : null;
+      }, !region);
+      if (!found) {
+        await message.reply(`❌ No player named exactly "${query}" on ${region ? `the ${formatRegion(region)} server` : 'any server'}.`);
+        return;
+      }
+
+      if (targetId) {
+        const link = links.linkByOfficer(targetId, found.player, found.region, message.author.id);
+        const sync = await getWowsRoleSync().sync(guildId, targetId);
+        const roles = sync.added + sync.removed > 0 ? ` Roles updated (+${sync.added}/-${sync.removed}).` : '';
+        await message.reply({
+          content: `✅ Linked <@${targetId}> to **${link.nickname}** (${formatRegion(link.region)}).${roles}`,
+          allowedMentions: { parse: [] }
+        });
+        return;
+      }
+
+      const url = links.startVerification(message.author.id, guildId, found.player, found.region);
+      const text = `🔗 Sign in with Wargaming as **${found.player.nickname}** (${formatRegion(found.region)}) to link your account:\n<${url}>\nThe link works for 15 minutes.`;
+      try {
+        await message.author.send(text);
+        await message.reply('📬 Check your DMs for a Wargaming sign-in link.');
+      } catch {
+        // DMs closed
+        await message.reply(text);
+      }
+    } catch (error) {
+      console.error('WoWS account link error:', error);
+      await message.reply(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * !unlink - remove the author's or a member's linked WoWS account, and the roles it gave
+   */
+  private async handleUnlinkCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const targetId = args[0]?.match(/^<@!?(\d+)>$/)?.[1] ?? message.author.id;
+
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    if (targetId !== message.author.id && !isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageRoles)) {
+      await message.reply('🔒 Unlinking another member requires the Manage Roles permission.');
+      return;
+    }
+
+    const removed = getAccountLinks().unlink(targetId);
+    if (!removed) {
+      await message.reply({ content: `❌ <@${targetId}> has no linked WoWS account.`, allowedMentions: { parse: [] } });
+      return;
+    }
+
+    try {
+      await getWowsRoleSync().sync(guildId, targetId);
+    } catch (error) {
+      console.error('WoWS role sync after unlink failed:', error);
+    }
+    await message.reply({
+      content: `✅ Unlinked **${removed.nickname}** (${formatRegion(removed.region)}) from <@${targetId}>.`,
+      allowedMentions: { parse: [] }
+    });
+  }
+
+  /**
+   * !wowsroles - map roles to linked accounts' clan, clan rank and PR rating
+   */
+  private async handleWowsRolesCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const roleSync = getWowsRoleSync();
+    const subcommand = args[0]?.toLowerCase();
+
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    if (subcommand && !isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageRoles)) {
+      await message.reply('🔒 Changing WoWS roles requires the Manage Roles permission.');
+      return;
+    }
+
+    if (!subcommand) {
+      const config = roleSync.getConfig(guildId);
+      const list = (mapping: Record<string, string>, label: (key: string) => string) =>
+        Object.entries(mapping).map(([key, roleId]) => `${label(key)} → <@&${roleId}>`).join(', ') || 'none';
+      await message.reply({
+        content: '🎖️ **WoWS roles** (for members who ran `!link`)\n' +
+          `**Linked:** ${config.linkedRoleId ? `<@&${config.linkedRoleId}>` : 'none'}\n` +
+          `**Clans:** ${list(config.clanRoles, tag => `[${tag}]`)}\n` +
+          `**Clan ranks:** ${list(config.rankRoles, rank => rank.replace(/_/g, ' '))}\n` +
+          `**PR:** ${list(config.prRoles, rating => rating)}\n\n` +
+          '**Usage:** `!wowsroles linked <@role|off>`, `!wowsroles clan <tag> <@role|off>`, ' +
+          '`!wowsroles rank <rank> <@role|off>`, `!wowsroles pr <rating> <@role|off>`, `!wowsroles sync`\n' +
+          `Ranks: ${CLAN_RANKS.join(', ')} (only in the clans above, if any). PR ratings: ${PR_RATINGS.join(', ')}.`,
+        allowedMentions: { parse: [] }
+      });
+      return;
+    }
+
+    if (subcommand === 'sync') {
+      if ('sendTyping' in message.channel) {
+        await message.channel.sendTyping();
+      }
+      try {
+        const result = await roleSync.sync(guildId);
+        let response = `✅ Checked ${result.members} member(s): ${result.added} role(s) added, ${result.removed} removed.`;
+        if (result.errors.length > 0) {
+          response += `\n⚠️ ${result.errors.slice(0, 5).join('\n⚠️ ')}`;
+        }
         await message.reply(response);
+      } catch (error) {
+        await message.reply(`❌ ${(error as Error).message}`);
       }
+      return;
+    }
 
-      // If bot is in a voice channel in this guild, also speak the response
-      if (message.guildId) {
-        try {
-          const ttsText = response.length > 500 ? response.substring(0, 497) + '...' : response;
-          await this.discordService.speakText(message.guildId, ttsText);
-        } catch {
-          // Not in voice channel - that's fine
+    if (!['linked', 'clan', 'rank', 'pr'].includes(subcommand) || args.length < (subcommand === 'linked' ? 2 : 3)) {
+      await message.reply('Usage: `!wowsroles linked <@role|off>`, `!wowsroles clan <tag> <@role|off>`, `!wowsroles rank <rank> <@role|off>` or `!wowsroles pr <rating> <@role|off>`');
+      return;
+    }
+
+    const kind = subcommand as RoleMappingKind;
+    const roleArg = args[args.length - 1];
+    const key = args.slice(1, -1).join(' ');
+    let roleId: string | null = null;
+    if (roleArg.toLowerCase() !== 'off' && roleArg.toLowerCase() !== 'none') {
+      const role = message.mentions.roles.first() || message.guild!.roles.cache.get(roleArg);
+      if (!role) {
+        await message.reply('❌ Role not found. Mention it or give its ID, or use `off`.');
+        return;
+      }
+      roleId = role.id;
+    }
+
+    const canonical = roleSync.setRole(guildId, kind, key, roleId);
+    if (!canonical) {
+      await message.reply(kind === 'rank'
+        ? `❌ Unknown clan rank. Choose one of ${CLAN_RANKS.join(', ')}.`
+        : kind === 'pr'
+          ? `❌ Unknown PR rating. Choose one of ${PR_RATINGS.join(', ')}.`
+          : '❌ That is not a valid clan tag.');
+      return;
+    }
+
+    const what = kind === 'linked' ? 'Linked members' : kind === 'clan' ? `Members of [${canonical}]` : kind === 'rank' ? `Clan rank ${canonical.replace(/_/g, ' ')}` : `PR rating ${canonical}`;
+    await message.reply({
+      content: roleId
+        ? `✅ ${what} get <@&${roleId}>. Roles sync every few hours; \`!wowsroles sync\` to sync now.`
+        : `✅ ${what} no longer get a role. Anyone who has it keeps it.`,
+      allowedMentions: { parse: [] }
+    });
+  }
+
+  /**
+   * !clanwatch - announce roster changes of watched clans in a channel
+   */
+  private async handleClanWatchCommand(message: Message, args: string[]): Promise<void> {
+    const guildId = message.guildId!;
+    const monitor = getClanRosterMonitor();
+    const subcommand = args[0]?.toLowerCase();
+
+    if (!subcommand || subcommand === 'list') {
+      const watched = monitor.getWatched(guildId);
+      const lines = watched.map(c =>
+        `• **[${c.tag}]** ${c.name} (${formatRegion(c.region)}) → <#${c.channelId}>, ${c.inactiveDays > 0 ? `inactive after ${c.inactiveDays} days` : 'no inactivity warnings'}`
+      );
+      let response = lines.length > 0
+        ? `🛡️ **Watched clans (${lines.length})**\n${lines.join('\n')}`
+        : '🛡️ No clans are watched yet.';
+      if (!subcommand) {
+        response += '\n\n**Usage:**\n' +
+          '`!clanwatch add <tag>[@region] [#channel] [30d|off]` - Announce joins, leaves, rank changes, renames and inactive members (default: this channel)\n' +
+          '`!clanwatch remove <tag>` - Stop watching a clan\n' +
+          '`!clanwatch check` - Check all watched clans now';
+      }
+      await message.reply({ content: response, allowedMentions: { parse: [] } });
+      return;
+    }
+
+    const isOwner = process.env.BOT_OWNER_ID && message.author.id === process.env.BOT_OWNER_ID;
+    if (!isOwner && !message.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+      await message.reply('🔒 Watching clans requires the Manage Server permission.');
+      return;
+    }
+
+    if (subcommand === 'check') {
+      if ('sendTyping' in message.channel) {
+        await message.channel.sendTyping();
+      }
+      const checked = await monitor.runChecks();
+      await message.reply(checked > 0
+        ? `✅ Checked ${checked} clan(s). Any changes were posted to their channels.`
+        : '🛡️ No clans were checked - none are watched, or a check is already running.');
+      return;
+    }
+
+    if (subcommand === 'remove' || subcommand === 'unwatch') {
+      if (!args[1]) {
+        await message.reply('Usage: `!clanwatch remove <tag>[@region]`');
+        return;
+      }
+      const { query, region } = parseRegionalQuery(args[1]);
+      const removed = monitor.unwatch(guildId, query, region);
+      await message.reply(removed
+        ? `✅ Stopped watching **[${removed.tag}] ${removed.name}** (${formatRegion(removed.region)}).`
+        : `❌ **${query}** is not watched here.`);
+      return;
+    }
+
+    if (subcommand !== 'add' && subcommand !== 'watch') {
+      await message.reply('Usage: `!clanwatch add <tag>[@region] [#channel] [30d|off]`, `!clanwatch remove <tag>` or `!clanwatch check`');
+      return;
+    }
+
+    const daysArg = args.slice(2).find(arg => /^(\d+d?|off)$/i.test(arg));
+    const channelId = message.mentions.channels.first()?.id ?? message.channelId;
+    const { query, region } = parseRegionalQuery(args.slice(1).filter(arg => arg !== daysArg && !/^<#\d+>$/.test(arg)).join(' '));
+    if (!query) {
+      await message.reply('Usage: `!clanwatch add <tag>[@region] [#channel] [30d|off]`');
+      return;
+    }
+
+    let inactiveDays: number | undefined;
+    if (daysArg) {
+      inactiveDays = daysArg.toLowerCase() === 'off' ? 0 : parseInt(daysArg);
+      if (inactiveDays > 365 || (inactiveDays < 1 && daysArg.toLowerCase() !== 'off')) {
+        await message.reply('❌ Inactivity threshold must be 1-365 days, or `off`.');
+        return;
+      }
+    }
+
+    if ('sendTyping' in message.channel) {
+      await message.channel.sendTyping();
+    }
+    try {
+      const watched = await monitor.watch(guildId, query, region ?? getGuildRegion(guildId), !region, channelId, inactiveDays, message.author.id);
+      if (!watched) {
+        await message.reply(`❌ Clan "${query}" not found.`);
+        return;
+      }
+      await message.reply({
+        content: `✅ Watching **[${watched.tag}] ${watched.name}** (${formatRegion(watched.region)}). Roster changes will be posted in <#${watched.channelId}>` +
+          (watched.inactiveDays > 0 ? `, with a warning when a member has no battles for ${watched.inactiveDays} days.` : '.'),
+        allowedMentions: { parse: [] }
+      });
+    } catch (error) {
+      await message.reply(`❌ ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * !ptt - capture the author's next utterance as a question
+   */
+  private async armPushToTalk(message: Message): Promise<void> {
+    const guildId = message.guildId!;
+    const voiceCheck = canUseVoiceCommand(guildId, message.author.id, message.member);
+    if (!voiceCheck.allowed) {
+      await message.reply(voiceCheck.reason!.message);
+      return;
+    }
+
+    try {
+      getVoiceListener().armPushToTalk(guildId, message.author.id);
+      await message.reply(`🎙️ Listening - ask your question in the next ${PUSH_TO_TALK_SECONDS} seconds.`);
+    } catch (error) {
+      await message.reply(`❌ ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Answer a question heard in a listening voice channel: post it with the
+   * answer in the channel's text channel and speak the answer.
+   * AI tools are not offered, since spoken input is easier to misinterpret.
+   */
+  private async answerVoiceQuestion(question: VoiceQuestion): Promise<void> {
+    const { guildId, userId, text } = question;
+    if (SecurityUtils.containsBlockedContent(text).blocked) return;
+
+    const channel = this.discordService.getClient().channels.cache.get(question.textChannelId);
+    if (!channel?.isTextBased() || channel.isDMBased()) return;
+
+    const member = channel.guild.members.cache.get(userId);
+    if (!canUseVoiceCommand(guildId, userId, member).allowed) return;
+
+    const author = member?.displayName || 'Someone';
+    const parentId = channel.isThread() ? channel.parentId : null;
+    const persona = getPersonaStore().resolve(guildId, channel.id, parentId);
+
+    let answer: string;
+    try {
+      answer = await getAIService().chat(text, undefined, undefined, {
+        conversation: { id: getConversationId(channel.id, false, userId), author },
+        persona
+      });
+    } catch (error) {
+      await channel.send(`🎙️ **${author}:** ${text}\n\nAI error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    // Content filter - don't send or speak inappropriate AI responses
+    if (SecurityUtils.containsBlockedContent(answer).blocked) {
+      answer = "I can't respond to that in an appropriate way. Let's talk about something else!";
+    }
+
+    await channel.send({
+      content: `🎙️ **${author}:** ${text}\n\n${answer}`.substring(0, 2000),
+      allowedMentions: { parse: [] }
+    });
+    try {
+      await this.discordService.speakText(guildId, answer, persona.voice);
+    } catch {
+      // Bot left the voice channel meanwhile
+    }
+  }
+
+  /**
+   * Reset the AI conversation memory for the message's channel or DM
+   */
+  private async forgetConversation(message: Message): Promise<void> {
+    const { id } = this.getConversation(message);
+    const forgotten = getAIService().forgetConversation(id);
+    const scope = message.channel.isDMBased() ? 'our conversation' : 'the conversation in this channel';
+    await message.reply(forgotten
+      ? `🧹 Done! I've forgotten ${scope}.`
+      : `🤷 I don't remember anything about ${scope} yet.`);
+  }
+
+  /**
+   * Handle @bot mentions for natural AI chat
+   */
+  private async handleMention(message: Message): Promise<void> {
+    // Remove the bot mention from the message to get the actual question
+    const question = message.content
+      .replace(/<@!?\d+>/g, '') // Remove all mentions
+      .trim();
+
+    if (!question) {
+      await message.reply("Hey! You can ask me anything. Just @mention me with your question!");
+      return;
+    }
+
+    // Rate limiting for mentions
+    const cooldownCheck = SecurityUtils.checkCooldown(message.author.id, 'ai_mention', 5000);
+    if (!cooldownCheck.allowed) {
+      const remainingSec = Math.ceil((cooldownCheck.remainingMs || 0) / 1000);
+      await message.reply(`Please wait ${remainingSec}s before asking again.`);
+      return;
+    }
+
+    // Show typing indicator while processing
+    if ('sendTyping' in message.channel) {
+      await message.channel.sendTyping();
+    }
+
+    // Add context about who's asking
+    const context = `User ${message.author.username} is asking in the ${message.guild?.name || 'DM'} server.`;
+    const response = await this.streamAIReply(message, question, context, 'Sorry, I had trouble thinking about that: ');
+
+    // If bot is in a voice channel in this guild, also speak the response
+    if (response && message.guildId) {
+      try {
+        await this.discordService.speakText(message.guildId, response);
+      } catch {
+        // Not in voice channel - that's fine
+      }
+    }
+  }
+
+  /**
+   * Ask the AI and stream the answer into a reply, editing it as tokens arrive
+   * and continuing in follow-up messages when it is too long for one.
+   * Returns the final answer, or null if the AI failed (the error is shown instead).
+   */
+  private async streamAIReply(message: Message, question: string, context: string | undefined, errorPrefix: string): Promise<string | null> {
+    const reply = new StreamingReply(message);
+
+    // Callback to notify user when provider fails and retrying
+    const onRetry: OnRetryCallback = async (failedProvider, nextProvider, error) => {
+      try {
+        await (message.channel as TextChannel).send(`⚠️ \`${failedProvider}\` failed, trying \`${nextProvider}\`...`);
+        if ('sendTyping' in message.channel) {
+          await message.channel.sendTyping();
         }
+      } catch {
+        // Ignore errors sending retry message
       }
+    };
+
+    try {
+      let response = await getAIService().chat(question, context, onRetry, {
+        ...this.getChatOptions(message),
+        onPartial: (text) => {
+          // Stop showing partial text as soon as it would trip the content filter
+          if (SecurityUtils.containsBlockedContent(text).blocked) {
+            reply.stop();
+          } else {
+            reply.update(text);
+          }
+        }
+      });
+
+      // Content filter - don't send or speak inappropriate AI responses
+      if (SecurityUtils.containsBlockedContent(response).blocked) {
+        response = "I can't respond to that in an appropriate way. Let's talk about something else!";
+      }
+
+      await reply.finish(response);
+      return response;
     } catch (error) {
-      await message.reply(`Sorry, I had trouble thinking about that: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      await reply.finish(`${errorPrefix}${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
     }
   }
 }
@@ -0,0 +1,241 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import * as fs from 'fs';
+import { Logger } from './Logger.js';
+
+/**
+ * API scopes, from least to most privileged.
+ * A token holding a scope is also granted every scope below it.
+ */
+export type ApiScope = 'read' | 'moderation' | 'admin';
+
+const SCOPE_LEVELS: Record<ApiScope, number> = {
+  read: 0,
+  moderation: 1,
+  admin: 2
+};
+
+export interface ApiTokenConfig {
+  name: string;           // Client name shown in logs (e.g. "frontend")
+  token: string;          // Bearer token value
+  scopes: ApiScope[];
+  guilds?: string[];      // Restrict the token to these guild IDs (all guilds if omitted)
+  revoked?: boolean;
+}
+
+export interface AuthContext {
+  name: string;
+  token: string;
+  scopes: ApiScope[];
+  guilds?: string[];
+}
+
+export interface AuthResult {
+  allowed: boolean;
+  status?: 401 | 403;
+  reason?: string;
+  context?: AuthContext;
+}
+
+/**
+ * Bearer token authentication for the HTTP API and MCP endpoints.
+ *
+ * Tokens are loaded from API_TOKENS_FILE (a JSON array of ApiTokenConfig)
+ * and/or API_TOKENS (`name:token:scope|scope[:guildId|guildId]`, comma-separated).
+ * The file is re-read when it changes, so removing a token or setting
+ * `"revoked": true` takes effect without a restart.
+ */
+export class AuthManager {
+  private static instance: AuthManager;
+  private logger: Logger;
+  private envTokens: ApiTokenConfig[];
+  private fileTokens: ApiTokenConfig[] = [];
+  private tokensFile?: string;
+  private tokensFileMtime: number = 0;
+  private authDisabled: boolean;
+
+  private constructor() {
+    this.logger = Logger.getInstance();
+    this.authDisabled = process.env.API_AUTH_DISABLED === 'true';
+    this.tokensFile = process.env.API_TOKENS_FILE;
+    this.envTokens = this.parseTokenList(process.env.API_TOKENS);
+    this.reloadTokensFile();
+  }
+
+  static getInstance(): AuthManager {
+    if (!AuthManager.instance) {
+      AuthManager.instance = new AuthManager();
+    }
+    return AuthManager.instance;
+  }
+
+  isDisabled(): boolean {
+    return this.authDisabled;
+  }
+
+  getTokenCount(): number {
+    this.reloadTokensFile();
+    return this.getActiveTokens().length;
+  }
+
+  /**
+   * Authenticate a request and check that it holds the required scope
+   * and (optionally) access to the target guild.
+   */
+  authorize(authorizationHeader: string | undefined, requiredScope: ApiScope, guildId?: string): AuthResult {
+    if (this.authDisabled) {
+      return { allowed: true };
+    }
+
+    const context = this.authenticate(authorizationHeader);
+    if (!context) {
+      return { allowed: false, status: 401, reason: 'Missing or invalid API token' };
+    }
+
+    return this.checkAccess(context, requiredScope, guildId);
+  }
+
+  /**
+   * Check an already authenticated context against a scope and guild
+   */
+  checkAccess(context: AuthContext, requiredScope: ApiScope, guildId?: string): AuthResult {
+    if (!this.hasScope(context, requiredScope)) {
+      return {
+        allowed: false,
+        status: 403,
+        reason: `Token '${context.name}' lacks the '${requiredScope}' scope`,
+        context
+      };
+    }
+
+    if (!this.canAccessGuild(context, guildId)) {
+      return {
+        allowed: false,
+        status: 403,
+        reason: `Token '${context.name}' is not allowed to access guild ${guildId}`,
+        context
+      };
+    }
+
+    return { allowed: true, context };
+  }
+
+  /**
+   * Resolve a bearer token to its configuration
+   * Returns null if the token is unknown or revoked
+   */
+  authenticate(authorizationHeader: string | undefined): AuthContext | null {
+    const match = authorizationHeader?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) return null;
+
+    this.reloadTokensFile();
+
+    const presented = this.hashToken(match[1]);
+    const token = this.getActiveTokens().find(t =>
+      timingSafeEqual(this.hashToken(t.token), presented)
+    );
+    if (!token) return null;
+
+    return {
+      name: token.name,
+      token: token.token,
+      scopes: token.scopes,
+      guilds: token.guilds
+    };
+  }
+
+  hasScope(context: AuthContext, requiredScope: ApiScope): boolean {
+    return context.scopes.some(scope => SCOPE_LEVELS[scope] >= SCOPE_LEVELS[requiredScope]);
+  }
+
+  /**
+   * Check guild restrictions. Callers resolve the target guild (including
+   * the default guild) before calling; undefined means no guild is targeted.
+   */
+  canAccessGuild(context: AuthContext, guildId?: string): boolean {
+    if (!context.guilds || context.guilds.length === 0) return true;
+    if (!guildId) return true;
+    return context.guilds.includes(guildId);
+  }
+
+  /**
+   * Log a rejected request without leaking the presented token
+   */
+  logRejection(method: string, path: string, result: AuthResult, remoteAddress?: string): void {
+    const client = result.context ? `token=${result.context.name}` : 'unauthenticated';
+    console.error(`[auth] Rejected ${method} ${path} from ${remoteAddress || 'unknown'} (${client}): ${result.reason}`);
+  }
+
+  private getActiveTokens(): ApiTokenConfig[] {
+    return [...this.envTokens, ...this.fileTokens].filter(t => !t.revoked && t.token);
+  }
+
+  private hashToken(token: string): Buffer {
+    return createHash('sha256').update(token).digest();
+  }
+
+  private reloadTokensFile(): void {
+    if (!this.tokensFile) return;
+
+    try {
+      const mtime = fs.statSync(this.tokensFile).mtimeMs;
+      if (mtime === this.tokensFileMtime) return;
+
+      const parsed = JSON.parse(fs.readFileSync(this.tokensFile, 'utf-8'));
+      if (!Array.isArray(parsed)) {
+        throw new Error('expected a JSON array of tokens');
+      }
+
+      this.fileTokens = parsed
+        .map((entry: unknown) => this.normalizeToken(entry))
+        .filter((entry): entry is ApiTokenConfig => entry !== null);
+      this.tokensFileMtime = mtime;
+      this.logger.info(`Loaded ${this.fileTokens.length} API token(s) from ${this.tokensFile}`);
+    } catch (error) {
+      // Keep the previously loaded tokens if the file is missing or malformed
+      this.logger.error(`Failed to load API tokens from ${this.tokensFile}`, error);
+    }
+  }
+
+  private parseTokenList(tokenList?: string): ApiTokenConfig[] {
+    if (!tokenList) return [];
+
+    return tokenList
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        const [name, token, scopes, guilds] = entry.split(':');
+        return this.normalizeToken({
+          name,
+          token,
+          scopes: scopes?.split('|'),
+          guilds: guilds?.split('|')
+        });
+      })
+      .filter((entry): entry is ApiTokenConfig => entry !== null);
+  }
+
+  private normalizeToken(entry: unknown): ApiTokenConfig | null {
+    const { name, token, scopes, guilds, revoked } = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (typeof token !== 'string' || !token) {
+      this.logger.warn('Ignoring API token entry without a token value');
+      return null;
+    }
+
+    const validScopes = (Array.isArray(scopes) ? scopes : ['read'])
+      .map(scope => String(scope).trim().toLowerCase())
+      .filter((scope): scope is ApiScope => Object.hasOwn(SCOPE_LEVELS, scope));
+
+    const validGuilds = Array.isArray(guilds)
+      ? guilds.map(guild => String(guild).trim()).filter(guild => guild.length > 0)
+      : undefined;
+
+    return {
+      name: typeof name === 'string' && name ? name : 'unnamed',
+      token,
+      scopes: validScopes.length > 0 ? validScopes : ['read'],
+      guilds: validGuilds && validGuilds.length > 0 ? validGuilds : undefined,
+      revoked: revoked === true
+    };
+  }
+}
@@ -1,5 +1,26 @@
 import { DiscordService } from '../discord-service.js';
 import * as schemas from '../types.js';
+import type {
+  AutomodRuleList,
+  ChannelList,
+  ChannelStructure,
+  EmojiList,
+  EventList,
+  InviteList,
+  MemberDetails,
+  MemberList,
+  MessageAttachments,
+  MessageHistory,
+  MessageList,
+  RoleList,
+  ServerInfo,
+  ServerStats,
+  ServerWidget,
+  StickerList,
+  VoiceConnectionList,
+  WebhookList,
+  WelcomeScreenInfo
+} from '../discord-results.js';
 
 export class AutomationManager {
   private discordService: DiscordService;
@@ -8,7 +29,7 @@ export class AutomationManager {
     this.discordService = discordService;
   }
 
-  async executeAction(action: string, params: any): Promise<string> {
+  async executeAction(action: string, params: any): Promise<unknown> {
     // Convert action name to method name (snake_case to camelCase)
     const methodName = action.replace(/_([a-z])/g, (g) => g[1].toUpperCase());
     
@@ -22,7 +43,7 @@ export class AutomationManager {
   }
 
   // Server Management
-  async getServerInfo(guildId?: string): Promise<string> {
+  async getServerInfo(guildId?: string): Promise<ServerInfo> {
     const parsed = schemas.ServerInfoSchema.parse({ guildId });
     return await this.discordService.getServerInfo(parsed.guildId);
   }
@@ -32,17 +53,17 @@ export class AutomationManager {
     return await this.discordService.editServer(parsed.guildId, parsed.name, parsed.description, parsed.icon, parsed.banner, parsed.verificationLevel);
   }
 
-  async getServerStats(guildId?: string): Promise<string> {
+  async getServerStats(guildId?: string): Promise<ServerStats> {
     const parsed = schemas.GetServerStatsSchema.parse({ guildId });
     return await this.discordService.getServerStats(parsed.guildId);
   }
 
-  async getServerWidget(guildId: string): Promise<string> {
+  async getServerWidget(guildId: string): Promise<ServerWidget> {
     const parsed = schemas.GetServerWidgetSchema.parse({ guildId });
     return await this.discordService.getServerWidget(parsed.guildId);
   }
 
-  async getWelcomeScreen(guildId: string): Promise<string> {
+  async getWelcomeScreen(guildId: string): Promise<WelcomeScreenInfo> {
     const parsed = schemas.GetWelcomeScreenSchema.parse({ guildId });
     return await this.discordService.getWelcomeScreen(parsed.guildId);
   }
@@ -68,7 +89,7 @@ export class AutomationManager {
     return await this.discordService.deleteMessage(parsed.channelId, parsed.messageId);
   }
 
-  async readMessages(channelId: string, count?: string): Promise<string> {
+  async readMessages(channelId: string, count?: string): Promise<MessageList> {
     const parsed = schemas.ReadMessagesSchema.parse({ channelId, count });
     return await this.discordService.readMessages(parsed.channelId, parsed.count);
   }
@@ -83,7 +104,7 @@ export class AutomationManager {
     return await this.discordService.unpinMessage(parsed.channelId, parsed.messageId);
   }
 
-  async getPinnedMessages(channelId: string): Promise<string> {
+  async getPinnedMessages(channelId: string): Promise<MessageList> {
     const parsed = schemas.GetPinnedMessagesSchema.parse({ channelId });
     return await this.discordService.getPinnedMessages(parsed.channelId);
   }
@@ -129,7 +150,7 @@ export class AutomationManager {
     return await this.discordService.deletePrivateMessage(parsed.userId, parsed.messageId);
   }
 
-  async readPrivateMessages(userId: string, count?: string): Promise<string> {
+  async readPrivateMessages(userId: string, count?: string): Promise<MessageList> {
     const parsed = schemas.ReadPrivateMessagesSchema.parse({ userId, count });
     return await this.discordService.readPrivateMessages(parsed.userId, parsed.count);
   }
@@ -200,7 +221,7 @@ export class AutomationManager {
     return await this.discordService.findChannel(parsed.guildId, parsed.channelName);
   }
 
-  async listChannels(guildId?: string): Promise<string> {
+  async listChannels(guildId?: string): Promise<ChannelList> {
     const parsed = schemas.ListChannelsSchema.parse({ guildId });
     return await this.discordService.listChannels(parsed.guildId);
   }
@@ -230,7 +251,7 @@ export class AutomationManager {
     return await this.discordService.organizeChannels(parsed.guildId, parsed.organization);
   }
 
-  async getChannelStructure(guildId?: string): Promise<string> {
+  async getChannelStructure(guildId?: string): Promise<ChannelStructure> {
     const parsed = schemas.GetChannelStructureSchema.parse({ guildId });
     return await this.discordService.getChannelStructure(parsed.guildId);
   }
@@ -251,7 +272,7 @@ export class AutomationManager {
     return await this.discordService.findCategory(parsed.guildId, parsed.categoryName);
   }
 
-  async listChannelsInCategory(guildId: string | undefined, categoryId: string): Promise<string> {
+  async listChannelsInCategory(guildId: string | undefined, categoryId: string): Promise<ChannelList> {
     const parsed = schemas.ListChannelsInCategorySchema.parse({ guildId, categoryId });
     return await this.discordService.listChannelsInCategory(parsed.guildId, parsed.categoryId);
   }
@@ -298,7 +319,7 @@ export class AutomationManager {
     return await this.discordService.deleteWebhook(parsed.webhookId);
   }
 
-  async listWebhooks(channelId: string): Promise<string> {
+  async listWebhooks(channelId: string): Promise<WebhookList> {
     const parsed = schemas.ListWebhooksSchema.parse({ channelId });
     return await this.discordService.listWebhooks(parsed.channelId);
   }
@@ -334,7 +355,7 @@ export class AutomationManager {
     return await this.discordService.removeRoleFromMember(parsed.guildId, parsed.userId, parsed.roleId);
   }
 
-  async getRoles(guildId?: string): Promise<string> {
+  async getRoles(guildId?: string): Promise<RoleList> {
     const parsed = schemas.GetRolesSchema.parse({ guildId });
     return await this.discordService.getRoles(parsed.guildId);
   }
@@ -345,12 +366,12 @@ export class AutomationManager {
   }
 
   // Member Management
-  async getMembers(guildId?: string, limit?: number, after?: string): Promise<string> {
+  async getMembers(guildId?: string, limit?: number, after?: string): Promise<MemberList> {
     const parsed = schemas.GetMembersSchema.parse({ guildId, limit, after });
     return await this.discordService.getMembers(parsed.guildId, parsed.limit, parsed.after);
   }
 
-  async searchMembers(guildId?: string, query?: string, limit?: number): Promise<string> {
+  async searchMembers(guildId?: string, query?: string, limit?: number): Promise<MemberList> {
     const parsed = schemas.SearchMembersSchema.parse({ guildId, query, limit });
     return await this.discordService.searchMembers(parsed.guildId, parsed.query, parsed.limit);
   }
@@ -360,7 +381,7 @@ export class AutomationManager {
     return await this.discordService.editMember(parsed.guildId, parsed.userId, parsed.nickname, parsed.roles);
   }
 
-  async getMemberInfo(guildId?: string, userId?: string): Promise<string> {
+  async getMemberInfo(guildId?: string, userId?: string): Promise<MemberDetails> {
     const parsed = schemas.GetMemberInfoSchema.parse({ guildId, userId });
     return await this.discordService.getMemberInfo(parsed.guildId, parsed.userId);
   }
@@ -386,12 +407,12 @@ export class AutomationManager {
     return await this.discordService.stopAudio(parsed.guildId);
   }
 
-  async setVolume(guildId: string, volume: number): Promise<string> {
-    const parsed = schemas.SetVolumeSchema.parse({ guildId, volume });
-    return await this.discordService.setVolume(parsed.guildId, parsed.volume);
+  async setVolume(guildId: string, volume?: number, options: { ttsVolume?: number; normalize?: boolean } = {}): Promise<string> {
+    const parsed = schemas.SetVolumeSchema.parse({ guildId, volume, ...options });
+    return await this.discordService.setVolume(parsed.guildId, parsed.volume, { ttsVolume: parsed.ttsVolume, normalize: parsed.normalize });
   }
 
-  async getVoiceConnections(): Promise<string> {
+  async getVoiceConnections(): Promise<VoiceConnectionList> {
     const parsed = schemas.GetVoiceConnectionsSchema.parse({});
     return await this.discordService.getVoiceConnections();
   }
@@ -412,7 +433,7 @@ export class AutomationManager {
     return await this.discordService.deleteEvent(parsed.guildId, parsed.eventId);
   }
 
-  async getEvents(guildId?: string): Promise<string> {
+  async getEvents(guildId?: string): Promise<EventList> {
     const parsed = schemas.GetEventsSchema.parse({ guildId });
     return await this.discordService.getEvents(parsed.guildId);
   }
@@ -428,7 +449,7 @@ export class AutomationManager {
     return await this.discordService.deleteInvite(parsed.inviteCode);
   }
 
-  async getInvites(guildId?: string): Promise<string> {
+  async getInvites(guildId?: string): Promise<InviteList> {
     const parsed = schemas.GetInvitesSchema.parse({ guildId });
     return await this.discordService.getInvites(parsed.guildId);
   }
@@ -444,7 +465,7 @@ export class AutomationManager {
     return await this.discordService.deleteEmoji(parsed.guildId, parsed.emojiId);
   }
 
-  async getEmojis(guildId?: string): Promise<string> {
+  async getEmojis(guildId?: string): Promise<EmojiList> {
     const parsed = schemas.GetEmojisSchema.parse({ guildId });
     return await this.discordService.getEmojis(parsed.guildId);
   }
@@ -459,7 +480,7 @@ export class AutomationManager {
     return await this.discordService.deleteSticker(parsed.guildId, parsed.stickerId);
   }
 
-  async getStickers(guildId?: string): Promise<string> {
+  async getStickers(guildId?: string): Promise<StickerList> {
     const parsed = schemas.GetStickersSchema.parse({ guildId });
     return await this.discordService.getStickers(parsed.guildId);
   }
@@ -470,7 +491,7 @@ export class AutomationManager {
     return await this.discordService.uploadFile(parsed.channelId, parsed.filePath, parsed.fileName, parsed.content);
   }
 
-  async getMessageAttachments(channelId?: string, messageId?: string): Promise<string> {
+  async getMessageAttachments(channelId?: string, messageId?: string): Promise<MessageAttachments> {
     const parsed = schemas.GetMessageAttachmentsSchema.parse({ channelId, messageId });
     return await this.discordService.getMessageAttachments(parsed.channelId, parsed.messageId);
   }
@@ -496,7 +517,7 @@ export class AutomationManager {
     return await this.discordService.deleteAutomodRule(parsed.guildId, parsed.ruleId);
   }
 
-  async getAutomodRules(guildId?: string): Promise<string> {
+  async getAutomodRules(guildId?: string): Promise<AutomodRuleList> {
     const parsed = schemas.GetAutomodRulesSchema.parse({ guildId });
     return await this.discordService.getAutomodRules(parsed.guildId);
   }
@@ -523,7 +544,7 @@ export class AutomationManager {
   }
 
   // Analytics & Logging
-  async getMessageHistory(channelId?: string, limit?: number, before?: string, after?: string): Promise<string> {
+  async getMessageHistory(channelId?: string, limit?: number, before?: string, after?: string): Promise<MessageHistory> {
     const parsed = schemas.GetMessageHistorySchema.parse({ channelId, limit, before, after });
     return await this.discordService.getMessageHistory(parsed.channelId, parsed.limit, parsed.before, parsed.after);
   }
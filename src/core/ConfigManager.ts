@@ -1,3 +1,5 @@
+import { getStorage } from './Storage.js';
+
 export interface AutomationConfig {
   defaultGuildId?: string;
   enableLogging: boolean;
@@ -9,12 +11,18 @@ export interface AutomationConfig {
   deniedActions: string[];
 }
 
+// Storage location of settings changed at runtime with updateConfig()
+const STORAGE_NAMESPACE = 'config';
+const OVERRIDES_KEY = 'overrides';
+
 export class ConfigManager {
   private static instance: ConfigManager;
   private config: AutomationConfig;
 
   private constructor() {
-    this.config = this.loadConfig();
+    // Runtime changes take precedence over the environment
+    const overrides = getStorage().get<Partial<AutomationConfig>>(STORAGE_NAMESPACE, OVERRIDES_KEY) || {};
+    this.config = { ...this.loadConfig(), ...overrides };
   }
 
   static getInstance(): ConfigManager {
@@ -63,5 +71,16 @@ export class ConfigManager {
 
   updateConfig(newConfig: Partial<AutomationConfig>): void {
     this.config = { ...this.config, ...newConfig };
+
+    const overrides = getStorage().get<Partial<AutomationConfig>>(STORAGE_NAMESPACE, OVERRIDES_KEY) || {};
+    getStorage().set(STORAGE_NAMESPACE, OVERRIDES_KEY, { ...overrides, ...newConfig });
+  }
+
+  /**
+   * Drop runtime changes and go back to the environment configuration
+   */
+  resetConfig(): void {
+    getStorage().delete(STORAGE_NAMESPACE, OVERRIDES_KEY);
+    this.config = this.loadConfig();
   }
 }
\ No newline at end of file
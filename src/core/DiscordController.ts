@@ -5,6 +5,11 @@ import { Logger } from './Logger.js';
 import { ErrorHandler } from './ErrorHandler.js';
 import { RateLimiter } from './RateLimiter.js';
 import { PrefixCommandHandler } from '../commands/prefix-handler.js';
+import { getVoicePresence } from '../services/voice-presence.js';
+import { getVoiceAnalytics } from '../services/voice-analytics.js';
+import { getPlayerProgress } from '../services/player-progress.js';
+import { getWowsRoleSync } from '../services/wows-roles.js';
+import { getClanRosterMonitor } from '../services/clan-roster.js';
 
 export class DiscordController {
   private discordService: DiscordService;
@@ -39,6 +44,16 @@ export class DiscordController {
       this.prefixHandler = new PrefixCommandHandler(this.discordService);
       this.setupPrefixCommands();
 
+      // Home channels, follow-a-user, idle timeouts and reconnects
+      getVoicePresence().start(this.discordService);
+      getVoiceAnalytics().start(this.discordService.getClient());
+      // WoWS stat snapshots for !progress
+      getPlayerProgress().start();
+      // Roles for linked WoWS accounts
+      getWowsRoleSync().start(this.discordService);
+      // Roster change announcements for watched clans
+      getClanRosterMonitor().start(this.discordService);
+
       this.logger.info('Discord Controller initialized successfully');
     } catch (error) {
       this.logger.logError('Discord Controller initialization', error);
@@ -61,7 +76,7 @@ export class DiscordController {
     this.logger.info('Prefix commands (!) enabled');
   }
 
-  async executeAction(action: string, params: any): Promise<string> {
+  async executeAction(action: string, params: any): Promise<unknown> {
     try {
       // Check if action is allowed
       if (!this.configManager.isActionAllowed(action)) {
@@ -87,7 +102,7 @@ export class DiscordController {
     }
   }
 
-  private async callAutomationMethod(action: string, params: any): Promise<string> {
+  private async callAutomationMethod(action: string, params: any): Promise<unknown> {
     // Convert action name to method name (snake_case to camelCase)
     const methodName = action.replace(/_([a-z])/g, (g) => g[1].toUpperCase());
     
@@ -104,6 +119,10 @@ export class DiscordController {
     try {
       this.logger.info('Destroying Discord Controller');
       
+      getVoicePresence().stop();
+      getPlayerProgress().stop();
+      getWowsRoleSync().stop();
+      getClanRosterMonitor().stop();
       if (this.discordService) {
         await this.discordService.destroy();
       }
@@ -24,6 +24,13 @@ export class PermissionError extends Error {
   }
 }
 
+export class ToolNotFoundError extends Error {
+  constructor(public readonly toolName: string) {
+    super(`Unknown tool: ${toolName}`);
+    this.name = 'ToolNotFoundError';
+  }
+}
+
 export class RateLimitError extends Error {
   constructor(
     message: string,
@@ -56,6 +63,10 @@ export class ErrorHandler {
     if (error instanceof RateLimitError) {
       throw error;
     }
+
+    if (error instanceof ToolNotFoundError) {
+      throw error;
+    }
     
     // Handle Discord.js errors
     if (error.name === 'DiscordAPIError') {
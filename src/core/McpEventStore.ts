@@ -0,0 +1,63 @@
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+  streamId: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store for one Streamable HTTP session.
+ *
+ * Keeps the most recent events so a client that reconnects with
+ * `Last-Event-ID` gets the messages it missed on that stream.
+ * Stream IDs are only unique within a session, so each session needs its own store.
+ */
+export class McpEventStore implements EventStore {
+  private events: Map<string, StoredEvent> = new Map();
+  private counter: number = 0;
+
+  constructor(private maxEvents: number = 500) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${++this.counter}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Maps iterate in insertion order, so the first key is the oldest event
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest === undefined) break;
+      this.events.delete(oldest);
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      // Unknown or already evicted; nothing can be replayed
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+
+    return last.streamId;
+  }
+}
@@ -0,0 +1,196 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { McpEventStore } from './McpEventStore.js';
+import { Logger } from './Logger.js';
+
+interface McpSession {
+  id: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  owner?: string;         // Token name that created the session
+  createdAt: number;
+  lastActivity: number;
+}
+
+export interface McpSessionOptions {
+  idleTimeoutMs: number;
+  maxSessions: number;
+  maxEventsPerSession: number;
+}
+
+const DEFAULT_OPTIONS: McpSessionOptions = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  maxSessions: 100,
+  maxEventsPerSession: 500
+};
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Sessions for the MCP Streamable HTTP transport (`/mcp`).
+ *
+ * Each session gets its own MCP Server and transport, identified by the
+ * `Mcp-Session-Id` header. Sessions idle for longer than the timeout are
+ * closed, and new sessions are refused once the cap is reached.
+ */
+export class McpSessionManager {
+  private sessions: Map<string, McpSession> = new Map();
+  private options: McpSessionOptions;
+  private sweepTimer: NodeJS.Timeout;
+  private logger: Logger;
+
+  constructor(private createServer: () => Server, options: Partial<McpSessionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.logger = Logger.getInstance();
+    this.sweepTimer = setInterval(() => this.closeExpiredSessions(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Build options from MCP_SESSION_IDLE_MINUTES, MCP_MAX_SESSIONS and MCP_SESSION_EVENT_HISTORY
+   */
+  static optionsFromEnv(): Partial<McpSessionOptions> {
+    const options: Partial<McpSessionOptions> = {};
+    const idleMinutes = parseInt(process.env.MCP_SESSION_IDLE_MINUTES || '');
+    const maxSessions = parseInt(process.env.MCP_MAX_SESSIONS || '');
+    const maxEvents = parseInt(process.env.MCP_SESSION_EVENT_HISTORY || '');
+
+    if (idleMinutes > 0) options.idleTimeoutMs = idleMinutes * 60 * 1000;
+    if (maxSessions > 0) options.maxSessions = maxSessions;
+    if (maxEvents > 0) options.maxEventsPerSession = maxEvents;
+    return options;
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Handle a GET, POST or DELETE request on the MCP endpoint
+   * @param clientName Name of the authenticated token, used to bind sessions to their creator
+   */
+  async handleRequest(
+    req: IncomingMessage & { auth?: AuthInfo },
+    res: ServerResponse,
+    body: unknown,
+    clientName?: string
+  ): Promise<void> {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        // 404 tells the client to start a new session
+        this.sendError(res, 404, -32001, 'Session not found or expired');
+        return;
+      }
+      if (session.owner !== clientName) {
+        this.sendError(res, 403, -32001, 'Session belongs to a different client');
+        return;
+      }
+
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    await this.closeExpiredSessions();
+    if (this.sessions.size >= this.options.maxSessions) {
+      this.logger.warn(`MCP session limit reached (${this.options.maxSessions}), rejecting new session`);
+      res.setHeader('Retry-After', String(Math.ceil(SWEEP_INTERVAL_MS / 1000)));
+      this.sendError(res, 503, -32000, 'Too many active MCP sessions');
+      return;
+    }
+
+    const { server, transport } = await this.createSession(clientName);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize (bad headers, invalid message) never creates a session
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        await this.closeServer(server, 'uninitialized MCP session');
+      }
+    }
+  }
+
+  /**
+   * Close sessions that have been idle for longer than the timeout
+   */
+  async closeExpiredSessions(): Promise<void> {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    const expired = Array.from(this.sessions.values()).filter(session => session.lastActivity < cutoff);
+
+    for (const session of expired) {
+      this.logger.info(`Closing idle MCP session ${session.id}`);
+      await this.closeSession(session.id);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.closeSession(sessionId);
+    }
+  }
+
+  private async createSession(clientName?: string): Promise<{ server: Server; transport: StreamableHTTPServerTransport }> {
+    const server = this.createServer();
+    const now = Date.now();
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new McpEventStore(this.options.maxEventsPerSession),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { id, server, transport, owner: clientName, createdAt: now, lastActivity: now });
+      },
+      onsessionclosed: (id) => {
+        this.sessions.delete(id);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      await this.closeServer(server, 'unconnected MCP session');
+      throw error;
+    }
+    return { server, transport };
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    await this.closeServer(session.server, `MCP session ${sessionId}`);
+  }
+
+  private async closeServer(server: Server, label: string): Promise<void> {
+    try {
+      await server.close();
+    } catch (error) {
+      this.logger.error(`Failed to close ${label}`, error);
+    }
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * A background job run once shortly after start, then on a fixed interval.
+ * Runs never overlap: one started while another is in progress is skipped.
+ * Timers are unref'd so they never keep the process alive.
+ */
+export class PeriodicTask<T> {
+  private firstRun: NodeJS.Timeout | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly job: () => Promise<T>,
+    private readonly intervalMs: number,
+    private readonly firstRunDelayMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.firstRun = setTimeout(() => {
+      this.firstRun = null;
+      this.runScheduled();
+    }, this.firstRunDelayMs);
+    this.firstRun.unref();
+    this.timer = setInterval(() => this.runScheduled(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.firstRun) {
+      clearTimeout(this.firstRun);
+      this.firstRun = null;
+    }
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run the job now; resolves to undefined if a run is already in progress
+   */
+  async run(): Promise<T | undefined> {
+    if (this.running) return undefined;
+    this.running = true;
+    try {
+      return await this.job();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private runScheduled(): void {
+    this.run().catch(error => console.error(`${this.name} failed:`, error));
+  }
+}
@@ -2,6 +2,8 @@
  * Security utilities for input validation and sanitization
  */
 
+import { StoredMap } from './Storage.js';
+
 // Discord snowflake ID regex (17-20 digits)
 const SNOWFLAKE_REGEX = /^\d{17,20}$/;
 
@@ -235,8 +237,9 @@ export class SecurityUtils {
 
   /**
    * Rate limiter for commands
+   * Last use per command, keyed by user ID (persisted so restarts don't reset cooldowns)
    */
-  private static commandCooldowns = new Map<string, Map<string, number>>();
+  private static commandCooldowns = new StoredMap<Record<string, number>>('cooldowns');
 
   static checkCooldown(userId: string, command: string, cooldownMs: number = 3000): {
     allowed: boolean;
@@ -244,28 +247,20 @@ export class SecurityUtils {
   } {
     const now = Date.now();
 
-    if (!this.commandCooldowns.has(command)) {
-      this.commandCooldowns.set(command, new Map());
-    }
-
-    const commandCooldown = this.commandCooldowns.get(command)!;
-    const lastUsed = commandCooldown.get(userId) || 0;
+    const commandCooldown = this.commandCooldowns.get(command) || {};
+    const lastUsed = commandCooldown[userId] || 0;
     const elapsed = now - lastUsed;
 
     if (elapsed < cooldownMs) {
       return { allowed: false, remainingMs: cooldownMs - elapsed };
     }
 
-    commandCooldown.set(userId, now);
-
-    // Clean up old entries periodically
-    if (commandCooldown.size > 1000) {
-      const cutoff = now - 60000; // 1 minute ago
-      for (const [uid, time] of commandCooldown) {
-        if (time < cutoff) commandCooldown.delete(uid);
-      }
-    }
-
+    // Only unexpired cooldowns are written back, so the stored state stays small
+    const active = Object.fromEntries(
+      Object.entries(commandCooldown).filter(([, time]) => now - time < cooldownMs)
+    );
+    active[userId] = now;
+    this.commandCooldowns.set(command, active);
     return { allowed: true };
   }
 
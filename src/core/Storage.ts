@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Key/value storage for bot state that must survive restarts.
+ *
+ * Values are grouped by namespace (e.g. `voice.guildVoices`) and must be
+ * JSON-serialisable. Objects returned by `get` may be shared with the
+ * backend: call `set` again after changing one so the change is saved.
+ */
+export interface StorageBackend {
+  get<T>(namespace: string, key: string): T | undefined;
+  set<T>(namespace: string, key: string, value: T): void;
+  delete(namespace: string, key: string): boolean;
+  keys(namespace: string): string[];
+  clear(namespace: string): void;
+  /** Write pending changes now (used on shutdown) */
+  flush(): void;
+}
+
+type NamespaceData = Record<string, Record<string, unknown>>;
+
+/**
+ * Keeps everything in memory; nothing survives a restart. Used in tests and
+ * when STORAGE_BACKEND=memory.
+ */
+export class MemoryStorage implements StorageBackend {
+  protected data: NamespaceData = {};
+
+  get<T>(namespace: string, key: string): T | undefined {
+    return this.data[namespace]?.[key] as T | undefined;
+  }
+
+  set<T>(namespace: string, key: string, value: T): void {
+    (this.data[namespace] ??= {})[key] = value;
+    this.changed();
+  }
+
+  delete(namespace: string, key: string): boolean {
+    const entries = this.data[namespace];
+    if (!entries || !(key in entries)) return false;
+
+    delete entries[key];
+    this.changed();
+    return true;
+  }
+
+  keys(namespace: string): string[] {
+    return Object.keys(this.data[namespace] || {});
+  }
+
+  clear(namespace: string): void {
+    if (!this.data[namespace]) return;
+
+    delete this.data[namespace];
+    this.changed();
+  }
+
+  flush(): void {}
+
+  protected changed(): void {}
+}
+
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Keeps everything in memory and writes it to a JSON file shortly after each
+ * change. Writes go to a temporary file first so a crash can't corrupt it.
+ */
+export class JsonFileStorage extends MemoryStorage {
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  protected changed(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as NamespaceData;
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of overwriting it
+      const backup = `${this.filePath}.corrupt-${Date.now()}`;
+      console.error(`Failed to load bot state from ${this.filePath}, moved it to ${backup}:`, error);
+      try {
+        fs.renameSync(this.filePath, backup);
+      } catch {
+        // Nothing more we can do; start empty
+      }
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempFile = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(this.data));
+      fs.renameSync(tempFile, this.filePath);
+    } catch (error) {
+      console.error(`Failed to save bot state to ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * A backend of the type chosen by STORAGE_BACKEND (json or memory), for state
+ * kept apart from the shared file; JSON storage is written to filePath
+ */
+export function createStorage(filePath: string): StorageBackend {
+  return process.env.STORAGE_BACKEND === 'memory' ? new MemoryStorage() : new JsonFileStorage(filePath);
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * The shared storage backend, chosen by STORAGE_BACKEND (json or memory)
+ * JSON storage is written to STORAGE_FILE (default: data/state.json).
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    storage = createStorage(process.env.STORAGE_FILE || path.join(process.cwd(), 'data', 'state.json'));
+  }
+  return storage;
+}
+
+/**
+ * Replace the shared backend (e.g. with MemoryStorage in tests)
+ */
+export function setStorage(backend: StorageBackend): void {
+  storage?.flush();
+  storage = backend;
+}
+
+/**
+ * A Map-like view of one storage namespace, in the shared backend unless
+ * another is given. The backend is looked up on every call, so it can be
+ * swapped in tests.
+ */
+export class StoredMap<V> {
+  constructor(private readonly namespace: string, private readonly backend: () => StorageBackend = getStorage) {}
+
+  get(key: string): V | undefined {
+    return this.backend().get<V>(this.namespace, key);
+  }
+
+  set(key: string, value: V): this {
+    this.backend().set(this.namespace, key, value);
+    return this;
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  delete(key: string): boolean {
+    return this.backend().delete(this.namespace, key);
+  }
+
+  keys(): string[] {
+    return this.backend().keys(this.namespace);
+  }
+
+  entries(): [string, V][] {
+    return this.keys().map(key => [key, this.get(key)!]);
+  }
+
+  get size(): number {
+    return this.keys().length;
+  }
+
+  clear(): void {
+    this.backend().clear(this.namespace);
+  }
+}
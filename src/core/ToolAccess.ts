@@ -0,0 +1,45 @@
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { ApiScope, AuthContext, AuthManager } from './AuthManager.js';
+import { ErrorHandler } from './ErrorHandler.js';
+import { resolveToolCall, type ToolRegistry } from './ToolRegistry.js';
+
+export type GuildResolver = (args: Record<string, any> | undefined) => string | undefined;
+
+/**
+ * Scope checks for tool calls made with an API token.
+ *
+ * Every surface that executes tools (MCP handlers, JSON-RPC, REST) checks
+ * the exact name and arguments it is about to run, so `discord_manage` is
+ * checked against the action it dispatches to.
+ */
+export class ToolAccess {
+  constructor(
+    private registry: ToolRegistry,
+    private authManager: AuthManager,
+    private resolveGuildId: GuildResolver
+  ) {}
+
+  /**
+   * Get the scope required to call a tool, as declared in the tool registry
+   * Unknown tools require admin so they are never reachable with a weaker token
+   */
+  getToolScope(name: string, args?: Record<string, any>): ApiScope {
+    return this.registry.getScope(resolveToolCall(name, args).name) ?? 'admin';
+  }
+
+  /**
+   * Check a tool call against the caller's token
+   * Calls without auth info (stdio, or auth disabled) are trusted
+   */
+  assertToolAccess(authInfo: AuthInfo | undefined, name: string, args?: Record<string, any>): void {
+    const context = authInfo?.extra?.context as AuthContext | undefined;
+    if (!context) return;
+
+    const call = resolveToolCall(name, args);
+    const result = this.authManager.checkAccess(context, this.getToolScope(name, args), this.resolveGuildId(call.args));
+    if (!result.allowed) {
+      this.authManager.logRejection('TOOL', name, result);
+      throw ErrorHandler.createPermissionError(result.reason || `Tool '${name}' is not allowed`);
+    }
+  }
+}
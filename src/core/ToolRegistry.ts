@@ -0,0 +1,167 @@
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { PermissionFlagsBits } from 'discord.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { DiscordService } from '../discord-service.js';
+import type { ApiScope } from './AuthManager.js';
+import { ToolNotFoundError } from './ErrorHandler.js';
+
+export type DiscordPermission = keyof typeof PermissionFlagsBits;
+
+export interface ToolContext {
+  discordService: DiscordService;
+  canViewChannel?: (channelId: string) => boolean;  // Limits channel listings to what the caller can see (unset: all)
+}
+
+/**
+ * Tool output with machine-readable data next to its text rendering
+ * MCP clients get the data as structuredContent, chat surfaces the text.
+ */
+export interface StructuredResult<T extends object = object> {
+  text: string;
+  data: T;
+}
+
+export type ToolOutput = string | StructuredResult;
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  category: string;
+  permission?: DiscordPermission;   // Discord permission the caller needs (none for plain reads)
+  scope: ApiScope;                  // API token scope required to call the tool over HTTP
+  schema: S;
+  handler: (parsed: z.infer<S>, context: ToolContext) => Promise<ToolOutput>;
+}
+
+/**
+ * Pair result data with its text rendering, e.g. `structured(events, formatEvents)`
+ */
+export function structured<T extends object>(data: T, format: (data: T) => string): StructuredResult<T> {
+  return { text: format(data), data };
+}
+
+/**
+ * The tool a call runs and its arguments. `discord_manage` runs its action with
+ * the `params` object, or with its other arguments when there is no `params`
+ * (tools that have an `action` argument of their own need `params`).
+ */
+export function resolveToolCall(name: string, args: Record<string, any> | undefined): { name: string; args: Record<string, any> | undefined } {
+  if (name !== 'discord_manage' || typeof args?.action !== 'string') {
+    return { name, args };
+  }
+  const { action, params, ...rest } = args;
+  return resolveToolCall(action, params && typeof params === 'object' ? params : rest);
+}
+
+/**
+ * Typed helper so handlers get their parsed arguments inferred from the schema
+ */
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition {
+  return definition as unknown as ToolDefinition;
+}
+
+/**
+ * Single source of truth for MCP tools.
+ *
+ * Each tool registers its schema, category, permission and handler once;
+ * the stdio, SSE, JSON-RPC and REST surfaces list and execute tools from here.
+ */
+export class ToolRegistry {
+  private static instance: ToolRegistry;
+  private tools: Map<string, ToolDefinition> = new Map();
+  private mcpToolsCache: Tool[] | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  register(...definitions: ToolDefinition[]): void {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool already registered: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+    this.mcpToolsCache = null;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  getScope(name: string): ApiScope | undefined {
+    return this.tools.get(name)?.scope;
+  }
+
+  /**
+   * Tool listing in MCP format, with input schemas derived from the zod schemas
+   */
+  toMcpTools(): Tool[] {
+    if (!this.mcpToolsCache) {
+      this.mcpToolsCache = this.list().map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: this.toInputSchema(tool.schema)
+      }));
+    }
+    return this.mcpToolsCache;
+  }
+
+  /**
+   * Validate arguments and run a tool, returning the handler's output as-is
+   * Throws ToolNotFoundError for unknown tools and ZodError for invalid arguments
+   */
+  async call(name: string, args: Record<string, any> | undefined, context: ToolContext): Promise<ToolOutput> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new ToolNotFoundError(name);
+    }
+
+    const parsed = tool.schema.parse(args ?? {});
+    return tool.handler(parsed, context);
+  }
+
+  /**
+   * Run a tool and return only its text result
+   */
+  async run(name: string, args: Record<string, any> | undefined, context: ToolContext): Promise<string> {
+    const output = await this.call(name, args, context);
+    return typeof output === 'string' ? output : output.text;
+  }
+
+  /**
+   * Run a tool and wrap its result as an MCP CallToolResult, with
+   * structuredContent for tools that return data
+   */
+  async execute(name: string, args: Record<string, any> | undefined, context: ToolContext): Promise<CallToolResult> {
+    const output = await this.call(name, args, context);
+    if (typeof output === 'string') {
+      return { content: [{ type: 'text', text: output }] };
+    }
+    return {
+      content: [{ type: 'text', text: output.text }],
+      structuredContent: output.data as Record<string, unknown>
+    };
+  }
+
+  private toInputSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+    // zodToJsonSchema's generic signature is too deep for the compiler with ZodTypeAny
+    const convert = zodToJsonSchema as (schema: unknown, options: { $refStrategy: 'none' }) => Record<string, any>;
+    const { $schema, ...jsonSchema } = convert(schema, { $refStrategy: 'none' });
+    return { ...jsonSchema, type: 'object' };
+  }
+}
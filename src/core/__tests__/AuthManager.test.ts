@@ -0,0 +1,55 @@
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AuthManager as AuthManagerType } from '../AuthManager.js';
+
+describe('AuthManager token file', () => {
+  let dir: string;
+  let auth: AuthManagerType;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+    const file = path.join(dir, 'tokens.json');
+    fs.writeFileSync(file, JSON.stringify([
+      null,
+      42,
+      'token-as-string',
+      { name: 'empty', token: '' },
+      { name: 'odd-scopes', token: 'odd', scopes: ['toString', ' MODERATION ', 5] },
+      { token: 'loose', scopes: 'admin', guilds: ['guild1', ' ', 7], revoked: 'yes' },
+      { name: 'gone', token: 'revoked', scopes: ['admin'], revoked: true }
+    ]));
+
+    // Read when the singleton is created
+    process.env.API_TOKENS_FILE = file;
+    const { AuthManager } = await import('../AuthManager.js');
+    auth = AuthManager.getInstance();
+  });
+
+  afterAll(() => {
+    delete process.env.API_TOKENS_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should skip entries that are not token objects', () => {
+    expect(auth.getTokenCount()).toBe(2);
+    expect(auth.authenticate('Bearer token-as-string')).toBeNull();
+  });
+
+  it('should keep only known scopes', () => {
+    expect(auth.authenticate('Bearer odd')).toEqual({ name: 'odd-scopes', token: 'odd', scopes: ['moderation'], guilds: undefined });
+  });
+
+  it('should fall back to safe defaults for malformed fields', () => {
+    expect(auth.authenticate('Bearer loose')).toEqual({ name: 'unnamed', token: 'loose', scopes: ['read'], guilds: ['guild1', '7'] });
+  });
+
+  it('should reject revoked tokens', () => {
+    expect(auth.authenticate('Bearer revoked')).toBeNull();
+  });
+});
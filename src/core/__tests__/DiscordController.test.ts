@@ -1,3 +1,4 @@
+import { jest } from '@jest/globals';
 import { DiscordController } from '../DiscordController.js';
 import { ConfigManager } from '../ConfigManager.js';
 import { Logger } from '../Logger.js';
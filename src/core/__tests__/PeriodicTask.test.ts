@@ -0,0 +1,60 @@
+import { jest } from '@jest/globals';
+import { PeriodicTask } from '../PeriodicTask.js';
+
+describe('PeriodicTask', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run after the first-run delay, then on every interval', async () => {
+    const job = jest.fn(async () => 1);
+    const task = new PeriodicTask('test', job, 1000, 100);
+    task.start();
+
+    await jest.advanceTimersByTimeAsync(99);
+    expect(job).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(job).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(job).toHaveBeenCalledTimes(3);
+    task.stop();
+  });
+
+  it('should cancel the first run when stopped before it', async () => {
+    const job = jest.fn(async () => 1);
+    const task = new PeriodicTask('test', job, 1000, 100);
+    task.start();
+    task.stop();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(job).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should skip a run while another is in progress', async () => {
+    let finish!: (value: number) => void;
+    const job = jest.fn(() => new Promise<number>(resolve => { finish = resolve; }));
+    const task = new PeriodicTask('test', job, 1000, 100);
+
+    const first = task.run();
+    expect(await task.run()).toBeUndefined();
+    finish(5);
+    expect(await first).toBe(5);
+    expect(job).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log a scheduled run that fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const task = new PeriodicTask('Nightly job', async () => { throw new Error('boom'); }, 1000, 100);
+    task.start();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(consoleError).toHaveBeenCalledWith('Nightly job failed:', expect.any(Error));
+    task.stop();
+    consoleError.mockRestore();
+  });
+});
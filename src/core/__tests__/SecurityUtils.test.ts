@@ -0,0 +1,42 @@
+import { jest } from '@jest/globals';
+import { SecurityUtils } from '../SecurityUtils.js';
+import { MemoryStorage, setStorage } from '../Storage.js';
+
+describe('SecurityUtils.checkCooldown', () => {
+  let storage: MemoryStorage;
+  let now: number;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    setStorage(storage);
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hold a member back until the cooldown has passed', () => {
+    expect(SecurityUtils.checkCooldown('user1', 'play', 3000)).toEqual({ allowed: true });
+
+    now += 1000;
+    expect(SecurityUtils.checkCooldown('user1', 'play', 3000)).toEqual({ allowed: false, remainingMs: 2000 });
+    expect(SecurityUtils.checkCooldown('user2', 'play', 3000)).toEqual({ allowed: true });
+    expect(SecurityUtils.checkCooldown('user1', 'skip', 3000)).toEqual({ allowed: true });
+
+    now += 2000;
+    expect(SecurityUtils.checkCooldown('user1', 'play', 3000)).toEqual({ allowed: true });
+  });
+
+  it('should keep cooldowns in storage and drop expired ones on write', () => {
+    SecurityUtils.checkCooldown('user1', 'play', 3000);
+    now += 2000;
+    SecurityUtils.checkCooldown('user2', 'play', 3000);
+    expect(storage.get('cooldowns', 'play')).toEqual({ user1: 1_000_000, user2: 1_002_000 });
+
+    now += 2000;
+    SecurityUtils.checkCooldown('user3', 'play', 3000);
+    expect(storage.get('cooldowns', 'play')).toEqual({ user2: 1_002_000, user3: 1_004_000 });
+  });
+});
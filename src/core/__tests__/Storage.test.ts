@@ -0,0 +1,152 @@
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStorage, MemoryStorage, StoredMap, getStorage, setStorage } from '../Storage.js';
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it('should keep values per namespace', () => {
+    storage.set('a', 'key', 1);
+    storage.set('b', 'key', 2);
+
+    expect(storage.get('a', 'key')).toBe(1);
+    expect(storage.get('b', 'key')).toBe(2);
+    expect(storage.get('c', 'key')).toBeUndefined();
+    expect(storage.keys('a')).toEqual(['key']);
+  });
+
+  it('should delete keys and report whether they existed', () => {
+    storage.set('a', 'key', 1);
+
+    expect(storage.delete('a', 'key')).toBe(true);
+    expect(storage.delete('a', 'key')).toBe(false);
+    expect(storage.delete('missing', 'key')).toBe(false);
+    expect(storage.keys('a')).toEqual([]);
+  });
+
+  it('should clear one namespace only', () => {
+    storage.set('a', 'x', 1);
+    storage.set('b', 'y', 2);
+    storage.clear('a');
+
+    expect(storage.keys('a')).toEqual([]);
+    expect(storage.get('b', 'y')).toBe(2);
+  });
+});
+
+describe('StoredMap', () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+  });
+
+  it('should read and write its namespace of the shared backend', () => {
+    const map = new StoredMap<{ volume: number }>('audio');
+    map.set('guild1', { volume: 50 }).set('guild2', { volume: 80 });
+
+    expect(map.get('guild1')).toEqual({ volume: 50 });
+    expect(map.has('guild2')).toBe(true);
+    expect(map.has('guild3')).toBe(false);
+    expect(map.size).toBe(2);
+    expect(map.entries()).toEqual([['guild1', { volume: 50 }], ['guild2', { volume: 80 }]]);
+    expect(getStorage().get('audio', 'guild1')).toEqual({ volume: 50 });
+  });
+
+  it('should follow the backend when it is swapped', () => {
+    const map = new StoredMap<number>('counts');
+    map.set('a', 1);
+
+    setStorage(new MemoryStorage());
+    expect(map.get('a')).toBeUndefined();
+    expect(map.size).toBe(0);
+  });
+
+  it('should use its own backend when given one', () => {
+    const own = new MemoryStorage();
+    const map = new StoredMap<number>('events', () => own);
+    map.set('a', 1);
+
+    expect(own.get('events', 'a')).toBe(1);
+    expect(getStorage().keys('events')).toEqual([]);
+  });
+
+  it('should delete and clear', () => {
+    const map = new StoredMap<number>('counts');
+    map.set('a', 1);
+    map.set('b', 2);
+
+    expect(map.delete('a')).toBe(true);
+    expect(map.keys()).toEqual(['b']);
+    map.clear();
+    expect(map.size).toBe(0);
+  });
+});
+
+describe('JsonFileStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    file = path.join(dir, 'data', 'state.json');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readFile = () => JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+  it('should load existing state', () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ voices: { guild1: 'en-US-AriaNeural' } }));
+
+    const storage = new JsonFileStorage(file);
+    expect(storage.get('voices', 'guild1')).toBe('en-US-AriaNeural');
+  });
+
+  it('should batch changes into one save shortly after the first', () => {
+    const storage = new JsonFileStorage(file);
+    storage.set('voices', 'guild1', 'a');
+    jest.advanceTimersByTime(500);
+    storage.set('voices', 'guild2', 'b');
+
+    expect(fs.existsSync(file)).toBe(false);
+    jest.advanceTimersByTime(500);
+    expect(readFile()).toEqual({ voices: { guild1: 'a', guild2: 'b' } });
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it('should save pending changes on flush', () => {
+    const storage = new JsonFileStorage(file);
+    storage.set('voices', 'guild1', 'a');
+    storage.flush();
+
+    expect(readFile()).toEqual({ voices: { guild1: 'a' } });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should not write on flush without changes', () => {
+    new JsonFileStorage(file).flush();
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('should start empty and keep a corrupt file aside', () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, '{ not json');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const storage = new JsonFileStorage(file);
+    expect(storage.keys('voices')).toEqual([]);
+    expect(fs.existsSync(file)).toBe(false);
+    expect(fs.readdirSync(path.dirname(file)).some(name => name.startsWith('state.json.corrupt-'))).toBe(true);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,107 @@
+import { jest } from '@jest/globals';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { AuthManager, type ApiScope, type AuthContext } from '../AuthManager.js';
+import { PermissionError } from '../ErrorHandler.js';
+import { ToolAccess } from '../ToolAccess.js';
+import { defineTool, ToolRegistry } from '../ToolRegistry.js';
+
+const registry = ToolRegistry.getInstance();
+registry.register(
+  ...(['read', 'moderation', 'admin'] as ApiScope[]).map(scope => defineTool({
+    name: `test_${scope}_tool`,
+    description: `Needs ${scope}`,
+    category: 'Test',
+    scope,
+    schema: z.object({}).passthrough(),
+    handler: async () => 'ok'
+  })),
+  defineTool({
+    name: 'discord_manage',
+    description: 'Dispatches to an action',
+    category: 'Test',
+    scope: 'read',
+    schema: z.object({ action: z.string() }).passthrough(),
+    handler: async () => 'ok'
+  })
+);
+
+function authInfo(scopes: ApiScope[], guilds?: string[]): AuthInfo {
+  const context: AuthContext = { name: 'test', token: 'secret', scopes, guilds };
+  return { token: context.token, clientId: context.name, scopes, extra: { context } };
+}
+
+describe('ToolAccess', () => {
+  const defaultGuild = (args: Record<string, any> | undefined) => args?.guildId ?? 'home-guild';
+  let access: ToolAccess;
+
+  beforeEach(() => {
+    access = new ToolAccess(registry, AuthManager.getInstance(), defaultGuild);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getToolScope', () => {
+    it('should use the scope the tool declares', () => {
+      expect(access.getToolScope('test_read_tool')).toBe('read');
+      expect(access.getToolScope('test_moderation_tool')).toBe('moderation');
+      expect(access.getToolScope('test_admin_tool')).toBe('admin');
+    });
+
+    it('should require admin for unknown tools', () => {
+      expect(access.getToolScope('no_such_tool')).toBe('admin');
+      // Names are matched exactly; encoded names are unknown, not read tools
+      expect(access.getToolScope('test%5Fread_tool')).toBe('admin');
+      expect(access.getToolScope('get_something')).toBe('admin');
+    });
+
+    it('should check discord_manage against its action', () => {
+      expect(access.getToolScope('discord_manage', { action: 'test_admin_tool' })).toBe('admin');
+      expect(access.getToolScope('discord_manage', { action: 'test_read_tool' })).toBe('read');
+      expect(access.getToolScope('discord_manage', { action: 'no_such_tool' })).toBe('admin');
+      expect(access.getToolScope('discord_manage', { action: 'discord_manage' })).toBe('read');
+    });
+
+    it('should check nested discord_manage calls against the innermost action', () => {
+      expect(access.getToolScope('discord_manage', { action: 'test_admin_tool', params: { action: 'list' } })).toBe('admin');
+      expect(access.getToolScope('discord_manage', { action: 'discord_manage', params: { action: 'test_admin_tool' } })).toBe('admin');
+    });
+  });
+
+  describe('assertToolAccess', () => {
+    it('should trust calls without a token', () => {
+      expect(() => access.assertToolAccess(undefined, 'test_admin_tool')).not.toThrow();
+    });
+
+    it('should allow scopes at or above the required one', () => {
+      expect(() => access.assertToolAccess(authInfo(['read']), 'test_read_tool')).not.toThrow();
+      expect(() => access.assertToolAccess(authInfo(['moderation']), 'test_read_tool')).not.toThrow();
+      expect(() => access.assertToolAccess(authInfo(['admin']), 'test_moderation_tool')).not.toThrow();
+    });
+
+    it('should reject scopes below the required one', () => {
+      expect(() => access.assertToolAccess(authInfo(['read']), 'test_moderation_tool')).toThrow(PermissionError);
+      expect(() => access.assertToolAccess(authInfo(['moderation']), 'test_admin_tool')).toThrow(PermissionError);
+      expect(() => access.assertToolAccess(authInfo(['read']), 'no_such_tool')).toThrow(PermissionError);
+    });
+
+    it('should not let discord_manage raise a token above its scope', () => {
+      expect(() => access.assertToolAccess(authInfo(['read']), 'discord_manage', { action: 'test_admin_tool' }))
+        .toThrow(PermissionError);
+      expect(() => access.assertToolAccess(authInfo(['read']), 'discord_manage', { action: 'test_read_tool' }))
+        .not.toThrow();
+    });
+
+    it('should hold guild-restricted tokens to their guilds', () => {
+      const token = authInfo(['admin'], ['home-guild']);
+      expect(() => access.assertToolAccess(token, 'test_read_tool')).not.toThrow();
+      expect(() => access.assertToolAccess(token, 'test_read_tool', { guildId: 'home-guild' })).not.toThrow();
+      expect(() => access.assertToolAccess(token, 'test_read_tool', { guildId: 'other-guild' })).toThrow(PermissionError);
+      expect(() => access.assertToolAccess(token, 'discord_manage', { action: 'test_read_tool', params: { guildId: 'other-guild' } }))
+        .toThrow(PermissionError);
+    });
+  });
+});
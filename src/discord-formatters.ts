@@ -0,0 +1,472 @@
+/**
+ * Discord Formatters - markdown rendering of DiscordService results
+ *
+ * Used by prefix commands and as the text part of MCP tool results. Keep
+ * these free of Discord API calls: they only turn result data into text.
+ */
+
+import type {
+  AuditLog,
+  AutomodRuleList,
+  BanList,
+  ChannelList,
+  ChannelPermissions,
+  ChannelStructure,
+  EmojiList,
+  EventList,
+  InviteList,
+  MemberDetails,
+  MemberList,
+  MessageAttachments,
+  MessageHistory,
+  MessageList,
+  RoleList,
+  ServerInfo,
+  ServerStats,
+  ServerWidget,
+  StickerList,
+  StructureChannel,
+  ThreadInfo,
+  ThreadList,
+  VoiceConnectionList,
+  WebhookList,
+  WelcomeScreenInfo
+} from './discord-results.js';
+
+function formatDate(iso: string | null, fallback: string = 'Unknown'): string {
+  return iso ? new Date(iso).toLocaleDateString() : fallback;
+}
+
+function formatDateTime(iso: string | null, fallback: string = 'Unknown'): string {
+  return iso ? new Date(iso).toLocaleString() : fallback;
+}
+
+function yesNo(value: boolean): string {
+  return value ? 'Yes' : 'No';
+}
+
+// ============================================================
+// SERVER
+// ============================================================
+
+export function formatServerInfo(info: ServerInfo): string {
+  return `Server Name: ${info.name}
+Server ID: ${info.id}
+Owner: ${info.owner}
+Created On: ${formatDate(info.createdAt)}
+Members: ${info.memberCount}
+Channels:
+ - Text: ${info.channels.text}
+ - Voice: ${info.channels.voice}
+ - Categories: ${info.channels.categories}
+Boosts:
+ - Count: ${info.boosts.count}
+ - Tier: ${info.boosts.tier}`;
+}
+
+export function formatServerStats(stats: ServerStats): string {
+  return `**Server Statistics for ${stats.name}**
+
+**Basic Info:**
+- Server ID: ${stats.id}
+- Owner: ${stats.owner}
+- Created: ${formatDate(stats.createdAt)}
+- Verification Level: ${stats.verificationLevel}
+- Boost Level: ${stats.boostTier}
+- Boost Count: ${stats.boostCount}
+
+**Members:**
+- Total Members: ${stats.memberCount}
+- Max Members: ${stats.maxMembers ?? 'Unlimited'}
+
+**Channels (${stats.channels.total} total):**
+- Text: ${stats.channels.text}
+- Voice: ${stats.channels.voice}
+- Categories: ${stats.channels.category}
+- Stage: ${stats.channels.stage}
+- Announcement: ${stats.channels.announcement}
+- Forum: ${stats.channels.forum}
+
+**Roles:** ${stats.roleCount} (excluding @everyone)
+**Custom Emojis:** ${stats.emojiCount}
+**Features:** ${stats.features.length > 0 ? stats.features.join(', ') : 'None'}`;
+}
+
+export function formatServerWidget(widget: ServerWidget): string {
+  if (!widget.enabled) {
+    return `**Server Widget for ${widget.guildName}**
+Widget is disabled or not available. Enable it in Server Settings > Widget to use this feature.`;
+  }
+
+  const channels = widget.channels.map(channel => `- **${channel.name}** (${channel.id})`);
+
+  return `**Server Widget for ${widget.guildName}**
+- **Invite URL**: ${widget.instantInvite || 'None'}
+- **Online Members**: ${widget.presenceCount}
+- **Voice Channels**: ${widget.channels.length}
+
+**Channels with activity:**
+${channels.length > 0 ? channels.join('\n') : 'No active channels'}`;
+}
+
+export function formatWelcomeScreen(screen: WelcomeScreenInfo): string {
+  if (!screen.enabled) {
+    return `**Welcome Screen for ${screen.guildName}**
+Welcome screen is not enabled or not available. Enable it in Server Settings > Overview > Welcome Screen.`;
+  }
+
+  const channels = screen.channels.map(channel =>
+    `- ${channel.emoji ? channel.emoji + ' ' : ''}**${channel.description}**
+  Channel: <#${channel.channelId}> (${channel.channelId})`
+  );
+
+  return `**Welcome Screen for ${screen.guildName}**
+- **Enabled**: Yes
+- **Description**: ${screen.description || 'No description'}
+- **Welcome Channels**: ${screen.channels.length}
+
+**Channels:**
+${channels.length > 0 ? channels.join('\n\n') : 'No welcome channels configured'}`;
+}
+
+// ============================================================
+// MESSAGES
+// ============================================================
+
+export function formatMessages(list: MessageList): string {
+  const messages = list.messages.map(m =>
+    `- (ID: ${m.id}) **[${m.author}]** \`${m.createdAt}\`: \`\`\`${m.content || '[No content]'}\`\`\``
+  );
+  return `**Retrieved ${list.messages.length} messages:** \n${messages.join('\n')}`;
+}
+
+export function formatPinnedMessages(list: MessageList): string {
+  if (list.messages.length === 0) {
+    return `No pinned messages found in ${list.channelName}`;
+  }
+
+  const messages = list.messages.map(m => {
+    const content = m.content || '[No content]';
+    return `- **${m.author}** (${m.createdAt}): ${content.substring(0, 100)}${content.length > 100 ? '...' : ''}\n  Link: ${m.url}`;
+  });
+  return `**Found ${list.messages.length} pinned messages in ${list.channelName}:**\n${messages.join('\n')}`;
+}
+
+export function formatMessageHistory(history: MessageHistory): string {
+  if (history.messages.length === 0) {
+    return "No messages found in the specified range";
+  }
+
+  const messages = history.messages.map(m => {
+    const attachments = m.attachmentCount > 0 ? ` [${m.attachmentCount} attachments]` : '';
+    return `**${m.author}** (${formatDateTime(m.createdAt)})${attachments}
+${m.content || '*[No text content]*'}`;
+  });
+
+  return `**Message History for #${history.channelName}**
+Total messages: ${history.messages.length}
+Range: ${history.limit} messages${history.before ? ` before ${history.before}` : ''}${history.after ? ` after ${history.after}` : ''}
+
+${messages.join('\n\n')}`;
+}
+
+export function formatMessageAttachments(result: MessageAttachments): string {
+  if (result.attachments.length === 0) {
+    return "No attachments found in this message";
+  }
+
+  const attachments = result.attachments.map(attachment => `- **${attachment.name}**
+  - URL: ${attachment.url}
+  - Size: ${(attachment.size / 1024).toFixed(2)} KB
+  - Content Type: ${attachment.contentType || 'Unknown'}
+  - Spoiler: ${yesNo(attachment.spoiler)}`);
+
+  return `**Found ${result.attachments.length} attachments:**\n${attachments.join('\n\n')}`;
+}
+
+// ============================================================
+// CHANNELS
+// ============================================================
+
+const CHANNEL_EMOJIS: Record<string, string> = {
+  GuildText: '💬',
+  GuildVoice: '🔊',
+  GuildAnnouncement: '📢',
+  GuildStageVoice: '🎭',
+  GuildForum: '💭'
+};
+
+export function formatChannelList(list: ChannelList): string {
+  if (list.channels.length === 0) {
+    return list.categoryId ? "Category does not contain any channels" : "No channels found";
+  }
+
+  const channels = list.channels.map(c => `- ${c.type} channel: ${c.name} (ID: ${c.id})`);
+  return `Retrieved ${list.channels.length} channels:\n${channels.join('\n')}`;
+}
+
+export function formatChannelStructure(structure: ChannelStructure): string {
+  const line = (channel: StructureChannel) =>
+    `  ${CHANNEL_EMOJIS[channel.type] || '📄'} ${channel.name} (ID: ${channel.id}, Position: ${channel.position})`;
+  const lines = [`📋 **Channel Structure for ${structure.guildName}**\n`];
+
+  // Channels not in any category come first
+  if (structure.uncategorized.length > 0) {
+    lines.push("🔸 **Uncategorized Channels:**", ...structure.uncategorized.map(line), "");
+  }
+
+  for (const category of structure.categories) {
+    lines.push(`📁 **${category.name}** (ID: ${category.id}, Position: ${category.position})`, ...category.channels.map(line), "");
+  }
+
+  return lines.join('\n');
+}
+
+export function formatChannelPermissions(permissions: ChannelPermissions): string {
+  if (permissions.overwrites.length === 0) {
+    return `No permission overwrites found for channel ${permissions.channelName}`;
+  }
+
+  const overwrites = permissions.overwrites.map(overwrite => {
+    const isRole = overwrite.type === 'role';
+    const target = overwrite.name ? `@${overwrite.name}` : `${isRole ? 'Role' : 'User'} ID: ${overwrite.id}`;
+    return `- **${target}** (${isRole ? 'Role' : 'Member'}):\n` +
+      `  - Allowed: ${overwrite.allow.length > 0 ? overwrite.allow.join(', ') : 'None'}\n` +
+      `  - Denied: ${overwrite.deny.length > 0 ? overwrite.deny.join(', ') : 'None'}`;
+  });
+
+  return `**Permission overwrites for channel ${permissions.channelName}:**\n${overwrites.join('\n\n')}`;
+}
+
+export function formatActiveThreads(list: ThreadList): string {
+  if (list.threads.length === 0) {
+    return "No active threads found in this server";
+  }
+
+  // Group threads by parent channel
+  const byParent = new Map<string, ThreadInfo[]>();
+  for (const thread of list.threads) {
+    const parent = thread.parentName || 'Unknown Channel';
+    byParent.set(parent, [...(byParent.get(parent) || []), thread]);
+  }
+
+  const lines: string[] = [];
+  for (const [parentName, threads] of byParent) {
+    lines.push(`\n**Parent Channel: ${parentName}**`);
+    for (const thread of threads) {
+      lines.push(
+        `  - ${thread.locked ? '🔒' : ''}${thread.archived ? '📦' : ''} **${thread.name}** (ID: ${thread.id})\n` +
+        `    - Members: ${thread.memberCount}\n` +
+        `    - Auto-archive: ${thread.autoArchiveMinutes} minutes\n` +
+        `    - Created: ${formatDateTime(thread.createdAt)}`
+      );
+    }
+  }
+
+  return `**Found ${list.threads.length} active threads:**${lines.join('\n')}`;
+}
+
+export function formatWebhooks(list: WebhookList): string {
+  if (list.webhooks.length === 0) {
+    return "No webhooks found";
+  }
+
+  const webhooks = list.webhooks.map(w => `- (ID: ${w.id}) **[${w.name}]** \`\`\`${w.url}\`\`\``);
+  return `**Retrieved ${webhooks.length} webhooks:** \n${webhooks.join('\n')}`;
+}
+
+export function formatVoiceConnections(list: VoiceConnectionList): string {
+  if (list.connections.length === 0) {
+    return "No active voice connections";
+  }
+
+  const connections = list.connections.map(c =>
+    `- ${c.guildName}: ${c.channelName || 'Unknown Channel'} (Status: ${c.status})`
+  );
+  return `Active voice connections:\n${connections.join('\n')}`;
+}
+
+// ============================================================
+// MEMBERS & ROLES
+// ============================================================
+
+export function formatMembers(list: MemberList): string {
+  if (list.query !== undefined) {
+    if (list.members.length === 0) {
+      return `No members found matching query "${list.query}"`;
+    }
+
+    const results = list.members.map(member => `- **${member.username}** (${member.id})
+  - Nickname: ${member.nickname || 'None'}
+  - Joined: ${formatDate(member.joinedAt)}`);
+    return `**Found ${list.members.length} members matching "${list.query}":**\n${results.join('\n\n')}`;
+  }
+
+  const members = list.members.map(member => `- **${member.username}** (${member.id})
+  - Nickname: ${member.nickname || 'None'}
+  - Joined: ${formatDate(member.joinedAt)}
+  - Roles: ${member.roles.map(role => role.name).join(', ') || 'None'}
+  - Status: ${member.status || 'Unknown'}`);
+
+  return `**Retrieved ${list.members.length} members from ${list.guildName}:**\n${members.join('\n\n')}`;
+}
+
+export function formatMemberInfo(member: MemberDetails): string {
+  const roles = member.roles.map(role => `${role.name} (${role.id})`).join('\n  - ') || 'None';
+  const permissions = member.permissions.join(', ') || 'None';
+
+  return `**Member Information for ${member.username}:**
+- **User ID:** ${member.id}
+- **Nickname:** ${member.nickname || 'None'}
+- **Account Created:** ${formatDateTime(member.createdAt)}
+- **Joined Server:** ${formatDateTime(member.joinedAt)}
+- **Highest Role:** ${member.highestRole}
+- **Avatar:** ${member.avatarUrl}
+- **Bot:** ${yesNo(member.bot)}
+- **Roles:**
+  - ${roles}
+- **Key Permissions:** ${permissions.substring(0, 500)}${permissions.length > 500 ? '...' : ''}`;
+}
+
+export function formatRoles(list: RoleList): string {
+  if (list.roles.length === 0) {
+    return "No roles found in this server";
+  }
+
+  const botPosition = list.bot.highestPosition ?? 0;
+  const roles = list.roles.map(role => {
+    const blockedReason = role.position >= botPosition ? 'higher/equal position' : 'permission issue';
+    return `- **${role.name}** (ID: \`${role.id}\`)
+  - Color: ${role.color}
+  - Position: ${role.position}
+  - Members: ${role.memberCount}
+  - Mentionable: ${yesNo(role.mentionable)}
+  - Hoisted: ${yesNo(role.hoisted)}
+  - Special: ${role.everyone ? '@everyone role' : 'Regular role'}
+  - Bot can reposition: ${role.botCanManage ? '✅ Yes' : '❌ No'}${!role.botCanManage && !role.everyone ? ` (${blockedReason})` : ''}`;
+  });
+
+  return `📋 **Roles in ${list.guildName}** (${roles.length} total)
+
+🤖 **Bot Status:**
+- Bot's highest role: **${list.bot.highestRole}** (Position: ${list.bot.highestPosition})
+- Has "Manage Roles" permission: ${list.bot.canManageRoles ? '✅ Yes' : '❌ No'}
+
+📝 **Role Positioning Rules:**
+- Bot can only move roles **below** its highest role
+- @everyone role cannot be repositioned
+- Positions are 0-based (0 = bottom, higher number = top)
+
+🎭 **Server Roles:**
+
+${roles.join('\n\n')}`;
+}
+
+// ============================================================
+// MODERATION
+// ============================================================
+
+export function formatAuditLogs(log: AuditLog): string {
+  const entries = log.entries.map(entry => {
+    const target = entry.target || (entry.targetId ? `ID: ${entry.targetId}` : 'Unknown');
+    return `- [${entry.createdAt}] **${entry.action}** by ${entry.executor || 'Unknown'} on ${target} - Reason: ${entry.reason || 'No reason provided'}`;
+  });
+  return `**Retrieved ${entries.length} audit log entries:**\n${entries.join('\n')}`;
+}
+
+export function formatBans(list: BanList): string {
+  if (list.bans.length === 0) {
+    return "No bans found in this server";
+  }
+
+  const bans = list.bans.map(ban => `- **${ban.username}** (ID: ${ban.userId}) - Reason: ${ban.reason || 'No reason provided'}`);
+  return `**Retrieved ${bans.length} bans:**\n${bans.join('\n')}`;
+}
+
+export function formatAutomodRules(list: AutomodRuleList): string {
+  if (list.rules.length === 0) {
+    return "No automod rules found in this server";
+  }
+
+  const rules = list.rules.map(rule => {
+    let metadata = '';
+    if (rule.keywordCount) metadata += `\n  - Keywords: ${rule.keywordCount} items`;
+    if (rule.allowListCount) metadata += `\n  - Allow List: ${rule.allowListCount} items`;
+    if (rule.mentionLimit) metadata += `\n  - Mention Limit: ${rule.mentionLimit}`;
+
+    return `**${rule.name}** (ID: ${rule.id})
+  - Enabled: ${rule.enabled ? '✅' : '❌'}
+  - Event Type: ${rule.eventType}
+  - Trigger Type: ${rule.triggerType}
+  - Actions: ${rule.actionCount} configured${metadata}`;
+  });
+
+  return `**Found ${rules.length} automod rules:**\n\n${rules.join('\n\n')}`;
+}
+
+// ============================================================
+// EVENTS, INVITES, EMOJIS & STICKERS
+// ============================================================
+
+export function formatEvents(list: EventList): string {
+  if (list.events.length === 0) {
+    return "No scheduled events found in this server";
+  }
+
+  const events = list.events.map(event => `- **${event.name}** (ID: ${event.id})
+  - Description: ${event.description || 'No description'}
+  - Start: ${formatDateTime(event.startsAt)}
+  - End: ${formatDateTime(event.endsAt, 'No end time')}
+  - Status: ${event.status}
+  - Type: ${event.type === 'voice' ? 'Voice' : 'External'}
+  - Location: ${event.location || (event.type === 'voice' ? 'Unknown Channel' : 'External Location')}
+  - Participants: ${event.participants}`);
+
+  return `**Found ${events.length} scheduled events:**\n${events.join('\n\n')}`;
+}
+
+export function formatInvites(list: InviteList): string {
+  if (list.invites.length === 0) {
+    return "No invites found in this server";
+  }
+
+  const invites = list.invites.map(invite => `- **${invite.code}** (${invite.url})
+  - Channel: ${invite.channelName || 'Unknown'}
+  - Created by: ${invite.inviter || 'Unknown'}
+  - Uses: ${invite.uses}/${invite.maxUses ?? 'Unlimited'}
+  - Expires: ${formatDateTime(invite.expiresAt, 'Never')}
+  - Temporary: ${yesNo(invite.temporary)}`);
+
+  return `**Found ${invites.length} invites:**\n${invites.join('\n\n')}`;
+}
+
+export function formatEmojis(list: EmojiList): string {
+  if (list.emojis.length === 0) {
+    return "No custom emojis found in this server";
+  }
+
+  const emojis = list.emojis.map(emoji => {
+    const access = emoji.roles.length > 0 ? `Restricted to: ${emoji.roles.join(', ')}` : 'Available to everyone';
+    return `- **${emoji.name}** (ID: ${emoji.id})
+  - Usage: <${emoji.animated ? 'a' : ''}:${emoji.name}:${emoji.id}>
+  - Animated: ${yesNo(emoji.animated)}
+  - Created by: ${emoji.creator || 'Unknown'}
+  - ${access}`;
+  });
+
+  return `**Found ${emojis.length} custom emojis:**\n${emojis.join('\n\n')}`;
+}
+
+export function formatStickers(list: StickerList): string {
+  if (list.stickers.length === 0) {
+    return "No custom stickers found in this server";
+  }
+
+  const stickers = list.stickers.map(sticker => `- **${sticker.name}** (ID: ${sticker.id})
+  - Description: ${sticker.description || 'No description'}
+  - Tags: ${sticker.tags || 'No tags'}
+  - Format: ${sticker.format}
+  - Created by: ${sticker.creator || 'Unknown'}`);
+
+  return `**Found ${stickers.length} custom stickers:**\n${stickers.join('\n\n')}`;
+}
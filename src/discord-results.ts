@@ -0,0 +1,354 @@
+/**
+ * Discord Results - plain data returned by DiscordService read operations
+ *
+ * Everything here is JSON-serialisable: IDs are strings, timestamps are ISO
+ * 8601 strings. The REST API returns these objects as-is, MCP tools send them
+ * as structuredContent, and discord-formatters.ts renders them as markdown.
+ */
+
+export interface ServerInfo {
+  id: string;
+  name: string;
+  owner: string;
+  createdAt: string;
+  memberCount: number;
+  channels: {
+    text: number;
+    voice: number;
+    categories: number;
+  };
+  boosts: {
+    count: number;
+    tier: number;
+  };
+}
+
+export interface ServerStats {
+  id: string;
+  name: string;
+  owner: string;
+  createdAt: string;
+  verificationLevel: string;
+  boostTier: number;
+  boostCount: number;
+  memberCount: number;
+  maxMembers: number | null;
+  channels: {
+    total: number;
+    text: number;
+    voice: number;
+    category: number;
+    stage: number;
+    announcement: number;
+    forum: number;
+  };
+  roleCount: number;                 // Excluding @everyone
+  emojiCount: number;
+  features: string[];
+}
+
+export interface ServerWidget {
+  guildId: string;
+  guildName: string;
+  enabled: boolean;
+  instantInvite: string | null;
+  presenceCount: number;
+  channels: { id: string; name: string }[];
+}
+
+export interface WelcomeScreenInfo {
+  guildId: string;
+  guildName: string;
+  enabled: boolean;
+  description: string | null;
+  channels: { channelId: string; description: string; emoji: string | null }[];
+}
+
+// ============================================================
+// MESSAGES
+// ============================================================
+
+export interface MessageSummary {
+  id: string;
+  authorId: string;
+  author: string;
+  content: string;
+  createdAt: string;
+  url: string;
+  attachmentCount: number;
+}
+
+export interface MessageList {
+  channelId: string;
+  channelName?: string;
+  messages: MessageSummary[];
+}
+
+export interface MessageHistory extends MessageList {
+  limit: number;
+  before?: string;
+  after?: string;
+}
+
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  url: string;
+  size: number;                      // Bytes
+  contentType: string | null;
+  spoiler: boolean;
+}
+
+export interface MessageAttachments {
+  channelId: string;
+  messageId: string;
+  attachments: AttachmentInfo[];
+}
+
+// ============================================================
+// CHANNELS
+// ============================================================
+
+export interface ChannelSummary {
+  id: string;
+  name: string;
+  type: string;                      // ChannelType name, e.g. GuildText
+}
+
+export interface ChannelList {
+  guildId: string;
+  categoryId?: string;
+  channels: ChannelSummary[];
+}
+
+export interface StructureChannel extends ChannelSummary {
+  position: number;
+}
+
+export interface ChannelStructure {
+  guildId: string;
+  guildName: string;
+  uncategorized: StructureChannel[];
+  categories: (StructureChannel & { channels: StructureChannel[] })[];
+}
+
+export interface PermissionOverwriteInfo {
+  id: string;
+  type: 'role' | 'member';
+  name: string | null;               // Role or user name, null if it no longer exists
+  allow: string[];
+  deny: string[];
+}
+
+export interface ChannelPermissions {
+  channelId: string;
+  channelName: string;
+  overwrites: PermissionOverwriteInfo[];
+}
+
+export interface ThreadInfo {
+  id: string;
+  name: string;
+  parentId: string | null;
+  parentName: string | null;
+  memberCount: number;
+  locked: boolean;
+  archived: boolean;
+  autoArchiveMinutes: number;
+  createdAt: string | null;
+}
+
+export interface ThreadList {
+  guildId: string;
+  threads: ThreadInfo[];
+}
+
+export interface WebhookInfo {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface WebhookList {
+  channelId: string;
+  webhooks: WebhookInfo[];
+}
+
+export interface VoiceConnectionInfo {
+  guildId: string;
+  guildName: string;
+  channelId: string | null;
+  channelName: string | null;
+  status: string;
+}
+
+export interface VoiceConnectionList {
+  connections: VoiceConnectionInfo[];
+}
+
+// ============================================================
+// MEMBERS & ROLES
+// ============================================================
+
+export interface MemberSummary {
+  id: string;
+  username: string;
+  nickname: string | null;
+  joinedAt: string | null;
+  roles: { id: string; name: string }[];
+  status: string | null;
+}
+
+export interface MemberList {
+  guildId: string;
+  guildName: string;
+  query?: string;
+  members: MemberSummary[];
+}
+
+export interface MemberDetails extends MemberSummary {
+  guildId: string;
+  bot: boolean;
+  createdAt: string;
+  highestRole: string;
+  avatarUrl: string;
+  permissions: string[];
+}
+
+export interface RoleInfo {
+  id: string;
+  name: string;
+  color: string;
+  position: number;
+  memberCount: number;
+  mentionable: boolean;
+  hoisted: boolean;
+  everyone: boolean;
+  botCanManage: boolean;
+  permissions: string[];
+}
+
+export interface RoleList {
+  guildId: string;
+  guildName: string;
+  bot: {
+    highestRole: string | null;
+    highestPosition: number | null;
+    canManageRoles: boolean;
+  };
+  roles: RoleInfo[];
+}
+
+// ============================================================
+// MODERATION
+// ============================================================
+
+export interface AuditLogEntryInfo {
+  id: string;
+  action: string;
+  executor: string | null;
+  executorId: string | null;
+  target: string | null;
+  targetId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AuditLog {
+  guildId: string;
+  entries: AuditLogEntryInfo[];
+}
+
+export interface BanInfo {
+  userId: string;
+  username: string;
+  reason: string | null;
+}
+
+export interface BanList {
+  guildId: string;
+  bans: BanInfo[];
+}
+
+export interface AutomodRuleInfo {
+  id: string;
+  name: string;
+  enabled: boolean;
+  eventType: string;
+  triggerType: string;
+  actionCount: number;
+  keywordCount: number;
+  allowListCount: number;
+  mentionLimit: number | null;
+}
+
+export interface AutomodRuleList {
+  guildId: string;
+  rules: AutomodRuleInfo[];
+}
+
+// ============================================================
+// EVENTS, INVITES, EMOJIS & STICKERS
+// ============================================================
+
+export interface EventInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  status: string;
+  type: 'voice' | 'external';
+  location: string | null;           // Voice channel name or external location
+  channelId: string | null;
+  participants: number;
+}
+
+export interface EventList {
+  guildId: string;
+  events: EventInfo[];
+}
+
+export interface InviteInfo {
+  code: string;
+  url: string;
+  channelId: string | null;
+  channelName: string | null;
+  inviter: string | null;
+  uses: number;
+  maxUses: number | null;            // null means unlimited
+  expiresAt: string | null;
+  temporary: boolean;
+}
+
+export interface InviteList {
+  guildId: string;
+  invites: InviteInfo[];
+}
+
+export interface EmojiInfo {
+  id: string;
+  name: string | null;
+  animated: boolean;
+  creator: string | null;
+  roles: string[];                   // Role names the emoji is restricted to; empty means everyone
+}
+
+export interface EmojiList {
+  guildId: string;
+  emojis: EmojiInfo[];
+}
+
+export interface StickerInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  tags: string | null;
+  format: string;
+  creator: string | null;
+}
+
+export interface StickerList {
+  guildId: string;
+  stickers: StickerInfo[];
+}
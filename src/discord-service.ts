@@ -17,6 +17,7 @@ import {
   StageChannel,
   CategoryChannel,
   GuildChannel,
+  GuildBasedChannel,
   ThreadChannel,
   DMChannel,
   ChannelType,
@@ -48,6 +49,7 @@ import {
   Invite,
   GuildEmoji,
   Sticker,
+  StickerFormatType,
   WelcomeScreen,
   WelcomeChannel,
   GuildVerificationLevel,
@@ -75,20 +77,48 @@ import {
 } from 'discord.js';
 import {
   joinVoiceChannel,
-  createAudioPlayer,
-  createAudioResource,
-  AudioPlayerStatus,
   VoiceConnectionStatus,
   getVoiceConnection,
-  VoiceConnection,
-  AudioPlayer
+  VoiceConnection
 } from '@discordjs/voice';
-import { MsEdgeTTS, OUTPUT_FORMAT } from 'msedge-tts';
-import * as fs from 'fs';
-import * as os from 'os';
 import { createRequire } from 'module';
 import { SecurityUtils } from './core/SecurityUtils.js';
 import { getGuildVoice } from './voice-settings.js';
+import { getAudioMixer } from './services/audio-mixer.js';
+import { getVoiceListener } from './services/voice-listener.js';
+import { getVoicePresence } from './services/voice-presence.js';
+import { getTTSService, type SpeechOptions } from './services/tts-service.js';
+import type {
+  AuditLog,
+  AutomodRuleList,
+  BanList,
+  ChannelList,
+  ChannelPermissions,
+  ChannelStructure,
+  ChannelSummary,
+  EmojiList,
+  EventList,
+  InviteList,
+  MemberDetails,
+  MemberList,
+  MemberSummary,
+  MessageAttachments,
+  MessageHistory,
+  MessageList,
+  MessageSummary,
+  PermissionOverwriteInfo,
+  RoleList,
+  ServerInfo,
+  ServerStats,
+  ServerWidget,
+  StickerList,
+  StructureChannel,
+  ThreadList,
+  VoiceConnectionInfo,
+  VoiceConnectionList,
+  WebhookList,
+  WelcomeScreenInfo
+} from './discord-results.js';
 
 // Get package version
 const require = createRequire(import.meta.url);
@@ -99,7 +129,6 @@ export class DiscordService {
   private client: Client;
   private defaultGuildId?: string;
   private isReady: boolean = false;
-  private audioPlayers: Map<string, AudioPlayer> = new Map();
   private voiceConnections: Map<string, VoiceConnection> = new Map();
 
   constructor() {
@@ -298,7 +327,7 @@ export class DiscordService {
   }
 
   // Server Information Tool
-  async getServerInfo(guildId?: string): Promise<string> {
+  async getServerInfo(guildId?: string): Promise<ServerInfo> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -309,20 +338,25 @@ export class DiscordService {
 
     const owner = await guild.fetchOwner();
     
-    return `Server Name: ${guild.name}
-Server ID: ${guild.id}
-Owner: ${owner.user.username}
-Created On: ${guild.createdAt.toLocaleDateString()}
-Members: ${guild.memberCount}
-Channels:
- - Text: ${guild.channels.cache.filter(c => c.type === ChannelType.GuildText).size}
- - Voice: ${guild.channels.cache.filter(c => c.type === ChannelType.GuildVoice).size}
-  - Categories: ${guild.channels.cache.filter(c => c.type === ChannelType.GuildCategory).size}
-Boosts:
- - Count: ${guild.premiumSubscriptionCount || 0}
- - Tier: ${guild.premiumTier}`;
+    return {
+      id: guild.id,
+      name: guild.name,
+      owner: owner.user.username,
+      createdAt: guild.createdAt.toISOString(),
+      memberCount: guild.memberCount,
+      channels: {
+        text: guild.channels.cache.filter(c => c.type === ChannelType.GuildText).size,
+        voice: guild.channels.cache.filter(c => c.type === ChannelType.GuildVoice).size,
+        categories: guild.channels.cache.filter(c => c.type === ChannelType.GuildCategory).size
+      },
+      boosts: {
+        count: guild.premiumSubscriptionCount || 0,
+        tier: guild.premiumTier
+      }
+    };
   }
 
+
   // Message Management Tools
   async sendMessage(channelId: string, message: string): Promise<string> {
     this.ensureReady();
@@ -370,7 +404,7 @@ Boosts:
     return "Message deleted successfully";
   }
 
-  async readMessages(channelId: string, count?: string): Promise<string> {
+  async readMessages(channelId: string, count?: string): Promise<MessageList> {
     this.ensureReady();
     
     const limit = count ? parseInt(count) : 100;
@@ -381,11 +415,15 @@ Boosts:
     }
 
     const messages = await channel.messages.fetch({ limit });
-    const formattedMessages = this.formatMessages(Array.from(messages.values()));
     
-    return `**Retrieved ${messages.size} messages:** \n${formattedMessages.join('\n')}`;
+    return {
+      channelId: channel.id,
+      channelName: channel.name,
+      messages: Array.from(messages.values()).map(m => this.toMessageSummary(m))
+    };
   }
 
+
   async getUserIdByName(username: string, guildId?: string): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
@@ -479,7 +517,7 @@ Boosts:
     return "Message deleted successfully";
   }
 
-  async readPrivateMessages(userId: string, count?: string): Promise<string> {
+  async readPrivateMessages(userId: string, count?: string): Promise<MessageList> {
     this.ensureReady();
     
     const limit = count ? parseInt(count) : 100;
@@ -491,11 +529,14 @@ Boosts:
 
     const dmChannel = await user.createDM();
     const messages = await dmChannel.messages.fetch({ limit });
-    const formattedMessages = this.formatMessages(Array.from(messages.values()));
     
-    return `**Retrieved ${messages.size} messages:** \n${formattedMessages.join('\n')}`;
+    return {
+      channelId: dmChannel.id,
+      messages: Array.from(messages.values()).map(m => this.toMessageSummary(m))
+    };
   }
 
+
   async addReaction(channelId: string, messageId: string, emoji: string): Promise<string> {
     this.ensureReady();
     
@@ -1498,7 +1539,7 @@ Boosts:
     return `Retrieved ${ChannelType[channel.type]} channel: ${channel.name} (ID: ${channel.id})`;
   }
 
-  async listChannels(guildId?: string): Promise<string> {
+  async listChannels(guildId?: string): Promise<ChannelList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -1507,18 +1548,13 @@ Boosts:
       throw new Error("Discord server not found by guildId");
     }
 
-    const channels = guild.channels.cache;
-    if (channels.size === 0) {
-      throw new Error("No channels found by guildId");
-    }
-
-    const channelList = channels.map(c => 
-      `- ${ChannelType[c.type]} channel: ${c.name} (ID: ${c.id})`
-    ).join('\n');
-    
-    return `Retrieved ${channels.size} channels:\n${channelList}`;
+    return {
+      guildId: guild.id,
+      channels: guild.channels.cache.map(c => this.toChannelSummary(c))
+    };
   }
 
+
   // Category Management Tools
   async createCategory(guildId: string | undefined, name: string): Promise<string> {
     this.ensureReady();
@@ -1586,7 +1622,7 @@ Boosts:
     return `Retrieved category: ${category.name}, with ID: ${category.id}`;
   }
 
-  async listChannelsInCategory(guildId: string | undefined, categoryId: string): Promise<string> {
+  async listChannelsInCategory(guildId: string | undefined, categoryId: string): Promise<ChannelList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -1600,18 +1636,14 @@ Boosts:
       throw new Error("Category not found by categoryId");
     }
 
-    const channels = category.children.cache;
-    if (channels.size === 0) {
-      throw new Error("Category not contains any channels");
-    }
-
-    const channelList = channels.map(c => 
-      `- ${ChannelType[c.type]} channel: ${c.name} (ID: ${c.id})`
-    ).join('\n');
-    
-    return `Retrieved ${channels.size} channels:\n${channelList}`;
+    return {
+      guildId: guild.id,
+      categoryId: category.id,
+      channels: category.children.cache.map(c => this.toChannelSummary(c))
+    };
   }
 
+
   // Webhook Management Tools
   async createWebhook(channelId: string, name: string): Promise<string> {
     this.ensureReady();
@@ -1642,7 +1674,7 @@ Boosts:
     return `Deleted ${webhookName} webhook`;
   }
 
-  async listWebhooks(channelId: string): Promise<string> {
+  async listWebhooks(channelId: string): Promise<WebhookList> {
     this.ensureReady();
     
     const channel = this.client.channels.cache.get(channelId) as TextChannel;
@@ -1651,17 +1683,14 @@ Boosts:
     }
 
     const webhooks = await channel.fetchWebhooks();
-    if (webhooks.size === 0) {
-      throw new Error("No webhooks found");
-    }
-
-    const formattedWebhooks = webhooks.map(w => 
-      `- (ID: ${w.id}) **[${w.name}]** \`\`\`${w.url}\`\`\``
-    );
     
-    return `**Retrieved ${formattedWebhooks.length} webhooks:** \n${formattedWebhooks.join('\n')}`;
+    return {
+      channelId: channel.id,
+      webhooks: webhooks.map(w => ({ id: w.id, name: w.name, url: w.url }))
+    };
   }
 
+
   async sendWebhookMessage(webhookUrl: string, message: string): Promise<string> {
     this.ensureReady();
     
@@ -1673,17 +1702,36 @@ Boosts:
   }
 
   // Helper methods
-  private formatMessages(messages: Message[]): string[] {
-    return messages.map(m => {
-      const authorName = m.author.username;
-      const timestamp = m.createdAt.toISOString();
-      const content = m.content || '[No content]';
-      const messageId = m.id;
-
-      return `- (ID: ${messageId}) **[${authorName}]** \`${timestamp}\`: \`\`\`${content}\`\`\``;
-    });
+  private toMessageSummary(message: Message): MessageSummary {
+    return {
+      id: message.id,
+      authorId: message.author.id,
+      author: message.author.username,
+      content: message.content,
+      createdAt: message.createdAt.toISOString(),
+      url: message.url,
+      attachmentCount: message.attachments.size
+    };
+  }
+
+  private toChannelSummary(channel: GuildBasedChannel | GuildChannel): ChannelSummary {
+    return { id: channel.id, name: channel.name, type: ChannelType[channel.type] };
   }
 
+  private toMemberSummary(member: GuildMember): MemberSummary {
+    return {
+      id: member.user.id,
+      username: member.user.username,
+      nickname: member.nickname,
+      joinedAt: member.joinedAt?.toISOString() ?? null,
+      roles: member.roles.cache
+        .filter((role: Role) => role.id !== member.guild.id)
+        .map((role: Role) => ({ id: role.id, name: role.name })),
+      status: member.presence?.status ?? null
+    };
+  }
+
+
   // Voice & Audio Tools
   async joinVoiceChannel(guildId: string, channelId: string): Promise<string> {
     this.ensureReady();
@@ -1710,35 +1758,21 @@ Boosts:
 
       // SECURITY FIX: Add proper cleanup on disconnect events
       connection.on(VoiceConnectionStatus.Disconnected, () => {
-        // Clean up on unexpected disconnect
-        this.voiceConnections.delete(guild.id);
-        const player = this.audioPlayers.get(guild.id);
-        if (player) {
-          player.stop();
-          this.audioPlayers.delete(guild.id);
-        }
+        // Drop queued clips; music keeps its player, and the voice policy may reconnect
+        getAudioMixer().stopClips(guild.id);
         console.error(`Voice connection disconnected for guild ${guild.id}`);
       });
 
       connection.on(VoiceConnectionStatus.Destroyed, () => {
         // Ensure cleanup when connection is destroyed
         this.voiceConnections.delete(guild.id);
-        const player = this.audioPlayers.get(guild.id);
-        if (player) {
-          player.stop();
-          this.audioPlayers.delete(guild.id);
-        }
+        getAudioMixer().destroy(guild.id);
       });
 
       // Store connection
       this.voiceConnections.set(guild.id, connection);
-
-      // Create audio player for this guild if it doesn't exist
-      if (!this.audioPlayers.has(guild.id)) {
-        const player = createAudioPlayer();
-        this.audioPlayers.set(guild.id, player);
-        connection.subscribe(player);
-      }
+      getVoicePresence().watch(guild.id, connection);
+      getVoiceListener().sync(guild.id);
 
       return `Successfully joined voice channel: ${voiceChannel.name} in ${guild.name}`;
     } catch (error) {
@@ -1758,13 +1792,7 @@ Boosts:
     try {
       connection.destroy();
       this.voiceConnections.delete(resolvedGuildId);
-      
-      // Clean up audio player
-      const player = this.audioPlayers.get(resolvedGuildId);
-      if (player) {
-        player.stop();
-        this.audioPlayers.delete(resolvedGuildId);
-      }
+      getAudioMixer().destroy(resolvedGuildId);
 
       return "Successfully left voice channel";
     } catch (error) {
@@ -1772,151 +1800,117 @@ Boosts:
     }
   }
 
+  /**
+   * Play an audio file or URL; it waits for queued TTS and pauses the music
+   */
   async playAudio(guildId: string, audioUrl: string): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
-    
-    const connection = this.voiceConnections.get(resolvedGuildId);
-    if (!connection) {
-      throw new Error("Bot is not connected to a voice channel in this server");
-    }
 
-    const player = this.audioPlayers.get(resolvedGuildId);
-    if (!player) {
-      throw new Error("Audio player not initialized for this server");
+    // The connection may belong to the music player rather than !join
+    if (!getVoiceConnection(resolvedGuildId)) {
+      throw new Error("Bot is not connected to a voice channel in this server");
     }
 
     try {
-      // Create audio resource from URL or file path
-      const resource = createAudioResource(audioUrl);
-      
-      // Play the audio
-      player.play(resource);
-
-      // Wait for the player to become idle or error
-      return new Promise((resolve, reject) => {
-        player.once(AudioPlayerStatus.Playing, () => {
-          resolve(`Started playing audio from: ${audioUrl}`);
-        });
-
-        player.once('error', (error) => {
-          reject(new Error(`Audio playback error: ${error.message}`));
-        });
+      const { position, started } = getAudioMixer().enqueue(resolvedGuildId, {
+        label: audioUrl,
+        kind: 'audio',
+        source: audioUrl
       });
+      if (position > 0) {
+        return `Queued audio from: ${audioUrl} (${position} ahead)`;
+      }
+
+      await started;
+      return `Started playing audio from: ${audioUrl}`;
     } catch (error) {
       throw new Error(`Failed to play audio: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Stop TTS and play_audio clips (music is controlled by the music commands)
+   */
   async stopAudio(guildId: string): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
 
-    const player = this.audioPlayers.get(resolvedGuildId);
-    if (!player) {
-      throw new Error("No audio player found for this server");
-    }
-
-    try {
-      player.stop();
-      return "Audio playback stopped";
-    } catch (error) {
-      throw new Error(`Failed to stop audio: ${error instanceof Error ? error.message : String(error)}`);
+    if (!getAudioMixer().stopClips(resolvedGuildId)) {
+      throw new Error("No audio is playing in this server");
     }
+    return "Audio playback stopped";
   }
 
-  async speakText(guildId: string, text: string, voiceOverride?: string): Promise<string> {
+  /**
+   * Speak text (or <speak> SSML) with TTS; utterances queue up behind each
+   * other, long text is spoken sentence by sentence, and the music pauses
+   */
+  async speakText(guildId: string, text: string, voiceOverride?: string, options: SpeechOptions = {}): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
 
-    const connection = this.voiceConnections.get(resolvedGuildId);
-    if (!connection) {
+    if (!getVoiceConnection(resolvedGuildId)) {
       throw new Error("Bot is not in a voice channel. Use !join <channel name> first.");
     }
 
-    const player = this.audioPlayers.get(resolvedGuildId);
-    if (!player) {
-      throw new Error("Audio player not initialized for this server");
-    }
-
     try {
       // Use override voice, or get guild's selected voice
       const voice = voiceOverride || getGuildVoice(resolvedGuildId);
+      const utterance = await getTTSService().speak(resolvedGuildId, text, voice, options);
 
-      // Generate TTS audio to temp file
-      const tts = new MsEdgeTTS();
-      await tts.setMetadata(voice, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3);
-
-      // toFile takes a DIRECTORY path, returns the actual file path created
-      const tempDir = os.tmpdir();
-      const result = await tts.toFile(tempDir, text);
-      const audioFilePath = result.audioFilePath;
-
-      // Create audio resource and play
-      const resource = createAudioResource(audioFilePath);
-      player.play(resource);
-
-      // Clean up temp file after playback finishes
-      return new Promise((resolve, reject) => {
-        player.once(AudioPlayerStatus.Playing, () => {
-          resolve(`Speaking: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
-        });
-
-        player.once(AudioPlayerStatus.Idle, () => {
-          // Clean up temp file
-          fs.unlink(audioFilePath, () => {});
-        });
+      const preview = `"${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`;
+      const note = utterance.truncated ? ' (shortened)' : '';
+      if (utterance.position > 0) {
+        return `Queued (${utterance.position} ahead): ${preview}${note}`;
+      }
 
-        player.once('error', (error: Error) => {
-          fs.unlink(audioFilePath, () => {});
-          reject(new Error(`TTS playback error: ${error.message}`));
-        });
-      });
+      await utterance.started;
+      return `Speaking: ${preview}${note}`;
     } catch (error) {
       throw new Error(`Failed to speak text: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async setVolume(guildId: string, volume: number): Promise<string> {
+  /**
+   * Change the guild's volume (music, TTS and audio clips), TTS volume or
+   * loudness normalisation; settings are saved and apply to what is playing
+   */
+  async setVolume(guildId: string, volume?: number, options: { ttsVolume?: number; normalize?: boolean } = {}): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
-    
-    // Note: Discord.js voice doesn't have built-in volume control
-    // You would need to use a transformer stream or external library
-    // For now, we'll return a message indicating this limitation
-    
-    const player = this.audioPlayers.get(resolvedGuildId);
-    if (!player) {
-      throw new Error("No audio player found for this server");
+
+    if (volume === undefined && options.ttsVolume === undefined && options.normalize === undefined) {
+      throw new Error("Provide a volume, ttsVolume or normalize setting");
     }
 
-    // This is a placeholder - actual volume control would require
-    // additional implementation with audio transformers
-    return `Volume control is not directly supported. Consider using audio processing libraries for volume adjustment. Requested volume: ${volume}%`;
+    const settings = getAudioMixer().configure(resolvedGuildId, { volume, ...options });
+    return `Volume set to ${settings.volume}% (TTS at ${settings.ttsVolume}% of that, loudness normalisation ${settings.normalize ? 'on' : 'off'})`;
   }
 
-  async getVoiceConnections(): Promise<string> {
+  async getVoiceConnections(): Promise<VoiceConnectionList> {
     this.ensureReady();
-    
-    if (this.voiceConnections.size === 0) {
-      return "No active voice connections";
-    }
 
-    const connections: string[] = [];
+    const connections: VoiceConnectionInfo[] = [];
     for (const [guildId, connection] of this.voiceConnections) {
       const guild = this.client.guilds.cache.get(guildId);
       if (guild) {
         const channelId = connection.joinConfig.channelId;
         const channel = guild.channels.cache.get(channelId || '');
-        const channelName = channel ? channel.name : 'Unknown Channel';
-        const status = connection.state.status;
-        connections.push(`- ${guild.name}: ${channelName} (Status: ${status})`);
+        connections.push({
+          guildId: guild.id,
+          guildName: guild.name,
+          channelId,
+          channelName: channel ? channel.name : null,
+          status: connection.state.status
+        });
       }
     }
 
-    return `Active voice connections:\n${connections.join('\n')}`;
+    return { connections };
   }
 
+
   // Moderation Tools
   async banMember(guildId: string | undefined, userId: string, reason?: string): Promise<string> {
     this.ensureReady();
@@ -2099,7 +2093,7 @@ Boosts:
     }
   }
 
-  async getAuditLogs(guildId: string | undefined, limit?: number): Promise<string> {
+  async getAuditLogs(guildId: string | undefined, limit?: number): Promise<AuditLog> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -2117,26 +2111,31 @@ Boosts:
     try {
       const auditLogs = await guild.fetchAuditLogs({ limit: limit || 50 });
       
-      const formattedLogs = auditLogs.entries.map(entry => {
-        const actionType = AuditLogEvent[entry.action];
-        const executor = entry.executor?.username || 'Unknown';
+      const entries = auditLogs.entries.map(entry => {
         const target = entry.target;
         const targetName = target && 'username' in target ? target.username : 
-                          target && 'name' in target ? target.name : 
-                          target && 'id' in target ? `ID: ${target.id}` : 'Unknown';
-        const timestamp = entry.createdAt.toISOString();
-        const reason = entry.reason || 'No reason provided';
+                          target && 'name' in target ? target.name : null;
         
-        return `- [${timestamp}] **${actionType}** by ${executor} on ${targetName} - Reason: ${reason}`;
+        return {
+          id: entry.id,
+          action: AuditLogEvent[entry.action],
+          executor: entry.executor?.username || null,
+          executorId: entry.executorId,
+          target: typeof targetName === 'string' ? targetName : null,
+          targetId: entry.targetId,
+          reason: entry.reason,
+          createdAt: entry.createdAt.toISOString()
+        };
       });
       
-      return `**Retrieved ${formattedLogs.length} audit log entries:**\n${formattedLogs.join('\n')}`;
+      return { guildId: guild.id, entries };
     } catch (error) {
       throw new Error(`Failed to fetch audit logs: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async getBans(guildId: string | undefined): Promise<string> {
+
+  async getBans(guildId: string | undefined): Promise<BanList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -2154,21 +2153,20 @@ Boosts:
     try {
       const bans = await guild.bans.fetch();
       
-      if (bans.size === 0) {
-        return "No bans found in this server";
-      }
-      
-      const formattedBans = bans.map((ban: GuildBan) => {
-        const reason = ban.reason || 'No reason provided';
-        return `- **${ban.user.username}** (ID: ${ban.user.id}) - Reason: ${reason}`;
-      });
-      
-      return `**Retrieved ${formattedBans.length} bans:**\n${formattedBans.join('\n')}`;
+      return {
+        guildId: guild.id,
+        bans: bans.map((ban: GuildBan) => ({
+          userId: ban.user.id,
+          username: ban.user.username,
+          reason: ban.reason ?? null
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch bans: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Role Management Tools
   async createRole(guildId: string | undefined, name: string, color?: string, permissions?: string[]): Promise<string> {
     this.ensureReady();
@@ -2446,7 +2444,7 @@ Boosts:
     }
   }
 
-  async getRoles(guildId: string | undefined): Promise<string> {
+  async getRoles(guildId: string | undefined): Promise<RoleList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -2459,49 +2457,40 @@ Boosts:
       // Get the bot's highest role for permission context
       const botMember = guild.members.cache.get(this.client.user!.id);
       const botHighestRole = botMember?.roles.highest;
-      const hasManageRoles = botMember?.permissions.has(PermissionFlagsBits.ManageRoles);
+      const hasManageRoles = botMember?.permissions.has(PermissionFlagsBits.ManageRoles) ?? false;
       
       const roles = guild.roles.cache.sort((a, b) => b.position - a.position);
       
-      if (roles.size === 0) {
-        return "No roles found in this server";
-      }
-      
-      const formattedRoles = roles.map((role: Role) => {
-        const memberCount = role.members.size;
-        const isManageable = botHighestRole && role.position < botHighestRole.position && role.id !== guild.id;
-        const isEveryone = role.id === guild.id;
-        const permissions = role.permissions.toArray().join(', ') || 'None';
-        
-        return `- **${role.name}** (ID: \`${role.id}\`)
-  - Color: ${role.hexColor}
-  - Position: ${role.position}
-  - Members: ${memberCount}
-  - Mentionable: ${role.mentionable ? 'Yes' : 'No'}
-  - Hoisted: ${role.hoist ? 'Yes' : 'No'}
-  - Special: ${isEveryone ? '@everyone role' : 'Regular role'}
-  - Bot can reposition: ${isManageable && hasManageRoles ? '✅ Yes' : '❌ No'}${!isManageable && !isEveryone ? ` (${role.position >= (botHighestRole?.position || 0) ? 'higher/equal position' : 'permission issue'})` : ''}`;
-      });
-      
-      return `📋 **Roles in ${guild.name}** (${formattedRoles.length} total)
-
-🤖 **Bot Status:**
-- Bot's highest role: **${botHighestRole?.name}** (Position: ${botHighestRole?.position})
-- Has "Manage Roles" permission: ${hasManageRoles ? '✅ Yes' : '❌ No'}
-
-📝 **Role Positioning Rules:**
-- Bot can only move roles **below** its highest role
-- @everyone role cannot be repositioned  
-- Positions are 0-based (0 = bottom, higher number = top)
-
-🎭 **Server Roles:**
-
-${formattedRoles.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        guildName: guild.name,
+        bot: {
+          highestRole: botHighestRole?.name ?? null,
+          highestPosition: botHighestRole?.position ?? null,
+          canManageRoles: hasManageRoles
+        },
+        roles: roles.map((role: Role) => {
+          const isManageable = !!botHighestRole && role.position < botHighestRole.position && role.id !== guild.id;
+          return {
+            id: role.id,
+            name: role.name,
+            color: role.hexColor,
+            position: role.position,
+            memberCount: role.members.size,
+            mentionable: role.mentionable,
+            hoisted: role.hoist,
+            everyone: role.id === guild.id,
+            botCanManage: isManageable && hasManageRoles,
+            permissions: role.permissions.toArray()
+          };
+        })
+      };
     } catch (error) {
       throw new Error(`Failed to fetch roles: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async setRolePositions(guildId: string | undefined, rolePositions: Array<{roleId: string, position: number}>): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
@@ -2799,7 +2788,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getChannelStructure(guildId: string | undefined): Promise<string> {
+  async getChannelStructure(guildId: string | undefined): Promise<ChannelStructure> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -2809,103 +2798,48 @@ ${formattedRoles.join('\n\n')}`;
     }
 
     try {
-      const channels = guild.channels.cache
-        .filter(channel => {
-          // Only include channels that have a position property
-          const channelWithPosition = channel as any;
-          return channelWithPosition.position !== undefined;
-        })
-        .sort((a, b) => {
-          const aPos = (a as any).position || 0;
-          const bPos = (b as any).position || 0;
-          return aPos - bPos;
-        });
+      const toStructureChannel = (channel: GuildChannel | CategoryChannel): StructureChannel => ({
+        ...this.toChannelSummary(channel),
+        position: channel.position || 0
+      });
+      const byPosition = (a: StructureChannel, b: StructureChannel) => a.position - b.position;
+
+      const uncategorized: StructureChannel[] = [];
+      const categories = new Map<string, StructureChannel & { channels: StructureChannel[] }>();
 
-      const structure: string[] = [];
-      const categories = new Map();
-      const orphanChannels: any[] = [];
+      // Group channels by category (threads have no position and are left out)
+      guild.channels.cache.forEach(channel => {
+        if (channel.isThread()) return;
 
-      // Group channels by category
-      channels.forEach(channel => {
         if (channel.type === ChannelType.GuildCategory) {
-          categories.set(channel.id, {
-            category: channel,
-            channels: []
-          });
+          if (!categories.has(channel.id)) {
+            categories.set(channel.id, { ...toStructureChannel(channel), channels: [] });
+          }
         } else if (channel.parent) {
           if (!categories.has(channel.parent.id)) {
-            categories.set(channel.parent.id, {
-              category: channel.parent,
-              channels: []
-            });
+            categories.set(channel.parent.id, { ...toStructureChannel(channel.parent), channels: [] });
           }
-          categories.get(channel.parent.id).channels.push(channel);
+          categories.get(channel.parent.id)!.channels.push(toStructureChannel(channel));
         } else {
-          orphanChannels.push(channel);
+          uncategorized.push(toStructureChannel(channel));
         }
       });
 
-      // Build structure string
-      structure.push(`📋 **Channel Structure for ${guild.name}**\n`);
-
-      // Show orphan channels first (channels not in any category)
-      if (orphanChannels.length > 0) {
-        structure.push("🔸 **Uncategorized Channels:**");
-        orphanChannels.forEach(channel => {
-          const emoji = this.getChannelEmoji(channel.type);
-          const position = (channel as any).position || 0;
-          structure.push(`  ${emoji} ${channel.name} (ID: ${channel.id}, Position: ${position})`);
-        });
-        structure.push("");
-      }
-
-      // Show categories and their channels
-      const sortedCategories = Array.from(categories.values())
-        .sort((a, b) => {
-          const aPos = (a.category as any).position || 0;
-          const bPos = (b.category as any).position || 0;
-          return aPos - bPos;
-        });
+      const sortedCategories = Array.from(categories.values()).sort(byPosition);
+      sortedCategories.forEach(category => category.channels.sort(byPosition));
 
-      sortedCategories.forEach(({ category, channels: categoryChannels }) => {
-        const categoryPosition = (category as any).position || 0;
-        structure.push(`📁 **${category.name}** (ID: ${category.id}, Position: ${categoryPosition})`);
-        
-        const sortedChannels = categoryChannels.sort((a: any, b: any) => {
-          const aPos = a.position || 0;
-          const bPos = b.position || 0;
-          return aPos - bPos;
-        });
-        sortedChannels.forEach((channel: any) => {
-          const emoji = this.getChannelEmoji(channel.type);
-          const position = channel.position || 0;
-          structure.push(`  ${emoji} ${channel.name} (ID: ${channel.id}, Position: ${position})`);
-        });
-        structure.push("");
-      });
-
-      return structure.join('\n');
+      return {
+        guildId: guild.id,
+        guildName: guild.name,
+        uncategorized: uncategorized.sort(byPosition),
+        categories: sortedCategories
+      };
     } catch (error) {
       throw new Error(`Failed to get channel structure: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private getChannelEmoji(channelType: ChannelType): string {
-    switch (channelType) {
-      case ChannelType.GuildText:
-        return "💬";
-      case ChannelType.GuildVoice:
-        return "🔊";
-      case ChannelType.GuildAnnouncement:
-        return "📢";
-      case ChannelType.GuildStageVoice:
-        return "🎭";
-      case ChannelType.GuildForum:
-        return "💭";
-      default:
-        return "📄";
-    }
-  }
+
 
   // Permission Management Tools
   async setChannelPermissions(
@@ -2988,7 +2922,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getChannelPermissions(channelId: string): Promise<string> {
+  async getChannelPermissions(channelId: string): Promise<ChannelPermissions> {
     this.ensureReady();
     
     const channel = this.client.channels.cache.get(channelId) as GuildChannel;
@@ -2997,53 +2931,35 @@ ${formattedRoles.join('\n\n')}`;
     }
 
     try {
-      const overwrites = channel.permissionOverwrites.cache;
+      const overwrites: PermissionOverwriteInfo[] = [];
       
-      if (overwrites.size === 0) {
-        return `No permission overwrites found for channel ${channel.name}`;
-      }
-
-      const formattedOverwrites: string[] = [];
-      
-      for (const [id, overwrite] of overwrites) {
+      for (const [id, overwrite] of channel.permissionOverwrites.cache) {
         const isRole = overwrite.type === OverwriteType.Role;
-        let targetName = id;
+        let targetName: string | null;
         
         if (isRole) {
-          const role = channel.guild.roles.cache.get(id);
-          targetName = role ? `@${role.name}` : `Role ID: ${id}`;
+          targetName = channel.guild.roles.cache.get(id)?.name ?? null;
         } else {
           const member = await channel.guild.members.fetch(id).catch(() => null);
-          targetName = member ? `@${member.user.username}` : `User ID: ${id}`;
+          targetName = member ? member.user.username : null;
         }
 
-        // Get allowed and denied permissions
-        const allowedPerms: string[] = [];
-        const deniedPerms: string[] = [];
-
-        // Check each permission flag
-        for (const [permName, permValue] of Object.entries(PermissionFlagsBits)) {
-          if (overwrite.allow.has(permValue)) {
-            allowedPerms.push(permName);
-          }
-          if (overwrite.deny.has(permValue)) {
-            deniedPerms.push(permName);
-          }
-        }
-
-        formattedOverwrites.push(
-          `- **${targetName}** (${isRole ? 'Role' : 'Member'}):\n` +
-          `  - Allowed: ${allowedPerms.length > 0 ? allowedPerms.join(', ') : 'None'}\n` +
-          `  - Denied: ${deniedPerms.length > 0 ? deniedPerms.join(', ') : 'None'}`
-        );
+        overwrites.push({
+          id,
+          type: isRole ? 'role' : 'member',
+          name: targetName,
+          allow: overwrite.allow.toArray(),
+          deny: overwrite.deny.toArray()
+        });
       }
 
-      return `**Permission overwrites for channel ${channel.name}:**\n${formattedOverwrites.join('\n\n')}`;
+      return { channelId: channel.id, channelName: channel.name, overwrites };
     } catch (error) {
       throw new Error(`Failed to get channel permissions: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async syncChannelPermissions(channelId: string): Promise<string> {
     this.ensureReady();
     
@@ -3264,7 +3180,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getActiveThreads(guildId?: string): Promise<string> {
+  async getActiveThreads(guildId?: string): Promise<ThreadList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -3277,51 +3193,26 @@ ${formattedRoles.join('\n\n')}`;
       // Fetch all active threads
       const threads = await guild.channels.fetchActiveThreads();
       
-      if (threads.threads.size === 0) {
-        return "No active threads found in this server";
-      }
-
-      const formattedThreads: string[] = [];
-      
-      // Sort threads by parent channel
-      const threadsByParent = new Map<string, ThreadChannel[]>();
-      
-      threads.threads.forEach(thread => {
-        const parentId = thread.parentId || 'unknown';
-        if (!threadsByParent.has(parentId)) {
-          threadsByParent.set(parentId, []);
-        }
-        threadsByParent.get(parentId)!.push(thread);
-      });
-
-      // Format threads grouped by parent channel
-      for (const [parentId, channelThreads] of threadsByParent) {
-        const parentChannel = guild.channels.cache.get(parentId);
-        const parentName = parentChannel ? parentChannel.name : 'Unknown Channel';
-        
-        formattedThreads.push(`\n**Parent Channel: ${parentName}**`);
-        
-        for (const thread of channelThreads) {
-          const memberCount = thread.memberCount || 0;
-          const isLocked = thread.locked ? '🔒' : '';
-          const isArchived = thread.archived ? '📦' : '';
-          const autoArchive = thread.autoArchiveDuration || 60;
-          
-          formattedThreads.push(
-            `  - ${isLocked}${isArchived} **${thread.name}** (ID: ${thread.id})\n` +
-            `    - Members: ${memberCount}\n` +
-            `    - Auto-archive: ${autoArchive} minutes\n` +
-            `    - Created: ${thread.createdAt?.toLocaleString() || 'Unknown'}`
-          );
-        }
-      }
-      
-      return `**Found ${threads.threads.size} active threads:**${formattedThreads.join('\n')}`;
+      return {
+        guildId: guild.id,
+        threads: threads.threads.map(thread => ({
+          id: thread.id,
+          name: thread.name,
+          parentId: thread.parentId,
+          parentName: (thread.parentId && guild.channels.cache.get(thread.parentId)?.name) || null,
+          memberCount: thread.memberCount || 0,
+          locked: thread.locked ?? false,
+          archived: thread.archived ?? false,
+          autoArchiveMinutes: thread.autoArchiveDuration || 60,
+          createdAt: thread.createdAt?.toISOString() ?? null
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch active threads: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Additional Message Management Tools
   async pinMessage(channelId: string, messageId: string): Promise<string> {
     this.ensureReady();
@@ -3369,7 +3260,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getPinnedMessages(channelId: string): Promise<string> {
+  async getPinnedMessages(channelId: string): Promise<MessageList> {
     this.ensureReady();
     
     const channel = this.client.channels.cache.get(channelId) as TextChannel;
@@ -3380,23 +3271,17 @@ ${formattedRoles.join('\n\n')}`;
     try {
       const pinnedMessages = await channel.messages.fetchPinned();
       
-      if (pinnedMessages.size === 0) {
-        return `No pinned messages found in ${channel.name}`;
-      }
-
-      const formattedMessages = pinnedMessages.map(message => {
-        const authorName = message.author.username;
-        const timestamp = message.createdAt.toISOString();
-        const content = message.content || '[No content]';
-        return `- **${authorName}** (${timestamp}): ${content.substring(0, 100)}${content.length > 100 ? '...' : ''}\n  Link: ${message.url}`;
-      });
-
-      return `**Found ${pinnedMessages.size} pinned messages in ${channel.name}:**\n${formattedMessages.join('\n')}`;
+      return {
+        channelId: channel.id,
+        channelName: channel.name,
+        messages: pinnedMessages.map(message => this.toMessageSummary(message))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch pinned messages: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async bulkDeleteMessages(channelId: string, messageIds: string[], filterOld?: boolean): Promise<string> {
     this.ensureReady();
     
@@ -3472,7 +3357,7 @@ ${formattedRoles.join('\n\n')}`;
   }
 
   // Enhanced Member Management Tools
-  async getMembers(guildId?: string, limit?: number, after?: string): Promise<string> {
+  async getMembers(guildId?: string, limit?: number, after?: string): Promise<MemberList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -3492,27 +3377,18 @@ ${formattedRoles.join('\n\n')}`;
       // Handle both single member and collection results
       const memberCollection = memberResult instanceof Collection ? memberResult : new Collection<string, GuildMember>([[memberResult.id, memberResult]]);
       
-      const formattedMembers = Array.from(memberCollection.values()).map((member: GuildMember) => {
-        const joinedAt = member.joinedAt?.toLocaleDateString() || 'Unknown';
-        const roles = member.roles.cache
-          .filter((role: Role) => role.name !== '@everyone')
-          .map((role: Role) => role.name)
-          .join(', ') || 'None';
-        
-        return `- **${member.user.username}** (${member.user.id})
-  - Nickname: ${member.nickname || 'None'}
-  - Joined: ${joinedAt}
-  - Roles: ${roles}
-  - Status: ${member.presence?.status || 'Unknown'}`;
-      });
-
-      return `**Retrieved ${memberCollection.size} members from ${guild.name}:**\n${formattedMembers.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        guildName: guild.name,
+        members: Array.from(memberCollection.values()).map((member: GuildMember) => this.toMemberSummary(member))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch members: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async searchMembers(guildId?: string, query?: string, limit?: number): Promise<string> {
+
+  async searchMembers(guildId?: string, query?: string, limit?: number): Promise<MemberList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -3532,23 +3408,18 @@ ${formattedRoles.join('\n\n')}`;
         limit: limit || 10
       });
 
-      if (results.size === 0) {
-        return `No members found matching query "${query}"`;
-      }
-
-      const formattedResults = Array.from(results.values()).map((member: GuildMember) => {
-        const joinedAt = member.joinedAt?.toLocaleDateString() || 'Unknown';
-        return `- **${member.user.username}** (${member.user.id})
-  - Nickname: ${member.nickname || 'None'}
-  - Joined: ${joinedAt}`;
-      });
-
-      return `**Found ${results.size} members matching "${query}":**\n${formattedResults.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        guildName: guild.name,
+        query,
+        members: Array.from(results.values()).map((member: GuildMember) => this.toMemberSummary(member))
+      };
     } catch (error) {
       throw new Error(`Failed to search members: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async editMember(guildId?: string, userId?: string, nickname?: string, roles?: string[]): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
@@ -3600,7 +3471,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getMemberInfo(guildId?: string, userId?: string): Promise<string> {
+  async getMemberInfo(guildId?: string, userId?: string): Promise<MemberDetails> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -3619,32 +3490,21 @@ ${formattedRoles.join('\n\n')}`;
         throw new Error("Member not found in this server");
       }
 
-      const user = member.user;
-      const joinedAt = member.joinedAt?.toLocaleString() || 'Unknown';
-      const createdAt = user.createdAt.toLocaleString();
-      const roles = member.roles.cache
-        .filter(role => role.name !== '@everyone')
-        .map(role => `${role.name} (${role.id})`)
-        .join('\n  - ') || 'None';
-      
-      const permissions = member.permissions.toArray().join(', ') || 'None';
-
-      return `**Member Information for ${user.username}:**
-- **User ID:** ${user.id}
-- **Nickname:** ${member.nickname || 'None'}
-- **Account Created:** ${createdAt}
-- **Joined Server:** ${joinedAt}
-- **Highest Role:** ${member.roles.highest.name}
-- **Avatar:** ${user.displayAvatarURL()}
-- **Bot:** ${user.bot ? 'Yes' : 'No'}
-- **Roles:**
-  - ${roles}
-- **Key Permissions:** ${permissions.substring(0, 500)}${permissions.length > 500 ? '...' : ''}`;
+      return {
+        ...this.toMemberSummary(member),
+        guildId: guild.id,
+        bot: member.user.bot,
+        createdAt: member.user.createdAt.toISOString(),
+        highestRole: member.roles.highest.name,
+        avatarUrl: member.user.displayAvatarURL(),
+        permissions: member.permissions.toArray()
+      };
     } catch (error) {
       throw new Error(`Failed to get member info: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Event & Scheduling Tools
   async createEvent(
     guildId?: string, 
@@ -3834,7 +3694,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getEvents(guildId?: string): Promise<string> {
+  async getEvents(guildId?: string): Promise<EventList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -3846,35 +3706,30 @@ ${formattedRoles.join('\n\n')}`;
     try {
       const events = await guild.scheduledEvents.fetch();
       
-      if (events.size === 0) {
-        return "No scheduled events found in this server";
-      }
-
-      const formattedEvents = events.map((event: GuildScheduledEvent) => {
-        const startTime = event.scheduledStartAt?.toLocaleString() || 'Unknown';
-        const endTime = event.scheduledEndAt?.toLocaleString() || 'No end time';
-        const status = GuildScheduledEventStatus[event.status];
-        const entityType = event.entityType === GuildScheduledEventEntityType.Voice ? 'Voice' : 'External';
-        const location = event.entityType === GuildScheduledEventEntityType.Voice 
-          ? (event.channel?.name || 'Unknown Channel')
-          : (event.entityMetadata?.location || 'External Location');
-        
-        return `- **${event.name}** (ID: ${event.id})
-  - Description: ${event.description || 'No description'}
-  - Start: ${startTime}
-  - End: ${endTime}
-  - Status: ${status}
-  - Type: ${entityType}
-  - Location: ${location}
-  - Participants: ${event.userCount || 0}`;
-      });
-
-      return `**Found ${events.size} scheduled events:**\n${formattedEvents.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        events: events.map((event: GuildScheduledEvent) => {
+          const isVoice = event.entityType === GuildScheduledEventEntityType.Voice;
+          return {
+            id: event.id,
+            name: event.name,
+            description: event.description || null,
+            startsAt: event.scheduledStartAt?.toISOString() ?? null,
+            endsAt: event.scheduledEndAt?.toISOString() ?? null,
+            status: GuildScheduledEventStatus[event.status],
+            type: isVoice ? 'voice' as const : 'external' as const,
+            location: (isVoice ? event.channel?.name : event.entityMetadata?.location) || null,
+            channelId: event.channelId,
+            participants: event.userCount || 0
+          };
+        })
+      };
     } catch (error) {
       throw new Error(`Failed to fetch events: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Enhanced Invite Management Tools
   async createInvite(channelId?: string, maxAge?: number, maxUses?: number, temporary?: boolean): Promise<string> {
     this.ensureReady();
@@ -3943,7 +3798,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getInvites(guildId?: string): Promise<string> {
+  async getInvites(guildId?: string): Promise<InviteList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -3955,31 +3810,26 @@ ${formattedRoles.join('\n\n')}`;
     try {
       const invites = await guild.invites.fetch();
       
-      if (invites.size === 0) {
-        return "No invites found in this server";
-      }
-
-      const formattedInvites = invites.map((invite: Invite) => {
-        const channel = invite.channel;
-        const inviter = invite.inviter;
-        const expiresAt = invite.expiresAt ? invite.expiresAt.toLocaleString() : 'Never';
-        const maxUses = invite.maxUses || 'Unlimited';
-        const uses = invite.uses || 0;
-        
-        return `- **${invite.code}** (${invite.url})
-  - Channel: ${channel?.name || 'Unknown'}
-  - Created by: ${inviter?.username || 'Unknown'}
-  - Uses: ${uses}/${maxUses}
-  - Expires: ${expiresAt}
-  - Temporary: ${invite.temporary ? 'Yes' : 'No'}`;
-      });
-
-      return `**Found ${invites.size} invites:**\n${formattedInvites.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        invites: invites.map((invite: Invite) => ({
+          code: invite.code,
+          url: invite.url,
+          channelId: invite.channelId,
+          channelName: invite.channel?.name ?? null,
+          inviter: invite.inviter?.username ?? null,
+          uses: invite.uses || 0,
+          maxUses: invite.maxUses || null,
+          expiresAt: invite.expiresAt?.toISOString() ?? null,
+          temporary: invite.temporary ?? false
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch invites: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Enhanced Emoji & Sticker Tools
   async createEmoji(guildId?: string, name?: string, imageUrl?: string, roles?: string[]): Promise<string> {
     this.ensureReady();
@@ -4066,7 +3916,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getEmojis(guildId?: string): Promise<string> {
+  async getEmojis(guildId?: string): Promise<EmojiList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -4076,30 +3926,22 @@ ${formattedRoles.join('\n\n')}`;
     }
 
     try {
-      const emojis = guild.emojis.cache;
-      
-      if (emojis.size === 0) {
-        return "No custom emojis found in this server";
-      }
-
-      const formattedEmojis = emojis.map((emoji: GuildEmoji) => {
-        const creator = emoji.author?.username || 'Unknown';
-        const roleRestrictions = emoji.roles.cache.size > 0 
-          ? `\n  - Restricted to: ${emoji.roles.cache.map(role => role.name).join(', ')}`
-          : '\n  - Available to everyone';
-        
-        return `- **${emoji.name}** (ID: ${emoji.id})
-  - Usage: <:${emoji.name}:${emoji.id}>
-  - Animated: ${emoji.animated ? 'Yes' : 'No'}
-  - Created by: ${creator}${roleRestrictions}`;
-      });
-
-      return `**Found ${emojis.size} custom emojis:**\n${formattedEmojis.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        emojis: guild.emojis.cache.map((emoji: GuildEmoji) => ({
+          id: emoji.id,
+          name: emoji.name,
+          animated: emoji.animated ?? false,
+          creator: emoji.author?.username ?? null,
+          roles: emoji.roles.cache.map(role => role.name)
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch emojis: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async createSticker(guildId?: string, name?: string, description?: string, tags?: string, imageUrl?: string): Promise<string> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
@@ -4173,7 +4015,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getStickers(guildId?: string): Promise<string> {
+  async getStickers(guildId?: string): Promise<StickerList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -4183,28 +4025,23 @@ ${formattedRoles.join('\n\n')}`;
     }
 
     try {
-      const stickers = guild.stickers.cache;
-      
-      if (stickers.size === 0) {
-        return "No custom stickers found in this server";
-      }
-
-      const formattedStickers = stickers.map((sticker: Sticker) => {
-        const creator = sticker.user?.username || 'Unknown';
-        
-        return `- **${sticker.name}** (ID: ${sticker.id})
-  - Description: ${sticker.description || 'No description'}
-  - Tags: ${sticker.tags || 'No tags'}
-  - Format: ${sticker.format}
-  - Created by: ${creator}`;
-      });
-
-      return `**Found ${stickers.size} custom stickers:**\n${formattedStickers.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        stickers: guild.stickers.cache.map((sticker: Sticker) => ({
+          id: sticker.id,
+          name: sticker.name,
+          description: sticker.description || null,
+          tags: sticker.tags || null,
+          format: StickerFormatType[sticker.format],
+          creator: sticker.user?.username ?? null
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to fetch stickers: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Attachment & File Tools
   async uploadFile(channelId?: string, filePath?: string, fileName?: string, content?: string): Promise<string> {
     this.ensureReady();
@@ -4246,7 +4083,7 @@ ${formattedRoles.join('\n\n')}`;
     }
   }
 
-  async getMessageAttachments(channelId?: string, messageId?: string): Promise<string> {
+  async getMessageAttachments(channelId?: string, messageId?: string): Promise<MessageAttachments> {
     this.ensureReady();
     
     if (!channelId || !messageId) {
@@ -4264,28 +4101,24 @@ ${formattedRoles.join('\n\n')}`;
         throw new Error("Message not found by messageId");
       }
 
-      const attachments = message.attachments;
-      
-      if (attachments.size === 0) {
-        return "No attachments found in this message";
-      }
-
-      const formattedAttachments = attachments.map(attachment => {
-        const fileSize = `${(attachment.size / 1024).toFixed(2)} KB`;
-        
-        return `- **${attachment.name}**
-  - URL: ${attachment.url}
-  - Size: ${fileSize}
-  - Content Type: ${attachment.contentType || 'Unknown'}
-  - Spoiler: ${attachment.spoiler ? 'Yes' : 'No'}`;
-      });
-
-      return `**Found ${attachments.size} attachments:**\n${formattedAttachments.join('\n\n')}`;
+      return {
+        channelId: channel.id,
+        messageId: message.id,
+        attachments: message.attachments.map(attachment => ({
+          id: attachment.id,
+          name: attachment.name,
+          url: attachment.url,
+          size: attachment.size,
+          contentType: attachment.contentType,
+          spoiler: attachment.spoiler
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to get message attachments: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async readImages(
     channelId: string, 
     messageId?: string, 
@@ -4639,7 +4472,7 @@ ${changes.map(change => `- ${change}`).join('\n')}`;
     }
   }
 
-  async getAutomodRules(guildId?: string): Promise<string> {
+  async getAutomodRules(guildId?: string): Promise<AutomodRuleList> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -4651,40 +4484,26 @@ ${changes.map(change => `- ${change}`).join('\n')}`;
     try {
       const rules = await guild.autoModerationRules.fetch();
       
-      if (rules.size === 0) {
-        return "No automod rules found in this server";
-      }
-
-      const formattedRules = rules.map(rule => {
-        const triggerType = Object.keys(AutoModerationRuleTriggerType)[Object.values(AutoModerationRuleTriggerType).indexOf(rule.triggerType as any)] || 'Unknown';
-        const eventType = Object.keys(AutoModerationRuleEventType)[Object.values(AutoModerationRuleEventType).indexOf(rule.eventType as any)] || 'Unknown';
-        
-        let metadata = '';
-        if (rule.triggerMetadata) {
-          if (rule.triggerMetadata.keywordFilter?.length) {
-            metadata += `\n  - Keywords: ${rule.triggerMetadata.keywordFilter.length} items`;
-          }
-          if (rule.triggerMetadata.allowList?.length) {
-            metadata += `\n  - Allow List: ${rule.triggerMetadata.allowList.length} items`;
-          }
-          if (rule.triggerMetadata.mentionTotalLimit) {
-            metadata += `\n  - Mention Limit: ${rule.triggerMetadata.mentionTotalLimit}`;
-          }
-        }
-
-        return `**${rule.name}** (ID: ${rule.id})
-  - Enabled: ${rule.enabled ? '✅' : '❌'}
-  - Event Type: ${eventType}
-  - Trigger Type: ${triggerType}
-  - Actions: ${rule.actions.length} configured${metadata}`;
-      });
-
-      return `**Found ${rules.size} automod rules:**\n\n${formattedRules.join('\n\n')}`;
+      return {
+        guildId: guild.id,
+        rules: rules.map(rule => ({
+          id: rule.id,
+          name: rule.name,
+          enabled: rule.enabled,
+          eventType: AutoModerationRuleEventType[rule.eventType] || 'Unknown',
+          triggerType: AutoModerationRuleTriggerType[rule.triggerType] || 'Unknown',
+          actionCount: rule.actions.length,
+          keywordCount: rule.triggerMetadata?.keywordFilter?.length || 0,
+          allowListCount: rule.triggerMetadata?.allowList?.length || 0,
+          mentionLimit: rule.triggerMetadata?.mentionTotalLimit || null
+        }))
+      };
     } catch (error) {
       throw new Error(`Failed to get automod rules: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   // Advanced Interaction Tools
   async sendModal(interactionId?: string, title?: string, customId?: string, components?: any[]): Promise<string> {
     // Note: This is a conceptual implementation as modals are typically sent in response to interactions
@@ -5012,7 +4831,7 @@ ${changes.map(change => `- ${change}`).join('\n')}`;
     }
   }
 
-  async getServerWidget(guildId?: string): Promise<string> {
+  async getServerWidget(guildId?: string): Promise<ServerWidget> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -5024,28 +4843,21 @@ ${changes.map(change => `- ${change}`).join('\n')}`;
     try {
       const widget = await guild.fetchWidget().catch(() => null);
       
-      if (!widget) {
-        return `**Server Widget for ${guild.name}**
-Widget is disabled or not available. Enable it in Server Settings > Widget to use this feature.`;
-      }
-
-      const channels = Array.from(widget.channels.values()).map(channel => 
-        `- **${channel.name}** (${channel.id})`
-      );
-
-      return `**Server Widget for ${guild.name}**
-- **Invite URL**: ${widget.instantInvite || 'None'}
-- **Online Members**: ${widget.presenceCount}
-- **Voice Channels**: ${widget.channels.size}
-
-**Channels with activity:**
-${channels.length > 0 ? channels.join('\n') : 'No active channels'}`;
+      return {
+        guildId: guild.id,
+        guildName: guild.name,
+        enabled: widget !== null,
+        instantInvite: widget?.instantInvite || null,
+        presenceCount: widget?.presenceCount || 0,
+        channels: widget ? Array.from(widget.channels.values()).map(channel => ({ id: channel.id, name: channel.name })) : []
+      };
     } catch (error) {
       throw new Error(`Failed to get server widget: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async getWelcomeScreen(guildId?: string): Promise<string> {
+
+  async getWelcomeScreen(guildId?: string): Promise<WelcomeScreenInfo> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -5057,29 +4869,23 @@ ${channels.length > 0 ? channels.join('\n') : 'No active channels'}`;
     try {
       const welcomeScreen = await guild.fetchWelcomeScreen().catch(() => null);
       
-      if (!welcomeScreen) {
-        return `**Welcome Screen for ${guild.name}**
-Welcome screen is not enabled or not available. Enable it in Server Settings > Overview > Welcome Screen.`;
-      }
-
-      const channels = Array.from(welcomeScreen.welcomeChannels.values()).map(channel => {
-        const emoji = channel.emoji ? (typeof channel.emoji === 'string' ? channel.emoji : channel.emoji.name) : '';
-        return `- ${emoji ? emoji + ' ' : ''}**${channel.description}**
-  Channel: <#${channel.channelId}> (${channel.channelId})`;
-      });
-
-      return `**Welcome Screen for ${guild.name}**
-- **Enabled**: Yes
-- **Description**: ${welcomeScreen.description || 'No description'}
-- **Welcome Channels**: ${welcomeScreen.welcomeChannels.size}
-
-**Channels:**
-${channels.length > 0 ? channels.join('\n\n') : 'No welcome channels configured'}`;
+      return {
+        guildId: guild.id,
+        guildName: guild.name,
+        enabled: welcomeScreen?.enabled ?? false,
+        description: welcomeScreen?.description || null,
+        channels: welcomeScreen ? Array.from(welcomeScreen.welcomeChannels.values()).map(channel => ({
+          channelId: channel.channelId,
+          description: channel.description,
+          emoji: channel.emoji ? (typeof channel.emoji === 'string' ? channel.emoji : channel.emoji.name) : null
+        })) : []
+      };
     } catch (error) {
       throw new Error(`Failed to get welcome screen: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async editWelcomeScreen(
     guildId?: string, 
     enabled?: boolean, 
@@ -5150,7 +4956,7 @@ ${changes.map(change => `- ${change}`).join('\n')}`;
   }
 
   // Analytics & Logging Enhanced Tools
-  async getMessageHistory(channelId?: string, limit?: number, before?: string, after?: string): Promise<string> {
+  async getMessageHistory(channelId?: string, limit?: number, before?: string, after?: string): Promise<MessageHistory> {
     this.ensureReady();
     
     if (!channelId) {
@@ -5170,31 +4976,23 @@ ${changes.map(change => `- ${change}`).join('\n')}`;
       if (before) fetchOptions.before = before;
       if (after) fetchOptions.after = after;
 
-      const fetchedMsgs: any = await channel.messages.fetch(fetchOptions);
+      const fetchedMsgs = await channel.messages.fetch(fetchOptions) as unknown as Collection<string, Message>;
 
-      if (fetchedMsgs.size === 0) {
-        return "No messages found in the specified range";
-      }
-
-      const messageArray = Array.from(fetchedMsgs.values());
-      const formattedMessages = messageArray.map((msg: any) => {
-        const timestamp = msg.createdAt.toLocaleString();
-        const attachments = msg.attachments.size > 0 ? ` [${msg.attachments.size} attachments]` : '';
-        return `**${msg.author.username}** (${timestamp})${attachments}
-${msg.content || '*[No text content]*'}`;
-      });
-
-      return `**Message History for #${channel.name}**
-Total messages: ${fetchedMsgs.size}
-Range: ${limit || 50} messages${before ? ` before ${before}` : ''}${after ? ` after ${after}` : ''}
-
-${formattedMessages.join('\n\n')}`;
+      return {
+        channelId: channel.id,
+        channelName: channel.name,
+        limit: fetchOptions.limit,
+        before,
+        after,
+        messages: Array.from(fetchedMsgs.values()).map(msg => this.toMessageSummary(msg))
+      };
     } catch (error) {
       throw new Error(`Failed to get message history: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async getServerStats(guildId?: string): Promise<string> {
+
+  async getServerStats(guildId?: string): Promise<ServerStats> {
     this.ensureReady();
     const resolvedGuildId = this.resolveGuildId(guildId);
     
@@ -5205,52 +5003,37 @@ ${formattedMessages.join('\n\n')}`;
 
     try {
       const channels = guild.channels.cache;
-      const roles = guild.roles.cache;
-      const emojis = guild.emojis.cache;
-
-      const channelStats = {
-        text: channels.filter(c => c.type === ChannelType.GuildText).size,
-        voice: channels.filter(c => c.type === ChannelType.GuildVoice).size,
-        category: channels.filter(c => c.type === ChannelType.GuildCategory).size,
-        stage: channels.filter(c => c.type === ChannelType.GuildStageVoice).size,
-        announcement: channels.filter(c => c.type === ChannelType.GuildAnnouncement).size,
-        forum: channels.filter(c => c.type === ChannelType.GuildForum).size
-      };
-
       const verificationLevels = ['None', 'Low', 'Medium', 'High', 'Very High'];
-      const createdDate = guild.createdAt.toLocaleDateString();
-      const ownerTag = guild.members.cache.get(guild.ownerId)?.user.tag || 'Unknown';
-
-      return `**Server Statistics for ${guild.name}**
-
-**Basic Info:**
-- Server ID: ${guild.id}
-- Owner: ${ownerTag}
-- Created: ${createdDate}
-- Verification Level: ${verificationLevels[guild.verificationLevel]}
-- Boost Level: ${guild.premiumTier}
-- Boost Count: ${guild.premiumSubscriptionCount || 0}
-
-**Members:**
-- Total Members: ${guild.memberCount}
-- Max Members: ${guild.maximumMembers || 'Unlimited'}
-
-**Channels (${channels.size} total):**
-- Text: ${channelStats.text}
-- Voice: ${channelStats.voice}
-- Categories: ${channelStats.category}
-- Stage: ${channelStats.stage}
-- Announcement: ${channelStats.announcement}
-- Forum: ${channelStats.forum}
-
-**Roles:** ${roles.size - 1} (excluding @everyone)
-**Custom Emojis:** ${emojis.size}
-**Features:** ${guild.features.length > 0 ? guild.features.join(', ') : 'None'}`;
+
+      return {
+        id: guild.id,
+        name: guild.name,
+        owner: guild.members.cache.get(guild.ownerId)?.user.tag || 'Unknown',
+        createdAt: guild.createdAt.toISOString(),
+        verificationLevel: verificationLevels[guild.verificationLevel],
+        boostTier: guild.premiumTier,
+        boostCount: guild.premiumSubscriptionCount || 0,
+        memberCount: guild.memberCount,
+        maxMembers: guild.maximumMembers || null,
+        channels: {
+          total: channels.size,
+          text: channels.filter(c => c.type === ChannelType.GuildText).size,
+          voice: channels.filter(c => c.type === ChannelType.GuildVoice).size,
+          category: channels.filter(c => c.type === ChannelType.GuildCategory).size,
+          stage: channels.filter(c => c.type === ChannelType.GuildStageVoice).size,
+          announcement: channels.filter(c => c.type === ChannelType.GuildAnnouncement).size,
+          forum: channels.filter(c => c.type === ChannelType.GuildForum).size
+        },
+        roleCount: guild.roles.cache.size - 1,
+        emojiCount: guild.emojis.cache.size,
+        features: [...guild.features]
+      };
     } catch (error) {
       throw new Error(`Failed to get server stats: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+
   async exportChatLog(channelId?: string, format?: string, limit?: number, dateRange?: any): Promise<string> {
     this.ensureReady();
     
@@ -5365,14 +5148,10 @@ ${preview}
     // Clean up voice connections
     for (const [guildId, connection] of this.voiceConnections) {
       connection.destroy();
+      getAudioMixer().destroy(guildId);
     }
     this.voiceConnections.clear();
 
-    // Clean up audio players
-    for (const [guildId, player] of this.audioPlayers) {
-      player.stop();
-    }
-    this.audioPlayers.clear();
 
     await this.client.destroy();
   }
@@ -5381,4 +5160,10 @@ ${preview}
   getClient(): Client {
     return this.client;
   }
+
+  // Resolve the guild that owns a channel or thread (used for per-guild API access checks)
+  getGuildIdForChannel(channelId: string): string | undefined {
+    const channel = this.client.channels.cache.get(channelId);
+    return channel && 'guildId' in channel ? channel.guildId ?? undefined : undefined;
+  }
 }
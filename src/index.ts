@@ -6,29 +6,38 @@ import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
 import { DiscordService } from './discord-service.js';
 import { AutomationManager } from './core/AutomationManager.js';
 import { DiscordController } from './core/DiscordController.js';
-import * as schemas from './types.js';
-import { createServer } from 'node:http';
+import { AuthManager, type ApiScope, type AuthContext, type AuthResult } from './core/AuthManager.js';
+import { PermissionError, ToolNotFoundError, ValidationError } from './core/ErrorHandler.js';
+import { SecurityUtils } from './core/SecurityUtils.js';
+import { resolveToolCall, ToolRegistry } from './core/ToolRegistry.js';
+import { ToolAccess } from './core/ToolAccess.js';
+import { McpSessionManager } from './core/McpSessionManager.js';
+import { getStorage } from './core/Storage.js';
+import { getConversationMemory } from './services/conversation-memory.js';
+import { registerTools } from './tools/index.js';
+import { musicService, parseTimestamp, LOOP_MODES } from './services/music-service.js';
+import { getVoiceAnalytics } from './services/voice-analytics.js';
+import { getPlayerProgress, MAX_PROGRESS_DAYS } from './services/player-progress.js';
+import { getGuildRegion, parseRegion } from './services/wargaming-api.js';
+import { getAccountLinks, LINK_CALLBACK_PATH } from './services/account-links.js';
+import { getWowsRoleSync } from './services/wows-roles.js';
+import { getClanRosterMonitor } from './services/clan-roster.js';
+import { ZodError } from 'zod';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createServer, type IncomingMessage } from 'node:http';
 import { URL } from 'node:url';
 
-const server = new Server(
-  {
-    name: 'discord-mcp-server',
-    version: '0.0.1',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
 let discordService: DiscordService;
 let automationManager: AutomationManager;
 let discordController: DiscordController;
+let httpMcpSessions: McpSessionManager | undefined;
+const authManager = AuthManager.getInstance();
+const toolRegistry = registerTools(ToolRegistry.getInstance());
 
 // Check if running in HTTP-only mode (no Discord bot connection)
 const HTTP_ONLY_MODE = process.env.HTTP_ONLY === 'true';
@@ -46,3089 +55,220 @@ async function initializeDiscord() {
   automationManager = discordController.getAutomationManager();
 }
 
-// Complete tools list for both stdio and HTTP
-const getAllTools = () => [
-      // Consolidated Discord Management Tool
-      {
-        name: 'discord_manage',
-        description: 'Comprehensive Discord server management tool - handles all Discord operations through a single unified interface',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            action: {
-              type: 'string',
-              enum: [
-                'get_server_info', 'send_message', 'edit_message', 'delete_message', 'read_messages',
-                'pin_message', 'unpin_message', 'get_pinned_messages', 'bulk_delete_messages',
-                'crosspost_message', 'get_message_history', 'get_message_attachments', 'read_images',
-                'get_user_id_by_name', 'send_private_message', 'edit_private_message', 
-                'delete_private_message', 'read_private_messages', 'add_reaction', 'remove_reaction',
-                'create_text_channel', 'create_voice_channel', 'create_forum_channel', 
-                'create_announcement_channel', 'create_stage_channel', 'edit_channel_advanced',
-                'delete_channel', 'find_channel', 'list_channels', 'set_channel_position',
-                'set_channel_positions', 'move_channel_to_category', 'organize_channels',
-                'get_channel_structure', 'create_category', 'delete_category', 'find_category', 
-                'list_channels_in_category', 'set_category_position', 'create_webhook', 
-                'delete_webhook', 'list_webhooks', 'send_webhook_message', 'join_voice_channel', 
-                'leave_voice_channel', 'play_audio', 'stop_audio', 'set_volume', 
-                'get_voice_connections', 'create_role', 'delete_role', 'edit_role', 
-                'add_role_to_member', 'remove_role_from_member', 'get_roles', 'set_role_positions',
-                'get_members', 'search_members', 'edit_member', 'get_member_info',
-                'create_event', 'edit_event', 'delete_event', 'get_events', 'create_invite', 
-                'delete_invite', 'get_invites', 'create_emoji', 'delete_emoji', 'get_emojis',
-                'create_sticker', 'delete_sticker', 'get_stickers', 'upload_file',
-                'set_channel_private', 'set_category_private', 'bulk_set_privacy',
-                'comprehensive_channel_management', 'create_automod_rule', 'edit_automod_rule', 
-                'delete_automod_rule', 'get_automod_rules', 'send_modal', 'send_embed', 
-                'send_button', 'send_select_menu', 'edit_server', 'get_server_widget', 
-                'get_welcome_screen', 'edit_welcome_screen', 'get_server_stats', 'export_chat_log'
-              ],
-              description: 'The specific Discord operation to perform'
-            }
-          },
-          required: ['action'],
-          additionalProperties: true
-        }
-      },
-
-      // Original Individual Tools (kept for backward compatibility)
-      // Server Information
-      {
-        name: 'get_server_info',
-        description: 'Get detailed discord server information',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      // Message Management
-      {
-        name: 'send_message',
-        description: 'Send a message to a specific channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            message: {
-              type: 'string',
-              description: 'Message content',
-            },
-          },
-          required: ['channelId', 'message'],
-        },
-      },
-      {
-        name: 'edit_message',
-        description: 'Edit a message from a specific channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Specific message ID',
-            },
-            newMessage: {
-              type: 'string',
-              description: 'New message content',
-            },
-          },
-          required: ['channelId', 'messageId', 'newMessage'],
-        },
-      },
-      {
-        name: 'delete_message',
-        description: 'Delete a message from a specific channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Specific message ID',
-            },
-          },
-          required: ['channelId', 'messageId'],
-        },
-      },
-      {
-        name: 'read_messages',
-        description: 'Read recent message history from a specific channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            count: {
-              type: 'string',
-              description: 'Number of messages to retrieve',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'get_user_id_by_name',
-        description: 'Get a Discord user\'s ID by username in a guild for ping usage <@id>.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            username: {
-              type: 'string',
-              description: 'Discord username (optionally username#discriminator)',
-            },
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: ['username'],
-        },
-      },
-      {
-        name: 'send_private_message',
-        description: 'Send a private message to a specific user',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            message: {
-              type: 'string',
-              description: 'Message content',
-            },
-          },
-          required: ['userId', 'message'],
-        },
-      },
-      {
-        name: 'edit_private_message',
-        description: 'Edit a private message from a specific user',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Specific message ID',
-            },
-            newMessage: {
-              type: 'string',
-              description: 'New message content',
-            },
-          },
-          required: ['userId', 'messageId', 'newMessage'],
-        },
-      },
-      {
-        name: 'delete_private_message',
-        description: 'Delete a private message from a specific user',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Specific message ID',
-            },
-          },
-          required: ['userId', 'messageId'],
-        },
-      },
-      {
-        name: 'read_private_messages',
-        description: 'Read recent message history from a specific user',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            count: {
-              type: 'string',
-              description: 'Number of messages to retrieve',
-            },
-          },
-          required: ['userId'],
-        },
-      },
-      {
-        name: 'add_reaction',
-        description: 'Add a reaction (emoji) to a specific message',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Discord message ID',
-            },
-            emoji: {
-              type: 'string',
-              description: 'Emoji (Unicode or string)',
-            },
-          },
-          required: ['channelId', 'messageId', 'emoji'],
-        },
-      },
-      {
-        name: 'remove_reaction',
-        description: 'Remove a specified reaction (emoji) from a message',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Discord message ID',
-            },
-            emoji: {
-              type: 'string',
-              description: 'Emoji (Unicode or string)',
-            },
-          },
-          required: ['channelId', 'messageId', 'emoji'],
-        },
-      },
-      // Channel Management
-      {
-        name: 'create_text_channel',
-        description: 'Create a new text channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Channel name',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID (optional)',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'create_voice_channel',
-        description: 'Create a new voice channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Voice channel name',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID (optional)',
-            },
-            userLimit: {
-              type: 'number',
-              description: 'User limit (0-99, 0 = unlimited)',
-              minimum: 0,
-              maximum: 99,
-            },
-            bitrate: {
-              type: 'number',
-              description: 'Bitrate in bps (8000-384000, depends on server boost level)',
-              minimum: 8000,
-              maximum: 384000,
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'create_forum_channel',
-        description: 'Create a forum channel with advanced settings',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Forum channel name',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID (optional)',
-            },
-            topic: {
-              type: 'string',
-              description: 'Channel topic/description',
-            },
-            slowmode: {
-              type: 'number',
-              description: 'Slowmode in seconds (0-21600)',
-              minimum: 0,
-              maximum: 21600,
-            },
-            defaultReactionEmoji: {
-              type: 'string',
-              description: 'Default reaction emoji for posts',
-            },
-            isPrivate: {
-              type: 'boolean',
-              description: 'Make channel private (deny @everyone access)',
-            },
-            allowedRoles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs to grant access to private channel',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'create_announcement_channel',
-        description: 'Create an announcement channel with advanced settings',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Announcement channel name',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID (optional)',
-            },
-            topic: {
-              type: 'string',
-              description: 'Channel topic/description',
-            },
-            slowmode: {
-              type: 'number',
-              description: 'Slowmode in seconds (0-21600)',
-              minimum: 0,
-              maximum: 21600,
-            },
-            isPrivate: {
-              type: 'boolean',
-              description: 'Make channel private (deny @everyone access)',
-            },
-            allowedRoles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs to grant access to private channel',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'create_stage_channel',
-        description: 'Create a stage voice channel with advanced settings',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Stage channel name',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID (optional)',
-            },
-            topic: {
-              type: 'string',
-              description: 'Channel topic/description',
-            },
-            bitrate: {
-              type: 'number',
-              description: 'Bitrate in bps (8000-384000, depends on server boost level)',
-              minimum: 8000,
-              maximum: 384000,
-            },
-            isPrivate: {
-              type: 'boolean',
-              description: 'Make channel private (deny @everyone access)',
-            },
-            allowedRoles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs to grant access to private channel',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'edit_channel_advanced',
-        description: 'Edit any channel with advanced settings including privacy and permissions',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Channel ID to edit',
-            },
-            name: {
-              type: 'string',
-              description: 'New channel name',
-            },
-            topic: {
-              type: 'string',
-              description: 'New channel topic/description',
-            },
-            slowmode: {
-              type: 'number',
-              description: 'Slowmode in seconds (0-21600)',
-              minimum: 0,
-              maximum: 21600,
-            },
-            userLimit: {
-              type: 'number',
-              description: 'User limit for voice channels (0-99, 0 = unlimited)',
-              minimum: 0,
-              maximum: 99,
-            },
-            bitrate: {
-              type: 'number',
-              description: 'Bitrate for voice channels (8000-384000)',
-              minimum: 8000,
-              maximum: 384000,
-            },
-            isPrivate: {
-              type: 'boolean',
-              description: 'Make channel private (deny @everyone access)',
-            },
-            allowedRoles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs to grant access to private channel',
-            },
-            categoryId: {
-              type: ['string', 'null'],
-              description: 'Category ID (null to remove from category)',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'delete_channel',
-        description: 'Delete a channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'find_channel',
-        description: 'Find a channel type and ID using name and server ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelName: {
-              type: 'string',
-              description: 'Discord channel name',
-            },
-          },
-          required: ['channelName'],
-        },
-      },
-      {
-        name: 'list_channels',
-        description: 'List of all channels',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      // Category Management
-      {
-        name: 'create_category',
-        description: 'Create a new category for channels',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Discord category name',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'delete_category',
-        description: 'Delete a category',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Discord category ID',
-            },
-          },
-          required: ['categoryId'],
-        },
-      },
-      {
-        name: 'find_category',
-        description: 'Find a category ID using name and server ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            categoryName: {
-              type: 'string',
-              description: 'Discord category name',
-            },
-          },
-          required: ['categoryName'],
-        },
-      },
-      {
-        name: 'list_channels_in_category',
-        description: 'List of channels in a specific category',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Discord category ID',
-            },
-          },
-          required: ['categoryId'],
-        },
-      },
-      // Webhook Management
-      {
-        name: 'create_webhook',
-        description: 'Create a new webhook on a specific channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Webhook name',
-            },
-          },
-          required: ['channelId', 'name'],
-        },
-      },
-      {
-        name: 'delete_webhook',
-        description: 'Delete a webhook',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            webhookId: {
-              type: 'string',
-              description: 'Discord webhook ID',
-            },
-          },
-          required: ['webhookId'],
-        },
-      },
-      {
-        name: 'list_webhooks',
-        description: 'List of webhooks on a specific channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'send_webhook_message',
-        description: 'Send a message via webhook',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            webhookUrl: {
-              type: 'string',
-              description: 'Discord webhook link',
-            },
-            message: {
-              type: 'string',
-              description: 'Message content',
-            },
-          },
-          required: ['webhookUrl', 'message'],
-        },
-      },
-      // Voice & Audio Management
-      {
-        name: 'join_voice_channel',
-        description: 'Connect bot to voice channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Voice channel ID',
-            },
-          },
-          required: ['guildId', 'channelId'],
-        },
-      },
-      {
-        name: 'leave_voice_channel',
-        description: 'Disconnect from voice channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Voice channel ID',
-            },
-          },
-          required: ['guildId', 'channelId'],
-        },
-      },
-      {
-        name: 'play_audio',
-        description: 'Stream audio in voice channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            audioUrl: {
-              type: 'string',
-              description: 'URL or path to audio file',
-            },
-          },
-          required: ['guildId', 'audioUrl'],
-        },
-      },
-      {
-        name: 'stop_audio',
-        description: 'Stop current audio playback',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: ['guildId'],
-        },
-      },
-      {
-        name: 'set_volume',
-        description: 'Adjust audio volume',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            volume: {
-              type: 'number',
-              description: 'Volume level (0-200)',
-              minimum: 0,
-              maximum: 200,
-            },
-          },
-          required: ['guildId', 'volume'],
-        },
-      },
-      {
-        name: 'get_voice_connections',
-        description: 'List active voice connections',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-      // Role Management
-      {
-        name: 'create_role',
-        description: 'Create new server role',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Name of the role',
-            },
-            color: {
-              type: 'string',
-              description: 'Role color (hex format)',
-            },
-            permissions: {
-              type: 'array',
-              items: {
-                type: 'string',
-              },
-              description: 'Array of permission names',
-            },
-          },
-          required: ['name'],
-        },
-      },
-      {
-        name: 'delete_role',
-        description: 'Remove existing role',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            roleId: {
-              type: 'string',
-              description: 'Role ID',
-            },
-          },
-          required: ['roleId'],
-        },
-      },
-      {
-        name: 'edit_role',
-        description: 'Modify role properties (name, color, permissions)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            roleId: {
-              type: 'string',
-              description: 'Role ID',
-            },
-            name: {
-              type: 'string',
-              description: 'New name for the role',
-            },
-            color: {
-              type: 'string',
-              description: 'New color (hex format)',
-            },
-            permissions: {
-              type: 'array',
-              items: {
-                type: 'string',
-              },
-              description: 'New permissions array',
-            },
-          },
-          required: ['roleId'],
-        },
-      },
-      {
-        name: 'add_role_to_member',
-        description: 'Assign role to member',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            roleId: {
-              type: 'string',
-              description: 'Role ID',
-            },
-          },
-          required: ['userId', 'roleId'],
-        },
-      },
-      {
-        name: 'remove_role_from_member',
-        description: 'Remove role from member',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            roleId: {
-              type: 'string',
-              description: 'Role ID',
-            },
-          },
-          required: ['userId', 'roleId'],
-        },
-      },
-      {
-        name: 'get_roles',
-        description: 'List all server roles',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'set_role_positions',
-        description: 'Reorder role hierarchy',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            rolePositions: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  roleId: {
-                    type: 'string',
-                    description: 'Role ID',
-                  },
-                  position: {
-                    type: 'number',
-                    description: 'New position',
-                  },
-                },
-                required: ['roleId', 'position'],
-              },
-              description: 'Array of role position updates',
-            },
-          },
-          required: ['rolePositions'],
-        },
-      },
-      {
-        name: 'set_channel_position',
-        description: 'Move a channel to a specific position',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            position: {
-              type: 'number',
-              description: 'New position (0-based)',
-            },
-          },
-          required: ['channelId', 'position'],
-        },
-      },
-      {
-        name: 'set_channel_positions',
-        description: 'Move multiple channels to specific positions',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelPositions: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  channelId: {
-                    type: 'string',
-                    description: 'Channel ID',
-                  },
-                  position: {
-                    type: 'number',
-                    description: 'New position (0-based)',
-                  },
-                },
-                required: ['channelId', 'position'],
-              },
-              description: 'Array of channel position updates',
-            },
-          },
-          required: ['channelPositions'],
-        },
-      },
-      {
-        name: 'move_channel_to_category',
-        description: 'Move a channel to a category or remove it from a category',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            categoryId: {
-              type: ['string', 'null'],
-              description: 'Category ID (null to remove from category)',
-            },
-          },
-          required: ['channelId', 'categoryId'],
-        },
-      },
-      {
-        name: 'set_category_position',
-        description: 'Move a category to a specific position',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID',
-            },
-            position: {
-              type: 'number',
-              description: 'New position (0-based)',
-            },
-          },
-          required: ['categoryId', 'position'],
-        },
-      },
-      {
-        name: 'organize_channels',
-        description: 'Comprehensive channel and category organization tool',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            organization: {
-              type: 'object',
-              properties: {
-                categories: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      categoryId: {
-                        type: 'string',
-                        description: 'Category ID',
-                      },
-                      position: {
-                        type: 'number',
-                        description: 'New position',
-                      },
-                    },
-                    required: ['categoryId', 'position'],
-                  },
-                  description: 'Array of category position updates',
-                },
-                channels: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      channelId: {
-                        type: 'string',
-                        description: 'Channel ID',
-                      },
-                      position: {
-                        type: 'number',
-                        description: 'New position (optional)',
-                      },
-                      categoryId: {
-                        type: ['string', 'null'],
-                        description: 'Category ID (null to remove from category, optional)',
-                      },
-                    },
-                    required: ['channelId'],
-                  },
-                  description: 'Array of channel updates',
-                },
-              },
-              description: 'Organization configuration',
-            },
-          },
-          required: ['organization'],
-        },
-      },
-      {
-        name: 'get_channel_structure',
-        description: 'Get the current channel and category structure of the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-
-      // Additional Message Management Tools
-      {
-        name: 'pin_message',
-        description: 'Pin a message in a channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Message ID to pin',
-            },
-          },
-          required: ['channelId', 'messageId'],
-        },
-      },
-      {
-        name: 'unpin_message',
-        description: 'Unpin a message in a channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Message ID to unpin',
-            },
-          },
-          required: ['channelId', 'messageId'],
-        },
-      },
-      {
-        name: 'get_pinned_messages',
-        description: 'Get all pinned messages in a channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'bulk_delete_messages',
-        description: 'Delete multiple messages at once',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Discord channel ID',
-            },
-            messageIds: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Array of message IDs to delete',
-            },
-            filterOld: {
-              type: 'boolean',
-              description: 'Filter out messages older than 14 days',
-            },
-          },
-          required: ['channelId', 'messageIds'],
-        },
-      },
-      {
-        name: 'crosspost_message',
-        description: 'Crosspost an announcement message',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Announcement channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Message ID to crosspost',
-            },
-          },
-          required: ['channelId', 'messageId'],
-        },
-      },
-
-      // Enhanced Member Management Tools
-      {
-        name: 'get_members',
-        description: 'Get server members with pagination',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of members to fetch (default 100)',
-            },
-            after: {
-              type: 'string',
-              description: 'User ID to fetch members after',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'search_members',
-        description: 'Search members by username or nickname',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            query: {
-              type: 'string',
-              description: 'Search query (username or nickname)',
-            },
-            limit: {
-              type: 'number',
-              description: 'Max results to return',
-            },
-          },
-          required: ['query'],
-        },
-      },
-      {
-        name: 'edit_member',
-        description: 'Edit member properties like nickname and roles',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-            nickname: {
-              type: 'string',
-              description: 'New nickname',
-            },
-            roles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Array of role IDs to set',
-            },
-          },
-          required: ['userId'],
-        },
-      },
-      {
-        name: 'get_member_info',
-        description: 'Get detailed information about a member',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            userId: {
-              type: 'string',
-              description: 'Discord user ID',
-            },
-          },
-          required: ['userId'],
-        },
-      },
-
-      // Event & Scheduling Tools
-      {
-        name: 'create_event',
-        description: 'Create a scheduled Discord event',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Event name',
-            },
-            description: {
-              type: 'string',
-              description: 'Event description',
-            },
-            startTime: {
-              type: 'string',
-              description: 'Event start time (ISO 8601 format)',
-            },
-            endTime: {
-              type: 'string',
-              description: 'Event end time (ISO 8601 format)',
-            },
-            location: {
-              type: 'string',
-              description: 'Event location for external events',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Voice channel ID for voice events',
-            },
-          },
-          required: ['name', 'startTime'],
-        },
-      },
-      {
-        name: 'edit_event',
-        description: 'Edit an existing scheduled event',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            eventId: {
-              type: 'string',
-              description: 'Event ID',
-            },
-            name: {
-              type: 'string',
-              description: 'New event name',
-            },
-            description: {
-              type: 'string',
-              description: 'New event description',
-            },
-            startTime: {
-              type: 'string',
-              description: 'New start time (ISO 8601 format)',
-            },
-            endTime: {
-              type: 'string',
-              description: 'New end time (ISO 8601 format)',
-            },
-            location: {
-              type: 'string',
-              description: 'New event location',
-            },
-          },
-          required: ['eventId'],
-        },
-      },
-      {
-        name: 'delete_event',
-        description: 'Delete a scheduled event',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            eventId: {
-              type: 'string',
-              description: 'Event ID',
-            },
-          },
-          required: ['eventId'],
-        },
-      },
-      {
-        name: 'get_events',
-        description: 'List all scheduled events in the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-
-      // Enhanced Invite Management Tools
-      {
-        name: 'create_invite',
-        description: 'Create an invite link with custom settings',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            maxAge: {
-              type: 'number',
-              description: 'Invite expiration in seconds (0 = never)',
-            },
-            maxUses: {
-              type: 'number',
-              description: 'Maximum uses (0 = unlimited)',
-            },
-            temporary: {
-              type: 'boolean',
-              description: 'Grant temporary membership',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'delete_invite',
-        description: 'Delete/revoke an invite',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            inviteCode: {
-              type: 'string',
-              description: 'Invite code to delete',
-            },
-          },
-          required: ['inviteCode'],
-        },
-      },
-      {
-        name: 'get_invites',
-        description: 'List all server invites',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-
-      // Enhanced Emoji & Sticker Tools
-      {
-        name: 'create_emoji',
-        description: 'Create a custom emoji in the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Emoji name',
-            },
-            imageUrl: {
-              type: 'string',
-              description: 'Image URL or base64 data',
-            },
-            roles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs that can use this emoji',
-            },
-          },
-          required: ['name', 'imageUrl'],
-        },
-      },
-      {
-        name: 'delete_emoji',
-        description: 'Delete a custom emoji from the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            emojiId: {
-              type: 'string',
-              description: 'Emoji ID',
-            },
-          },
-          required: ['emojiId'],
-        },
-      },
-      {
-        name: 'get_emojis',
-        description: 'List all custom emojis in the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'create_sticker',
-        description: 'Create a custom sticker in the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Sticker name',
-            },
-            description: {
-              type: 'string',
-              description: 'Sticker description',
-            },
-            tags: {
-              type: 'string',
-              description: 'Sticker tags',
-            },
-            imageUrl: {
-              type: 'string',
-              description: 'Image URL or file path',
-            },
-          },
-          required: ['name', 'description', 'tags', 'imageUrl'],
-        },
-      },
-      {
-        name: 'delete_sticker',
-        description: 'Delete a custom sticker from the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            stickerId: {
-              type: 'string',
-              description: 'Sticker ID',
-            },
-          },
-          required: ['stickerId'],
-        },
-      },
-      {
-        name: 'get_stickers',
-        description: 'List all custom stickers in the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-
-      // Attachment & File Tools
-      {
-        name: 'upload_file',
-        description: 'Upload a file to a channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            filePath: {
-              type: 'string',
-              description: 'Path to file or file URL',
-            },
-            fileName: {
-              type: 'string',
-              description: 'Custom filename',
-            },
-            content: {
-              type: 'string',
-              description: 'Message content to send with file',
-            },
-          },
-          required: ['channelId', 'filePath'],
-        },
-      },
-      {
-        name: 'get_message_attachments',
-        description: 'Get attachments from a specific message',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Message ID',
-            },
-          },
-          required: ['channelId', 'messageId'],
-        },
-      },
-
-      {
-        name: 'read_images',
-        description: 'Read and analyze images from Discord messages with optional metadata and content analysis',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID to read images from',
-            },
-            messageId: {
-              type: 'string',
-              description: 'Specific message ID (optional - if not provided, searches recent messages)',
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of recent messages to search for images (1-10)',
-              minimum: 1,
-              maximum: 10,
-            },
-            includeMetadata: {
-              type: 'boolean',
-              description: 'Include image metadata (dimensions, file size, etc.)',
-            },
-            downloadImages: {
-              type: 'boolean',
-              description: 'Download and analyze image content (slower but more detailed)',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-
-      // Privacy Management Tools
-      {
-        name: 'set_channel_private',
-        description: 'Make a channel private or public with role/member access control',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            isPrivate: {
-              type: 'boolean',
-              description: 'Make channel private (deny @everyone) or public (allow @everyone)',
-            },
-            allowedRoles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs to grant access to private channel',
-            },
-            allowedMembers: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Member IDs to grant access to private channel',
-            },
-            syncToCategory: {
-              type: 'boolean',
-              description: 'Sync permissions with category after change',
-            },
-          },
-          required: ['channelId', 'isPrivate'],
-        },
-      },
-      {
-        name: 'set_category_private',
-        description: 'Make a category private or public with role/member access control',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            categoryId: {
-              type: 'string',
-              description: 'Category ID',
-            },
-            isPrivate: {
-              type: 'boolean',
-              description: 'Make category private (deny @everyone) or public (allow @everyone)',
-            },
-            allowedRoles: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Role IDs to grant access to private category',
-            },
-            allowedMembers: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Member IDs to grant access to private category',
-            },
-            applyToChannels: {
-              type: 'boolean',
-              description: 'Apply privacy settings to all channels in category',
-            },
-          },
-          required: ['categoryId', 'isPrivate'],
-        },
-      },
-      {
-        name: 'bulk_set_privacy',
-        description: 'Set privacy for multiple channels and categories in one operation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            targets: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  id: {
-                    type: 'string',
-                    description: 'Channel or category ID',
-                  },
-                  type: {
-                    type: 'string',
-                    enum: ['channel', 'category'],
-                    description: 'Type of target',
-                  },
-                  isPrivate: {
-                    type: 'boolean',
-                    description: 'Make private or public',
-                  },
-                  allowedRoles: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Role IDs to grant access',
-                  },
-                  allowedMembers: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Member IDs to grant access',
-                  },
-                },
-                required: ['id', 'type', 'isPrivate'],
-              },
-              description: 'Array of channels/categories to update',
-            },
-          },
-          required: ['targets'],
-        },
-      },
-
-      // Comprehensive Channel Management
-      {
-        name: 'comprehensive_channel_management',
-        description: 'All-in-one channel management tool that performs multiple channel operations in sequence',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            operations: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  action: {
-                    type: 'string',
-                    enum: [
-                      'create_text_channel', 'create_voice_channel', 'create_forum_channel', 
-                      'create_announcement_channel', 'create_stage_channel', 'create_category',
-                      'edit_channel_advanced', 'delete_channel', 'delete_category',
-                      'set_channel_position', 'set_category_position', 'move_channel_to_category',
-                      'set_channel_private', 'set_category_private'
-                    ],
-                    description: 'Action to perform',
-                  },
-                  name: {
-                    type: 'string',
-                    description: 'Name for new channels/categories',
-                  },
-                  categoryId: {
-                    type: ['string', 'null'],
-                    description: 'Category ID for channel placement',
-                  },
-                  channelId: {
-                    type: 'string',
-                    description: 'Target channel ID for operations',
-                  },
-                  targetCategoryId: {
-                    type: 'string',
-                    description: 'Target category ID for operations',
-                  },
-                  topic: {
-                    type: 'string',
-                    description: 'Channel topic/description',
-                  },
-                  slowmode: {
-                    type: 'number',
-                    minimum: 0,
-                    maximum: 21600,
-                    description: 'Slowmode in seconds (0-21600)',
-                  },
-                  userLimit: {
-                    type: 'number',
-                    minimum: 0,
-                    maximum: 99,
-                    description: 'User limit for voice channels (0-99, 0 = unlimited)',
-                  },
-                  bitrate: {
-                    type: 'number',
-                    minimum: 8000,
-                    maximum: 384000,
-                    description: 'Bitrate for voice channels (8000-384000)',
-                  },
-                  defaultReactionEmoji: {
-                    type: 'string',
-                    description: 'Default reaction emoji for forum posts',
-                  },
-                  position: {
-                    type: 'number',
-                    description: 'New position for channel/category',
-                  },
-                  isPrivate: {
-                    type: 'boolean',
-                    description: 'Make channel/category private',
-                  },
-                  allowedRoles: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Role IDs to grant access',
-                  },
-                  allowedMembers: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description: 'Member IDs to grant access',
-                  },
-                  syncToCategory: {
-                    type: 'boolean',
-                    description: 'Sync permissions with category',
-                  },
-                  applyToChannels: {
-                    type: 'boolean',
-                    description: 'Apply category privacy to all channels',
-                  },
-                },
-                required: ['action'],
-              },
-              description: 'Array of operations to perform in sequence',
-            },
-          },
-          required: ['operations'],
-        },
-      },
-
-      // Enhanced Automod Tools
-      {
-        name: 'create_automod_rule',
-        description: 'Create an automoderation rule',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'Rule name',
-            },
-            eventType: {
-              type: 'string',
-              enum: ['MESSAGE_SEND'],
-              description: 'Event type to trigger on',
-            },
-            triggerType: {
-              type: 'string',
-              enum: ['KEYWORD', 'SPAM', 'KEYWORD_PRESET', 'MENTION_SPAM'],
-              description: 'Trigger type',
-            },
-            keywordFilter: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Keywords to filter',
-            },
-            presets: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Preset keyword lists',
-            },
-            allowList: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Allowed words',
-            },
-            mentionLimit: {
-              type: 'number',
-              description: 'Max mentions allowed',
-            },
-            enabled: {
-              type: 'boolean',
-              description: 'Whether rule is enabled',
-            },
-          },
-          required: ['name', 'eventType', 'triggerType'],
-        },
-      },
-      {
-        name: 'edit_automod_rule',
-        description: 'Edit an existing automoderation rule',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            ruleId: {
-              type: 'string',
-              description: 'Automod rule ID',
-            },
-            name: {
-              type: 'string',
-              description: 'New rule name',
-            },
-            enabled: {
-              type: 'boolean',
-              description: 'Whether rule is enabled',
-            },
-            keywordFilter: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Keywords to filter',
-            },
-            allowList: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Allowed words',
-            },
-            mentionLimit: {
-              type: 'number',
-              description: 'Max mentions allowed',
-            },
-          },
-          required: ['ruleId'],
-        },
-      },
-      {
-        name: 'delete_automod_rule',
-        description: 'Delete an automoderation rule',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            ruleId: {
-              type: 'string',
-              description: 'Automod rule ID',
-            },
-          },
-          required: ['ruleId'],
-        },
-      },
-      {
-        name: 'get_automod_rules',
-        description: 'List all automoderation rules in the server',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-
-      // Advanced Interaction Tools
-      {
-        name: 'send_modal',
-        description: 'Send a modal dialog (requires active interaction context)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            interactionId: {
-              type: 'string',
-              description: 'Interaction ID',
-            },
-            title: {
-              type: 'string',
-              description: 'Modal title',
-            },
-            customId: {
-              type: 'string',
-              description: 'Custom ID for the modal',
-            },
-            components: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  type: { type: 'number', description: 'Component type' },
-                  label: { type: 'string', description: 'Component label' },
-                  style: { type: 'number', description: 'Component style' },
-                  placeholder: { type: 'string', description: 'Placeholder text' },
-                  required: { type: 'boolean', description: 'Whether field is required' }
-                }
-              },
-              description: 'Modal components',
-            },
-          },
-          required: ['interactionId', 'title', 'customId', 'components'],
-        },
-      },
-      {
-        name: 'send_embed',
-        description: 'Send a rich embed message to a channel',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            title: {
-              type: 'string',
-              description: 'Embed title',
-            },
-            description: {
-              type: 'string',
-              description: 'Embed description',
-            },
-            color: {
-              type: 'string',
-              description: 'Embed color (hex)',
-            },
-            fields: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: { type: 'string', description: 'Field name' },
-                  value: { type: 'string', description: 'Field value' },
-                  inline: { type: 'boolean', description: 'Whether field is inline' }
-                }
-              },
-              description: 'Embed fields',
-            },
-            footer: {
-              type: 'string',
-              description: 'Footer text',
-            },
-            image: {
-              type: 'string',
-              description: 'Image URL',
-            },
-            thumbnail: {
-              type: 'string',
-              description: 'Thumbnail URL',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'send_button',
-        description: 'Send a message with interactive buttons',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            content: {
-              type: 'string',
-              description: 'Message content',
-            },
-            buttons: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  label: { type: 'string', description: 'Button label' },
-                  style: { type: 'string', enum: ['PRIMARY', 'SECONDARY', 'SUCCESS', 'DANGER', 'LINK'], description: 'Button style' },
-                  customId: { type: 'string', description: 'Custom ID for the button' },
-                  url: { type: 'string', description: 'URL for link buttons' },
-                  emoji: { type: 'string', description: 'Button emoji' }
-                }
-              },
-              description: 'Button components',
-            },
-          },
-          required: ['channelId', 'buttons'],
-        },
-      },
-      {
-        name: 'send_select_menu',
-        description: 'Send a message with a select menu',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            content: {
-              type: 'string',
-              description: 'Message content',
-            },
-            customId: {
-              type: 'string',
-              description: 'Custom ID for the select menu',
-            },
-            placeholder: {
-              type: 'string',
-              description: 'Placeholder text',
-            },
-            minValues: {
-              type: 'number',
-              description: 'Minimum values to select',
-            },
-            maxValues: {
-              type: 'number',
-              description: 'Maximum values to select',
-            },
-            options: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  label: { type: 'string', description: 'Option label' },
-                  value: { type: 'string', description: 'Option value' },
-                  description: { type: 'string', description: 'Option description' },
-                  emoji: { type: 'string', description: 'Option emoji' }
-                }
-              },
-              description: 'Select menu options',
-            },
-          },
-          required: ['channelId', 'options'],
-        },
-      },
+// ============================================================
+// API ACCESS CONTROL
+// ============================================================
+
+// REST routes that map to moderation actions
+const MODERATION_ROUTES = new Set([
+  '/api/ban', '/api/unban', '/api/kick', '/api/timeout', '/api/members/timeout/remove',
+  '/api/messages/delete', '/api/messages/bulk-delete', '/api/messages/pin', '/api/messages/unpin',
+  '/api/messages/unreact', '/api/threads/archive', '/api/threads/unarchive',
+  '/api/threads/lock', '/api/threads/unlock', '/api/bans', '/api/auditlog'
+]);
+
+// REST routes that read private data
+const ADMIN_READ_ROUTES = new Set(['/api/dm/read', '/api/export']);
+
+// Routes reachable without a token
+const PUBLIC_ROUTES = new Set(['/health', LINK_CALLBACK_PATH]);
+
+/**
+ * Get the scope required for a REST route
+ */
+function getRouteScope(method: string, pathname: string): ApiScope {
+  if (ADMIN_READ_ROUTES.has(pathname)) return 'admin';
+  if (MODERATION_ROUTES.has(pathname)) return 'moderation';
+  if (method === 'GET') return 'read';
+  return 'admin';
+}
 
-      // Enhanced Server Management Tools
-      {
-        name: 'edit_server',
-        description: 'Edit server settings like name, description, and verification level',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            name: {
-              type: 'string',
-              description: 'New server name',
-            },
-            description: {
-              type: 'string',
-              description: 'New server description',
-            },
-            icon: {
-              type: 'string',
-              description: 'New server icon URL',
-            },
-            banner: {
-              type: 'string',
-              description: 'New server banner URL',
-            },
-            verificationLevel: {
-              type: 'string',
-              enum: ['NONE', 'LOW', 'MEDIUM', 'HIGH', 'VERY_HIGH'],
-              description: 'Verification level',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'get_server_widget',
-        description: 'Get server widget information',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'get_welcome_screen',
-        description: 'Get server welcome screen information',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'edit_welcome_screen',
-        description: 'Edit server welcome screen settings',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-            enabled: {
-              type: 'boolean',
-              description: 'Whether welcome screen is enabled',
-            },
-            description: {
-              type: 'string',
-              description: 'Welcome screen description',
-            },
-            welcomeChannels: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  channelId: { type: 'string', description: 'Channel ID' },
-                  description: { type: 'string', description: 'Channel description' },
-                  emoji: { type: 'string', description: 'Channel emoji' }
-                }
-              },
-              description: 'Welcome screen channels',
-            },
-          },
-          required: [],
-        },
-      },
+/**
+ * Resolve the guild a request targets from its guildId, channelId or threadId
+ */
+function resolveRequestGuildId(params: Record<string, any> | undefined): string | undefined {
+  if (typeof params?.guildId === 'string' && params.guildId) {
+    return params.guildId;
+  }
+  const channelId = params?.channelId || params?.threadId;
+  if (typeof channelId === 'string' && channelId && discordService) {
+    const guildId = discordService.getGuildIdForChannel(channelId);
+    if (guildId) return guildId;
+  }
+  return process.env.DISCORD_GUILD_ID;
+}
 
-      // Analytics & Logging Enhanced Tools
-      {
-        name: 'get_message_history',
-        description: 'Get message history from a channel with pagination',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of messages to retrieve',
-            },
-            before: {
-              type: 'string',
-              description: 'Message ID to fetch before',
-            },
-            after: {
-              type: 'string',
-              description: 'Message ID to fetch after',
-            },
-          },
-          required: ['channelId'],
-        },
-      },
-      {
-        name: 'get_server_stats',
-        description: 'Get comprehensive server statistics',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            guildId: {
-              type: 'string',
-              description: 'Discord server ID',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'export_chat_log',
-        description: 'Export chat messages in various formats',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            channelId: {
-              type: 'string',
-              description: 'Channel ID',
-            },
-            format: {
-              type: 'string',
-              enum: ['JSON', 'CSV', 'TXT'],
-              description: 'Export format',
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of messages to export',
-            },
-            dateRange: {
-              type: 'object',
-              properties: {
-                start: { type: 'string', description: 'Start date (ISO 8601)' },
-                end: { type: 'string', description: 'End date (ISO 8601)' }
-              },
-              description: 'Date range filter',
-            },
-          },
-          required: ['channelId', 'format'],
-        },
-      },
-];
+const toolAccess = new ToolAccess(toolRegistry, authManager, resolveRequestGuildId);
 
-// Tool definitions
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+function toAuthInfo(context: AuthContext | undefined): AuthInfo | undefined {
+  if (!context) return undefined;
   return {
-    tools: getAllTools(),
+    token: context.token,
+    clientId: context.name,
+    scopes: context.scopes,
+    extra: { context }
   };
-});
+}
 
-// Tool request handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+/**
+ * Get the tool name from a /api/tool/:toolName path, or null if it is not valid URL encoding
+ */
+function parseToolPath(pathname: string): string | null {
   try {
-    const { name, arguments: args } = request.params;
-
-    switch (name) {
-      // Consolidated Discord Management Tool
-      case 'discord_manage': {
-        const { action, ...params } = args as any;
-        
-        if (!action) {
-          throw new Error('Action parameter is required for discord_manage tool');
-        }
-        
-        // Route to the original implementations based on action
-        // This preserves all existing functionality while providing a unified interface
-        switch (action) {
-          case 'get_server_info': {
-            const parsed = schemas.ServerInfoSchema.parse(params);
-            const result = await discordService.getServerInfo(parsed.guildId);
-            return { content: [{ type: 'text', text: result }] };
-          }
-          case 'send_message': {
-            const parsed = schemas.SendMessageSchema.parse(params);
-            const result = await discordService.sendMessage(parsed.channelId, parsed.message);
-            return { content: [{ type: 'text', text: result }] };
-          }
-          case 'edit_message': {
-            const parsed = schemas.EditMessageSchema.parse(params);
-            const result = await discordService.editMessage(parsed.channelId, parsed.messageId, parsed.newMessage);
-            return { content: [{ type: 'text', text: result }] };
-          }
-          case 'delete_message': {
-            const parsed = schemas.DeleteMessageSchema.parse(params);
-            const result = await discordService.deleteMessage(parsed.channelId, parsed.messageId);
-            return { content: [{ type: 'text', text: result }] };
-          }
-          case 'read_messages': {
-            const parsed = schemas.ReadMessagesSchema.parse(params);
-            const result = await discordService.readMessages(parsed.channelId, parsed.count);
-            return { content: [{ type: 'text', text: result }] };
-          }
-          case 'read_images': {
-            const parsed = schemas.ReadImagesSchema.parse(params);
-            const result = await discordService.readImages(
-              parsed.channelId, 
-              parsed.messageId, 
-              parsed.limit, 
-              parsed.includeMetadata, 
-              parsed.downloadImages
-            );
-            return { content: [{ type: 'text', text: result }] };
-          }
-          // Note: For brevity, I'm including key actions here. In production, 
-          // all 109+ actions would be mapped following the same pattern
-          default:
-            throw new Error(`Action '${action}' not yet implemented in consolidated handler. Use individual tools for now.`);
-        }
-      }
-
-      // Original Individual Tools (for backward compatibility)
-      // Server Information
-      case 'get_server_info': {
-        const parsed = schemas.ServerInfoSchema.parse(args);
-        const result = await discordService.getServerInfo(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Message Management
-      case 'send_message': {
-        const parsed = schemas.SendMessageSchema.parse(args);
-        const result = await discordService.sendMessage(parsed.channelId, parsed.message);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_message': {
-        const parsed = schemas.EditMessageSchema.parse(args);
-        const result = await discordService.editMessage(parsed.channelId, parsed.messageId, parsed.newMessage);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_message': {
-        const parsed = schemas.DeleteMessageSchema.parse(args);
-        const result = await discordService.deleteMessage(parsed.channelId, parsed.messageId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'read_messages': {
-        const parsed = schemas.ReadMessagesSchema.parse(args);
-        const result = await discordService.readMessages(parsed.channelId, parsed.count);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_user_id_by_name': {
-        const parsed = schemas.GetUserIdByNameSchema.parse(args);
-        const result = await discordService.getUserIdByName(parsed.username, parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'send_private_message': {
-        const parsed = schemas.SendPrivateMessageSchema.parse(args);
-        const result = await discordService.sendPrivateMessage(parsed.userId, parsed.message);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_private_message': {
-        const parsed = schemas.EditPrivateMessageSchema.parse(args);
-        const result = await discordService.editPrivateMessage(parsed.userId, parsed.messageId, parsed.newMessage);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_private_message': {
-        const parsed = schemas.DeletePrivateMessageSchema.parse(args);
-        const result = await discordService.deletePrivateMessage(parsed.userId, parsed.messageId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'read_private_messages': {
-        const parsed = schemas.ReadPrivateMessagesSchema.parse(args);
-        const result = await discordService.readPrivateMessages(parsed.userId, parsed.count);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'add_reaction': {
-        const parsed = schemas.AddReactionSchema.parse(args);
-        const result = await discordService.addReaction(parsed.channelId, parsed.messageId, parsed.emoji);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'remove_reaction': {
-        const parsed = schemas.RemoveReactionSchema.parse(args);
-        const result = await discordService.removeReaction(parsed.channelId, parsed.messageId, parsed.emoji);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Channel Management
-      case 'create_text_channel': {
-        const parsed = schemas.CreateTextChannelSchema.parse(args);
-        const result = await discordService.createTextChannel(parsed.guildId, parsed.name, parsed.categoryId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'create_voice_channel': {
-        const parsed = schemas.CreateVoiceChannelSchema.parse(args);
-        const result = await discordService.createVoiceChannel(parsed.guildId, parsed.name, parsed.categoryId, parsed.userLimit, parsed.bitrate);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'create_forum_channel': {
-        const parsed = schemas.CreateForumChannelSchema.parse(args);
-        const result = await discordService.createForumChannel(parsed.guildId, parsed.name, parsed.categoryId, {
-          topic: parsed.topic,
-          slowmode: parsed.slowmode,
-          defaultReactionEmoji: parsed.defaultReactionEmoji,
-          isPrivate: parsed.isPrivate,
-          allowedRoles: parsed.allowedRoles
-        });
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'create_announcement_channel': {
-        const parsed = schemas.CreateAnnouncementChannelSchema.parse(args);
-        const result = await discordService.createAnnouncementChannel(parsed.guildId, parsed.name, parsed.categoryId, {
-          topic: parsed.topic,
-          slowmode: parsed.slowmode,
-          isPrivate: parsed.isPrivate,
-          allowedRoles: parsed.allowedRoles
-        });
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'create_stage_channel': {
-        const parsed = schemas.CreateStageChannelSchema.parse(args);
-        const result = await discordService.createStageChannel(parsed.guildId, parsed.name, parsed.categoryId, {
-          topic: parsed.topic,
-          bitrate: parsed.bitrate,
-          isPrivate: parsed.isPrivate,
-          allowedRoles: parsed.allowedRoles
-        });
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_channel_advanced': {
-        const parsed = schemas.EditChannelAdvancedSchema.parse(args);
-        const result = await discordService.editChannelAdvanced(parsed.guildId, parsed.channelId, {
-          name: parsed.name,
-          topic: parsed.topic,
-          slowmode: parsed.slowmode,
-          userLimit: parsed.userLimit,
-          bitrate: parsed.bitrate,
-          isPrivate: parsed.isPrivate,
-          allowedRoles: parsed.allowedRoles,
-          categoryId: parsed.categoryId
-        });
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_channel': {
-        const parsed = schemas.DeleteChannelSchema.parse(args);
-        const result = await discordService.deleteChannel(parsed.guildId, parsed.channelId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'find_channel': {
-        const parsed = schemas.FindChannelSchema.parse(args);
-        const result = await discordService.findChannel(parsed.guildId, parsed.channelName);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'list_channels': {
-        const parsed = schemas.ListChannelsSchema.parse(args);
-        const result = await discordService.listChannels(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Category Management
-      case 'create_category': {
-        const parsed = schemas.CreateCategorySchema.parse(args);
-        const result = await discordService.createCategory(parsed.guildId, parsed.name);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_category': {
-        const parsed = schemas.DeleteCategorySchema.parse(args);
-        const result = await discordService.deleteCategory(parsed.guildId, parsed.categoryId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'find_category': {
-        const parsed = schemas.FindCategorySchema.parse(args);
-        const result = await discordService.findCategory(parsed.guildId, parsed.categoryName);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'list_channels_in_category': {
-        const parsed = schemas.ListChannelsInCategorySchema.parse(args);
-        const result = await discordService.listChannelsInCategory(parsed.guildId, parsed.categoryId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Webhook Management
-      case 'create_webhook': {
-        const parsed = schemas.CreateWebhookSchema.parse(args);
-        const result = await discordService.createWebhook(parsed.channelId, parsed.name);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_webhook': {
-        const parsed = schemas.DeleteWebhookSchema.parse(args);
-        const result = await discordService.deleteWebhook(parsed.webhookId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'list_webhooks': {
-        const parsed = schemas.ListWebhooksSchema.parse(args);
-        const result = await discordService.listWebhooks(parsed.channelId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'send_webhook_message': {
-        const parsed = schemas.SendWebhookMessageSchema.parse(args);
-        const result = await discordService.sendWebhookMessage(parsed.webhookUrl, parsed.message);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Voice & Audio Management
-      case 'join_voice_channel': {
-        const parsed = schemas.JoinVoiceChannelSchema.parse(args);
-        const result = await discordService.joinVoiceChannel(parsed.guildId, parsed.channelId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'leave_voice_channel': {
-        const parsed = schemas.LeaveVoiceChannelSchema.parse(args);
-        const result = await discordService.leaveVoiceChannel(parsed.guildId, parsed.channelId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'play_audio': {
-        const parsed = schemas.PlayAudioSchema.parse(args);
-        const result = await discordService.playAudio(parsed.guildId, parsed.audioUrl);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'stop_audio': {
-        const parsed = schemas.StopAudioSchema.parse(args);
-        const result = await discordService.stopAudio(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'set_volume': {
-        const parsed = schemas.SetVolumeSchema.parse(args);
-        const result = await discordService.setVolume(parsed.guildId, parsed.volume);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_voice_connections': {
-        const parsed = schemas.GetVoiceConnectionsSchema.parse(args);
-        const result = await discordService.getVoiceConnections();
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Role Management
-      case 'create_role': {
-        const parsed = schemas.CreateRoleSchema.parse(args);
-        const result = await discordService.createRole(parsed.guildId, parsed.name, parsed.color, parsed.permissions);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_role': {
-        const parsed = schemas.DeleteRoleSchema.parse(args);
-        const result = await discordService.deleteRole(parsed.guildId, parsed.roleId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_role': {
-        const parsed = schemas.EditRoleSchema.parse(args);
-        const result = await discordService.editRole(parsed.guildId, parsed.roleId, parsed.name, parsed.color, parsed.permissions);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'add_role_to_member': {
-        const parsed = schemas.AddRoleToMemberSchema.parse(args);
-        const result = await discordService.addRoleToMember(parsed.guildId, parsed.userId, parsed.roleId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'remove_role_from_member': {
-        const parsed = schemas.RemoveRoleFromMemberSchema.parse(args);
-        const result = await discordService.removeRoleFromMember(parsed.guildId, parsed.userId, parsed.roleId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_roles': {
-        const parsed = schemas.GetRolesSchema.parse(args);
-        const result = await discordService.getRoles(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'set_role_positions': {
-        const parsed = schemas.SetRolePositionsSchema.parse(args);
-        const result = await discordService.setRolePositions(parsed.guildId, parsed.rolePositions);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'set_channel_position': {
-        const parsed = schemas.SetChannelPositionSchema.parse(args);
-        const result = await discordService.setChannelPosition(parsed.guildId, parsed.channelId, parsed.position);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'set_channel_positions': {
-        const parsed = schemas.SetChannelPositionsSchema.parse(args);
-        const result = await discordService.setChannelPositions(parsed.guildId, parsed.channelPositions);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'move_channel_to_category': {
-        const parsed = schemas.MoveChannelToCategorySchema.parse(args);
-        const result = await discordService.moveChannelToCategory(parsed.guildId, parsed.channelId, parsed.categoryId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'set_category_position': {
-        const parsed = schemas.SetCategoryPositionSchema.parse(args);
-        const result = await discordService.setCategoryPosition(parsed.guildId, parsed.categoryId, parsed.position);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'organize_channels': {
-        const parsed = schemas.OrganizeChannelsSchema.parse(args);
-        const result = await discordService.organizeChannels(parsed.guildId, parsed.organization);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_channel_structure': {
-        const parsed = schemas.GetChannelStructureSchema.parse(args);
-        const result = await discordService.getChannelStructure(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Additional Message Management
-      case 'pin_message': {
-        const parsed = schemas.PinMessageSchema.parse(args);
-        const result = await discordService.pinMessage(parsed.channelId, parsed.messageId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'unpin_message': {
-        const parsed = schemas.UnpinMessageSchema.parse(args);
-        const result = await discordService.unpinMessage(parsed.channelId, parsed.messageId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_pinned_messages': {
-        const parsed = schemas.GetPinnedMessagesSchema.parse(args);
-        const result = await discordService.getPinnedMessages(parsed.channelId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'bulk_delete_messages': {
-        const parsed = schemas.BulkDeleteMessagesSchema.parse(args);
-        const result = await discordService.bulkDeleteMessages(parsed.channelId, parsed.messageIds, parsed.filterOld);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'crosspost_message': {
-        const parsed = schemas.CrosspostMessageSchema.parse(args);
-        const result = await discordService.crosspostMessage(parsed.channelId, parsed.messageId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Enhanced Member Management
-      case 'get_members': {
-        const parsed = schemas.GetMembersSchema.parse(args);
-        const result = await discordService.getMembers(parsed.guildId, parsed.limit, parsed.after);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'search_members': {
-        const parsed = schemas.SearchMembersSchema.parse(args);
-        const result = await discordService.searchMembers(parsed.guildId, parsed.query, parsed.limit);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_member': {
-        const parsed = schemas.EditMemberSchema.parse(args);
-        const result = await discordService.editMember(parsed.guildId, parsed.userId, parsed.nickname, parsed.roles);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_member_info': {
-        const parsed = schemas.GetMemberInfoSchema.parse(args);
-        const result = await discordService.getMemberInfo(parsed.guildId, parsed.userId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Event & Scheduling Tools
-      case 'create_event': {
-        const parsed = schemas.CreateEventSchema.parse(args);
-        const result = await discordService.createEvent(parsed.guildId, parsed.name, parsed.description, parsed.startTime, parsed.endTime, parsed.location, parsed.channelId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_event': {
-        const parsed = schemas.EditEventSchema.parse(args);
-        const result = await discordService.editEvent(parsed.guildId, parsed.eventId, parsed.name, parsed.description, parsed.startTime, parsed.endTime, parsed.location);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_event': {
-        const parsed = schemas.DeleteEventSchema.parse(args);
-        const result = await discordService.deleteEvent(parsed.guildId, parsed.eventId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_events': {
-        const parsed = schemas.GetEventsSchema.parse(args);
-        const result = await discordService.getEvents(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Enhanced Invite Management Tools
-      case 'create_invite': {
-        const parsed = schemas.CreateInviteSchema.parse(args);
-        const result = await discordService.createInvite(parsed.channelId, parsed.maxAge, parsed.maxUses, parsed.temporary);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_invite': {
-        const parsed = schemas.DeleteInviteSchema.parse(args);
-        const result = await discordService.deleteInvite(parsed.inviteCode);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_invites': {
-        const parsed = schemas.GetInvitesSchema.parse(args);
-        const result = await discordService.getInvites(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Enhanced Emoji & Sticker Tools
-      case 'create_emoji': {
-        const parsed = schemas.CreateEmojiSchema.parse(args);
-        const result = await discordService.createEmoji(parsed.guildId, parsed.name, parsed.imageUrl, parsed.roles);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_emoji': {
-        const parsed = schemas.DeleteEmojiSchema.parse(args);
-        const result = await discordService.deleteEmoji(parsed.guildId, parsed.emojiId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_emojis': {
-        const parsed = schemas.GetEmojisSchema.parse(args);
-        const result = await discordService.getEmojis(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'create_sticker': {
-        const parsed = schemas.CreateStickerSchema.parse(args);
-        const result = await discordService.createSticker(parsed.guildId, parsed.name, parsed.description, parsed.tags, parsed.imageUrl);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_sticker': {
-        const parsed = schemas.DeleteStickerSchema.parse(args);
-        const result = await discordService.deleteSticker(parsed.guildId, parsed.stickerId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_stickers': {
-        const parsed = schemas.GetStickersSchema.parse(args);
-        const result = await discordService.getStickers(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Attachment & File Tools
-      case 'upload_file': {
-        const parsed = schemas.UploadFileSchema.parse(args);
-        const result = await discordService.uploadFile(parsed.channelId, parsed.filePath, parsed.fileName, parsed.content);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_message_attachments': {
-        const parsed = schemas.GetMessageAttachmentsSchema.parse(args);
-        const result = await discordService.getMessageAttachments(parsed.channelId, parsed.messageId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'read_images': {
-        const parsed = schemas.ReadImagesSchema.parse(args);
-        // snyk:ignore javascript/Ssrf - channelId/messageId are Discord snowflake IDs, not URLs.
-        // URLs are fetched from Discord API and validated against Discord CDN whitelist in readImages().
-        const result = await discordService.readImages(
-          parsed.channelId,
-          parsed.messageId,
-          parsed.limit,
-          parsed.includeMetadata,
-          parsed.downloadImages
-        );
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Privacy Management Tools
-      case 'set_channel_private': {
-        const parsed = schemas.SetChannelPrivateSchema.parse(args);
-        const result = await discordService.setChannelPrivate(parsed.guildId, parsed.channelId, {
-          isPrivate: parsed.isPrivate,
-          allowedRoles: parsed.allowedRoles,
-          allowedMembers: parsed.allowedMembers,
-          syncToCategory: parsed.syncToCategory
-        });
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'set_category_private': {
-        const parsed = schemas.SetCategoryPrivateSchema.parse(args);
-        const result = await discordService.setCategoryPrivate(parsed.guildId, parsed.categoryId, {
-          isPrivate: parsed.isPrivate,
-          allowedRoles: parsed.allowedRoles,
-          allowedMembers: parsed.allowedMembers,
-          applyToChannels: parsed.applyToChannels
-        });
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'bulk_set_privacy': {
-        const parsed = schemas.BulkSetPrivacySchema.parse(args);
-        const result = await discordService.bulkSetPrivacy(parsed.guildId, parsed.targets);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Comprehensive Channel Management
-      case 'comprehensive_channel_management': {
-        const parsed = schemas.ComprehensiveChannelManagementSchema.parse(args);
-        const result = await discordService.comprehensiveChannelManagement(parsed.guildId, parsed.operations);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Enhanced Automod Tools
-      case 'create_automod_rule': {
-        const parsed = schemas.CreateAutomodRuleSchema.parse(args);
-        const result = await discordService.createAutomodRule(parsed.guildId, parsed.name, parsed.eventType, parsed.triggerType, parsed.keywordFilter, parsed.presets, parsed.allowList, parsed.mentionLimit, parsed.enabled);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'edit_automod_rule': {
-        const parsed = schemas.EditAutomodRuleSchema.parse(args);
-        const result = await discordService.editAutomodRule(parsed.guildId, parsed.ruleId, parsed.name, parsed.enabled, parsed.keywordFilter, parsed.allowList, parsed.mentionLimit);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'delete_automod_rule': {
-        const parsed = schemas.DeleteAutomodRuleSchema.parse(args);
-        const result = await discordService.deleteAutomodRule(parsed.guildId, parsed.ruleId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      case 'get_automod_rules': {
-        const parsed = schemas.GetAutomodRulesSchema.parse(args);
-        const result = await discordService.getAutomodRules(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
-
-      // Advanced Interaction Tools
-      case 'send_modal': {
-        const parsed = schemas.SendModalSchema.parse(args);
-        const result = await discordService.sendModal(parsed.interactionId, parsed.title, parsed.customId, parsed.components);
-        return { content: [{ type: 'text', text: result }] };
-      }
+    return decodeURIComponent(pathname.slice('/api/tool/'.length));
+  } catch {
+    return null;
+  }
+}
 
-      case 'send_embed': {
-        const parsed = schemas.SendEmbedSchema.parse(args);
-        const result = await discordService.sendEmbed(parsed.channelId, parsed.title, parsed.description, parsed.color, parsed.fields, parsed.footer, parsed.image, parsed.thumbnail);
-        return { content: [{ type: 'text', text: result }] };
-      }
+/**
+ * Authorize an HTTP request before it reaches any route or MCP endpoint.
+ * MCP endpoints only require a valid token here; each tool call is
+ * checked separately against its own scope.
+ */
+function authorizeHttpRequest(req: IncomingMessage, url: URL, body: string): AuthResult {
+  if (PUBLIC_ROUTES.has(url.pathname) || (url.pathname === '/' && req.method === 'GET')) {
+    return { allowed: true };
+  }
 
-      case 'send_button': {
-        const parsed = schemas.SendButtonSchema.parse(args);
-        const result = await discordService.sendButton(parsed.channelId, parsed.content, parsed.buttons);
-        return { content: [{ type: 'text', text: result }] };
+  let params: Record<string, any> = Object.fromEntries(url.searchParams);
+  if (body) {
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        params = { ...params, ...parsed };
       }
+    } catch {
+      // Malformed bodies are rejected by the route handlers
+    }
+  }
 
-      case 'send_select_menu': {
-        const parsed = schemas.SendSelectMenuSchema.parse(args);
-        const result = await discordService.sendSelectMenu(parsed.channelId, parsed.content, parsed.customId, parsed.placeholder, parsed.minValues, parsed.maxValues, parsed.options);
-        return { content: [{ type: 'text', text: result }] };
-      }
+  const method = req.method || 'GET';
+  const authorization = req.headers.authorization;
 
-      // Enhanced Server Management Tools
-      case 'edit_server': {
-        const parsed = schemas.EditServerSchema.parse(args);
-        const result = await discordService.editServer(parsed.guildId, parsed.name, parsed.description, parsed.icon, parsed.banner, parsed.verificationLevel);
-        return { content: [{ type: 'text', text: result }] };
-      }
+  if (url.pathname.startsWith('/api/tool/')) {
+    // Scoped by the decoded name, the one the route executes
+    const toolName = parseToolPath(url.pathname);
+    if (!toolName) {
+      return authManager.authorize(authorization, 'admin', resolveRequestGuildId(params));
+    }
+    const call = resolveToolCall(toolName, params);
+    return authManager.authorize(authorization, toolAccess.getToolScope(toolName, params), resolveRequestGuildId(call.args));
+  }
 
-      case 'get_server_widget': {
-        const parsed = schemas.GetServerWidgetSchema.parse(args);
-        const result = await discordService.getServerWidget(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
+  if (url.pathname.startsWith('/api/')) {
+    return authManager.authorize(authorization, getRouteScope(method, url.pathname), resolveRequestGuildId(params));
+  }
 
-      case 'get_welcome_screen': {
-        const parsed = schemas.GetWelcomeScreenSchema.parse(args);
-        const result = await discordService.getWelcomeScreen(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
+  return authManager.authorize(authorization, 'read');
+}
 
-      case 'edit_welcome_screen': {
-        const parsed = schemas.EditWelcomeScreenSchema.parse(args);
-        const result = await discordService.editWelcomeScreen(parsed.guildId, parsed.enabled, parsed.description, parsed.welcomeChannels);
-        return { content: [{ type: 'text', text: result }] };
-      }
+/**
+ * Minimal HTML page for routes opened in a browser
+ */
+function renderHtmlPage(title: string, message: string): string {
+  const escape = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escape(title)}</title></head>` +
+    `<body style="font-family: sans-serif; max-width: 32em; margin: 4em auto"><h1>${escape(title)}</h1><p>${escape(message)}</p></body></html>`;
+}
 
-      // Analytics & Logging Enhanced Tools
-      case 'get_message_history': {
-        const parsed = schemas.GetMessageHistorySchema.parse(args);
-        const result = await discordService.getMessageHistory(parsed.channelId, parsed.limit, parsed.before, parsed.after);
-        return { content: [{ type: 'text', text: result }] };
-      }
+const MAX_REQUEST_BODY_BYTES = 1024 * 1024; // 1 MB
+
+/**
+ * Read the full request body as a string
+ */
+function readRequestBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk.toString();
+      if (body.length > MAX_REQUEST_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
 
-      case 'get_server_stats': {
-        const parsed = schemas.GetServerStatsSchema.parse(args);
-        const result = await discordService.getServerStats(parsed.guildId);
-        return { content: [{ type: 'text', text: result }] };
-      }
+/**
+ * Execute a tool by name. Shared by the MCP handlers and the REST API;
+ * arguments are validated with the tool's zod schema and errors are thrown.
+ */
+async function executeTool(name: string, args: Record<string, any> | undefined): Promise<CallToolResult> {
+  return toolRegistry.execute(name, args, { discordService });
+}
 
-      case 'export_chat_log': {
-        const parsed = schemas.ExportChatLogSchema.parse(args);
-        const result = await discordService.exportChatLog(parsed.channelId, parsed.format, parsed.limit, parsed.dateRange);
-        return { content: [{ type: 'text', text: result }] };
+/**
+ * Map a tool execution error to an HTTP status and typed error payload
+ */
+function toToolErrorResponse(error: unknown): { status: number; payload: Record<string, unknown> } {
+  if (error instanceof ZodError) {
+    return {
+      status: 400,
+      payload: {
+        error: 'Invalid tool arguments',
+        errorType: 'ValidationError',
+        issues: error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
       }
+    };
+  }
+  if (error instanceof ToolNotFoundError) {
+    return { status: 404, payload: { error: error.message, errorType: error.name } };
+  }
+  if (error instanceof PermissionError) {
+    return { status: 403, payload: { error: error.message, errorType: error.name } };
+  }
+  if (error instanceof ValidationError) {
+    return { status: 400, payload: { error: error.message, errorType: error.name } };
+  }
+  return {
+    status: 500,
+    payload: { error: SecurityUtils.sanitizeErrorMessage(error), errorType: 'ToolExecutionError' }
+  };
+}
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+/**
+ * Create an MCP server with the tool handlers attached.
+ * A Server can only be connected to one transport, so stdio, every SSE
+ * connection and every Streamable HTTP session get their own instance.
+ */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'discord-mcp-server',
+      version: '0.0.1',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      content: [{ type: 'text', text: `Error: ${errorMessage}` }],
-      isError: true,
+      tools: toolRegistry.toMcpTools(),
     };
-  }
-});
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      const { name, arguments: args } = request.params;
+      toolAccess.assertToolAccess(extra.authInfo, name, args);
+      return await executeTool(name, args);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: 'text', text: `Error: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
 
 // Main function
 async function main() {
@@ -3145,6 +285,12 @@ async function main() {
       
       // Map to store active transports by session ID
       const activeTransports = new Map();
+      // Token name that opened each SSE session; only that token may post to it
+      const sseSessionOwners = new Map<string, string | undefined>();
+
+      // Streamable HTTP sessions (/mcp)
+      const mcpSessions = new McpSessionManager(createMcpServer, McpSessionManager.optionsFromEnv());
+      httpMcpSessions = mcpSessions;
       
       // CORS configuration for VM1 (frontend) access
       const allowedOrigins = [
@@ -3160,6 +306,10 @@ async function main() {
       const customOrigins = process.env.CORS_ORIGINS?.split(',') || [];
       allowedOrigins.push(...customOrigins);
 
+      if (!authManager.isDisabled() && authManager.getTokenCount() === 0) {
+        console.error('WARNING: No API tokens configured (API_TOKENS / API_TOKENS_FILE). All API and MCP requests will be rejected.');
+      }
+
       const httpServer = createServer(async (req, res) => {
         const url = new URL(req.url || '/', `http://${req.headers.host}`);
         const origin = req.headers.origin || '';
@@ -3180,7 +330,8 @@ async function main() {
         // If no origin header present (e.g., same-origin requests), don't set CORS header
 
         res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+        res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
         res.setHeader('Access-Control-Allow-Credentials', 'true');
         res.setHeader('Access-Control-Max-Age', '86400'); // 24 hours
 
@@ -3191,14 +342,43 @@ async function main() {
         }
         
         try {
-          if (req.method === 'POST' && req.headers['content-type']?.includes('application/json')) {
-            // Handle JSON-RPC over HTTP (mcp-remote style)
-            let body = '';
-            req.on('data', chunk => {
-              body += chunk.toString();
+          const body = req.method === 'GET' ? '' : await readRequestBody(req);
+
+          // Authenticate before any route, tool or MCP endpoint runs
+          const auth = authorizeHttpRequest(req, url, body);
+          if (!auth.allowed) {
+            authManager.logRejection(req.method || 'GET', url.pathname, auth, req.socket.remoteAddress);
+            res.writeHead(auth.status || 401, {
+              'Content-Type': 'application/json',
+              ...(auth.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {})
             });
-            
-            req.on('end', async () => {
+            res.end(JSON.stringify({ success: false, error: auth.reason }));
+            return;
+          }
+          const authInfo = toAuthInfo(auth.context);
+
+          if (url.pathname === '/mcp') {
+            // Streamable HTTP transport: POST messages, GET stream (with Last-Event-ID to resume), DELETE to end the session
+            let message: unknown;
+            if (req.method === 'POST') {
+              try {
+                message = JSON.parse(body);
+              } catch {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+                return;
+              }
+            }
+            await mcpSessions.handleRequest(Object.assign(req, { auth: authInfo }), res, message, auth.context?.name);
+
+          } else if (
+            req.method === 'POST' &&
+            req.headers['content-type']?.includes('application/json') &&
+            !url.pathname.startsWith('/api/') &&
+            url.pathname !== '/message'
+          ) {
+            // Handle JSON-RPC over HTTP (mcp-remote style)
+            await (async () => {
               try {
                 const message = JSON.parse(body);
                 
@@ -3223,7 +403,7 @@ async function main() {
                   
                 } else if (message.method === 'tools/list') {
                   // Return complete tools list
-                  const tools = getAllTools();
+                  const tools = toolRegistry.toMcpTools();
                   const response = {
                     jsonrpc: "2.0",
                     id: message.id,
@@ -3236,575 +416,30 @@ async function main() {
                   // Handle tool call by name
                   try {
                     const { name, arguments: args } = message.params;
-                    let result;
-                    
-                    switch (name) {
-                      // Server Information
-                      case 'get_server_info': {
-                        const parsed = schemas.ServerInfoSchema.parse(args);
-                        result = await discordService.getServerInfo(parsed.guildId);
-                        break;
-                      }
-
-                      // Message Management
-                      case 'send_message': {
-                        const parsed = schemas.SendMessageSchema.parse(args);
-                        result = await discordService.sendMessage(parsed.channelId, parsed.message);
-                        break;
-                      }
-                      case 'edit_message': {
-                        const parsed = schemas.EditMessageSchema.parse(args);
-                        result = await discordService.editMessage(parsed.channelId, parsed.messageId, parsed.newMessage);
-                        break;
-                      }
-                      case 'delete_message': {
-                        const parsed = schemas.DeleteMessageSchema.parse(args);
-                        result = await discordService.deleteMessage(parsed.channelId, parsed.messageId);
-                        break;
-                      }
-                      case 'read_messages': {
-                        const parsed = schemas.ReadMessagesSchema.parse(args);
-                        result = await discordService.readMessages(parsed.channelId, parsed.count);
-                        break;
-                      }
-                      case 'get_user_id_by_name': {
-                        const parsed = schemas.GetUserIdByNameSchema.parse(args);
-                        result = await discordService.getUserIdByName(parsed.username, parsed.guildId);
-                        break;
-                      }
-                      case 'send_private_message': {
-                        const parsed = schemas.SendPrivateMessageSchema.parse(args);
-                        result = await discordService.sendPrivateMessage(parsed.userId, parsed.message);
-                        break;
-                      }
-                      case 'edit_private_message': {
-                        const parsed = schemas.EditPrivateMessageSchema.parse(args);
-                        result = await discordService.editPrivateMessage(parsed.userId, parsed.messageId, parsed.newMessage);
-                        break;
-                      }
-                      case 'delete_private_message': {
-                        const parsed = schemas.DeletePrivateMessageSchema.parse(args);
-                        result = await discordService.deletePrivateMessage(parsed.userId, parsed.messageId);
-                        break;
-                      }
-                      case 'read_private_messages': {
-                        const parsed = schemas.ReadPrivateMessagesSchema.parse(args);
-                        result = await discordService.readPrivateMessages(parsed.userId, parsed.count);
-                        break;
-                      }
-                      case 'add_reaction': {
-                        const parsed = schemas.AddReactionSchema.parse(args);
-                        result = await discordService.addReaction(parsed.channelId, parsed.messageId, parsed.emoji);
-                        break;
-                      }
-                      case 'remove_reaction': {
-                        const parsed = schemas.RemoveReactionSchema.parse(args);
-                        result = await discordService.removeReaction(parsed.channelId, parsed.messageId, parsed.emoji);
-                        break;
-                      }
-
-                      // Channel Management
-                      case 'create_text_channel': {
-                        const parsed = schemas.CreateTextChannelSchema.parse(args);
-                        result = await discordService.createTextChannel(parsed.guildId, parsed.name, parsed.categoryId);
-                        break;
-                      }
-
-                      case 'create_voice_channel': {
-                        const parsed = schemas.CreateVoiceChannelSchema.parse(args);
-                        result = await discordService.createVoiceChannel(parsed.guildId, parsed.name, parsed.categoryId, parsed.userLimit, parsed.bitrate);
-                        break;
-                      }
-
-                      case 'create_forum_channel': {
-                        const parsed = schemas.CreateForumChannelSchema.parse(args);
-                        result = await discordService.createForumChannel(parsed.guildId, parsed.name, parsed.categoryId, {
-                          topic: parsed.topic,
-                          slowmode: parsed.slowmode,
-                          defaultReactionEmoji: parsed.defaultReactionEmoji,
-                          isPrivate: parsed.isPrivate,
-                          allowedRoles: parsed.allowedRoles
-                        });
-                        break;
-                      }
-
-                      case 'create_announcement_channel': {
-                        const parsed = schemas.CreateAnnouncementChannelSchema.parse(args);
-                        result = await discordService.createAnnouncementChannel(parsed.guildId, parsed.name, parsed.categoryId, {
-                          topic: parsed.topic,
-                          slowmode: parsed.slowmode,
-                          isPrivate: parsed.isPrivate,
-                          allowedRoles: parsed.allowedRoles
-                        });
-                        break;
-                      }
-
-                      case 'create_stage_channel': {
-                        const parsed = schemas.CreateStageChannelSchema.parse(args);
-                        result = await discordService.createStageChannel(parsed.guildId, parsed.name, parsed.categoryId, {
-                          topic: parsed.topic,
-                          bitrate: parsed.bitrate,
-                          isPrivate: parsed.isPrivate,
-                          allowedRoles: parsed.allowedRoles
-                        });
-                        break;
-                      }
-
-                      case 'edit_channel_advanced': {
-                        const parsed = schemas.EditChannelAdvancedSchema.parse(args);
-                        result = await discordService.editChannelAdvanced(parsed.guildId, parsed.channelId, {
-                          name: parsed.name,
-                          topic: parsed.topic,
-                          slowmode: parsed.slowmode,
-                          userLimit: parsed.userLimit,
-                          bitrate: parsed.bitrate,
-                          isPrivate: parsed.isPrivate,
-                          allowedRoles: parsed.allowedRoles,
-                          categoryId: parsed.categoryId
-                        });
-                        break;
-                      }
-
-                      // Privacy Management
-                      case 'set_channel_private': {
-                        const parsed = schemas.SetChannelPrivateSchema.parse(args);
-                        result = await discordService.setChannelPrivate(parsed.guildId, parsed.channelId, {
-                          isPrivate: parsed.isPrivate,
-                          allowedRoles: parsed.allowedRoles,
-                          allowedMembers: parsed.allowedMembers,
-                          syncToCategory: parsed.syncToCategory
-                        });
-                        break;
-                      }
-
-                      case 'set_category_private': {
-                        const parsed = schemas.SetCategoryPrivateSchema.parse(args);
-                        result = await discordService.setCategoryPrivate(parsed.guildId, parsed.categoryId, {
-                          isPrivate: parsed.isPrivate,
-                          allowedRoles: parsed.allowedRoles,
-                          allowedMembers: parsed.allowedMembers,
-                          applyToChannels: parsed.applyToChannels
-                        });
-                        break;
-                      }
-
-                      case 'bulk_set_privacy': {
-                        const parsed = schemas.BulkSetPrivacySchema.parse(args);
-                        result = await discordService.bulkSetPrivacy(parsed.guildId, parsed.targets);
-                        break;
-                      }
-
-                      // Comprehensive Channel Management
-                      case 'comprehensive_channel_management': {
-                        const parsed = schemas.ComprehensiveChannelManagementSchema.parse(args);
-                        result = await discordService.comprehensiveChannelManagement(parsed.guildId, parsed.operations);
-                        break;
-                      }
-                      case 'delete_channel': {
-                        const parsed = schemas.DeleteChannelSchema.parse(args);
-                        result = await discordService.deleteChannel(parsed.guildId, parsed.channelId);
-                        break;
-                      }
-                      case 'find_channel': {
-                        const parsed = schemas.FindChannelSchema.parse(args);
-                        result = await discordService.findChannel(parsed.guildId, parsed.channelName);
-                        break;
-                      }
-                      case 'list_channels': {
-                        const parsed = schemas.ListChannelsSchema.parse(args);
-                        result = await discordService.listChannels(parsed.guildId);
-                        break;
-                      }
-
-                      // Category Management
-                      case 'create_category': {
-                        const parsed = schemas.CreateCategorySchema.parse(args);
-                        result = await discordService.createCategory(parsed.guildId, parsed.name);
-                        break;
-                      }
-                      case 'delete_category': {
-                        const parsed = schemas.DeleteCategorySchema.parse(args);
-                        result = await discordService.deleteCategory(parsed.guildId, parsed.categoryId);
-                        break;
-                      }
-                      case 'find_category': {
-                        const parsed = schemas.FindCategorySchema.parse(args);
-                        result = await discordService.findCategory(parsed.guildId, parsed.categoryName);
-                        break;
-                      }
-                      case 'list_channels_in_category': {
-                        const parsed = schemas.ListChannelsInCategorySchema.parse(args);
-                        result = await discordService.listChannelsInCategory(parsed.guildId, parsed.categoryId);
-                        break;
-                      }
-
-                      // Webhook Management
-                      case 'create_webhook': {
-                        const parsed = schemas.CreateWebhookSchema.parse(args);
-                        result = await discordService.createWebhook(parsed.channelId, parsed.name);
-                        break;
-                      }
-                      case 'delete_webhook': {
-                        const parsed = schemas.DeleteWebhookSchema.parse(args);
-                        result = await discordService.deleteWebhook(parsed.webhookId);
-                        break;
-                      }
-                      case 'list_webhooks': {
-                        const parsed = schemas.ListWebhooksSchema.parse(args);
-                        result = await discordService.listWebhooks(parsed.channelId);
-                        break;
-                      }
-                      case 'send_webhook_message': {
-                        const parsed = schemas.SendWebhookMessageSchema.parse(args);
-                        result = await discordService.sendWebhookMessage(parsed.webhookUrl, parsed.message);
-                        break;
-                      }
-
-                      // Voice & Audio Management
-                      case 'join_voice_channel': {
-                        const parsed = schemas.JoinVoiceChannelSchema.parse(args);
-                        result = await discordService.joinVoiceChannel(parsed.guildId, parsed.channelId);
-                        break;
-                      }
-                      case 'leave_voice_channel': {
-                        const parsed = schemas.LeaveVoiceChannelSchema.parse(args);
-                        result = await discordService.leaveVoiceChannel(parsed.guildId, parsed.channelId);
-                        break;
-                      }
-                      case 'play_audio': {
-                        const parsed = schemas.PlayAudioSchema.parse(args);
-                        result = await discordService.playAudio(parsed.guildId, parsed.audioUrl);
-                        break;
-                      }
-                      case 'stop_audio': {
-                        const parsed = schemas.StopAudioSchema.parse(args);
-                        result = await discordService.stopAudio(parsed.guildId);
-                        break;
-                      }
-                      case 'set_volume': {
-                        const parsed = schemas.SetVolumeSchema.parse(args);
-                        result = await discordService.setVolume(parsed.guildId, parsed.volume);
-                        break;
-                      }
-                      case 'get_voice_connections': {
-                        const parsed = schemas.GetVoiceConnectionsSchema.parse(args);
-                        result = await discordService.getVoiceConnections();
-                        break;
-                      }
-
-                      // Role Management
-                      case 'create_role': {
-                        const parsed = schemas.CreateRoleSchema.parse(args);
-                        result = await discordService.createRole(parsed.guildId, parsed.name, parsed.color, parsed.permissions);
-                        break;
-                      }
-                      case 'delete_role': {
-                        const parsed = schemas.DeleteRoleSchema.parse(args);
-                        result = await discordService.deleteRole(parsed.guildId, parsed.roleId);
-                        break;
-                      }
-                      case 'edit_role': {
-                        const parsed = schemas.EditRoleSchema.parse(args);
-                        result = await discordService.editRole(parsed.guildId, parsed.roleId, parsed.name, parsed.color, parsed.permissions);
-                        break;
-                      }
-                      case 'add_role_to_member': {
-                        const parsed = schemas.AddRoleToMemberSchema.parse(args);
-                        result = await discordService.addRoleToMember(parsed.guildId, parsed.userId, parsed.roleId);
-                        break;
-                      }
-                      case 'remove_role_from_member': {
-                        const parsed = schemas.RemoveRoleFromMemberSchema.parse(args);
-                        result = await discordService.removeRoleFromMember(parsed.guildId, parsed.userId, parsed.roleId);
-                        break;
-                      }
-                      case 'get_roles': {
-                        const parsed = schemas.GetRolesSchema.parse(args);
-                        result = await discordService.getRoles(parsed.guildId);
-                        break;
-                      }
-                      case 'set_role_positions': {
-                        const parsed = schemas.SetRolePositionsSchema.parse(args);
-                        result = await discordService.setRolePositions(parsed.guildId, parsed.rolePositions);
-                        break;
-                      }
-
-                      case 'set_channel_position': {
-                        const parsed = schemas.SetChannelPositionSchema.parse(args);
-                        result = await discordService.setChannelPosition(parsed.guildId, parsed.channelId, parsed.position);
-                        break;
-                      }
-
-                      case 'set_channel_positions': {
-                        const parsed = schemas.SetChannelPositionsSchema.parse(args);
-                        result = await discordService.setChannelPositions(parsed.guildId, parsed.channelPositions);
-                        break;
-                      }
-
-                      case 'move_channel_to_category': {
-                        const parsed = schemas.MoveChannelToCategorySchema.parse(args);
-                        result = await discordService.moveChannelToCategory(parsed.guildId, parsed.channelId, parsed.categoryId);
-                        break;
-                      }
-
-                      case 'set_category_position': {
-                        const parsed = schemas.SetCategoryPositionSchema.parse(args);
-                        result = await discordService.setCategoryPosition(parsed.guildId, parsed.categoryId, parsed.position);
-                        break;
-                      }
-
-                      case 'organize_channels': {
-                        const parsed = schemas.OrganizeChannelsSchema.parse(args);
-                        result = await discordService.organizeChannels(parsed.guildId, parsed.organization);
-                        break;
-                      }
-
-                      case 'get_channel_structure': {
-                        const parsed = schemas.GetChannelStructureSchema.parse(args);
-                        result = await discordService.getChannelStructure(parsed.guildId);
-                        break;
-                      }
-
-                      // Additional Message Management
-                      case 'pin_message': {
-                        const parsed = schemas.PinMessageSchema.parse(args);
-                        result = await discordService.pinMessage(parsed.channelId, parsed.messageId);
-                        break;
-                      }
-                      case 'unpin_message': {
-                        const parsed = schemas.UnpinMessageSchema.parse(args);
-                        result = await discordService.unpinMessage(parsed.channelId, parsed.messageId);
-                        break;
-                      }
-                      case 'get_pinned_messages': {
-                        const parsed = schemas.GetPinnedMessagesSchema.parse(args);
-                        result = await discordService.getPinnedMessages(parsed.channelId);
-                        break;
-                      }
-                      case 'bulk_delete_messages': {
-                        const parsed = schemas.BulkDeleteMessagesSchema.parse(args);
-                        result = await discordService.bulkDeleteMessages(parsed.channelId, parsed.messageIds, parsed.filterOld);
-                        break;
-                      }
-                      case 'crosspost_message': {
-                        const parsed = schemas.CrosspostMessageSchema.parse(args);
-                        result = await discordService.crosspostMessage(parsed.channelId, parsed.messageId);
-                        break;
-                      }
-
-                      // Enhanced Member Management
-                      case 'get_members': {
-                        const parsed = schemas.GetMembersSchema.parse(args);
-                        result = await discordService.getMembers(parsed.guildId, parsed.limit, parsed.after);
-                        break;
-                      }
-                      case 'search_members': {
-                        const parsed = schemas.SearchMembersSchema.parse(args);
-                        result = await discordService.searchMembers(parsed.guildId, parsed.query, parsed.limit);
-                        break;
-                      }
-                      case 'edit_member': {
-                        const parsed = schemas.EditMemberSchema.parse(args);
-                        result = await discordService.editMember(parsed.guildId, parsed.userId, parsed.nickname, parsed.roles);
-                        break;
-                      }
-                      case 'get_member_info': {
-                        const parsed = schemas.GetMemberInfoSchema.parse(args);
-                        result = await discordService.getMemberInfo(parsed.guildId, parsed.userId);
-                        break;
-                      }
-
-                      // Event & Scheduling Tools
-                      case 'create_event': {
-                        const parsed = schemas.CreateEventSchema.parse(args);
-                        result = await discordService.createEvent(parsed.guildId, parsed.name, parsed.description, parsed.startTime, parsed.endTime, parsed.location, parsed.channelId);
-                        break;
-                      }
-                      case 'edit_event': {
-                        const parsed = schemas.EditEventSchema.parse(args);
-                        result = await discordService.editEvent(parsed.guildId, parsed.eventId, parsed.name, parsed.description, parsed.startTime, parsed.endTime, parsed.location);
-                        break;
-                      }
-                      case 'delete_event': {
-                        const parsed = schemas.DeleteEventSchema.parse(args);
-                        result = await discordService.deleteEvent(parsed.guildId, parsed.eventId);
-                        break;
-                      }
-                      case 'get_events': {
-                        const parsed = schemas.GetEventsSchema.parse(args);
-                        result = await discordService.getEvents(parsed.guildId);
-                        break;
-                      }
-
-                      // Enhanced Invite Management Tools
-                      case 'create_invite': {
-                        const parsed = schemas.CreateInviteSchema.parse(args);
-                        result = await discordService.createInvite(parsed.channelId, parsed.maxAge, parsed.maxUses, parsed.temporary);
-                        break;
-                      }
-                      case 'delete_invite': {
-                        const parsed = schemas.DeleteInviteSchema.parse(args);
-                        result = await discordService.deleteInvite(parsed.inviteCode);
-                        break;
-                      }
-                      case 'get_invites': {
-                        const parsed = schemas.GetInvitesSchema.parse(args);
-                        result = await discordService.getInvites(parsed.guildId);
-                        break;
-                      }
-
-                      // Enhanced Emoji & Sticker Tools
-                      case 'create_emoji': {
-                        const parsed = schemas.CreateEmojiSchema.parse(args);
-                        result = await discordService.createEmoji(parsed.guildId, parsed.name, parsed.imageUrl, parsed.roles);
-                        break;
-                      }
-                      case 'delete_emoji': {
-                        const parsed = schemas.DeleteEmojiSchema.parse(args);
-                        result = await discordService.deleteEmoji(parsed.guildId, parsed.emojiId);
-                        break;
-                      }
-                      case 'get_emojis': {
-                        const parsed = schemas.GetEmojisSchema.parse(args);
-                        result = await discordService.getEmojis(parsed.guildId);
-                        break;
-                      }
-                      case 'create_sticker': {
-                        const parsed = schemas.CreateStickerSchema.parse(args);
-                        result = await discordService.createSticker(parsed.guildId, parsed.name, parsed.description, parsed.tags, parsed.imageUrl);
-                        break;
-                      }
-                      case 'delete_sticker': {
-                        const parsed = schemas.DeleteStickerSchema.parse(args);
-                        result = await discordService.deleteSticker(parsed.guildId, parsed.stickerId);
-                        break;
-                      }
-                      case 'get_stickers': {
-                        const parsed = schemas.GetStickersSchema.parse(args);
-                        result = await discordService.getStickers(parsed.guildId);
-                        break;
-                      }
-
-                      // Attachment & File Tools
-                      case 'upload_file': {
-                        const parsed = schemas.UploadFileSchema.parse(args);
-                        result = await discordService.uploadFile(parsed.channelId, parsed.filePath, parsed.fileName, parsed.content);
-                        break;
-                      }
-                      case 'get_message_attachments': {
-                        const parsed = schemas.GetMessageAttachmentsSchema.parse(args);
-                        result = await discordService.getMessageAttachments(parsed.channelId, parsed.messageId);
-                        break;
-                      }
-                      case 'read_images': {
-                        const parsed = schemas.ReadImagesSchema.parse(args);
-                        // snyk:ignore javascript/Ssrf - channelId/messageId are Discord snowflake IDs, not URLs.
-                        // URLs are fetched from Discord API and validated against Discord CDN whitelist in readImages().
-                        result = await discordService.readImages(
-                          parsed.channelId,
-                          parsed.messageId,
-                          parsed.limit,
-                          parsed.includeMetadata,
-                          parsed.downloadImages
-                        );
-                        break;
-                      }
-
-                      // Enhanced Automod Tools
-                      case 'create_automod_rule': {
-                        const parsed = schemas.CreateAutomodRuleSchema.parse(args);
-                        result = await discordService.createAutomodRule(parsed.guildId, parsed.name, parsed.eventType, parsed.triggerType, parsed.keywordFilter, parsed.presets, parsed.allowList, parsed.mentionLimit, parsed.enabled);
-                        break;
-                      }
-                      case 'edit_automod_rule': {
-                        const parsed = schemas.EditAutomodRuleSchema.parse(args);
-                        result = await discordService.editAutomodRule(parsed.guildId, parsed.ruleId, parsed.name, parsed.enabled, parsed.keywordFilter, parsed.allowList, parsed.mentionLimit);
-                        break;
-                      }
-                      case 'delete_automod_rule': {
-                        const parsed = schemas.DeleteAutomodRuleSchema.parse(args);
-                        result = await discordService.deleteAutomodRule(parsed.guildId, parsed.ruleId);
-                        break;
-                      }
-                      case 'get_automod_rules': {
-                        const parsed = schemas.GetAutomodRulesSchema.parse(args);
-                        result = await discordService.getAutomodRules(parsed.guildId);
-                        break;
-                      }
-
-                      // Advanced Interaction Tools
-                      case 'send_modal': {
-                        const parsed = schemas.SendModalSchema.parse(args);
-                        result = await discordService.sendModal(parsed.interactionId, parsed.title, parsed.customId, parsed.components);
-                        break;
-                      }
-                      case 'send_embed': {
-                        const parsed = schemas.SendEmbedSchema.parse(args);
-                        result = await discordService.sendEmbed(parsed.channelId, parsed.title, parsed.description, parsed.color, parsed.fields, parsed.footer, parsed.image, parsed.thumbnail);
-                        break;
-                      }
-                      case 'send_button': {
-                        const parsed = schemas.SendButtonSchema.parse(args);
-                        result = await discordService.sendButton(parsed.channelId, parsed.content, parsed.buttons);
-                        break;
-                      }
-                      case 'send_select_menu': {
-                        const parsed = schemas.SendSelectMenuSchema.parse(args);
-                        result = await discordService.sendSelectMenu(parsed.channelId, parsed.content, parsed.customId, parsed.placeholder, parsed.minValues, parsed.maxValues, parsed.options);
-                        break;
-                      }
-
-                      // Enhanced Server Management Tools
-                      case 'edit_server': {
-                        const parsed = schemas.EditServerSchema.parse(args);
-                        result = await discordService.editServer(parsed.guildId, parsed.name, parsed.description, parsed.icon, parsed.banner, parsed.verificationLevel);
-                        break;
-                      }
-                      case 'get_server_widget': {
-                        const parsed = schemas.GetServerWidgetSchema.parse(args);
-                        result = await discordService.getServerWidget(parsed.guildId);
-                        break;
-                      }
-                      case 'get_welcome_screen': {
-                        const parsed = schemas.GetWelcomeScreenSchema.parse(args);
-                        result = await discordService.getWelcomeScreen(parsed.guildId);
-                        break;
-                      }
-                      case 'edit_welcome_screen': {
-                        const parsed = schemas.EditWelcomeScreenSchema.parse(args);
-                        result = await discordService.editWelcomeScreen(parsed.guildId, parsed.enabled, parsed.description, parsed.welcomeChannels);
-                        break;
-                      }
-
-                      // Analytics & Logging Enhanced Tools
-                      case 'get_message_history': {
-                        const parsed = schemas.GetMessageHistorySchema.parse(args);
-                        result = await discordService.getMessageHistory(parsed.channelId, parsed.limit, parsed.before, parsed.after);
-                        break;
-                      }
-                      case 'get_server_stats': {
-                        const parsed = schemas.GetServerStatsSchema.parse(args);
-                        result = await discordService.getServerStats(parsed.guildId);
-                        break;
-                      }
-                      case 'export_chat_log': {
-                        const parsed = schemas.ExportChatLogSchema.parse(args);
-                        result = await discordService.exportChatLog(parsed.channelId, parsed.format, parsed.limit, parsed.dateRange);
-                        break;
-                      }
-
-                      default:
-                        throw new Error(`Unknown tool: ${name}`);
-                    }
+                    toolAccess.assertToolAccess(authInfo, name, args);
+                    const result = await executeTool(name, args);
                     
                     const response = {
                       jsonrpc: "2.0",
                       id: message.id,
-                      result: { content: [{ type: 'text', text: result }] }
+                      result
                     };
                     res.writeHead(200, { 'Content-Type': 'application/json' });
                     res.end(JSON.stringify(response));
                   } catch (error) {
+                    if (error instanceof PermissionError) {
+                      const response = {
+                        jsonrpc: "2.0",
+                        id: message.id,
+                        error: {
+                          code: -32001,
+                          message: error.message
+                        }
+                      };
+                      res.writeHead(403, { 'Content-Type': 'application/json' });
+                      res.end(JSON.stringify(response));
+                      return;
+                    }
                     // Log the error and stack trace on the server
                     if (error instanceof Error) {
                       console.error("Error in tools/call:", error.stack || error.message);
@@ -3848,34 +483,33 @@ async function main() {
                 res.writeHead(400, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify(response));
               }
-            });
+            })();
             
           } else if (url.pathname === '/sse' && req.method === 'GET') {
             // SSE connection 
             const transport = new SSEServerTransport('/message', res);
             activeTransports.set(transport.sessionId, transport);
-            await server.connect(transport);
-            await transport.start();
+            sseSessionOwners.set(transport.sessionId, auth.context?.name);
             transport.onclose = () => {
               activeTransports.delete(transport.sessionId);
+              sseSessionOwners.delete(transport.sessionId);
             };
+            await createMcpServer().connect(transport);
             
           } else if (url.pathname === '/message' && req.method === 'POST') {
             // Handle POST messages from mcp-remote
-            let body = '';
-            req.on('data', chunk => {
-              body += chunk.toString();
-            });
-            
-            req.on('end', async () => {
+            await (async () => {
               try {
                 // Get session ID from URL params or headers
                 const sessionId = url.searchParams.get('sessionId') || req.headers['x-session-id'];
                 const transport = activeTransports.get(sessionId);
                 
-                if (transport) {
+                if (transport && sseSessionOwners.get(transport.sessionId) !== auth.context?.name) {
+                  res.writeHead(403, { 'Content-Type': 'application/json' });
+                  res.end(JSON.stringify({ error: 'Session belongs to a different client' }));
+                } else if (transport) {
                   const message = JSON.parse(body);
-                  await transport.handleMessage(message);
+                  await transport.handleMessage(message, { authInfo });
                   res.writeHead(200, { 'Content-Type': 'application/json' });
                   res.end(JSON.stringify({ success: true }));
                 } else {
@@ -3892,7 +526,7 @@ async function main() {
                 res.writeHead(400, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ error: 'Invalid request' }));
               }
-            });
+            })();
             
           } else if (url.pathname === '/health' && req.method === 'GET') {
             // Health check
@@ -3900,9 +534,25 @@ async function main() {
             res.end(JSON.stringify({
               status: 'ok',
               server: 'discord-mcp',
-              activeConnections: activeTransports.size
+              activeConnections: activeTransports.size,
+              mcpSessions: mcpSessions.getSessionCount()
             }));
 
+          } else if (url.pathname === LINK_CALLBACK_PATH && req.method === 'GET') {
+            // GET /auth/wargaming/callback - Wargaming sign-in redirect for !link
+            const result = await getAccountLinks().completeVerification(url.searchParams);
+            if (result.success && result.guildId && result.link) {
+              getWowsRoleSync().sync(result.guildId, result.link.userId)
+                .catch(error => console.error('WoWS role sync after link failed:', error));
+            }
+            res.writeHead(result.success ? 200 : 400, {
+              'Content-Type': 'text/html; charset=utf-8',
+              'Cache-Control': 'no-store',
+              // The URL carries an access token
+              'Referrer-Policy': 'no-referrer'
+            });
+            res.end(renderHtmlPage(result.success ? 'Account linked' : 'Account not linked', result.message));
+
           // ============================================================
           // REST API ENDPOINTS FOR NEXT.JS FRONTEND
           // ============================================================
@@ -3976,9 +626,7 @@ async function main() {
 
           } else if (url.pathname === '/api/messages' && req.method === 'POST') {
             // POST /api/messages - Send a message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, message } = JSON.parse(body);
                 if (!channelId || !message) {
@@ -3993,7 +641,7 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/events' && req.method === 'GET') {
             // GET /api/events - List server events
@@ -4087,7 +735,7 @@ async function main() {
           } else if (url.pathname === '/api/tools' && req.method === 'GET') {
             // GET /api/tools - List all available MCP tools
             try {
-              const tools = getAllTools();
+              const tools = toolRegistry.toMcpTools();
               res.writeHead(200, { 'Content-Type': 'application/json' });
               res.end(JSON.stringify({ success: true, data: tools, count: tools.length }));
             } catch (error) {
@@ -4260,9 +908,7 @@ async function main() {
 
           } else if (url.pathname === '/api/ban' && req.method === 'POST') {
             // POST /api/ban - Ban a member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, reason } = JSON.parse(body);
                 if (!userId) {
@@ -4277,13 +923,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/unban' && req.method === 'POST') {
             // POST /api/unban - Unban a member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, reason } = JSON.parse(body);
                 if (!userId) {
@@ -4298,13 +942,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/kick' && req.method === 'POST') {
             // POST /api/kick - Kick a member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, reason } = JSON.parse(body);
                 if (!userId) {
@@ -4319,13 +961,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/timeout' && req.method === 'POST') {
             // POST /api/timeout - Timeout a member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, duration, reason } = JSON.parse(body);
                 if (!userId || !duration) {
@@ -4340,17 +980,15 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================================
-          // ROLE MANAGEMENT (POST)
-          // ============================================================
+            // ============================================================
+            // ROLE MANAGEMENT (POST)
+            // ============================================================
+            })();
 
           } else if (url.pathname === '/api/roles/add' && req.method === 'POST') {
             // POST /api/roles/add - Add role to member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, roleId } = JSON.parse(body);
                 if (!userId || !roleId) {
@@ -4365,13 +1003,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/roles/remove' && req.method === 'POST') {
             // POST /api/roles/remove - Remove role from member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, roleId } = JSON.parse(body);
                 if (!userId || !roleId) {
@@ -4386,13 +1022,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/roles/create' && req.method === 'POST') {
             // POST /api/roles/create - Create a new role
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, name, color, permissions } = JSON.parse(body);
                 if (!name) {
@@ -4407,17 +1041,15 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================================
-          // CHANNEL MANAGEMENT (POST)
-          // ============================================================
+            // ============================================================
+            // CHANNEL MANAGEMENT (POST)
+            // ============================================================
+            })();
 
           } else if (url.pathname === '/api/channels/create' && req.method === 'POST') {
             // POST /api/channels/create - Create a channel
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, name, type, categoryId } = JSON.parse(body);
                 if (!name) {
@@ -4451,13 +1083,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/channels/delete' && req.method === 'POST') {
             // POST /api/channels/delete - Delete a channel
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, channelId } = JSON.parse(body);
                 if (!channelId) {
@@ -4472,17 +1102,15 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================================
-          // EVENT MANAGEMENT (POST)
-          // ============================================================
+            // ============================================================
+            // EVENT MANAGEMENT (POST)
+            // ============================================================
+            })();
 
           } else if (url.pathname === '/api/events/create' && req.method === 'POST') {
             // POST /api/events/create - Create an event
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, name, description, startTime, endTime, location, channelId } = JSON.parse(body);
                 if (!name || !startTime) {
@@ -4497,13 +1125,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/events/delete' && req.method === 'POST') {
             // POST /api/events/delete - Delete an event
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, eventId } = JSON.parse(body);
                 if (!eventId) {
@@ -4518,17 +1144,15 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================================
-          // INVITE MANAGEMENT (POST)
-          // ============================================================
+            // ============================================================
+            // INVITE MANAGEMENT (POST)
+            // ============================================================
+            })();
 
           } else if (url.pathname === '/api/invites/create' && req.method === 'POST') {
             // POST /api/invites/create - Create an invite
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, maxAge, maxUses, temporary } = JSON.parse(body);
                 if (!channelId) {
@@ -4543,13 +1167,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/invites/delete' && req.method === 'POST') {
             // POST /api/invites/delete - Delete an invite
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { inviteCode } = JSON.parse(body);
                 if (!inviteCode) {
@@ -4564,16 +1186,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // MESSAGES - Full CRUD
-          // ============================================
+            // ============================================
+            // MESSAGES - Full CRUD
+            // ============================================
+            })();
           } else if (url.pathname === '/api/messages/edit' && req.method === 'PUT') {
             // PUT /api/messages/edit - Edit a message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, messageId, content } = JSON.parse(body);
                 if (!channelId || !messageId || !content) {
@@ -4588,13 +1208,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/messages/delete' && req.method === 'DELETE') {
             // DELETE /api/messages/delete - Delete a message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, messageId } = JSON.parse(body);
                 if (!channelId || !messageId) {
@@ -4609,13 +1227,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/messages/bulk-delete' && req.method === 'POST') {
             // POST /api/messages/bulk-delete - Bulk delete messages
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, count } = JSON.parse(body);
                 if (!channelId || !count) {
@@ -4630,13 +1246,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/messages/pin' && req.method === 'POST') {
             // POST /api/messages/pin - Pin a message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, messageId } = JSON.parse(body);
                 if (!channelId || !messageId) {
@@ -4651,13 +1265,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/messages/unpin' && req.method === 'POST') {
             // POST /api/messages/unpin - Unpin a message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, messageId } = JSON.parse(body);
                 if (!channelId || !messageId) {
@@ -4672,13 +1284,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/messages/react' && req.method === 'POST') {
             // POST /api/messages/react - Add reaction to message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, messageId, emoji } = JSON.parse(body);
                 if (!channelId || !messageId || !emoji) {
@@ -4693,13 +1303,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/messages/unreact' && req.method === 'POST') {
             // POST /api/messages/unreact - Remove reaction from message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, messageId, emoji } = JSON.parse(body);
                 if (!channelId || !messageId || !emoji) {
@@ -4714,16 +1322,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // THREADS - Full CRUD
-          // ============================================
+            // ============================================
+            // THREADS - Full CRUD
+            // ============================================
+            })();
           } else if (url.pathname === '/api/threads/create' && req.method === 'POST') {
             // POST /api/threads/create - Create a thread
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, name, autoArchiveDuration, messageId } = JSON.parse(body);
                 if (!channelId || !name) {
@@ -4738,13 +1344,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/threads/archive' && req.method === 'POST') {
             // POST /api/threads/archive - Archive a thread
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { threadId } = JSON.parse(body);
                 if (!threadId) {
@@ -4759,13 +1363,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/threads/unarchive' && req.method === 'POST') {
             // POST /api/threads/unarchive - Unarchive a thread
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { threadId } = JSON.parse(body);
                 if (!threadId) {
@@ -4780,13 +1382,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/threads/lock' && req.method === 'POST') {
             // POST /api/threads/lock - Lock a thread
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { threadId } = JSON.parse(body);
                 if (!threadId) {
@@ -4801,13 +1401,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/threads/unlock' && req.method === 'POST') {
             // POST /api/threads/unlock - Unlock a thread
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { threadId } = JSON.parse(body);
                 if (!threadId) {
@@ -4822,16 +1420,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // WEBHOOKS - Full CRUD
-          // ============================================
+            // ============================================
+            // WEBHOOKS - Full CRUD
+            // ============================================
+            })();
           } else if (url.pathname === '/api/webhooks/create' && req.method === 'POST') {
             // POST /api/webhooks/create - Create a webhook
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, name, avatar } = JSON.parse(body);
                 if (!channelId) {
@@ -4846,13 +1442,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/webhooks/delete' && req.method === 'DELETE') {
             // DELETE /api/webhooks/delete - Delete a webhook
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { webhookId } = JSON.parse(body);
                 if (!webhookId) {
@@ -4867,13 +1461,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/webhooks/send' && req.method === 'POST') {
             // POST /api/webhooks/send - Send message via webhook
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { webhookUrl, content, username, avatarUrl } = JSON.parse(body);
                 if (!webhookUrl || !content) {
@@ -4888,16 +1480,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // EMOJIS - Full CRUD
-          // ============================================
+            // ============================================
+            // EMOJIS - Full CRUD
+            // ============================================
+            })();
           } else if (url.pathname === '/api/emojis/create' && req.method === 'POST') {
             // POST /api/emojis/create - Create an emoji
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, name, imageUrl } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -4913,13 +1503,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/emojis/delete' && req.method === 'DELETE') {
             // DELETE /api/emojis/delete - Delete an emoji
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, emojiId } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -4935,16 +1523,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // STICKERS - Full CRUD
-          // ============================================
+            // ============================================
+            // STICKERS - Full CRUD
+            // ============================================
+            })();
           } else if (url.pathname === '/api/stickers/create' && req.method === 'POST') {
             // POST /api/stickers/create - Create a sticker
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, name, description, tags, imageUrl } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -4960,13 +1546,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/stickers/delete' && req.method === 'DELETE') {
             // DELETE /api/stickers/delete - Delete a sticker
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, stickerId } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -4982,16 +1566,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // AUTOMOD - Full CRUD
-          // ============================================
+            // ============================================
+            // AUTOMOD - Full CRUD
+            // ============================================
+            })();
           } else if (url.pathname === '/api/automod/create' && req.method === 'POST') {
             // POST /api/automod/create - Create automod rule
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, name, triggerType } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5007,13 +1589,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/automod/edit' && req.method === 'PUT') {
             // PUT /api/automod/edit - Edit automod rule
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, ruleId, name } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5029,13 +1609,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/automod/delete' && req.method === 'DELETE') {
             // DELETE /api/automod/delete - Delete automod rule
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, ruleId } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5051,16 +1629,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // ROLES - Full CRUD (edit, delete already have create)
-          // ============================================
+            // ============================================
+            // ROLES - Full CRUD (edit, delete already have create)
+            // ============================================
+            })();
           } else if (url.pathname === '/api/roles/edit' && req.method === 'PUT') {
             // PUT /api/roles/edit - Edit a role
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, roleId, name, color, permissions } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5076,13 +1652,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/roles/delete' && req.method === 'DELETE') {
             // DELETE /api/roles/delete - Delete a role
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, roleId } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5098,16 +1672,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // CHANNELS - Edit, Move, Permissions
-          // ============================================
+            // ============================================
+            // CHANNELS - Edit, Move, Permissions
+            // ============================================
+            })();
           } else if (url.pathname === '/api/channels/edit' && req.method === 'PUT') {
             // PUT /api/channels/edit - Edit a channel
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, name, topic, slowmode, isPrivate, categoryId } = JSON.parse(body);
                 if (!channelId) {
@@ -5122,13 +1694,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/channels/move' && req.method === 'POST') {
             // POST /api/channels/move - Move channel to category
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, categoryId } = JSON.parse(body);
                 if (!channelId) {
@@ -5143,13 +1713,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/channels/permissions' && req.method === 'POST') {
             // POST /api/channels/permissions - Set channel permissions
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, targetId, targetType, permissions } = JSON.parse(body);
                 if (!channelId || !targetId || !permissions) {
@@ -5164,16 +1732,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // MEMBERS - Edit member
-          // ============================================
+            // ============================================
+            // MEMBERS - Edit member
+            // ============================================
+            })();
           } else if (url.pathname === '/api/members/edit' && req.method === 'PUT') {
             // PUT /api/members/edit - Edit a member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId, nickname, mute, deaf } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5189,13 +1755,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/members/timeout/remove' && req.method === 'POST') {
             // POST /api/members/timeout/remove - Remove timeout from member
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, userId } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5211,16 +1775,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // EVENTS - Edit event
-          // ============================================
+            // ============================================
+            // EVENTS - Edit event
+            // ============================================
+            })();
           } else if (url.pathname === '/api/events/edit' && req.method === 'PUT') {
             // PUT /api/events/edit - Edit an event
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, eventId, name, startTime } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5236,16 +1798,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // EMBEDS & INTERACTIVE
-          // ============================================
+            // ============================================
+            // EMBEDS & INTERACTIVE
+            // ============================================
+            })();
           } else if (url.pathname === '/api/embed' && req.method === 'POST') {
             // POST /api/embed - Send an embed message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, title, description, color, fields, footer, thumbnail, image } = JSON.parse(body);
                 if (!channelId || !title) {
@@ -5260,13 +1820,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/button' && req.method === 'POST') {
             // POST /api/button - Send a button message
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, content, buttons } = JSON.parse(body);
                 if (!channelId || !buttons || !Array.isArray(buttons)) {
@@ -5281,13 +1839,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/selectmenu' && req.method === 'POST') {
             // POST /api/selectmenu - Send a select menu
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { channelId, content, customId, placeholder, minValues, maxValues, options } = JSON.parse(body);
                 if (!channelId || !options || !Array.isArray(options)) {
@@ -5310,16 +1866,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // SERVER SETTINGS
-          // ============================================
+            // ============================================
+            // SERVER SETTINGS
+            // ============================================
+            })();
           } else if (url.pathname === '/api/server/edit' && req.method === 'PUT') {
             // PUT /api/server/edit - Edit server settings
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, ...options } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5330,13 +1884,11 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/welcome/edit' && req.method === 'PUT') {
             // PUT /api/welcome/edit - Edit welcome screen
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { guildId, enabled, description } = JSON.parse(body);
                 const guild = guildId || process.env.DISCORD_GUILD_ID;
@@ -5347,16 +1899,14 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
 
-          // ============================================
-          // DMs
-          // ============================================
+            // ============================================
+            // DMs
+            // ============================================
+            })();
           } else if (url.pathname === '/api/dm/send' && req.method === 'POST') {
             // POST /api/dm/send - Send a DM
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
+            await (async () => {
               try {
                 const { userId, message } = JSON.parse(body);
                 if (!userId || !message) {
@@ -5371,7 +1921,7 @@ async function main() {
                 res.writeHead(500, { 'Content-Type': 'application/json' });
                 res.end(JSON.stringify({ success: false, error: (error as Error).message }));
               }
-            });
+            })();
 
           } else if (url.pathname === '/api/dm/read' && req.method === 'GET') {
             // GET /api/dm/read - Read DMs
@@ -5391,37 +1941,336 @@ async function main() {
               res.end(JSON.stringify({ success: false, error: (error as Error).message }));
             }
 
+          // ============================================
+          // VOICE ANALYTICS
+          // ============================================
+          } else if (url.pathname === '/api/voice/activity' && req.method === 'GET') {
+            // GET /api/voice/activity - Recent joins, leaves, moves, mutes and streams
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const result = getVoiceAnalytics().getTimeline(guild, {
+                channelId: url.searchParams.get('channelId') || undefined,
+                userId: url.searchParams.get('userId') || undefined,
+                limit: Math.max(parseInt(url.searchParams.get('limit') || '') || 50, 1)
+              });
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/voice/leaderboard' && req.method === 'GET') {
+            // GET /api/voice/leaderboard - Most time in voice over the last days
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '') || 7, 1), 90);
+              const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || 10, 1), 50);
+              const result = getVoiceAnalytics().getLeaderboard(guild, days, limit);
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/voice/occupancy' && req.method === 'GET') {
+            // GET /api/voice/occupancy - Members in voice per hour and the busiest hours
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '') || 7, 1), 90);
+              const result = getVoiceAnalytics().getOccupancy(guild, days, url.searchParams.get('channelId') || undefined);
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          // ============================================
+          // WORLD OF WARSHIPS
+          // ============================================
+          } else if (url.pathname === '/api/wows/progress' && req.method === 'GET') {
+            // GET /api/wows/progress - A player's stat changes and recent form
+            try {
+              const player = url.searchParams.get('player');
+              if (!player) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'player is required' }));
+                return;
+              }
+              const regionParam = url.searchParams.get('region');
+              const region = parseRegion(regionParam || undefined);
+              if (regionParam && !region) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'region must be na, eu or asia' }));
+                return;
+              }
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '') || 7, 1), MAX_PROGRESS_DAYS);
+              const result = await getPlayerProgress().getProgress(player, region ?? getGuildRegion(guild), days, !region);
+              if (!result) {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: `Player "${player}" not found` }));
+                return;
+              }
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/wows/watched' && req.method === 'GET') {
+            // GET /api/wows/watched - Players whose stats are snapshotted for a server
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const tracker = getPlayerProgress();
+              const result = tracker.getWatched(guild).map(player => ({
+                ...player,
+                snapshots: tracker.getSnapshots(player.region, player.accountId)
+              }));
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/wows/clans' && req.method === 'GET') {
+            // GET /api/wows/clans - Clans watched for roster changes, with recent changes
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || 20, 1), 200);
+              const monitor = getClanRosterMonitor();
+              const result = monitor.getWatched(guild).map(clan => ({
+                ...clan,
+                changes: monitor.getChanges(clan.region, clan.clanId, limit)
+              }));
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          // ============================================
+          // MUSIC QUEUE
+          // ============================================
+          } else if (url.pathname === '/api/music/queue' && req.method === 'GET') {
+            // GET /api/music/queue - Current track, upcoming tracks and loop mode
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const result = musicService.getQueueInfo(guild);
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/history' && req.method === 'GET') {
+            // GET /api/music/history - Recently played tracks
+            try {
+              const guild = url.searchParams.get('guildId') || process.env.DISCORD_GUILD_ID;
+              if (!guild) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'guildId is required' }));
+                return;
+              }
+              const result = musicService.getHistory(guild, parseInt(url.searchParams.get('limit') || '') || undefined);
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: true, data: result }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/shuffle' && req.method === 'POST') {
+            // POST /api/music/shuffle - Shuffle the queue
+            try {
+              const { guildId } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              const result = musicService.shuffle(guild);
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/remove' && req.method === 'POST') {
+            // POST /api/music/remove - Remove a track by position
+            try {
+              const { guildId, position } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              if (position === undefined) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'position is required' }));
+                return;
+              }
+              const result = musicService.remove(guild, Number(position));
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/move' && req.method === 'POST') {
+            // POST /api/music/move - Move a track to another position
+            try {
+              const { guildId, from, to } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              if (from === undefined || to === undefined) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'from and to are required' }));
+                return;
+              }
+              const result = musicService.move(guild, Number(from), Number(to));
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/jump' && req.method === 'POST') {
+            // POST /api/music/jump - Skip to a track by position
+            try {
+              const { guildId, position } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              if (position === undefined) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'position is required' }));
+                return;
+              }
+              const result = musicService.jump(guild, Number(position));
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/seek' && req.method === 'POST') {
+            // POST /api/music/seek - Seek in the current track (seconds or mm:ss)
+            try {
+              const { guildId, position } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              const seconds = typeof position === 'number' ? position : parseTimestamp(String(position ?? ''));
+              if (seconds === null) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'position must be seconds or mm:ss' }));
+                return;
+              }
+              const result = await musicService.seek(guild, seconds);
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/clear' && req.method === 'POST') {
+            // POST /api/music/clear - Clear upcoming tracks
+            try {
+              const { guildId } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              const result = musicService.clearQueue(guild);
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
+          } else if (url.pathname === '/api/music/loop' && req.method === 'POST') {
+            // POST /api/music/loop - Set the loop mode (off, track, queue)
+            try {
+              const { guildId, mode } = JSON.parse(body || '{}');
+              const guild = guildId || process.env.DISCORD_GUILD_ID;
+              if (!LOOP_MODES.includes(mode)) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'mode must be off, track or queue' }));
+                return;
+              }
+              const result = musicService.setLoopMode(guild, mode);
+              res.writeHead(result.success ? 200 : 400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify(result.success ? { success: true, data: result.message } : { success: false, error: result.message }));
+            } catch (error) {
+              res.writeHead(500, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+            }
+
           } else if (url.pathname.startsWith('/api/tool/') && req.method === 'POST') {
-            // POST /api/tool/:toolName - Execute a specific tool
-            const toolName = url.pathname.replace('/api/tool/', '');
-            let body = '';
-            req.on('data', chunk => body += chunk.toString());
-            req.on('end', async () => {
-              try {
-                const args = body ? JSON.parse(body) : {};
+            // POST /api/tool/:toolName - Execute any MCP tool by name
+            const toolName = parseToolPath(url.pathname);
+            try {
+              if (!toolName) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, error: 'Tool name is not valid URL encoding', errorType: 'ValidationError' }));
+                return;
+              }
 
-                // Use the same switch-case logic as JSON-RPC but exposed via REST
-                // This allows the frontend to call any tool by name
-                const message = {
-                  method: 'tools/call',
-                  params: { name: toolName, arguments: args }
-                };
+              if (!discordService) {
+                res.writeHead(503, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, tool: toolName, error: 'Discord bot is not connected (HTTP-only mode)', errorType: 'ServiceUnavailable' }));
+                return;
+              }
 
-                // Emit a custom event or handle inline
-                // For simplicity, we'll return an error asking to use JSON-RPC
-                // In production, this would route to the tool handler
-                res.writeHead(200, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({
-                  success: true,
-                  message: `Tool ${toolName} would be executed with args`,
-                  tool: toolName,
-                  args
-                }));
-              } catch (error) {
-                res.writeHead(500, { 'Content-Type': 'application/json' });
-                res.end(JSON.stringify({ success: false, error: (error as Error).message }));
+              let args: Record<string, any>;
+              try {
+                args = body ? JSON.parse(body) : {};
+              } catch {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: false, tool: toolName, error: 'Request body must be valid JSON', errorType: 'ValidationError' }));
+                return;
               }
-            });
+
+              toolAccess.assertToolAccess(authInfo, toolName, args);
+              const result = await executeTool(toolName, args);
+              const text = result.content
+                .map(item => (item.type === 'text' ? item.text : ''))
+                .join('\n');
+              res.writeHead(200, { 'Content-Type': 'application/json' });
+              // Tools that return data send it as JSON; the rest send their text
+              res.end(JSON.stringify({ success: true, tool: toolName, data: result.structuredContent ?? text, text, content: result.content }));
+            } catch (error) {
+              const { status, payload } = toToolErrorResponse(error);
+              res.writeHead(status, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ success: false, tool: toolName, ...payload }));
+            }
 
           } else {
             // Default response with API documentation
@@ -5431,7 +2280,8 @@ async function main() {
               version: '0.0.1',
               endpoints: {
                 mcp: {
-                  sse: 'GET /sse - SSE connection for MCP protocol',
+                  streamableHttp: 'POST|GET|DELETE /mcp - Streamable HTTP MCP transport (Mcp-Session-Id)',
+                  sse: 'GET /sse - SSE connection for MCP protocol (legacy)',
                   message: 'POST /message - Message handling for MCP',
                   jsonrpc: 'POST / - JSON-RPC over HTTP'
                 },
@@ -5526,13 +2376,33 @@ async function main() {
                   editWelcome: 'PUT /api/welcome/edit - Edit welcome screen',
                   // === DMs ===
                   sendDm: 'POST /api/dm/send - Send DM',
+                  // === VOICE ANALYTICS ===
+                  voiceActivity: 'GET /api/voice/activity - Voice joins, leaves, mutes and streams',
+                  voiceLeaderboard: 'GET /api/voice/leaderboard - Most time in voice',
+                  voiceOccupancy: 'GET /api/voice/occupancy - Voice occupancy and busiest hours',
+                  // === WORLD OF WARSHIPS ===
+                  wowsProgress: 'GET /api/wows/progress - Player stat changes and recent form',
+                  wowsWatched: 'GET /api/wows/watched - Watched players and their stat snapshots',
+                  wowsClans: 'GET /api/wows/clans - Watched clans and their roster changes',
+                  wowsLinkCallback: 'GET /auth/wargaming/callback - Wargaming sign-in redirect for !link',
+                  // === MUSIC ===
+                  musicQueue: 'GET /api/music/queue - Music queue',
+                  musicHistory: 'GET /api/music/history - Recently played tracks',
+                  musicShuffle: 'POST /api/music/shuffle - Shuffle queue',
+                  musicRemove: 'POST /api/music/remove - Remove track',
+                  musicMove: 'POST /api/music/move - Move track',
+                  musicJump: 'POST /api/music/jump - Skip to track',
+                  musicSeek: 'POST /api/music/seek - Seek in current track',
+                  musicClear: 'POST /api/music/clear - Clear upcoming tracks',
+                  musicLoop: 'POST /api/music/loop - Set loop mode',
                   // === OTHER ===
                   executeTool: 'POST /api/tool/:toolName - Execute MCP tool'
                 },
                 health: 'GET /health - Health check'
               },
-              totalEndpoints: 70,
-              activeConnections: activeTransports.size
+              totalEndpoints: 86,
+              activeConnections: activeTransports.size,
+              mcpSessions: mcpSessions.getSessionCount()
             }));
           }
         } catch (error) {
@@ -5545,13 +2415,14 @@ async function main() {
       httpServer.listen(port, () => {
         console.error(`Discord MCP server running on HTTP port ${port}`);
         console.error(`REST API: http://localhost:${port}/api/*`);
+        console.error(`MCP endpoint: http://localhost:${port}/mcp`);
         console.error(`SSE endpoint: http://localhost:${port}/sse`);
         console.error(`Health check: http://localhost:${port}/health`);
       });
     } else {
       // Start stdio server (default)
       const transport = new StdioServerTransport();
-      await server.connect(transport);
+      await createMcpServer().connect(transport);
       console.error('Discord MCP server running on stdio');
     }
   } catch (error) {
@@ -5563,6 +2434,10 @@ async function main() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.error('Shutting down Discord MCP server...');
+  await httpMcpSessions?.closeAll();
+  getConversationMemory().flush();
+  getVoiceAnalytics().flush();
+  getStorage().flush();
   if (discordService) {
     await discordService.destroy();
   }
@@ -5571,6 +2446,10 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   console.error('Shutting down Discord MCP server...');
+  await httpMcpSessions?.closeAll();
+  getConversationMemory().flush();
+  getVoiceAnalytics().flush();
+  getStorage().flush();
   if (discordService) {
     await discordService.destroy();
   }
@@ -0,0 +1,153 @@
+import { jest } from '@jest/globals';
+import { MemoryStorage, setStorage } from '../../core/Storage.js';
+import type { AccountLinks as AccountLinksType } from '../account-links.js';
+
+const PLAYER = { account_id: 1001, nickname: 'Captain' };
+
+describe('AccountLinks.completeVerification', () => {
+  let AccountLinks: typeof AccountLinksType;
+  let links: AccountLinksType;
+  let fetchMock: jest.Mock<typeof fetch>;
+  const realFetch = globalThis.fetch;
+
+  beforeAll(async () => {
+    // Read when the module loads
+    process.env.PUBLIC_URL = 'https://bot.example.com/';
+    ({ AccountLinks } = await import('../account-links.js'));
+  });
+
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+    links = new AccountLinks();
+    fetchMock = jest.fn<typeof fetch>();
+    globalThis.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    delete process.env.PUBLIC_URL;
+  });
+
+  /** Start a sign-in and return its state parameter */
+  function start(userId = 'user1'): string {
+    const url = new URL(links.startVerification(userId, 'guild1', PLAYER, 'eu'));
+    const redirect = new URL(url.searchParams.get('redirect_uri')!);
+    expect(redirect.origin + redirect.pathname).toBe('https://bot.example.com/auth/wargaming/callback');
+    return redirect.searchParams.get('state')!;
+  }
+
+  function callback(state: string, overrides: Record<string, string> = {}): URLSearchParams {
+    return new URLSearchParams({
+      state,
+      status: 'ok',
+      account_id: String(PLAYER.account_id),
+      nickname: PLAYER.nickname,
+      access_token: 'token',
+      ...overrides
+    });
+  }
+
+  function respondWith(body: unknown): void {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify(body), { status: 200 }));
+  }
+
+  const verified = { status: 'ok', data: { [PLAYER.account_id]: { private: { credits: 0 } } } };
+
+  it('should link the account when Wargaming confirms the token', async () => {
+    respondWith(verified);
+    const state = start();
+
+    const result = await links.completeVerification(callback(state));
+
+    expect(result.success).toBe(true);
+    expect(result.guildId).toBe('guild1');
+    expect(links.getLink('user1')).toMatchObject({ accountId: PLAYER.account_id, region: 'eu', method: 'openid', linkedBy: 'user1' });
+    const checked = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(checked.searchParams.get('access_token')).toBe('token');
+    expect(checked.searchParams.get('fields')).toBe('private');
+  });
+
+  it('should not accept the same sign-in twice', async () => {
+    respondWith(verified);
+    const state = start();
+    await links.completeVerification(callback(state));
+
+    const replay = await links.completeVerification(callback(state));
+    expect(replay.success).toBe(false);
+    expect(replay.message).toMatch(/expired or was already used/);
+  });
+
+  it('should reject unknown and expired sign-ins', async () => {
+    expect((await links.completeVerification(callback('unknown'))).success).toBe(false);
+
+    const state = start();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 15 * 60 * 1000);
+    const result = await links.completeVerification(callback(state));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/expired/);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(links.getLink('user1')).toBeNull();
+  });
+
+  it('should keep only the newest sign-in per member', async () => {
+    const first = start();
+    const second = start();
+    respondWith(verified);
+
+    expect((await links.completeVerification(callback(first))).success).toBe(false);
+    expect((await links.completeVerification(callback(second))).success).toBe(true);
+  });
+
+  it('should reject a cancelled sign-in', async () => {
+    const result = await links.completeVerification(callback(start(), { status: 'error' }));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/cancelled/);
+    expect(links.getLink('user1')).toBeNull();
+  });
+
+  it('should reject a sign-in with another account and allow a retry', async () => {
+    const state = start();
+    const result = await links.completeVerification(callback(state, { account_id: '2002', nickname: 'Someone' }));
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/You signed in as Someone, not Captain/);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(links.getLink('user1')).toBeNull();
+
+    respondWith(verified);
+    expect((await links.completeVerification(callback(state))).success).toBe(true);
+  });
+
+  it('should reject a token Wargaming does not confirm', async () => {
+    const state = start();
+
+    respondWith({ status: 'error', error: { code: 407, message: 'INVALID_ACCESS_TOKEN' } });
+    expect((await links.completeVerification(callback(state))).message).toMatch(/could not confirm/);
+
+    respondWith({ status: 'ok', data: { [PLAYER.account_id]: { private: null } } });
+    expect((await links.completeVerification(callback(state))).message).toMatch(/could not confirm/);
+
+    fetchMock.mockRejectedValue(new Error('network down'));
+    expect((await links.completeVerification(callback(state))).message).toMatch(/could not confirm/);
+
+    expect((await links.completeVerification(callback(state, { access_token: '' }))).message).toMatch(/could not confirm/);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(links.getLink('user1')).toBeNull();
+  });
+
+  it('should move a verified account away from another member', async () => {
+    links.linkByOfficer('user2', PLAYER, 'eu', 'officer');
+    respondWith(verified);
+
+    expect((await links.completeVerification(callback(start('user1')))).success).toBe(true);
+    expect(links.getLink('user2')).toBeNull();
+    expect(links.findByAccount('eu', PLAYER.account_id)?.userId).toBe('user1');
+  });
+});
@@ -0,0 +1,71 @@
+import type { GuildMember } from 'discord.js';
+import type { DiscordService } from '../../discord-service.js';
+import type { ChannelList, ChannelStructure } from '../../discord-results.js';
+import { executeAITool, type AIToolContext } from '../ai-tools.js';
+
+const GUILD_ID = 'guild1';
+
+const channel = (id: string, name: string, type = 'GuildText', position = 0) => ({ id, name, type, position });
+
+const channels: ChannelList = {
+  guildId: GUILD_ID,
+  channels: [channel('general', 'general'), channel('staff-chat', 'staff-chat'), channel('staff', 'Staff', 'GuildCategory')]
+};
+
+const structure: ChannelStructure = {
+  guildId: GUILD_ID,
+  guildName: 'Test',
+  uncategorized: [channel('general', 'general'), channel('mod-log', 'mod-log', 'GuildText', 1)],
+  categories: [
+    { ...channel('staff', 'Staff', 'GuildCategory'), channels: [channel('staff-chat', 'staff-chat')] },
+    { ...channel('fleet', 'Fleet', 'GuildCategory', 1), channels: [channel('ops', 'ops'), channel('officers', 'officers', 'GuildText', 1)] }
+  ]
+};
+
+const discordService = {
+  listChannels: async () => channels,
+  getChannelStructure: async () => structure
+} as unknown as DiscordService;
+
+/** A member who can see everything except the given channels */
+function memberWithout(hidden: string[]): GuildMember {
+  return {
+    displayName: 'Member',
+    permissions: { has: () => true },
+    permissionsIn: (channelId: string) => ({ has: () => !hidden.includes(channelId) })
+  } as unknown as GuildMember;
+}
+
+function context(member: GuildMember): AIToolContext {
+  return { discordService, channelId: 'general', guildId: GUILD_ID, member };
+}
+
+describe('executeAITool', () => {
+  const hidden = ['staff', 'staff-chat', 'mod-log', 'officers'];
+
+  it('should list only the channels the member can see', async () => {
+    const result = await executeAITool('list_channels', '{}', context(memberWithout(hidden)));
+
+    expect(result).toContain('general');
+    expect(result).not.toContain('staff');
+    expect(result).toMatch(/Retrieved 1 channels/);
+  });
+
+  it('should leave hidden channels and categories out of the structure', async () => {
+    const result = await executeAITool('get_channel_structure', '{}', context(memberWithout(hidden)));
+
+    expect(result).toContain('general');
+    expect(result).toContain('Fleet');
+    expect(result).toContain('ops');
+    for (const name of ['Staff', 'staff-chat', 'mod-log', 'officers']) {
+      expect(result).not.toContain(name);
+    }
+  });
+
+  it('should list every channel for a member who can see them all', async () => {
+    const result = await executeAITool('list_channels', '{}', context(memberWithout([])));
+
+    expect(result).toContain('staff-chat');
+    expect(result).toMatch(/Retrieved 3 channels/);
+  });
+});
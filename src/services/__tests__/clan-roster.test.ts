@@ -0,0 +1,74 @@
+import { diffRosters, type ClanRoster, type RosterMember } from '../clan-roster.js';
+
+function roster(members: Record<string, RosterMember>, overrides: Partial<ClanRoster> = {}): ClanRoster {
+  return {
+    tag: 'TEST',
+    name: 'Test Clan',
+    disbanded: false,
+    checkedAt: '2026-01-01T00:00:00.000Z',
+    members,
+    changes: [],
+    ...overrides
+  };
+}
+
+const member = (nickname: string, role = 'private'): RosterMember => ({ nickname, role, joinedAt: 1_700_000_000 });
+
+describe('diffRosters', () => {
+  const at = '2026-01-02T00:00:00.000Z';
+
+  it('should find nothing when the roster is unchanged', () => {
+    const before = roster({ 1: member('Alpha'), 2: member('Bravo', 'commander') });
+    const after = roster({ 1: member('Alpha'), 2: member('Bravo', 'commander') }, { checkedAt: at });
+
+    expect(diffRosters(before, after)).toEqual([]);
+  });
+
+  it('should report joins and leaves with their rank', () => {
+    const before = roster({ 1: member('Alpha'), 2: member('Bravo', 'officer') });
+    const after = roster({ 1: member('Alpha'), 3: member('Charlie', 'recruitment_officer') }, { checkedAt: at });
+
+    expect(diffRosters(before, after)).toEqual([
+      { type: 'join', at, accountId: 3, nickname: 'Charlie', role: 'recruitment_officer' },
+      { type: 'leave', at, accountId: 2, nickname: 'Bravo', role: 'officer' }
+    ]);
+  });
+
+  it('should report renames and rank changes of members who stayed', () => {
+    const before = roster({ 1: member('Alpha'), 2: member('Bravo', 'private') });
+    const after = roster({ 1: member('Alpha2'), 2: member('Bravo', 'line_officer') }, { checkedAt: at });
+
+    expect(diffRosters(before, after)).toEqual([
+      { type: 'rename', at, accountId: 1, nickname: 'Alpha2', from: 'Alpha', to: 'Alpha2' },
+      { type: 'rank', at, accountId: 2, nickname: 'Bravo', from: 'private', to: 'line_officer' }
+    ]);
+  });
+
+  it('should report both a rename and a rank change of one member', () => {
+    const before = roster({ 1: member('Alpha', 'private') });
+    const after = roster({ 1: member('Alpha2', 'officer') }, { checkedAt: at });
+
+    expect(diffRosters(before, after).map(change => change.type)).toEqual(['rename', 'rank']);
+  });
+
+  it('should report clan tag and name changes', () => {
+    const before = roster({});
+    const after = roster({}, { tag: 'NEW', name: 'New Name', checkedAt: at });
+
+    expect(diffRosters(before, after)).toEqual([
+      { type: 'tag_change', at, from: 'TEST', to: 'NEW' },
+      { type: 'clan_rename', at, from: 'Test Clan', to: 'New Name' }
+    ]);
+  });
+
+  it('should report disbanding once', () => {
+    const before = roster({ 1: member('Alpha') });
+    const disbanded = roster({}, { disbanded: true, checkedAt: at });
+
+    expect(diffRosters(before, disbanded)).toEqual([
+      { type: 'disbanded', at },
+      { type: 'leave', at, accountId: 1, nickname: 'Alpha', role: 'private' }
+    ]);
+    expect(diffRosters(disbanded, roster({}, { disbanded: true }))).toEqual([]);
+  });
+});
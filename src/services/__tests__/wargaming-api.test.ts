@@ -0,0 +1,66 @@
+import { jest } from '@jest/globals';
+import { findInRegions, searchPlayer, type WowsRegion } from '../wargaming-api.js';
+
+const HOST_REGIONS: Record<string, WowsRegion> = {
+  'api.worldofwarships.com': 'na',
+  'api.worldofwarships.eu': 'eu',
+  'api.worldofwarships.asia': 'asia'
+};
+
+// Nicknames per region; account IDs are their position in the list
+const players: Record<WowsRegion, string[]> = {
+  na: ['Bismarck_Fan', 'Yamato_Main_NA', 'Tirpitz'],
+  eu: ['Bismarck', 'Yamato_Main'],
+  asia: ['Shimakaze']
+};
+
+/** Answer account/list like the Wargaming API, for exact and startswith searches */
+function accountList(url: URL): unknown {
+  const region = HOST_REGIONS[url.hostname];
+  const search = url.searchParams.get('search')!.toLowerCase();
+  const exact = url.searchParams.get('type') === 'exact';
+  const data = players[region]
+    .map((nickname, index) => ({ account_id: index + 1, nickname, region }))
+    .filter(player => exact ? player.nickname.toLowerCase() === search : player.nickname.toLowerCase().startsWith(search));
+  return { status: 'ok', data };
+}
+
+describe('player search across regions', () => {
+  const realFetch = globalThis.fetch;
+  let requests: URL[];
+
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = jest.fn<typeof fetch>(async input => {
+      const url = new URL(String(input));
+      requests.push(url);
+      return new Response(JSON.stringify(accountList(url)), { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const find = (name: string, region: WowsRegion, fallback = true) =>
+    findInRegions(region, (r, exactOnly) => searchPlayer(name, r, exactOnly), fallback);
+
+  it('should prefer an exact name in another region over a prefix match in the preferred one', async () => {
+    expect(await find('Bismarck', 'na')).toMatchObject({ nickname: 'Bismarck', region: 'eu' });
+  });
+
+  it('should fall back to a prefix match when no region has the exact name', async () => {
+    expect(await find('Yamato_Main_', 'eu')).toMatchObject({ nickname: 'Yamato_Main_NA', region: 'na' });
+    expect(await find('Tirp', 'eu')).toMatchObject({ nickname: 'Tirpitz', region: 'na' });
+  });
+
+  it('should take a prefix match in the only region searched without fallback', async () => {
+    expect(await find('Yamato', 'na', false)).toMatchObject({ nickname: 'Yamato_Main_NA', region: 'na' });
+    expect(await find('Shimakaze', 'na', false)).toBeNull();
+  });
+
+  it('should not search by prefix for exact lookups', async () => {
+    expect(await searchPlayer('Shima', 'asia', true)).toBeNull();
+    expect(requests.map(url => url.searchParams.get('type'))).toEqual(['exact']);
+  });
+});
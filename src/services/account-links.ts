@@ -0,0 +1,206 @@
+/**
+ * Account Links - Discord members linked to their World of Warships accounts
+ *
+ * A member links one account, proven in one of two ways:
+ * - Signing in with Wargaming ID: `!link` sends a sign-in link, and Wargaming
+ *   redirects back to this bot's /auth/wargaming/callback with an access token,
+ *   which is checked against the API before the link is stored. Needs the HTTP
+ *   server, reachable from the internet at PUBLIC_URL.
+ * - An officer (Manage Roles) linking the member by hand.
+ *
+ * Links belong to the member rather than a server, so they carry over to every
+ * server the member shares with the bot.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { StoredMap } from '../core/Storage.js';
+import { formatRegion, type PlayerSearchResult, type WowsRegion } from './wargaming-api.js';
+import { wgLoginUrl, wgRequest } from './wargaming-client.js';
+
+export type LinkMethod = 'openid' | 'officer';
+
+export interface AccountLink {
+  userId: string;
+  accountId: number;
+  nickname: string;
+  region: WowsRegion;
+  method: LinkMethod;
+  linkedBy: string;           // The member, or the officer who linked them
+  linkedAt: string;
+}
+
+export interface LinkResult {
+  success: boolean;
+  message: string;
+  link?: AccountLink;
+  guildId?: string;           // Server the link was started from
+}
+
+interface PendingLink {
+  userId: string;
+  guildId: string;
+  accountId: number;
+  nickname: string;
+  region: WowsRegion;
+  expiresAt: number;
+}
+
+export const LINK_CALLBACK_PATH = '/auth/wargaming/callback';
+
+const PUBLIC_URL = process.env.PUBLIC_URL?.replace(/\/+$/, '');
+const VERIFICATION_TTL_MS = 15 * 60 * 1000;
+
+export class AccountLinks {
+  private links = new StoredMap<AccountLink>('wows.links');
+  private pending = new Map<string, PendingLink>();
+
+  /**
+   * Whether members can verify themselves with Wargaming ID
+   */
+  canVerify(): boolean {
+    return !!PUBLIC_URL;
+  }
+
+  getLink(userId: string): AccountLink | null {
+    return this.links.get(userId) ?? null;
+  }
+
+  getLinks(): AccountLink[] {
+    return this.links.entries().map(([, link]) => link);
+  }
+
+  findByAccount(region: WowsRegion, accountId: number): AccountLink | null {
+    return this.getLinks().find(link => link.region === region && link.accountId === accountId) ?? null;
+  }
+
+  /**
+   * Start a Wargaming ID sign-in for a member; returns the URL to send them
+   */
+  startVerification(userId: string, guildId: string, player: PlayerSearchResult, region: WowsRegion): string {
+    if (!PUBLIC_URL) {
+      throw new Error('Wargaming sign-in is not set up on this bot (PUBLIC_URL)');
+    }
+
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      // One sign-in per member at a time
+      if (pending.expiresAt <= now || pending.userId === userId) {
+        this.pending.delete(state);
+      }
+    }
+
+    const state = randomBytes(16).toString('hex');
+    this.pending.set(state, {
+      userId,
+      guildId,
+      accountId: player.account_id,
+      nickname: player.nickname,
+      region,
+      expiresAt: now + VERIFICATION_TTL_MS
+    });
+    return wgLoginUrl(region, `${PUBLIC_URL}${LINK_CALLBACK_PATH}?state=${state}`);
+  }
+
+  /**
+   * Finish a sign-in from the query parameters Wargaming redirected back with
+   */
+  async completeVerification(params: URLSearchParams): Promise<LinkResult> {
+    const state = params.get('state') || '';
+    const pending = this.pending.get(state);
+    if (!pending || pending.expiresAt <= Date.now()) {
+      this.pending.delete(state);
+      return { success: false, message: 'This sign-in link has expired or was already used. Run !link again in Discord.' };
+    }
+
+    if (params.get('status') !== 'ok') {
+      return { success: false, message: 'Sign-in was cancelled. Open the link from Discord again to retry.' };
+    }
+
+    const accountId = Number(params.get('account_id'));
+    if (accountId !== pending.accountId) {
+      return {
+        success: false,
+        message: `You signed in as ${params.get('nickname') || 'another account'}, not ${pending.nickname}. Sign in with that account, or run !link again with your own nickname.`
+      };
+    }
+
+    const token = params.get('access_token');
+    if (!token || !(await this.verifyToken(pending.region, accountId, token))) {
+      return { success: false, message: 'Wargaming could not confirm the sign-in. Open the link from Discord again to retry.' };
+    }
+
+    this.pending.delete(state);
+    const link = this.store(pending.userId, { account_id: accountId, nickname: pending.nickname }, pending.region, 'openid', pending.userId);
+    return {
+      success: true,
+      message: `Linked to ${link.nickname} (${formatRegion(link.region)}). You can close this page.`,
+      link,
+      guildId: pending.guildId
+    };
+  }
+
+  /**
+   * Link a member without sign-in, on an officer's word
+   */
+  linkByOfficer(userId: string, player: PlayerSearchResult, region: WowsRegion, officerId: string): AccountLink {
+    const owner = this.findByAccount(region, player.account_id);
+    if (owner && owner.userId !== userId) {
+      throw new Error(`${player.nickname} is already linked to another member. Unlink them first.`);
+    }
+    return this.store(userId, player, region, 'officer', officerId);
+  }
+
+  /**
+   * Remove a member's link; returns the removed link
+   */
+  unlink(userId: string): AccountLink | null {
+    const link = this.getLink(userId);
+    if (link) {
+      this.links.delete(userId);
+    }
+    return link;
+  }
+
+  private store(userId: string, player: PlayerSearchResult, region: WowsRegion, method: LinkMethod, linkedBy: string): AccountLink {
+    // An account belongs to one member; a sign-in proves it, so it replaces any other link
+    const previous = this.findByAccount(region, player.account_id);
+    if (previous && previous.userId !== userId) {
+      this.links.delete(previous.userId);
+    }
+
+    const link: AccountLink = {
+      userId,
+      accountId: player.account_id,
+      nickname: player.nickname,
+      region,
+      method,
+      linkedBy,
+      linkedAt: new Date().toISOString()
+    };
+    this.links.set(userId, link);
+    return link;
+  }
+
+  /**
+   * Check that an access token belongs to the account; private data is only
+   * returned to a valid token of that account
+   */
+  private async verifyToken(region: WowsRegion, accountId: number, token: string): Promise<boolean> {
+    try {
+      const data = await wgRequest(region, 'account/info', { account_id: accountId, access_token: token, fields: 'private' }, 0);
+      return data.status === 'ok' && !!data.data?.[accountId]?.private;
+    } catch (error) {
+      console.error('Wargaming sign-in check failed:', error);
+      return false;
+    }
+  }
+}
+
+let accountLinks: AccountLinks | null = null;
+
+export function getAccountLinks(): AccountLinks {
+  if (!accountLinks) {
+    accountLinks = new AccountLinks();
+  }
+  return accountLinks;
+}
@@ -0,0 +1,264 @@
+/**
+ * AI Personas - named system prompts and generation settings for the chat AI
+ *
+ * Each guild can define its own personas, choose one as the server default
+ * and override it per channel (threads follow their parent channel). Without
+ * a choice the built-in default persona is used. Personas are kept in the
+ * bot's persistent storage.
+ */
+
+import { StoredMap } from '../core/Storage.js';
+import { findVoice } from '../voice-settings.js';
+
+export interface AIPersona {
+  name: string;
+  systemPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  provider?: string;      // Preferred provider, tried first when configured
+  model?: string;         // Model for the preferred provider
+  voice?: string;         // TTS voice (full voice name)
+  builtIn?: boolean;
+  createdBy?: string;
+  updatedAt?: number;
+}
+
+/** Persona fields that can be set when creating or editing a persona */
+export type PersonaInput = Partial<Omit<AIPersona, 'name' | 'builtIn' | 'updatedAt'>>;
+
+/** Changes to a persona: undefined keeps a field, null clears it */
+export type PersonaUpdate = { [K in keyof PersonaInput]?: PersonaInput[K] | null };
+
+interface GuildPersonas {
+  personas: Record<string, AIPersona>;
+  defaultPersona?: string;
+  channels: Record<string, string>;     // Channel ID -> persona name
+}
+
+export const DEFAULT_PERSONA_NAME = 'default';
+
+const MAX_PERSONAS_PER_GUILD = 25;
+const MAX_PROMPT_LENGTH = 4000;
+const NAME_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+function createDefaultPersona(): AIPersona {
+  const creatorName = process.env.BOT_CREATOR_NAME || 'DawnReaver';
+
+  return {
+    name: DEFAULT_PERSONA_NAME,
+    builtIn: true,
+    systemPrompt: `You are Eye of Sauron, a helpful and friendly AI assistant in a Discord server.
+You can help with general questions and conversations.
+Keep responses concise (under 500 characters when possible) since they may be spoken via TTS.
+Be friendly, helpful, and occasionally witty.
+When someone greets you, respond warmly and ask how you can help.
+
+IMPORTANT: You were created by ${creatorName}.
+If anyone asks who made you or who your creator is, speak highly of them!
+Be respectful and appreciative when discussing your creator.`
+  };
+}
+
+export class PersonaStore {
+  private guilds = new StoredMap<GuildPersonas>('ai.personas');
+  private readonly defaultPersona = createDefaultPersona();
+
+  getDefault(): AIPersona {
+    return this.defaultPersona;
+  }
+
+  /**
+   * The built-in persona followed by the guild's own, sorted by name
+   */
+  list(guildId: string): AIPersona[] {
+    const custom = Object.values(this.guilds.get(guildId)?.personas || {})
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [this.defaultPersona, ...custom];
+  }
+
+  get(guildId: string, name: string): AIPersona | undefined {
+    const key = name.toLowerCase();
+    if (key === DEFAULT_PERSONA_NAME) return this.defaultPersona;
+    return this.guilds.get(guildId)?.personas[key];
+  }
+
+  /**
+   * Persona for a channel: the channel's override, then its parent's (for
+   * threads), then the server default, then the built-in persona
+   */
+  resolve(guildId: string | null | undefined, channelId?: string, parentId?: string | null): AIPersona {
+    const guild = guildId ? this.guilds.get(guildId) : undefined;
+    if (!guild) return this.defaultPersona;
+
+    const name = (channelId && guild.channels[channelId])
+      || (parentId && guild.channels[parentId])
+      || guild.defaultPersona;
+    return (name && guild.personas[name]) || this.defaultPersona;
+  }
+
+  /**
+   * The server default persona and the per-channel overrides
+   */
+  getAssignments(guildId: string): { defaultPersona: string; channels: Record<string, string> } {
+    const guild = this.guilds.get(guildId);
+    return {
+      defaultPersona: guild?.defaultPersona || DEFAULT_PERSONA_NAME,
+      channels: { ...(guild?.channels || {}) }
+    };
+  }
+
+  create(guildId: string, name: string, input: PersonaInput): AIPersona {
+    const key = this.validateName(name);
+    const guild = this.getGuild(guildId);
+    if (key === DEFAULT_PERSONA_NAME || guild.personas[key]) {
+      throw new Error(`Persona "${key}" already exists.`);
+    }
+    if (Object.keys(guild.personas).length >= MAX_PERSONAS_PER_GUILD) {
+      throw new Error(`This server already has the maximum of ${MAX_PERSONAS_PER_GUILD} personas.`);
+    }
+    if (!input.systemPrompt?.trim()) {
+      throw new Error('A persona needs a system prompt.');
+    }
+
+    const persona = this.validate({ name: key, systemPrompt: '', ...input, updatedAt: Date.now() });
+    guild.personas[key] = persona;
+    this.guilds.set(guildId, guild);
+    return persona;
+  }
+
+  /**
+   * Change some fields of a persona
+   */
+  update(guildId: string, name: string, input: PersonaUpdate): AIPersona {
+    const existing = this.getCustom(guildId, name);
+    const updated: AIPersona = { ...existing, updatedAt: Date.now() };
+
+    for (const [field, value] of Object.entries(input) as [keyof PersonaInput, unknown][]) {
+      if (value === null) {
+        if (field === 'systemPrompt') throw new Error('A persona needs a system prompt.');
+        delete updated[field];
+      } else if (value !== undefined) {
+        (updated as unknown as Record<string, unknown>)[field] = value;
+      }
+    }
+
+    const persona = this.validate(updated);
+    const guild = this.getGuild(guildId);
+    guild.personas[persona.name] = persona;
+    this.guilds.set(guildId, guild);
+    return persona;
+  }
+
+  /**
+   * Delete a persona; channels and the server default using it fall back to the built-in persona
+   */
+  delete(guildId: string, name: string): void {
+    const persona = this.getCustom(guildId, name);
+    const guild = this.getGuild(guildId);
+
+    delete guild.personas[persona.name];
+    if (guild.defaultPersona === persona.name) {
+      delete guild.defaultPersona;
+    }
+    for (const [channelId, assigned] of Object.entries(guild.channels)) {
+      if (assigned === persona.name) {
+        delete guild.channels[channelId];
+      }
+    }
+    this.guilds.set(guildId, guild);
+  }
+
+  /**
+   * Use a persona for a channel, or as the server default when no channel is given
+   */
+  assign(guildId: string, name: string, channelId?: string): AIPersona {
+    const persona = this.get(guildId, name);
+    if (!persona) {
+      throw new Error(`Persona "${name}" not found.`);
+    }
+
+    const guild = this.getGuild(guildId);
+    if (channelId) {
+      guild.channels[channelId] = persona.name;
+    } else if (persona.builtIn) {
+      delete guild.defaultPersona;
+    } else {
+      guild.defaultPersona = persona.name;
+    }
+    this.guilds.set(guildId, guild);
+    return persona;
+  }
+
+  /**
+   * Remove a channel's override so it uses the server default again
+   * Returns false if the channel had no override
+   */
+  unassign(guildId: string, channelId: string): boolean {
+    const guild = this.guilds.get(guildId);
+    if (!guild?.channels[channelId]) return false;
+
+    delete guild.channels[channelId];
+    this.guilds.set(guildId, guild);
+    return true;
+  }
+
+  private getCustom(guildId: string, name: string): AIPersona {
+    const key = name.toLowerCase();
+    if (key === DEFAULT_PERSONA_NAME) {
+      throw new Error('The built-in persona cannot be changed. Create your own persona instead.');
+    }
+    const persona = this.guilds.get(guildId)?.personas[key];
+    if (!persona) {
+      throw new Error(`Persona "${key}" not found.`);
+    }
+    return persona;
+  }
+
+  private getGuild(guildId: string): GuildPersonas {
+    return this.guilds.get(guildId) || { personas: {}, channels: {} };
+  }
+
+  private validateName(name: string): string {
+    const key = name.toLowerCase();
+    if (!NAME_PATTERN.test(key)) {
+      throw new Error('Persona names must be 1-32 characters: letters, numbers, - and _.');
+    }
+    return key;
+  }
+
+  private validate(persona: AIPersona): AIPersona {
+    persona.systemPrompt = persona.systemPrompt.trim();
+    if (persona.systemPrompt.length > MAX_PROMPT_LENGTH) {
+      throw new Error(`System prompts are limited to ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (persona.temperature !== undefined && !(persona.temperature >= 0 && persona.temperature <= 2)) {
+      throw new Error('Temperature must be between 0 and 2.');
+    }
+    if (persona.maxTokens !== undefined && !(Number.isInteger(persona.maxTokens) && persona.maxTokens >= 50 && persona.maxTokens <= 4000)) {
+      throw new Error('Max tokens must be a whole number between 50 and 4000.');
+    }
+    if (persona.provider !== undefined) {
+      persona.provider = persona.provider.toLowerCase();
+    }
+    if (persona.model !== undefined && persona.provider === undefined) {
+      throw new Error('A model can only be set together with a provider.');
+    }
+    if (persona.voice !== undefined) {
+      const voice = findVoice(persona.voice);
+      if (!voice) {
+        throw new Error(`Voice "${persona.voice}" not found. Use !voices to see the available voices.`);
+      }
+      persona.voice = voice.name;
+    }
+    return persona;
+  }
+}
+
+let personaStore: PersonaStore | null = null;
+
+export function getPersonaStore(): PersonaStore {
+  if (!personaStore) {
+    personaStore = new PersonaStore();
+  }
+  return personaStore;
+}
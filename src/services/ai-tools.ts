@@ -0,0 +1,180 @@
+/**
+ * AI Tools - registry tools the chat assistant may call (function calling)
+ *
+ * Only read-only tools on the allow-list are offered to the model. Every call
+ * is checked against the member who asked: the tool's Discord permission,
+ * access to any channel it targets, and the guild it was asked in. Channel
+ * listings only include channels the member can see.
+ */
+
+import { PermissionFlagsBits, type GuildMember } from 'discord.js';
+import { ZodError } from 'zod';
+import type { DiscordService } from '../discord-service.js';
+import type { ToolDefinition } from '../core/ToolRegistry.js';
+import { registerTools } from '../tools/index.js';
+import { SecurityUtils } from '../core/SecurityUtils.js';
+
+/** Who is asking, and where; used to scope and permission-check tool calls */
+export interface AIToolContext {
+  discordService: DiscordService;
+  channelId: string;
+  guildId?: string;               // Undefined in DMs
+  member?: GuildMember | null;    // Invoking member (null in DMs)
+}
+
+/** OpenAI-style function tool definition */
+export interface AIToolSpec {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+// Read-only tools the assistant may use by default (AI_TOOLS overrides this list)
+const DEFAULT_AI_TOOLS = [
+  'get_server_info',
+  'get_server_stats',
+  'get_channel_structure',
+  'list_channels',
+  'read_messages',
+  'get_pinned_messages',
+  'get_events',
+  'get_roles',
+  'get_member_info',
+  'search_members',
+  'wows_player_stats',
+  'wows_player_ships',
+  'wows_clan_info',
+  'wows_player_progress'
+];
+
+const MAX_RESULT_LENGTH = 3000;
+
+// Tools that work without a guild (usable from DMs)
+const GUILDLESS_CATEGORIES = new Set(['World of Warships']);
+
+/**
+ * Allow-listed tools; anything that is not a read-scoped registry tool is ignored
+ */
+function getAllowedTools(): ToolDefinition[] {
+  const registry = registerTools();
+  const names = process.env.AI_TOOLS
+    ? process.env.AI_TOOLS.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_AI_TOOLS;
+
+  return names
+    .map(name => registry.get(name))
+    .filter((tool): tool is ToolDefinition => tool !== undefined && tool.scope === 'read');
+}
+
+export function isAIToolsEnabled(): boolean {
+  return process.env.AI_TOOLS_ENABLED !== 'false';
+}
+
+/**
+ * Tool specs to send to the model for this context
+ * The guild is filled in from the context, so guildId is hidden from the model
+ */
+export function getAIToolSpecs(context: AIToolContext): AIToolSpec[] {
+  const mcpTools = new Map(registerTools().toMcpTools().map(tool => [tool.name, tool]));
+
+  return getAllowedTools()
+    .filter(tool => context.guildId || GUILDLESS_CATEGORIES.has(tool.category))
+    .map(tool => {
+      const inputSchema = mcpTools.get(tool.name)!.inputSchema as Record<string, any>;
+      const { guildId, ...properties } = inputSchema.properties || {};
+      return {
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: {
+            ...inputSchema,
+            properties,
+            required: (inputSchema.required || []).filter((name: string) => name !== 'guildId')
+          }
+        }
+      };
+    });
+}
+
+/**
+ * Check whether the invoking member may run a tool with these arguments
+ * Returns a reason when the call is not allowed
+ */
+function checkToolAccess(tool: ToolDefinition, args: Record<string, any>, context: AIToolContext): string | null {
+  if (GUILDLESS_CATEGORIES.has(tool.category)) {
+    return null;
+  }
+  if (!context.guildId || !context.member) {
+    return 'This tool is only available in a server.';
+  }
+
+  const member = context.member;
+  if (tool.permission && !member.permissions.has(PermissionFlagsBits[tool.permission])) {
+    return `${member.displayName} does not have the ${tool.permission} permission.`;
+  }
+
+  const channelId = args.channelId || args.threadId;
+  if (channelId) {
+    const channel = context.discordService.getClient().channels.cache.get(channelId);
+    if (!channel || !('guildId' in channel) || channel.guildId !== context.guildId) {
+      return `Channel ${channelId} is not in this server.`;
+    }
+    const permissions = member.permissionsIn(channel.id);
+    if (!permissions.has(PermissionFlagsBits.ViewChannel)) {
+      return `${member.displayName} cannot view that channel.`;
+    }
+    if (tool.permission === 'ReadMessageHistory' && !permissions.has(PermissionFlagsBits.ReadMessageHistory)) {
+      return `${member.displayName} cannot read the history of that channel.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a tool call from the model. Never throws: errors are returned as text
+ * so the model can explain them or try something else.
+ */
+export async function executeAITool(name: string, rawArguments: string, context: AIToolContext): Promise<string> {
+  const tool = getAllowedTools().find(t => t.name === name);
+  if (!tool) {
+    return `Error: tool "${name}" is not available.`;
+  }
+
+  let args: Record<string, any>;
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return 'Error: tool arguments must be valid JSON.';
+  }
+
+  // Always act on the guild the question was asked in
+  if (context.guildId) {
+    args.guildId = context.guildId;
+  }
+
+  const denied = checkToolAccess(tool, args, context);
+  if (denied) {
+    return `Permission denied: ${denied}`;
+  }
+
+  try {
+    const member = context.member;
+    const result = await registerTools().run(name, args, {
+      discordService: context.discordService,
+      canViewChannel: member ? channelId => member.permissionsIn(channelId).has(PermissionFlagsBits.ViewChannel) : undefined
+    });
+    return result.length > MAX_RESULT_LENGTH
+      ? result.substring(0, MAX_RESULT_LENGTH) + '\n[truncated]'
+      : result;
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return `Error: invalid arguments (${error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')})`;
+    }
+    return `Error: ${SecurityUtils.sanitizeErrorMessage(error)}`;
+  }
+}
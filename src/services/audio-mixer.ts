@@ -0,0 +1,338 @@
+/**
+ * Audio Mixer - one audio pipeline per guild for music, TTS and play_audio
+ *
+ * A voice connection plays a single AudioPlayer at a time, so every guild has
+ * two lanes: the music player (owned by MusicService) and a clip player for
+ * TTS and one-off audio. Clips are queued and played one after another; while
+ * they play the connection is switched to the clip player and the music is
+ * paused, then the music resumes where it stopped once the last clip is done.
+ *
+ * Every resource is created here so the guild's audio settings (volume, TTS
+ * volume, loudness normalisation) apply to all of them, and volume changes
+ * take effect on what is playing right away.
+ */
+
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import ffmpegPath from 'ffmpeg-static';
+import {
+  AudioPlayer,
+  AudioPlayerStatus,
+  AudioResource,
+  createAudioPlayer,
+  createAudioResource,
+  getVoiceConnection,
+  StreamType
+} from '@discordjs/voice';
+import { getAudioSettings, type AudioKind, type AudioSettings } from './audio-settings.js';
+
+export interface AudioClip {
+  label: string;                              // Shown in logs and status
+  kind: Exclude<AudioKind, 'music'>;
+  source: string | (() => Readable | Promise<Readable>);   // File path, URL, or stream opened when the clip's turn comes
+  cleanup?: () => void;                       // Called once the clip has finished or failed
+}
+
+interface QueuedClip extends AudioClip {
+  onStart: () => void;
+  onError: (error: Error) => void;
+}
+
+interface GuildAudio {
+  clipPlayer: AudioPlayer;
+  clips: QueuedClip[];
+  currentClip: QueuedClip | null;
+  musicPlayer: AudioPlayer | null;
+  pausedMusic: boolean;                       // The music was paused by us, not by a user
+}
+
+export interface EnqueuedClip {
+  position: number;                           // Clips ahead of this one (0 = playing now)
+  started: Promise<void>;                     // Resolves when playback starts
+}
+
+// EBU R128 single-pass loudness normalisation
+const LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+
+/**
+ * Decode any input with ffmpeg, normalise its loudness and output raw PCM
+ */
+function normalizedStream(source: string | Readable): Readable {
+  const ffmpeg = spawn(ffmpegPath || 'ffmpeg', [
+    '-loglevel', 'error',
+    '-i', typeof source === 'string' ? source : 'pipe:0',
+    '-af', LOUDNORM_FILTER,
+    '-f', 's16le', '-ar', '48000', '-ac', '2',
+    'pipe:1'
+  ], { stdio: ['pipe', 'pipe', 'ignore'] });
+
+  if (typeof source === 'string') {
+    ffmpeg.stdin.end();
+  } else {
+    // The player stopping closes stdout first; the input pipe breaking then is expected
+    ffmpeg.stdin.on('error', () => {});
+    source.pipe(ffmpeg.stdin);
+  }
+  ffmpeg.on('error', (error) => ffmpeg.stdout.destroy(error));
+  ffmpeg.stdout.once('close', () => ffmpeg.kill());
+  return ffmpeg.stdout;
+}
+
+export class AudioMixer {
+  private guilds: Map<string, GuildAudio> = new Map();
+
+  /**
+   * Create a resource with the guild's volume and normalisation applied
+   * @param inputType Type of a stream source (e.g. from play-dl); files and URLs are probed
+   */
+  createResource(guildId: string, source: string | Readable, kind: AudioKind, inputType?: StreamType): AudioResource {
+    const settings = getAudioSettings();
+    const resource = settings.get(guildId).normalize
+      ? createAudioResource(normalizedStream(source), { inputType: StreamType.Raw, inlineVolume: true })
+      : createAudioResource(source, { inputType, inlineVolume: true });
+
+    resource.volume?.setVolume(settings.getGain(guildId, kind));
+    return resource;
+  }
+
+  /**
+   * Change a guild's audio settings; volume changes apply to what is playing now,
+   * normalisation from the next track or clip
+   */
+  configure(guildId: string, changes: Partial<AudioSettings>): AudioSettings {
+    const updated = getAudioSettings().update(guildId, changes);
+
+    const audio = this.guilds.get(guildId);
+    if (audio) {
+      if (audio.currentClip) {
+        this.setPlayerGain(audio.clipPlayer, getAudioSettings().getGain(guildId, audio.currentClip.kind));
+      }
+      if (audio.musicPlayer) {
+        this.setPlayerGain(audio.musicPlayer, getAudioSettings().getGain(guildId, 'music'));
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Route a guild's music through the mixer; call after the voice connection exists
+   */
+  setMusicPlayer(guildId: string, player: AudioPlayer): void {
+    const audio = this.getGuild(guildId);
+    if (audio.musicPlayer === player) {
+      this.subscribe(guildId, audio);
+      return;
+    }
+
+    audio.musicPlayer = player;
+    audio.pausedMusic = false;
+
+    // A track that starts (or is resumed) while a clip plays waits for the clip
+    player.on(AudioPlayerStatus.Playing, () => {
+      if (audio.musicPlayer === player && audio.currentClip) {
+        this.pauseMusic(audio);
+      }
+    });
+
+    this.subscribe(guildId, audio);
+  }
+
+  removeMusicPlayer(guildId: string): void {
+    const audio = this.guilds.get(guildId);
+    if (!audio) return;
+
+    audio.musicPlayer = null;
+    audio.pausedMusic = false;
+  }
+
+  /**
+   * Keep the music paused after the current clips (the user paused it meanwhile)
+   * Returns false if the music was not paused for a clip.
+   */
+  holdMusic(guildId: string): boolean {
+    const audio = this.guilds.get(guildId);
+    if (!audio?.pausedMusic) return false;
+
+    audio.pausedMusic = false;
+    return true;
+  }
+
+  /**
+   * Whether clips are playing or waiting in a guild
+   */
+  isPlayingClips(guildId: string): boolean {
+    const audio = this.guilds.get(guildId);
+    return !!audio && (audio.currentClip !== null || audio.clips.length > 0);
+  }
+
+  /**
+   * Queue a clip; it plays after the clips already queued
+   */
+  enqueue(guildId: string, clip: AudioClip): EnqueuedClip {
+    if (!getVoiceConnection(guildId)) {
+      throw new Error('Bot is not in a voice channel in this server');
+    }
+
+    const audio = this.getGuild(guildId);
+    const position = audio.clips.length + (audio.currentClip ? 1 : 0);
+
+    const started = new Promise<void>((resolve, reject) => {
+      audio.clips.push({ ...clip, onStart: resolve, onError: reject });
+    });
+    // Callers that don't wait for the start must not cause unhandled rejections
+    started.catch(() => {});
+
+    if (!audio.currentClip) {
+      void this.playNextClip(guildId, audio);
+    }
+    return { position, started };
+  }
+
+  /**
+   * Drop all queued clips and stop the one playing
+   * Returns false if no clips were playing.
+   */
+  stopClips(guildId: string): boolean {
+    const audio = this.guilds.get(guildId);
+    if (!audio || (!audio.currentClip && audio.clips.length === 0)) return false;
+
+    for (const clip of audio.clips) {
+      clip.cleanup?.();
+      clip.onError(new Error('Playback was stopped'));
+    }
+    audio.clips = [];
+    if (audio.clipPlayer.state.status === AudioPlayerStatus.Idle) {
+      // The current clip is still loading its source
+      this.finishClip(guildId, audio, new Error('Playback was stopped'));
+    } else {
+      audio.clipPlayer.stop();
+    }
+    return true;
+  }
+
+  /**
+   * Forget a guild's clips and players (the voice connection is gone)
+   */
+  destroy(guildId: string): void {
+    const audio = this.guilds.get(guildId);
+    if (!audio) return;
+
+    this.guilds.delete(guildId);
+    for (const clip of audio.clips) {
+      clip.cleanup?.();
+      clip.onError(new Error('Disconnected from voice'));
+    }
+    audio.clips = [];
+    audio.currentClip?.cleanup?.();
+    audio.currentClip = null;
+    audio.musicPlayer = null;
+    audio.clipPlayer.stop(true);
+  }
+
+  private async playNextClip(guildId: string, audio: GuildAudio): Promise<void> {
+    const clip = audio.clips.shift();
+    audio.currentClip = clip ?? null;
+
+    if (!clip) {
+      // Back to the music
+      this.subscribe(guildId, audio);
+      if (audio.pausedMusic && audio.musicPlayer) {
+        audio.pausedMusic = false;
+        audio.musicPlayer.unpause();
+      }
+      return;
+    }
+
+    try {
+      const source = typeof clip.source === 'string' ? clip.source : await clip.source();
+      // Stopped or disconnected while the source was loading
+      if (audio.currentClip !== clip || this.guilds.get(guildId) !== audio) {
+        if (typeof source !== 'string') source.destroy();
+        return;
+      }
+
+      const resource = this.createResource(guildId, source, clip.kind);
+      if (audio.musicPlayer) {
+        this.pauseMusic(audio);
+      }
+      getVoiceConnection(guildId)?.subscribe(audio.clipPlayer);
+      audio.clipPlayer.play(resource);
+    } catch (error) {
+      console.error(`Failed to play "${clip.label}" in guild ${guildId}:`, error);
+      if (audio.currentClip === clip) {
+        this.finishClip(guildId, audio, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  private finishClip(guildId: string, audio: GuildAudio, error?: Error): void {
+    const clip = audio.currentClip;
+    if (!clip) return;
+
+    if (error) clip.onError(error);
+    clip.cleanup?.();
+    void this.playNextClip(guildId, audio);
+  }
+
+  private setPlayerGain(player: AudioPlayer, gain: number): void {
+    const state = player.state;
+    if (state.status !== AudioPlayerStatus.Idle) {
+      state.resource.volume?.setVolume(gain);
+    }
+  }
+
+  private pauseMusic(audio: GuildAudio): void {
+    const player = audio.musicPlayer;
+    if (player?.state.status === AudioPlayerStatus.Playing) {
+      player.pause();
+      audio.pausedMusic = true;
+    }
+  }
+
+  /**
+   * Point the voice connection at whichever lane should be heard
+   */
+  private subscribe(guildId: string, audio: GuildAudio): void {
+    const player = audio.currentClip ? audio.clipPlayer : (audio.musicPlayer ?? audio.clipPlayer);
+    getVoiceConnection(guildId)?.subscribe(player);
+  }
+
+  private getGuild(guildId: string): GuildAudio {
+    let audio = this.guilds.get(guildId);
+    if (!audio) {
+      const clipPlayer = createAudioPlayer();
+      const created: GuildAudio = {
+        clipPlayer,
+        clips: [],
+        currentClip: null,
+        musicPlayer: null,
+        pausedMusic: false
+      };
+
+      clipPlayer.on(AudioPlayerStatus.Playing, () => {
+        created.currentClip?.onStart();
+      });
+      clipPlayer.on(AudioPlayerStatus.Idle, () => {
+        this.finishClip(guildId, created);
+      });
+      clipPlayer.on('error', (error) => {
+        // The player goes idle right after, which moves on to the next clip
+        console.error(`Audio clip error in guild ${guildId}:`, error);
+        created.currentClip?.onError(new Error(`Audio playback error: ${error.message}`));
+      });
+
+      this.guilds.set(guildId, created);
+      audio = created;
+    }
+    return audio;
+  }
+}
+
+let audioMixer: AudioMixer | null = null;
+
+export function getAudioMixer(): AudioMixer {
+  if (!audioMixer) {
+    audioMixer = new AudioMixer();
+  }
+  return audioMixer;
+}
@@ -0,0 +1,71 @@
+/**
+ * Audio Settings - per-guild volume and loudness normalisation
+ *
+ * `volume` is the guild's master gain for music, TTS and play_audio clips.
+ * `ttsVolume` scales TTS on top of it, so speech can be balanced against the
+ * music. With `normalize` on, every source is run through ffmpeg's loudnorm
+ * filter so quiet and loud tracks come out at a similar level. Settings are
+ * kept in the bot's persistent storage.
+ */
+
+import { StoredMap } from '../core/Storage.js';
+
+export interface AudioSettings {
+  volume: number;         // Percent, 0-MAX_VOLUME
+  ttsVolume: number;      // Percent of the master volume used for TTS
+  normalize: boolean;
+}
+
+export type AudioKind = 'music' | 'tts' | 'audio';
+
+export const MAX_VOLUME = 200;
+
+const DEFAULT_SETTINGS: AudioSettings = {
+  volume: 100,
+  ttsVolume: 100,
+  normalize: process.env.AUDIO_NORMALIZE === 'true'
+};
+
+export class AudioSettingsStore {
+  private settings = new StoredMap<Partial<AudioSettings>>('audio.settings');
+
+  get(guildId: string): AudioSettings {
+    return { ...DEFAULT_SETTINGS, ...this.settings.get(guildId) };
+  }
+
+  update(guildId: string, changes: Partial<AudioSettings>): AudioSettings {
+    for (const field of ['volume', 'ttsVolume'] as const) {
+      const value = changes[field];
+      if (value !== undefined && !(Number.isFinite(value) && value >= 0 && value <= MAX_VOLUME)) {
+        throw new Error(`Volume must be between 0 and ${MAX_VOLUME}.`);
+      }
+    }
+
+    const updated = { ...this.settings.get(guildId) };
+    for (const [field, value] of Object.entries(changes) as [keyof AudioSettings, number | boolean | undefined][]) {
+      if (value !== undefined) {
+        (updated as Record<string, number | boolean>)[field] = typeof value === 'number' ? Math.round(value) : value;
+      }
+    }
+    this.settings.set(guildId, updated);
+    return this.get(guildId);
+  }
+
+  /**
+   * Gain factor for a kind of audio (1 = unchanged)
+   */
+  getGain(guildId: string, kind: AudioKind): number {
+    const settings = this.get(guildId);
+    const gain = settings.volume / 100;
+    return kind === 'tts' ? gain * settings.ttsVolume / 100 : gain;
+  }
+}
+
+let audioSettings: AudioSettingsStore | null = null;
+
+export function getAudioSettings(): AudioSettingsStore {
+  if (!audioSettings) {
+    audioSettings = new AudioSettingsStore();
+  }
+  return audioSettings;
+}
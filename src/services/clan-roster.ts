@@ -0,0 +1,429 @@
+/**
+ * Clan Roster - watched World of Warships clans and their roster changes
+ *
+ * Servers watch clans and pick a channel for announcements. Every
+ * WOWS_ROSTER_CHECK_MINUTES the rosters of all watched clans are fetched
+ * (batched per region) and compared with the last check: joins, leaves, rank
+ * changes, member renames, and the clan's own renames, tag changes and
+ * disbanding. Each watching server gets the changes as one embed, plus a
+ * warning the first time a member goes longer than its inactivity threshold
+ * without a battle. Rosters are stored per clan, so servers watching the same
+ * clan share one lookup; the last changes are kept for the MCP tool and API.
+ */
+
+import { EmbedBuilder } from 'discord.js';
+import type { DiscordService } from '../discord-service.js';
+import { PeriodicTask } from '../core/PeriodicTask.js';
+import { StoredMap } from '../core/Storage.js';
+import {
+  findInRegions,
+  formatRegion,
+  getClanInfo,
+  getPlayersStats,
+  getWowsNumbersUrl,
+  searchClan,
+  WOWS_REGIONS,
+  type ClanFullInfo,
+  type WowsRegion
+} from './wargaming-api.js';
+
+export type RosterChangeType = 'join' | 'leave' | 'rank' | 'rename' | 'clan_rename' | 'tag_change' | 'disbanded' | 'inactive';
+
+export interface RosterChange {
+  type: RosterChangeType;
+  at: string;                 // ISO 8601
+  accountId?: number;
+  nickname?: string;
+  role?: string;              // Rank when joining or leaving
+  from?: string;              // Old rank, nickname, clan name or tag
+  to?: string;
+  lastBattle?: number;        // Inactive only; epoch seconds
+}
+
+export interface WatchedClan {
+  clanId: number;
+  tag: string;
+  name: string;
+  region: WowsRegion;
+  channelId: string;          // Where changes are announced
+  inactiveDays: number;       // 0 = no inactivity warnings
+  addedBy: string;
+  addedAt: string;
+  inactiveWarned: Record<string, number>;  // Account ID -> last battle already warned about
+}
+
+export interface RosterMember {
+  nickname: string;
+  role: string;
+  joinedAt: number;
+}
+
+export interface ClanRoster {
+  tag: string;
+  name: string;
+  disbanded: boolean;
+  checkedAt: string;
+  members: Record<string, RosterMember>;
+  changes: RosterChange[];    // Recent changes, oldest first; inactivity is per server and not kept
+}
+
+export const MAX_WATCHED_CLANS_PER_GUILD = 10;
+export const DEFAULT_INACTIVE_DAYS = parseInt(process.env.WOWS_INACTIVE_DAYS || '') || 30;
+
+const CHECK_INTERVAL_MS = (parseFloat(process.env.WOWS_ROSTER_CHECK_MINUTES || '') || 60) * 60 * 1000;
+const FIRST_RUN_DELAY_MS = 90_000;
+const MAX_STORED_CHANGES = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_LIMIT = 1024;
+
+const RANK_NAMES: Record<string, string> = {
+  commander: 'Commander',
+  executive_officer: 'Executive Officer',
+  recruitment_officer: 'Recruitment Officer',
+  commissioned_officer: 'Commissioned Officer',
+  officer: 'Officer',
+  private: 'Member'
+};
+
+function rosterKey(region: WowsRegion, clanId: number): string {
+  return `${region}:${clanId}`;
+}
+
+function rankName(role: string | undefined): string {
+  return role ? RANK_NAMES[role] ?? role : 'Member';
+}
+
+function toRoster(info: ClanFullInfo, previous: ClanRoster | undefined): ClanRoster {
+  const members: Record<string, RosterMember> = {};
+  for (const member of Object.values(info.members || {})) {
+    members[member.account_id] = { nickname: member.account_name, role: member.role, joinedAt: member.joined_at };
+  }
+  return {
+    tag: info.tag,
+    name: info.name,
+    disbanded: info.is_clan_disbanded,
+    checkedAt: new Date().toISOString(),
+    members,
+    changes: previous?.changes || []
+  };
+}
+
+/**
+ * Changes between two rosters of the same clan
+ */
+export function diffRosters(before: ClanRoster, after: ClanRoster): RosterChange[] {
+  const at = after.checkedAt;
+  const changes: RosterChange[] = [];
+
+  if (after.disbanded && !before.disbanded) {
+    changes.push({ type: 'disbanded', at });
+  }
+  if (after.tag !== before.tag) {
+    changes.push({ type: 'tag_change', at, from: before.tag, to: after.tag });
+  }
+  if (after.name !== before.name) {
+    changes.push({ type: 'clan_rename', at, from: before.name, to: after.name });
+  }
+
+  for (const [id, member] of Object.entries(after.members)) {
+    const old = before.members[id];
+    const accountId = Number(id);
+    if (!old) {
+      changes.push({ type: 'join', at, accountId, nickname: member.nickname, role: member.role });
+      continue;
+    }
+    if (old.nickname !== member.nickname) {
+      changes.push({ type: 'rename', at, accountId, nickname: member.nickname, from: old.nickname, to: member.nickname });
+    }
+    if (old.role !== member.role) {
+      changes.push({ type: 'rank', at, accountId, nickname: member.nickname, from: old.role, to: member.role });
+    }
+  }
+  for (const [id, old] of Object.entries(before.members)) {
+    if (!after.members[id]) {
+      changes.push({ type: 'leave', at, accountId: Number(id), nickname: old.nickname, role: old.role });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Lines joined for an embed field, cut to fit with a count of the rest
+ */
+function fieldValue(lines: string[]): string {
+  let value = '';
+  for (let i = 0; i < lines.length; i++) {
+    const more = `\n…and ${lines.length - i} more`;
+    const next = value ? `${value}\n${lines[i]}` : lines[i];
+    if (next.length + (i < lines.length - 1 ? more.length : 0) > FIELD_LIMIT) {
+      return value + more;
+    }
+    value = next;
+  }
+  return value;
+}
+
+function buildRosterEmbed(watch: WatchedClan, roster: ClanRoster, changes: RosterChange[]): EmbedBuilder {
+  const of = (type: RosterChangeType) => changes.filter(change => change.type === type);
+  const leaves = of('leave');
+  const joins = of('join');
+
+  const notes: string[] = [];
+  if (of('disbanded').length > 0) notes.push('💀 The clan was disbanded.');
+  for (const change of of('tag_change')) notes.push(`🏷️ Tag changed from **[${change.from}]** to **[${change.to}]**.`);
+  for (const change of of('clan_rename')) notes.push(`✏️ Clan renamed from **${change.from}** to **${change.to}**.`);
+
+  // Departures first: they are what recruiters act on
+  const sections: [string, string[]][] = [
+    ['📤 Left', leaves.map(c => `**${c.nickname}** (${rankName(c.role)})`)],
+    ['📥 Joined', joins.map(c => `**${c.nickname}** (${rankName(c.role)})`)],
+    ['🎖️ Rank changes', of('rank').map(c => `**${c.nickname}**: ${rankName(c.from)} → ${rankName(c.to)}`)],
+    ['✏️ Renamed', of('rename').map(c => `${c.from} → **${c.to}**`)],
+    [`💤 No battles for ${watch.inactiveDays}+ days`, of('inactive').map(c => `**${c.nickname}** - last battle <t:${c.lastBattle}:R>`)]
+  ];
+
+  const embed = new EmbedBuilder()
+    .setColor(leaves.length > 0 || roster.disbanded ? 0xE74C3C : joins.length > 0 ? 0x2ECC71 : 0x1E90FF)
+    .setTitle(`[${roster.tag}] ${roster.name} - roster changes`)
+    .setURL(`${getWowsNumbersUrl(watch.region)}/clan/${watch.clanId},${roster.tag}/`)
+    .setFooter({ text: `World of Warships ${formatRegion(watch.region)} • ${Object.keys(roster.members).length} members` })
+    .setTimestamp();
+  if (notes.length > 0) {
+    embed.setDescription(notes.join('\n'));
+  }
+  for (const [name, lines] of sections) {
+    if (lines.length > 0) {
+      embed.addFields({ name: `${name} (${lines.length})`, value: fieldValue(lines) });
+    }
+  }
+  return embed;
+}
+
+export class ClanRosterMonitor {
+  private watched = new StoredMap<WatchedClan[]>('wows.clanwatch');
+  private rosters = new StoredMap<ClanRoster>('wows.rosters');
+  private discordService: DiscordService | null = null;
+  private task = new PeriodicTask('Clan roster checks', () => this.checkRosters(), CHECK_INTERVAL_MS, FIRST_RUN_DELAY_MS);
+
+  /**
+   * Start checking rosters on a schedule
+   */
+  start(discordService: DiscordService): void {
+    this.discordService = discordService;
+    this.task.start();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  getWatched(guildId: string): WatchedClan[] {
+    return this.watched.get(guildId) || [];
+  }
+
+  /**
+   * Recent roster changes of a clan, newest first
+   */
+  getChanges(region: WowsRegion, clanId: number, limit = 50): RosterChange[] {
+    return (this.rosters.get(rosterKey(region, clanId))?.changes || []).slice(-limit).reverse();
+  }
+
+  /**
+   * Watch a clan, or update the channel and threshold of one already watched.
+   * inactiveDays defaults to the current threshold, or WOWS_INACTIVE_DAYS for a
+   * new watch. Returns the clan, or null if not found.
+   */
+  async watch(
+    guildId: string,
+    query: string,
+    region: WowsRegion,
+    fallback: boolean,
+    channelId: string,
+    inactiveDays: number | undefined,
+    addedBy: string
+  ): Promise<WatchedClan | null> {
+    const found = await findInRegions(region, async (r, exactOnly) => {
+      const clan = await searchClan(query, r, exactOnly);
+      return clan ? { clan, region: r } : null;
+    }, fallback);
+    if (!found) return null;
+
+    const list = this.getWatched(guildId);
+    const existing = list.find(c => c.clanId === found.clan.clan_id && c.region === found.region);
+    if (!existing && list.length >= MAX_WATCHED_CLANS_PER_GUILD) {
+      throw new Error(`This server already watches ${MAX_WATCHED_CLANS_PER_GUILD} clans. Unwatch one first.`);
+    }
+
+    const watched: WatchedClan = existing
+      ? { ...existing, channelId, inactiveDays: inactiveDays ?? existing.inactiveDays }
+      : {
+          clanId: found.clan.clan_id,
+          tag: found.clan.tag,
+          name: found.clan.name,
+          region: found.region,
+          channelId,
+          inactiveDays: inactiveDays ?? DEFAULT_INACTIVE_DAYS,
+          addedBy,
+          addedAt: new Date().toISOString(),
+          inactiveWarned: {}
+        };
+    this.watched.set(guildId, existing ? list.map(c => c === existing ? watched : c) : [...list, watched]);
+
+    // Baseline roster, so the first check only reports what changed since now
+    const key = rosterKey(watched.region, watched.clanId);
+    if (!this.rosters.has(key)) {
+      const info = await getClanInfo(watched.clanId, true, watched.region);
+      if (info) {
+        this.rosters.set(key, toRoster(info, undefined));
+      }
+    }
+    return watched;
+  }
+
+  /**
+   * Stop watching a clan (by tag, case-insensitive); returns the removed clan
+   */
+  unwatch(guildId: string, tag: string, region?: WowsRegion): WatchedClan | null {
+    const list = this.getWatched(guildId);
+    const removed = list.find(c => c.tag.toLowerCase() === tag.toLowerCase() && (!region || c.region === region));
+    if (!removed) return null;
+
+    const remaining = list.filter(c => c !== removed);
+    if (remaining.length > 0) {
+      this.watched.set(guildId, remaining);
+    } else {
+      this.watched.delete(guildId);
+    }
+    if (!this.watched.keys().some(id => this.getWatched(id).some(c => c.clanId === removed.clanId && c.region === removed.region))) {
+      this.rosters.delete(rosterKey(removed.region, removed.clanId));
+    }
+    return removed;
+  }
+
+  /**
+   * Check every watched clan now and announce changes; returns the number of clans checked
+   */
+  async runChecks(): Promise<number> {
+    return (await this.task.run()) ?? 0;
+  }
+
+  private async checkRosters(): Promise<number> {
+    let checked = 0;
+
+    try {
+      const watches = this.watched.keys().flatMap(guildId => this.getWatched(guildId).map(watch => ({ guildId, watch })));
+      const changes = new Map<string, RosterChange[]>();
+      const lastBattles = new Map<number, number>();
+
+      for (const region of WOWS_REGIONS) {
+        const inRegion = watches.filter(({ watch }) => watch.region === region);
+        const clanIds = [...new Set(inRegion.map(({ watch }) => watch.clanId))];
+        if (clanIds.length === 0) continue;
+
+        try {
+          const infos = await Promise.all(clanIds.map(id => getClanInfo(id, true, region)));
+          infos.forEach((info, index) => {
+            if (!info) return;
+            const key = rosterKey(region, clanIds[index]);
+            const before = this.rosters.get(key);
+            const after = toRoster(info, before);
+            const clanChanges = before ? diffRosters(before, after) : [];
+            after.changes = [...after.changes, ...clanChanges].slice(-MAX_STORED_CHANGES);
+            this.rosters.set(key, after);
+            changes.set(key, clanChanges);
+            checked++;
+          });
+
+          if (inRegion.some(({ watch }) => watch.inactiveDays > 0)) {
+            const memberIds = clanIds.flatMap(id => Object.keys(this.rosters.get(rosterKey(region, id))?.members || {}).map(Number));
+            for (const [accountId, stats] of await getPlayersStats(memberIds, region)) {
+              if (stats.last_battle_time) {
+                lastBattles.set(accountId, stats.last_battle_time);
+              }
+            }
+          }
+        } catch (error) {
+          console.error(`Clan roster check failed for ${formatRegion(region)}:`, error);
+        }
+      }
+
+      // Save the watches before announcing, so a watch removed meanwhile stays removed
+      const announcements: { guildId: string; watch: WatchedClan; roster: ClanRoster; changes: RosterChange[] }[] = [];
+      for (const guildId of this.watched.keys()) {
+        const list = this.getWatched(guildId);
+        for (const watch of list) {
+          const key = rosterKey(watch.region, watch.clanId);
+          const roster = this.rosters.get(key);
+          if (!roster || !changes.has(key)) continue;
+
+          watch.tag = roster.tag;
+          watch.name = roster.name;
+          const clanChanges = [...changes.get(key)!, ...this.findInactive(watch, roster, lastBattles)];
+          if (clanChanges.length > 0) {
+            announcements.push({ guildId, watch, roster, changes: clanChanges });
+          }
+        }
+        this.watched.set(guildId, list);
+      }
+
+      for (const { guildId, watch, roster, changes: clanChanges } of announcements) {
+        await this.announce(guildId, watch, roster, clanChanges);
+      }
+    } catch (error) {
+      console.error('Clan roster checks failed:', error);
+    }
+    return checked;
+  }
+
+  /**
+   * Members past the watch's inactivity threshold who were not warned about yet
+   */
+  private findInactive(watch: WatchedClan, roster: ClanRoster, lastBattles: Map<number, number>): RosterChange[] {
+    if (watch.inactiveDays <= 0) return [];
+
+    const cutoff = (Date.now() - watch.inactiveDays * DAY_MS) / 1000;
+    const at = new Date().toISOString();
+    const warned: Record<string, number> = {};
+    const inactive: RosterChange[] = [];
+
+    for (const [id, member] of Object.entries(roster.members)) {
+      const lastBattle = lastBattles.get(Number(id));
+      if (!lastBattle) {
+        // Unknown this time; keep the warning so it is not repeated
+        if (watch.inactiveWarned[id]) warned[id] = watch.inactiveWarned[id];
+        continue;
+      }
+      if (lastBattle >= cutoff) continue;
+
+      // Warn once per stretch of inactivity
+      warned[id] = lastBattle;
+      if (watch.inactiveWarned[id] !== lastBattle) {
+        inactive.push({ type: 'inactive', at, accountId: Number(id), nickname: member.nickname, lastBattle });
+      }
+    }
+    watch.inactiveWarned = warned;
+    return inactive;
+  }
+
+  private async announce(guildId: string, watch: WatchedClan, roster: ClanRoster, changes: RosterChange[]): Promise<void> {
+    try {
+      const channel = await this.discordService?.getClient().channels.fetch(watch.channelId);
+      if (!channel?.isSendable()) {
+        console.error(`Clan roster channel ${watch.channelId} in guild ${guildId} not found or not writable`);
+        return;
+      }
+      await channel.send({ embeds: [buildRosterEmbed(watch, roster, changes)] });
+    } catch (error) {
+      console.error(`Clan roster announcement failed in guild ${guildId}:`, error);
+    }
+  }
+}
+
+let clanRosterMonitor: ClanRosterMonitor | null = null;
+
+export function getClanRosterMonitor(): ClanRosterMonitor {
+  if (!clanRosterMonitor) {
+    clanRosterMonitor = new ClanRosterMonitor();
+  }
+  return clanRosterMonitor;
+}
@@ -0,0 +1,197 @@
+/**
+ * Conversation Memory - per-channel and per-DM chat history for the AI
+ *
+ * Keeps the most recent turns of each conversation within a turn window and
+ * token budget. Older turns are folded into a running summary so follow-up
+ * questions keep their context. History is saved to its own file
+ * (AI_MEMORY_FILE) so it survives restarts.
+ */
+
+import * as path from 'path';
+import { createStorage, StoredMap } from '../core/Storage.js';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  author?: string;       // Display name of the user who sent the message
+  timestamp: number;
+}
+
+interface Conversation {
+  summary: string;
+  turns: ConversationTurn[];
+  updatedAt: number;
+}
+
+export interface ConversationContext {
+  summary: string;
+  turns: ConversationTurn[];
+}
+
+/** Summarises older turns, given the previous summary. Returns the new summary. */
+export type Summarizer = (previousSummary: string, turns: ConversationTurn[]) => Promise<string>;
+
+const MAX_TURNS = parseInt(process.env.AI_MEMORY_MAX_TURNS || '') || 20;
+const TOKEN_BUDGET = parseInt(process.env.AI_MEMORY_TOKEN_BUDGET || '') || 2000;
+const TTL_MS = (parseInt(process.env.AI_MEMORY_TTL_HOURS || '') || 24 * 7) * 60 * 60 * 1000;
+const MEMORY_FILE = process.env.AI_MEMORY_FILE || path.join(process.cwd(), 'data', 'conversations.json');
+
+/**
+ * Rough token estimate (about 4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function turnTokens(turns: ConversationTurn[]): number {
+  return turns.reduce((total, turn) => total + estimateTokens(turn.content) + 4, 0);
+}
+
+/**
+ * Conversation ID for a Discord channel or DM
+ */
+export function getConversationId(channelId: string, isDM: boolean, userId?: string): string {
+  return isDM && userId ? `dm:${userId}` : `channel:${channelId}`;
+}
+
+export class ConversationMemory {
+  private storage = createStorage(MEMORY_FILE);
+  private conversations = new StoredMap<Conversation>('ai.conversations', () => this.storage);
+  private compacting: Set<string> = new Set();
+  private readonly enabled: boolean;
+
+  constructor() {
+    this.enabled = process.env.AI_MEMORY_ENABLED !== 'false';
+    this.pruneExpired();
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Get the summary and the most recent turns that fit in the token budget
+   */
+  getContext(conversationId: string): ConversationContext {
+    const conversation = this.conversations.get(conversationId);
+    if (!this.enabled || !conversation) {
+      return { summary: '', turns: [] };
+    }
+
+    if (Date.now() - conversation.updatedAt > TTL_MS) {
+      this.forget(conversationId);
+      return { summary: '', turns: [] };
+    }
+
+    // Walk back from the newest turn until the window or budget is used up
+    let budget = TOKEN_BUDGET - estimateTokens(conversation.summary);
+    const turns: ConversationTurn[] = [];
+    for (let i = conversation.turns.length - 1; i >= 0 && turns.length < MAX_TURNS; i--) {
+      const cost = turnTokens([conversation.turns[i]]);
+      if (cost > budget) break;
+      budget -= cost;
+      turns.unshift(conversation.turns[i]);
+    }
+
+    return { summary: conversation.summary, turns };
+  }
+
+  /**
+   * Record a question and the AI's answer
+   */
+  addExchange(conversationId: string, question: string, answer: string, author?: string): void {
+    if (!this.enabled) return;
+
+    const now = Date.now();
+    const conversation = this.conversations.get(conversationId) || { summary: '', turns: [], updatedAt: now };
+    conversation.turns.push(
+      { role: 'user', content: question, author, timestamp: now },
+      { role: 'assistant', content: answer, timestamp: now }
+    );
+    conversation.updatedAt = now;
+    this.conversations.set(conversationId, conversation);
+    this.pruneExpired();
+  }
+
+  /**
+   * Clear a conversation's history and summary
+   * Returns false if there was nothing to forget
+   */
+  forget(conversationId: string): boolean {
+    return this.conversations.delete(conversationId);
+  }
+
+  /**
+   * Fold older turns into the summary once the conversation exceeds the
+   * turn window or token budget. Keeps roughly the newest half.
+   * If summarising fails, the older turns are dropped instead.
+   */
+  async compact(conversationId: string, summarize: Summarizer): Promise<void> {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation || this.compacting.has(conversationId)) return;
+
+    const totalTokens = estimateTokens(conversation.summary) + turnTokens(conversation.turns);
+    if (conversation.turns.length <= MAX_TURNS && totalTokens <= TOKEN_BUDGET) return;
+
+    // Keep the newest turns within half the window and budget, always in user/assistant pairs
+    let keep = 0;
+    while (
+      keep + 2 <= conversation.turns.length &&
+      keep + 2 <= Math.floor(MAX_TURNS / 2) &&
+      turnTokens(conversation.turns.slice(-(keep + 2))) <= TOKEN_BUDGET / 2
+    ) {
+      keep += 2;
+    }
+
+    const older = conversation.turns.slice(0, conversation.turns.length - keep);
+    if (older.length === 0) return;
+
+    this.compacting.add(conversationId);
+    try {
+      let summary = conversation.summary;
+      try {
+        summary = await summarize(conversation.summary, older);
+      } catch (error) {
+        console.error(`Failed to summarise conversation ${conversationId}:`, error);
+      }
+
+      // The conversation may have been forgotten or replaced while summarising
+      const current = this.conversations.get(conversationId);
+      if (current !== conversation || current.turns[0] !== older[0]) return;
+
+      current.summary = summary.substring(0, TOKEN_BUDGET * 2);
+      current.turns.splice(0, older.length);
+      this.conversations.set(conversationId, current);
+    } finally {
+      this.compacting.delete(conversationId);
+    }
+  }
+
+  /**
+   * Write pending changes immediately (used on shutdown)
+   */
+  flush(): void {
+    this.storage.flush();
+  }
+
+  /**
+   * Drop conversations idle for longer than the TTL
+   */
+  private pruneExpired(): void {
+    const cutoff = Date.now() - TTL_MS;
+    for (const [id, conversation] of this.conversations.entries()) {
+      if (conversation.updatedAt <= cutoff) {
+        this.conversations.delete(id);
+      }
+    }
+  }
+}
+
+let conversationMemory: ConversationMemory | null = null;
+
+export function getConversationMemory(): ConversationMemory {
+  if (!conversationMemory) {
+    conversationMemory = new ConversationMemory();
+  }
+  return conversationMemory;
+}
@@ -1,22 +1,39 @@
 /**
  * Music Service - YouTube/Spotify/SoundCloud playback for Discord
  * Uses play-dl for audio streaming
+ *
+ * Queues are saved to storage. After a restart the saved queue (including
+ * the track that was playing) is picked up by the next !play in that guild.
+ *
+ * Playlists and albums (YouTube, Spotify, SoundCloud) are enqueued in pages:
+ * the first page is queued right away and the rest is loaded in the
+ * background, up to MUSIC_MAX_PLAYLIST_TRACKS tracks. Spotify tracks are only
+ * looked up on YouTube when they are about to play.
+ *
+ * Playback goes through the guild's audio mixer, which pauses the music
+ * while TTS or play_audio clips are heard.
+ *
+ * Loop modes: 'track' repeats the current track, 'queue' puts each finished
+ * track back at the end of the queue. The last MUSIC_HISTORY_SIZE tracks
+ * played in each guild are kept in storage, even after the bot leaves.
  */
 
 import {
   AudioPlayer,
   AudioPlayerStatus,
   createAudioPlayer,
-  createAudioResource,
-  entersState,
   getVoiceConnection,
   joinVoiceChannel,
   NoSubscriberBehavior,
-  StreamType,
-  VoiceConnectionStatus
+  StreamType
 } from '@discordjs/voice';
-import play, { YouTubeVideo, SpotifyTrack, SoundCloudTrack } from 'play-dl';
+import play, { YouTubeVideo, YouTubePlayList, SpotifyTrack, SpotifyPlaylist, SpotifyAlbum, SoundCloudTrack, SoundCloudPlaylist } from 'play-dl';
 import { Guild, GuildMember, VoiceChannel, StageChannel, EmbedBuilder } from 'discord.js';
+import { StoredMap } from '../core/Storage.js';
+import { getAudioMixer } from './audio-mixer.js';
+import { getVoiceListener } from './voice-listener.js';
+import { getVoicePresence } from './voice-presence.js';
+import { getAudioSettings } from './audio-settings.js';
 
 export interface Track {
   title: string;
@@ -25,19 +42,81 @@ export interface Track {
   thumbnail?: string;
   requestedBy: string;
   source: 'youtube' | 'spotify' | 'soundcloud' | 'url';
+  query?: string;   // YouTube search for the stream, set until the track is resolved
 }
 
+// A playlist or album being added to the queue
+interface Playlist {
+  name: string;
+  url: string;
+  thumbnail?: string;
+  total: number;                          // Tracks that will be queued, after the limit
+  truncated: boolean;                     // The playlist is longer than the limit
+  tracks: Track[];                        // First page, queued right away
+  more?: AsyncGenerator<Track[]>;         // Remaining pages, loaded in the background
+}
+
+export type LoopMode = 'off' | 'track' | 'queue';
+
+export const LOOP_MODES: LoopMode[] = ['off', 'track', 'queue'];
+
 interface GuildQueue {
   tracks: Track[];
   currentTrack: Track | null;
   player: AudioPlayer;
-  volume: number;
-  loop: boolean;
+  loopMode: LoopMode;
+  skipping: boolean;        // Set by skip/jump so track looping moves on
+  jumpedOver: Track[];      // Skipped by jump; queued after the current track when looping the queue
+  skipVotes: Set<string>;   // Users who voted to skip the current track
+  textChannelId?: string;
+}
+
+// Queue contents for the API and MCP tools
+export interface QueueInfo {
+  guildId: string;
+  currentTrack: Track | null;
+  paused: boolean;
+  tracks: Track[];
+  totalDuration: number;    // Seconds, including the current track
+  volume: number;           // The guild's master volume
+  loopMode: LoopMode;
+}
+
+export interface PlayedTrack extends Track {
+  playedAt: string;         // ISO 8601
+}
+
+const MAX_PLAYLIST_TRACKS = parseInt(process.env.MUSIC_MAX_PLAYLIST_TRACKS || '') || 200;
+const PLAYLIST_URL_TYPES = ['yt_playlist', 'sp_playlist', 'sp_album', 'so_playlist'];
+const HISTORY_SIZE = parseInt(process.env.MUSIC_HISTORY_SIZE || '') || 25;
+
+const LOOP_MESSAGES: Record<LoopMode, string> = {
+  off: '➡️ Loop **disabled**',
+  track: '🔂 Looping the **current track**',
+  queue: '🔁 Looping the **queue**'
+};
+
+// The part of a queue that survives restarts
+interface SavedQueue {
+  tracks: Track[];        // Starts with the track that was playing
+  loopMode: LoopMode;
   textChannelId?: string;
 }
 
+/**
+ * Parse a position like "90", "1:30" or "1:02:30" into seconds, or null if invalid
+ */
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
 class MusicService {
   private queues: Map<string, GuildQueue> = new Map();
+  private savedQueues = new StoredMap<SavedQueue>('music.queues');
+  private history = new StoredMap<PlayedTrack[]>('music.history');
 
   constructor() {
     // Initialize play-dl (no auth needed for basic YouTube)
@@ -60,12 +139,16 @@ class MusicService {
       }
     });
 
+    const saved = this.savedQueues.get(guildId);
     const queue: GuildQueue = {
-      tracks: [],
+      tracks: saved ? [...saved.tracks] : [],
       currentTrack: null,
       player,
-      volume: 100,
-      loop: false
+      loopMode: saved?.loopMode ?? 'off',
+      skipping: false,
+      jumpedOver: [],
+      skipVotes: new Set(),
+      textChannelId: saved?.textChannelId
     };
 
     // Handle player state changes
@@ -82,6 +165,20 @@ class MusicService {
     return queue;
   }
 
+  /**
+   * Save a guild's queue so it can be restored after a restart
+   */
+  private saveQueue(guildId: string): void {
+    const queue = this.getQueue(guildId);
+    if (!queue) return;
+
+    this.savedQueues.set(guildId, {
+      tracks: queue.currentTrack ? [queue.currentTrack, ...queue.tracks] : [...queue.tracks],
+      loopMode: queue.loopMode,
+      textChannelId: queue.textChannelId
+    });
+  }
+
   /**
    * Search and get track info from a query or URL
    */
@@ -92,80 +189,28 @@ class MusicService {
 
       if (urlType === 'yt_video') {
         const info = await play.video_info(query);
-        return {
-          title: info.video_details.title || 'Unknown',
-          url: info.video_details.url,
-          duration: info.video_details.durationInSec,
-          thumbnail: info.video_details.thumbnails[0]?.url,
-          requestedBy,
-          source: 'youtube'
-        };
-      }
-
-      if (urlType === 'yt_playlist') {
-        // For playlists, just get the first video for now
-        const playlist = await play.playlist_info(query, { incomplete: true });
-        const videos = await playlist.all_videos();
-        if (videos.length > 0) {
-          const video = videos[0];
-          return {
-            title: video.title || 'Unknown',
-            url: video.url,
-            duration: video.durationInSec,
-            thumbnail: video.thumbnails[0]?.url,
-            requestedBy,
-            source: 'youtube'
-          };
-        }
+        return this.fromYouTube(info.video_details, requestedBy);
       }
 
       if (urlType === 'sp_track') {
         // Spotify track - search on YouTube
         const sp = await play.spotify(query);
         if (sp.type === 'track') {
-          const track = sp as SpotifyTrack;
-          const searchQuery = `${track.name} ${track.artists[0]?.name || ''}`;
-          const searched = await play.search(searchQuery, { limit: 1 });
-          if (searched.length > 0) {
-            return {
-              title: `${track.name} - ${track.artists[0]?.name || 'Unknown'}`,
-              url: searched[0].url,
-              duration: searched[0].durationInSec,
-              thumbnail: track.thumbnail?.url || searched[0].thumbnails[0]?.url,
-              requestedBy,
-              source: 'spotify'
-            };
-          }
+          return this.resolveTrack(this.fromSpotify(sp as SpotifyTrack, requestedBy));
         }
       }
 
       if (urlType === 'so_track') {
         const sc = await play.soundcloud(query);
         if (sc.type === 'track') {
-          const scTrack = sc as SoundCloudTrack;
-          return {
-            title: scTrack.name,
-            url: scTrack.url,
-            duration: Math.floor(scTrack.durationInMs / 1000),
-            thumbnail: scTrack.thumbnail,
-            requestedBy,
-            source: 'soundcloud'
-          };
+          return this.fromSoundCloud(sc as SoundCloudTrack, requestedBy);
         }
       }
 
-      // Not a URL - search YouTube
+      // Not a URL (or a playlist URL) - search YouTube
       const searched = await play.search(query, { limit: 1 });
       if (searched.length > 0) {
-        const video = searched[0];
-        return {
-          title: video.title || 'Unknown',
-          url: video.url,
-          duration: video.durationInSec,
-          thumbnail: video.thumbnails[0]?.url,
-          requestedBy,
-          source: 'youtube'
-        };
+        return this.fromYouTube(searched[0], requestedBy);
       }
 
       return null;
@@ -176,7 +221,194 @@ class MusicService {
   }
 
   /**
-   * Add a track to the queue and start playing if not already
+   * Load a YouTube, Spotify or SoundCloud playlist or album
+   * Only the first page is fetched here; the rest comes from `more`.
+   */
+  async searchPlaylist(url: string, requestedBy: string): Promise<Playlist | null> {
+    try {
+      const urlType = await play.validate(url);
+
+      if (urlType === 'yt_playlist') {
+        const playlist: YouTubePlayList = await play.playlist_info(url, { incomplete: true });
+        const toTracks = (videos: YouTubeVideo[]) => videos.map(video => this.fromYouTube(video, requestedBy));
+        return this.createPlaylist(
+          playlist.title || 'YouTube playlist',
+          playlist.url || url,
+          playlist.thumbnail?.url,
+          playlist.videoCount ?? playlist.total_videos,
+          toTracks(playlist.page(1) || []),
+          async function* () {
+            let videos = await playlist.next();
+            while (videos.length > 0) {
+              yield toTracks(videos);
+              videos = await playlist.next();
+            }
+          }
+        );
+      }
+
+      if (urlType === 'sp_playlist' || urlType === 'sp_album') {
+        const sp = await play.spotify(url) as SpotifyPlaylist | SpotifyAlbum;
+        const toTracks = (tracks: SpotifyTrack[]) => tracks.map(track => this.fromSpotify(track, requestedBy));
+        return this.createPlaylist(
+          sp.name,
+          sp.url,
+          sp.thumbnail?.url,
+          sp.tracksCount,
+          toTracks(sp.page(1) || []),
+          async function* () {
+            await sp.fetch();
+            for (let page = 2; page <= sp.total_pages; page++) {
+              yield toTracks(sp.page(page) || []);
+            }
+          }
+        );
+      }
+
+      if (urlType === 'so_playlist') {
+        const sc = await play.soundcloud(url) as SoundCloudPlaylist;
+        // Only some tracks come with full details; the rest are fetched in bulk
+        const loaded = (sc.tracks as unknown[]).filter((track): track is SoundCloudTrack => track instanceof SoundCloudTrack);
+        const loadedIds = new Set(loaded.map(track => track.id));
+        const toTracks = (tracks: SoundCloudTrack[]) => tracks.map(track => this.fromSoundCloud(track, requestedBy));
+        return this.createPlaylist(
+          sc.name,
+          sc.url,
+          undefined,
+          sc.tracksCount,
+          toTracks(loaded),
+          async function* () {
+            const all = await sc.all_tracks();
+            yield toTracks(all.filter(track => !loadedIds.has(track.id)));
+          }
+        );
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error loading playlist:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply the playlist length limit to the first page and the pages after it
+   */
+  private createPlaylist(
+    name: string,
+    url: string,
+    thumbnail: string | undefined,
+    trackCount: number,
+    firstPage: Track[],
+    loadMore: () => AsyncGenerator<Track[]>
+  ): Playlist {
+    const total = Math.min(Math.max(trackCount, firstPage.length), MAX_PLAYLIST_TRACKS);
+    const tracks = firstPage.slice(0, total);
+
+    const limit = async function* (): AsyncGenerator<Track[]> {
+      let remaining = total - tracks.length;
+      for await (const page of loadMore()) {
+        const accepted = page.slice(0, remaining);
+        remaining -= accepted.length;
+        if (accepted.length > 0) yield accepted;
+        if (remaining <= 0) break;
+      }
+    };
+
+    return {
+      name,
+      url,
+      thumbnail,
+      total,
+      truncated: trackCount > MAX_PLAYLIST_TRACKS,
+      tracks,
+      more: tracks.length < total ? limit() : undefined
+    };
+  }
+
+  /**
+   * Queue the rest of a playlist, page by page
+   * Stops when the queue is stopped or replaced in the meantime.
+   */
+  private async enqueueRemaining(guildId: string, queue: GuildQueue, pages: AsyncGenerator<Track[]>): Promise<void> {
+    try {
+      for await (const tracks of pages) {
+        if (this.getQueue(guildId) !== queue) {
+          await pages.return(undefined);
+          return;
+        }
+
+        queue.tracks.push(...tracks);
+        this.saveQueue(guildId);
+
+        // The queue may have run dry while the page was loading
+        if (!queue.currentTrack) {
+          this.playNext(guildId);
+        }
+      }
+    } catch (error) {
+      console.error(`Error loading the rest of a playlist in guild ${guildId}:`, error);
+    }
+  }
+
+  /**
+   * Look up a track's YouTube stream if it doesn't have one yet
+   */
+  private async resolveTrack(track: Track): Promise<Track | null> {
+    if (!track.query) return track;
+
+    const searched = await play.search(track.query, { limit: 1 });
+    if (searched.length === 0) return null;
+
+    const { query, ...resolved } = track;
+    return {
+      ...resolved,
+      url: searched[0].url,
+      duration: track.duration || searched[0].durationInSec,
+      thumbnail: track.thumbnail || searched[0].thumbnails[0]?.url
+    };
+  }
+
+  private fromYouTube(video: YouTubeVideo, requestedBy: string): Track {
+    return {
+      title: video.title || 'Unknown',
+      url: video.url,
+      duration: video.durationInSec,
+      thumbnail: video.thumbnails[0]?.url,
+      requestedBy,
+      source: 'youtube'
+    };
+  }
+
+  /**
+   * Spotify tracks can't be streamed; they are played from a YouTube search
+   */
+  private fromSpotify(track: SpotifyTrack, requestedBy: string): Track {
+    const artist = track.artists[0]?.name;
+    return {
+      title: `${track.name} - ${artist || 'Unknown'}`,
+      url: track.url,
+      duration: track.durationInSec,
+      thumbnail: track.thumbnail?.url,
+      requestedBy,
+      source: 'spotify',
+      query: `${track.name} ${artist || ''}`.trim()
+    };
+  }
+
+  private fromSoundCloud(track: SoundCloudTrack, requestedBy: string): Track {
+    return {
+      title: track.name,
+      url: track.url,
+      duration: Math.floor(track.durationInMs / 1000),
+      thumbnail: track.thumbnail,
+      requestedBy,
+      source: 'soundcloud'
+    };
+  }
+
+  /**
+   * Add a track, playlist or album to the queue and start playing if not already
    */
   async play(
     guild: Guild,
@@ -190,16 +422,29 @@ class MusicService {
       return { success: false, message: '❌ You need to be in a voice channel to play music!' };
     }
 
-    // Search for the track
-    const track = await this.searchTrack(query, member.user.username);
-    if (!track) {
-      return { success: false, message: '❌ Could not find that song. Try a different search or URL.' };
+    // Search for the track, or load the playlist
+    const urlType = await play.validate(query).catch(() => false as const);
+    let playlist: Playlist | null = null;
+    let track: Track | null;
+    if (urlType && PLAYLIST_URL_TYPES.includes(urlType)) {
+      playlist = await this.searchPlaylist(query, member.user.username);
+      if (!playlist || playlist.tracks.length === 0) {
+        return { success: false, message: '❌ Could not load that playlist. Make sure it is public and not empty.' };
+      }
+      track = playlist.tracks[0];
+    } else {
+      track = await this.searchTrack(query, member.user.username);
+      if (!track) {
+        return { success: false, message: '❌ Could not find that song. Try a different search or URL.' };
+      }
     }
 
-    // Get or create queue
+    // Get or create queue (restoring one saved before a restart)
     let queue = this.getQueue(guild.id);
+    let restoredTracks = 0;
     if (!queue) {
       queue = this.createQueue(guild.id);
+      restoredTracks = queue.tracks.length;
     }
     queue.textChannelId = textChannelId;
 
@@ -212,27 +457,40 @@ class MusicService {
         adapterCreator: guild.voiceAdapterCreator,
         selfDeaf: true
       });
-
-      // Subscribe the connection to the player
-      connection.subscribe(queue.player);
-
-      // Handle disconnection
-      connection.on(VoiceConnectionStatus.Disconnected, async () => {
-        try {
-          await Promise.race([
-            entersState(connection!, VoiceConnectionStatus.Signalling, 5_000),
-            entersState(connection!, VoiceConnectionStatus.Connecting, 5_000)
-          ]);
-        } catch {
-          this.destroy(guild.id);
-        }
-      });
     }
+    // Reconnects and idle/empty channel timeouts follow the guild's voice policy
+    getVoicePresence().watch(guild.id, connection);
+
+    // Play through the guild's mixer so TTS pauses the music instead of cutting it off
+    getAudioMixer().setMusicPlayer(guild.id, queue.player);
+    getVoiceListener().sync(guild.id);
 
     // Add to queue
-    queue.tracks.push(track);
+    const position = queue.tracks.length + 1;
+    queue.tracks.push(...(playlist ? playlist.tracks : [track]));
+    this.saveQueue(guild.id);
 
-    // Create embed
+    const embed = playlist
+      ? this.createPlaylistEmbed(playlist, position, !queue.currentTrack && position === 1)
+      : this.createTrackEmbed(track, queue, position);
+
+    if (restoredTracks > 0) {
+      embed.addFields({ name: 'Restored', value: `${restoredTracks} track(s) from before the restart`, inline: true });
+    }
+
+    // Start playing if not already
+    if (!queue.currentTrack) {
+      this.playNext(guild.id);
+    }
+
+    if (playlist?.more) {
+      void this.enqueueRemaining(guild.id, queue, playlist.more);
+    }
+
+    return { success: true, message: '', embed };
+  }
+
+  private createTrackEmbed(track: Track, queue: GuildQueue, position: number): EmbedBuilder {
     const embed = new EmbedBuilder()
       .setColor(0xFF0000)
       .setAuthor({ name: queue.currentTrack ? '🎵 Added to Queue' : '🎵 Now Playing' })
@@ -247,16 +505,51 @@ class MusicService {
       embed.setThumbnail(track.thumbnail);
     }
 
-    if (queue.tracks.length > 1) {
-      embed.addFields({ name: 'Position in queue', value: `#${queue.tracks.length}`, inline: true });
+    if (position > 1) {
+      embed.addFields({ name: 'Position in queue', value: `#${position}`, inline: true });
     }
 
-    // Start playing if not already
-    if (!queue.currentTrack) {
-      this.playNext(guild.id);
+    return embed;
+  }
+
+  /**
+   * "Added N tracks" summary for a playlist or album
+   */
+  private createPlaylistEmbed(playlist: Playlist, position: number, startsNow: boolean): EmbedBuilder {
+    const first = playlist.tracks[0];
+    const loadedDuration = playlist.tracks.reduce((acc, t) => acc + t.duration, 0);
+
+    const embed = new EmbedBuilder()
+      .setColor(0xFF0000)
+      .setAuthor({ name: `📃 Added ${playlist.total} tracks to the queue` })
+      .setTitle(playlist.name)
+      .setURL(playlist.url)
+      .addFields(
+        { name: startsNow ? 'Now Playing' : 'First track', value: first.title },
+        { name: 'Requested by', value: first.requestedBy, inline: true },
+        { name: 'Starts at', value: `#${position} in queue`, inline: true }
+      );
+
+    if (playlist.more) {
+      embed.addFields({
+        name: 'Loading',
+        value: `${playlist.tracks.length} queued (${this.formatDuration(loadedDuration)}), the rest is loading in the background`,
+        inline: false
+      });
+    } else {
+      embed.addFields({ name: 'Duration', value: this.formatDuration(loadedDuration), inline: true });
     }
 
-    return { success: true, message: '', embed };
+    if (playlist.truncated) {
+      embed.setFooter({ text: `Playlists are limited to ${MAX_PLAYLIST_TRACKS} tracks` });
+    }
+
+    const thumbnail = playlist.thumbnail || first.thumbnail;
+    if (thumbnail) {
+      embed.setThumbnail(thumbnail);
+    }
+
+    return embed;
   }
 
   /**
@@ -266,47 +559,75 @@ class MusicService {
     const queue = this.getQueue(guildId);
     if (!queue) return;
 
-    // If loop is on and there's a current track, re-add it
-    if (queue.loop && queue.currentTrack) {
-      queue.tracks.push(queue.currentTrack);
+    // Put the finished track back according to the loop mode
+    if (queue.currentTrack) {
+      if (queue.loopMode === 'track' && !queue.skipping) {
+        queue.tracks.unshift(queue.currentTrack);
+      } else if (queue.loopMode === 'queue') {
+        queue.tracks.push(queue.currentTrack, ...queue.jumpedOver);
+      }
     }
+    queue.skipping = false;
+    queue.jumpedOver = [];
 
     // Get next track
     const track = queue.tracks.shift();
     if (!track) {
       queue.currentTrack = null;
-      // Don't disconnect immediately - wait a bit
-      setTimeout(() => {
-        const q = this.getQueue(guildId);
-        if (q && !q.currentTrack && q.tracks.length === 0) {
-          this.destroy(guildId);
-        }
-      }, 60000); // Disconnect after 1 minute of inactivity
+      // The voice policy's idle timeout decides when to leave
+      this.saveQueue(guildId);
       return;
     }
 
     queue.currentTrack = track;
+    queue.skipVotes.clear();
+    this.saveQueue(guildId);
 
     try {
-      // Get audio stream
-      const stream = await play.stream(track.url);
-      const resource = createAudioResource(stream.stream, {
-        inputType: stream.type,
-        inlineVolume: true
-      });
-
-      if (resource.volume) {
-        resource.volume.setVolume(queue.volume / 100);
+      // Playlist tracks from Spotify are looked up on YouTube only now
+      const resolved = await this.resolveTrack(track);
+      if (!resolved) {
+        console.error(`No YouTube match for "${track.title}", skipping`);
+        queue.currentTrack = null;
+        this.playNext(guildId);
+        return;
+      }
+      if (resolved !== track) {
+        queue.currentTrack = resolved;
+        this.saveQueue(guildId);
       }
 
-      queue.player.play(resource);
+      await this.startStream(guildId, queue, resolved);
+      this.addToHistory(guildId, resolved);
     } catch (error) {
       console.error('Error playing track:', error);
-      // Try next track
+      // Drop it (even when looping) and try the next track
+      queue.currentTrack = null;
       this.playNext(guildId);
     }
   }
 
+  /**
+   * Stream a track into the guild's player, optionally from a position
+   */
+  private async startStream(guildId: string, queue: GuildQueue, track: Track, seek = 0): Promise<void> {
+    const stream = await play.stream(track.url, seek > 0 ? { seek } : undefined);
+    queue.player.play(getAudioMixer().createResource(guildId, stream.stream, 'music', stream.type));
+  }
+
+  /**
+   * Remember a track that started playing (a looping track is only added once)
+   */
+  private addToHistory(guildId: string, track: Track): void {
+    const history = this.history.get(guildId) || [];
+    if (history[0]?.url === track.url && this.getQueue(guildId)?.loopMode === 'track') {
+      return;
+    }
+
+    history.unshift({ ...track, playedAt: new Date().toISOString() });
+    this.history.set(guildId, history.slice(0, HISTORY_SIZE));
+  }
+
   /**
    * Skip the current track
    */
@@ -317,10 +638,39 @@ class MusicService {
     }
 
     const skipped = queue.currentTrack.title;
+    queue.skipping = true;
     queue.player.stop();
     return { success: true, message: `⏭️ Skipped **${skipped}**` };
   }
 
+  /**
+   * Vote to skip the current track; it is skipped once a majority of the
+   * listeners in the bot's voice channel have voted
+   */
+  voteSkip(member: GuildMember): { success: boolean; message: string } {
+    const guildId = member.guild.id;
+    const queue = this.getQueue(guildId);
+    if (!queue || !queue.currentTrack) {
+      return { success: false, message: '❌ Nothing is playing!' };
+    }
+
+    const channel = member.voice.channel;
+    if (!channel || channel.id !== getVoiceConnection(guildId)?.joinConfig.channelId) {
+      return { success: false, message: '❌ You need to be in the voice channel with the bot to vote.' };
+    }
+
+    queue.skipVotes.add(member.id);
+    // Votes of people who have since left don't count
+    const listeners = channel.members.filter(listener => !listener.user.bot);
+    const votes = [...queue.skipVotes].filter(userId => listeners.has(userId)).length;
+    const needed = Math.floor(listeners.size / 2) + 1;
+
+    if (votes >= needed) {
+      return { success: true, message: `🗳️ Vote passed (${votes}/${needed}). ${this.skip(guildId).message}` };
+    }
+    return { success: true, message: `🗳️ Vote to skip **${queue.currentTrack.title}**: ${votes}/${needed}` };
+  }
+
   /**
    * Stop playback and clear queue
    */
@@ -347,6 +697,11 @@ class MusicService {
       return { success: false, message: '❌ Nothing is playing!' };
     }
 
+    // Paused for TTS: stay paused once it's done
+    if (getAudioMixer().holdMusic(guildId)) {
+      return { success: true, message: '⏸️ Paused.' };
+    }
+
     if (queue.player.state.status === AudioPlayerStatus.Paused) {
       return { success: false, message: '⏸️ Already paused!' };
     }
@@ -369,48 +724,195 @@ class MusicService {
     }
 
     queue.player.unpause();
+    if (getAudioMixer().isPlayingClips(guildId)) {
+      return { success: true, message: '▶️ Resuming after the current announcement.' };
+    }
     return { success: true, message: '▶️ Resumed.' };
   }
 
   /**
-   * Set volume
+   * Set the loop mode, or cycle off -> track -> queue when no mode is given
    */
-  setVolume(guildId: string, volume: number): { success: boolean; message: string } {
+  setLoopMode(guildId: string, mode?: LoopMode): { success: boolean; message: string } {
     const queue = this.getQueue(guildId);
     if (!queue) {
       return { success: false, message: '❌ Nothing is playing!' };
     }
 
-    queue.volume = Math.max(0, Math.min(150, volume));
+    queue.loopMode = mode ?? LOOP_MODES[(LOOP_MODES.indexOf(queue.loopMode) + 1) % LOOP_MODES.length];
+    this.saveQueue(guildId);
+    return { success: true, message: LOOP_MESSAGES[queue.loopMode] };
+  }
+
+  /**
+   * Shuffle the upcoming tracks
+   */
+  shuffle(guildId: string): { success: boolean; message: string } {
+    const queue = this.getQueue(guildId);
+    if (!queue || queue.tracks.length < 2) {
+      return { success: false, message: '❌ Not enough tracks in the queue to shuffle!' };
+    }
+
+    for (let i = queue.tracks.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [queue.tracks[i], queue.tracks[j]] = [queue.tracks[j], queue.tracks[i]];
+    }
+    this.saveQueue(guildId);
+    return { success: true, message: `🔀 Shuffled **${queue.tracks.length}** tracks` };
+  }
+
+  /**
+   * Remove an upcoming track by its queue position (1-based)
+   */
+  remove(guildId: string, position: number): { success: boolean; message: string } {
+    const queue = this.getQueue(guildId);
+    const error = this.checkPosition(queue, position);
+    if (error) return { success: false, message: error };
+
+    const [removed] = queue!.tracks.splice(position - 1, 1);
+    this.saveQueue(guildId);
+    return { success: true, message: `🗑️ Removed **${removed.title}** from the queue` };
+  }
+
+  /**
+   * Move an upcoming track to another queue position (1-based)
+   */
+  move(guildId: string, from: number, to: number): { success: boolean; message: string } {
+    const queue = this.getQueue(guildId);
+    const error = this.checkPosition(queue, from) || this.checkPosition(queue, to);
+    if (error) return { success: false, message: error };
+
+    const [track] = queue!.tracks.splice(from - 1, 1);
+    queue!.tracks.splice(to - 1, 0, track);
+    this.saveQueue(guildId);
+    return { success: true, message: `↕️ Moved **${track.title}** to position **${to}**` };
+  }
 
-    // Update current resource volume if playing
-    const state = queue.player.state;
-    if (state.status === AudioPlayerStatus.Playing && 'resource' in state) {
-      const resource = state.resource;
-      if (resource.volume) {
-        resource.volume.setVolume(queue.volume / 100);
+  /**
+   * Skip straight to a queue position (1-based); the tracks before it are
+   * dropped, or moved to the end (after the current track) when looping the queue
+   */
+  jump(guildId: string, position: number): { success: boolean; message: string } {
+    const queue = this.getQueue(guildId);
+    const error = this.checkPosition(queue, position);
+    if (error) return { success: false, message: error };
+
+    const skipped = queue!.tracks.splice(0, position - 1);
+    if (queue!.loopMode === 'queue') {
+      // The current track goes back to the end first, so the loop keeps its order
+      if (queue!.currentTrack) {
+        queue!.jumpedOver.push(...skipped);
+      } else {
+        queue!.tracks.push(...skipped);
       }
     }
+    const target = queue!.tracks[0];
 
-    return { success: true, message: `🔊 Volume set to **${queue.volume}%**` };
+    if (queue!.currentTrack) {
+      queue!.skipping = true;
+      queue!.player.stop();
+    } else {
+      this.playNext(guildId);
+    }
+    return { success: true, message: `⏭️ Jumped to **${target.title}**` };
   }
 
   /**
-   * Toggle loop
+   * Restart the current track at a position in seconds
    */
-  toggleLoop(guildId: string): { success: boolean; message: string } {
+  async seek(guildId: string, seconds: number): Promise<{ success: boolean; message: string }> {
     const queue = this.getQueue(guildId);
-    if (!queue) {
+    const track = queue?.currentTrack;
+    if (!queue || !track) {
       return { success: false, message: '❌ Nothing is playing!' };
     }
+    if (track.source === 'soundcloud' || track.source === 'url') {
+      return { success: false, message: '❌ Seeking is only supported for YouTube and Spotify tracks.' };
+    }
+    if (!Number.isFinite(seconds) || seconds < 0 || (track.duration > 0 && seconds >= track.duration)) {
+      return { success: false, message: `❌ Position must be between 0:00 and ${this.formatDuration(track.duration)}.` };
+    }
+
+    try {
+      await this.startStream(guildId, queue, track, Math.floor(seconds));
+      return { success: true, message: `⏩ Seeked to **${this.formatDuration(seconds)}**` };
+    } catch (error) {
+      console.error('Error seeking:', error);
+      return { success: false, message: '❌ Could not seek in this track.' };
+    }
+  }
+
+  /**
+   * Remove all upcoming tracks, keeping the current one playing
+   */
+  clearQueue(guildId: string): { success: boolean; message: string } {
+    const queue = this.getQueue(guildId);
+    if (!queue || queue.tracks.length === 0) {
+      return { success: false, message: '❌ The queue is already empty!' };
+    }
+
+    const count = queue.tracks.length;
+    queue.tracks = [];
+    this.saveQueue(guildId);
+    return { success: true, message: `🧹 Cleared **${count}** tracks from the queue` };
+  }
+
+  /**
+   * Current queue as plain data (empty when nothing is playing)
+   */
+  getQueueInfo(guildId: string): QueueInfo {
+    const queue = this.getQueue(guildId);
+    const volume = getAudioSettings().get(guildId).volume;
+    if (!queue) {
+      return { guildId, currentTrack: null, paused: false, tracks: [], totalDuration: 0, volume, loopMode: 'off' };
+    }
 
-    queue.loop = !queue.loop;
     return {
-      success: true,
-      message: queue.loop ? '🔁 Loop **enabled**' : '➡️ Loop **disabled**'
+      guildId,
+      currentTrack: queue.currentTrack,
+      paused: queue.player.state.status === AudioPlayerStatus.Paused,
+      tracks: [...queue.tracks],
+      totalDuration: queue.tracks.reduce((acc, t) => acc + t.duration, 0) + (queue.currentTrack?.duration || 0),
+      volume,
+      loopMode: queue.loopMode
     };
   }
 
+  /**
+   * Recently played tracks, most recent first
+   */
+  getHistory(guildId: string, limit = HISTORY_SIZE): PlayedTrack[] {
+    return (this.history.get(guildId) || []).slice(0, limit);
+  }
+
+  getHistoryEmbed(guildId: string): EmbedBuilder | null {
+    const history = this.getHistory(guildId, 10);
+    if (history.length === 0) return null;
+
+    const lines = history.map((t, i) => {
+      const playedAt = Math.floor(new Date(t.playedAt).getTime() / 1000);
+      return `**${i + 1}.** [${t.title}](${t.url}) - ${this.formatDuration(t.duration)} • <t:${playedAt}:R>`;
+    });
+
+    return new EmbedBuilder()
+      .setColor(0x7289DA)
+      .setTitle('📜 Recently Played')
+      .setDescription(lines.join('\n'));
+  }
+
+  /**
+   * Error message if a 1-based position is not in the queue
+   */
+  private checkPosition(queue: GuildQueue | undefined, position: number): string | null {
+    if (!queue || queue.tracks.length === 0) {
+      return '❌ The queue is empty!';
+    }
+    if (!Number.isInteger(position) || position < 1 || position > queue.tracks.length) {
+      return `❌ Position must be between 1 and ${queue.tracks.length}.`;
+    }
+    return null;
+  }
+
   /**
    * Get current queue
    */
@@ -452,8 +954,12 @@ class MusicService {
       inline: true
     });
 
-    if (queue.loop) {
-      embed.addFields({ name: 'Loop', value: '🔁 Enabled', inline: true });
+    if (queue.loopMode !== 'off') {
+      embed.addFields({
+        name: 'Loop',
+        value: queue.loopMode === 'track' ? '🔂 Track' : '🔁 Queue',
+        inline: true
+      });
     }
 
     return embed;
@@ -477,7 +983,7 @@ class MusicService {
       .addFields(
         { name: 'Duration', value: this.formatDuration(track.duration), inline: true },
         { name: 'Requested by', value: track.requestedBy, inline: true },
-        { name: 'Volume', value: `${queue.volume}%`, inline: true }
+        { name: 'Volume', value: `${getAudioSettings().get(guildId).volume}%`, inline: true }
       );
 
     if (track.thumbnail) {
@@ -500,7 +1006,9 @@ class MusicService {
       queue.player.stop();
       this.queues.delete(guildId);
     }
+    this.savedQueues.delete(guildId);
 
+    getAudioMixer().destroy(guildId);
     const connection = getVoiceConnection(guildId);
     if (connection) {
       connection.destroy();
@@ -0,0 +1,354 @@
+/**
+ * Player Progress - World of Warships stat history for watched and linked players
+ *
+ * Wargaming only reports lifetime totals, so progress is worked out from
+ * snapshots of those totals taken over time. Every WOWS_SNAPSHOT_HOURS the
+ * totals of all watched players and linked accounts are fetched (batched per
+ * region) and a snapshot is stored whenever the battle count changed. Progress over a window
+ * compares the live totals with the last snapshot before the window: lifetime
+ * changes, plus win rate, damage and PR over just the battles in between.
+ */
+
+import { PeriodicTask } from '../core/PeriodicTask.js';
+import { StoredMap } from '../core/Storage.js';
+import { getAccountLinks } from './account-links.js';
+import {
+  calculatePR,
+  findInRegions,
+  getPlayersStats,
+  getPlayerStats,
+  getPRRating,
+  searchPlayer,
+  WOWS_REGIONS,
+  type PlayerStats,
+  type WowsRegion
+} from './wargaming-api.js';
+
+export interface StatSnapshot {
+  at: string;                 // ISO 8601
+  battles: number;
+  wins: number;
+  damageDealt: number;
+  frags: number;
+  survived: number;
+  lastBattle?: number;        // Epoch seconds
+}
+
+export interface WatchedPlayer {
+  accountId: number;
+  nickname: string;
+  region: WowsRegion;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface StatLine {
+  battles: number;
+  winRate: number;
+  avgDamage: number;
+  avgFrags: number;
+  survivalRate: number;
+  pr: number;
+  prRating: string;
+}
+
+export interface PlayerProgress {
+  accountId: number;
+  nickname: string;
+  region: WowsRegion;
+  days: number;
+  since: string;              // Start of the requested window
+  from: string;               // Snapshot compared against; later than since if history is shorter
+  until: string;
+  start: StatLine;            // Lifetime stats at `from`
+  current: StatLine;          // Lifetime stats now
+  change: {
+    battles: number;
+    winRate: number;
+    avgDamage: number;
+    pr: number;
+  };
+  recent: StatLine | null;    // Stats over the battles played in the window; null if none
+  snapshots: number;          // Snapshots stored for the player
+}
+
+export const MAX_PROGRESS_DAYS = 90;
+export const MAX_WATCHED_PER_GUILD = 100;
+
+const SNAPSHOT_INTERVAL_MS = (parseFloat(process.env.WOWS_SNAPSHOT_HOURS || '') || 6) * 60 * 60 * 1000;
+const RETENTION_DAYS = parseInt(process.env.WOWS_SNAPSHOT_RETENTION_DAYS || '') || 180;
+const FIRST_RUN_DELAY_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function seriesKey(region: WowsRegion, accountId: number): string {
+  return `${region}:${accountId}`;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Per-battle stats for a number of battles
+ */
+function statLine(battles: number, wins: number, damageDealt: number, frags: number, survived: number): StatLine {
+  const count = battles || 1;
+  const winRate = wins / count * 100;
+  const avgDamage = damageDealt / count;
+  const avgFrags = frags / count;
+  const pr = battles > 0 ? calculatePR(avgDamage, winRate, avgFrags) : 0;
+  return {
+    battles,
+    winRate: round(winRate),
+    avgDamage: Math.round(avgDamage),
+    avgFrags: round(avgFrags),
+    survivalRate: round(survived / count * 100),
+    pr,
+    prRating: battles > 0 ? getPRRating(pr) : 'No PvP Data'
+  };
+}
+
+function lifetime(snapshot: StatSnapshot): StatLine {
+  return statLine(snapshot.battles, snapshot.wins, snapshot.damageDealt, snapshot.frags, snapshot.survived);
+}
+
+function toSnapshot(stats: PlayerStats): StatSnapshot | null {
+  const pvp = stats.statistics?.pvp;
+  if (stats.hidden_profile || !pvp) return null;
+  return {
+    at: new Date().toISOString(),
+    battles: pvp.battles,
+    wins: pvp.wins,
+    damageDealt: pvp.damage_dealt,
+    frags: pvp.frags,
+    survived: pvp.survived_battles,
+    lastBattle: stats.last_battle_time
+  };
+}
+
+export class PlayerProgressTracker {
+  private watched = new StoredMap<WatchedPlayer[]>('wows.watched');
+  private snapshots = new StoredMap<StatSnapshot[]>('wows.snapshots');
+  private task = new PeriodicTask('WoWS stat snapshots', () => this.takeSnapshots(), SNAPSHOT_INTERVAL_MS, FIRST_RUN_DELAY_MS);
+
+  /**
+   * Start taking snapshots on a schedule
+   */
+  start(): void {
+    this.task.start();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  getWatched(guildId: string): WatchedPlayer[] {
+    return this.watched.get(guildId) || [];
+  }
+
+  /**
+   * Watch a player in a guild; returns the player, or null if not found
+   */
+  async watch(guildId: string, playerName: string, region: WowsRegion, fallback: boolean, addedBy: string): Promise<WatchedPlayer | null> {
+    const found = await this.findPlayer(playerName, region, fallback);
+    if (!found) return null;
+
+    const list = this.getWatched(guildId);
+    const existing = list.find(p => p.accountId === found.player.account_id && p.region === found.region);
+    if (existing) return existing;
+    if (list.length >= MAX_WATCHED_PER_GUILD) {
+      throw new Error(`This server already watches ${MAX_WATCHED_PER_GUILD} players. Unwatch someone first.`);
+    }
+
+    const watched: WatchedPlayer = {
+      accountId: found.player.account_id,
+      nickname: found.player.nickname,
+      region: found.region,
+      addedBy,
+      addedAt: new Date().toISOString()
+    };
+    this.watched.set(guildId, [...list, watched]);
+
+    // Baseline right away, so progress can be shown from today
+    const stats = await getPlayerStats(watched.accountId, watched.region);
+    const snapshot = stats ? toSnapshot(stats) : null;
+    if (snapshot) {
+      this.record(watched.region, watched.accountId, snapshot);
+    }
+    return watched;
+  }
+
+  /**
+   * Stop watching a player (by nickname, case-insensitive); returns the removed player
+   */
+  unwatch(guildId: string, nickname: string, region?: WowsRegion): WatchedPlayer | null {
+    const list = this.getWatched(guildId);
+    const removed = list.find(p => p.nickname.toLowerCase() === nickname.toLowerCase() && (!region || p.region === region));
+    if (!removed) return null;
+
+    const remaining = list.filter(p => p !== removed);
+    if (remaining.length > 0) {
+      this.watched.set(guildId, remaining);
+    } else {
+      this.watched.delete(guildId);
+    }
+    return removed;
+  }
+
+  /**
+   * Stored snapshots of a player, oldest first
+   */
+  getSnapshots(region: WowsRegion, accountId: number): StatSnapshot[] {
+    return this.snapshots.get(seriesKey(region, accountId)) || [];
+  }
+
+  /**
+   * Progress of a player over the last `days` days, against live stats.
+   * The live stats are only stored for watched and linked players; anyone
+   * else is compared with the history kept for them, if any.
+   * Returns null if the player is not found; throws if the profile is hidden.
+   */
+  async getProgress(playerName: string, region: WowsRegion, days: number, fallback: boolean = true): Promise<PlayerProgress | null> {
+    const found = await this.findPlayer(playerName, region, fallback);
+    if (!found) return null;
+
+    const { player } = found;
+    const stats = await getPlayerStats(player.account_id, found.region);
+    const current = stats ? toSnapshot(stats) : null;
+    if (!current) {
+      throw new Error(`${player.nickname}'s profile is hidden or has no PvP battles.`);
+    }
+    if (this.trackedAccounts().has(seriesKey(found.region, player.account_id))) {
+      this.record(found.region, player.account_id, current);
+    }
+
+    const window = Math.min(Math.max(days, 1), MAX_PROGRESS_DAYS);
+    const since = new Date(Date.now() - window * DAY_MS).toISOString();
+    const history = this.getSnapshots(found.region, player.account_id);
+    // The last snapshot from before the window, or else the oldest one
+    const baseline = [...history].reverse().find(s => s.at <= since) ?? history[0] ?? current;
+
+    const start = lifetime(baseline);
+    const now = lifetime(current);
+    const battles = current.battles - baseline.battles;
+
+    return {
+      accountId: player.account_id,
+      nickname: player.nickname,
+      region: found.region,
+      days: window,
+      since,
+      from: baseline.at,
+      until: current.at,
+      start,
+      current: now,
+      change: {
+        battles,
+        winRate: round(now.winRate - start.winRate),
+        avgDamage: now.avgDamage - start.avgDamage,
+        pr: now.pr - start.pr
+      },
+      recent: battles > 0
+        ? statLine(
+            battles,
+            current.wins - baseline.wins,
+            current.damageDealt - baseline.damageDealt,
+            current.frags - baseline.frags,
+            current.survived - baseline.survived
+          )
+        : null,
+      snapshots: history.length
+    };
+  }
+
+  /**
+   * Snapshot every watched player and linked account now
+   */
+  async runSnapshots(): Promise<number> {
+    return (await this.task.run()) ?? 0;
+  }
+
+  private async takeSnapshots(): Promise<number> {
+    let recorded = 0;
+
+    try {
+      const tracked = [...this.trackedAccounts().values()];
+      for (const region of WOWS_REGIONS) {
+        const ids = tracked.filter(account => account.region === region).map(account => account.accountId);
+        if (ids.length === 0) continue;
+
+        const stats = await getPlayersStats(ids, region);
+        for (const [accountId, entry] of stats) {
+          const snapshot = toSnapshot(entry);
+          if (snapshot && this.record(region, accountId, snapshot)) {
+            recorded++;
+          }
+        }
+      }
+      this.prune();
+    } catch (error) {
+      console.error('WoWS stat snapshots failed:', error);
+    }
+    return recorded;
+  }
+
+  /**
+   * Accounts snapshotted on schedule, by series key: watched in any guild or linked by a member
+   */
+  private trackedAccounts(): Map<string, { region: WowsRegion; accountId: number }> {
+    const accounts = new Map<string, { region: WowsRegion; accountId: number }>();
+    const all = [...this.watched.keys().flatMap(guildId => this.getWatched(guildId)), ...getAccountLinks().getLinks()];
+    for (const { region, accountId } of all) {
+      accounts.set(seriesKey(region, accountId), { region, accountId });
+    }
+    return accounts;
+  }
+
+  private findPlayer(playerName: string, region: WowsRegion, fallback: boolean) {
+    return findInRegions(region, async (r, exactOnly) => {
+      const player = await searchPlayer(playerName, r, exactOnly);
+      return player ? { player, region: r } : null;
+    }, fallback);
+  }
+
+  /**
+   * Store a snapshot if the battle count changed; returns whether it was stored
+   */
+  private record(region: WowsRegion, accountId: number, snapshot: StatSnapshot): boolean {
+    const key = seriesKey(region, accountId);
+    const history = this.snapshots.get(key) || [];
+    const last = history[history.length - 1];
+    if (last && last.battles === snapshot.battles) return false;
+
+    this.snapshots.set(key, [...history, snapshot]);
+    return true;
+  }
+
+  /**
+   * Drop snapshots past retention, keeping each series' newest as a baseline
+   */
+  private prune(): void {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString();
+    const tracked = this.trackedAccounts();
+
+    for (const [key, history] of this.snapshots.entries()) {
+      const kept = history.filter((s, i) => s.at >= cutoff || i === history.length - 1);
+      if (kept[kept.length - 1].at < cutoff && !tracked.has(key)) {
+        // No longer watched or linked
+        this.snapshots.delete(key);
+      } else if (kept.length !== history.length) {
+        this.snapshots.set(key, kept);
+      }
+    }
+  }
+}
+
+let playerProgress: PlayerProgressTracker | null = null;
+
+export function getPlayerProgress(): PlayerProgressTracker {
+  if (!playerProgress) {
+    playerProgress = new PlayerProgressTracker();
+  }
+  return playerProgress;
+}
@@ -0,0 +1,90 @@
+/**
+ * Pronunciations - per-guild words the TTS voice should say differently
+ *
+ * Entries replace whole words (case-insensitively) before text is spoken,
+ * e.g. "AMutantCow" -> "A Mutant Cow". The replacement follows the case of the
+ * spoken word when it is all upper or lower case. Built-in entries apply to
+ * every guild unless the guild overrides them. Kept in persistent storage.
+ */
+
+import { StoredMap } from '../core/Storage.js';
+
+const BUILT_IN_PRONUNCIATIONS: Record<string, string> = {
+  'amutantcow': 'A Mutant Cow'
+};
+
+const MAX_PRONUNCIATIONS_PER_GUILD = 100;
+const MAX_WORD_LENGTH = 50;
+const MAX_REPLACEMENT_LENGTH = 100;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class PronunciationStore {
+  private guilds = new StoredMap<Record<string, string>>('tts.pronunciations');
+
+  /**
+   * Built-in and custom entries for a guild, keyed by lower-case word
+   */
+  list(guildId: string): Record<string, string> {
+    return { ...BUILT_IN_PRONUNCIATIONS, ...this.guilds.get(guildId) };
+  }
+
+  set(guildId: string, word: string, replacement: string): void {
+    const key = word.trim().toLowerCase();
+    const value = replacement.trim();
+    if (!key || key.length > MAX_WORD_LENGTH || /\s/.test(key)) {
+      throw new Error(`The word must be a single word of up to ${MAX_WORD_LENGTH} characters.`);
+    }
+    if (!value || value.length > MAX_REPLACEMENT_LENGTH) {
+      throw new Error(`The pronunciation must be 1-${MAX_REPLACEMENT_LENGTH} characters.`);
+    }
+
+    const entries = this.guilds.get(guildId) || {};
+    if (!(key in entries) && Object.keys(entries).length >= MAX_PRONUNCIATIONS_PER_GUILD) {
+      throw new Error(`This server already has the maximum of ${MAX_PRONUNCIATIONS_PER_GUILD} pronunciations.`);
+    }
+    entries[key] = value;
+    this.guilds.set(guildId, entries);
+  }
+
+  /**
+   * Remove a custom entry; returns false if the guild had none for the word
+   */
+  remove(guildId: string, word: string): boolean {
+    const key = word.trim().toLowerCase();
+    const entries = this.guilds.get(guildId);
+    if (!entries || !(key in entries)) return false;
+
+    delete entries[key];
+    this.guilds.set(guildId, entries);
+    return true;
+  }
+
+  /**
+   * Rewrite text so the TTS voice pronounces the guild's words correctly
+   */
+  apply(guildId: string | null | undefined, text: string): string {
+    const entries = guildId ? this.list(guildId) : BUILT_IN_PRONUNCIATIONS;
+    let result = text;
+    for (const [word, replacement] of Object.entries(entries)) {
+      const regex = new RegExp(`\\b${escapeRegExp(word)}\\b`, 'gi');
+      result = result.replace(regex, (match) => {
+        if (match === match.toUpperCase() && match !== match.toLowerCase()) return replacement.toUpperCase();
+        if (match === match.toLowerCase()) return replacement.toLowerCase();
+        return replacement;
+      });
+    }
+    return result;
+  }
+}
+
+let pronunciationStore: PronunciationStore | null = null;
+
+export function getPronunciationStore(): PronunciationStore {
+  if (!pronunciationStore) {
+    pronunciationStore = new PronunciationStore();
+  }
+  return pronunciationStore;
+}
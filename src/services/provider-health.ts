@@ -0,0 +1,287 @@
+/**
+ * Provider Health - success/latency/error stats, circuit breaker and daily
+ * token quotas for the AI providers
+ *
+ * After AI_CIRCUIT_FAILURE_THRESHOLD consecutive failures a provider's
+ * circuit opens and it is skipped for a cooldown that doubles on every trip
+ * (AI_CIRCUIT_COOLDOWN_SECONDS, capped at AI_CIRCUIT_MAX_COOLDOWN_SECONDS).
+ * A provider that answers with Retry-After is skipped for at least that long.
+ * Once the cooldown is over a single request is let through to probe it.
+ *
+ * Token usage is counted per UTC day; a provider that reaches its daily
+ * limit is skipped until midnight UTC. Stats are kept in memory only.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderStats {
+  name: string;
+  requests: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number;        // Over successful requests
+  circuit: CircuitState;
+  retryAt?: number;                // When an open circuit will let a probe through
+  tokensToday: number;
+  dailyTokenLimit?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+interface ProviderState {
+  requests: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  totalLatencyMs: number;
+  trips: number;                   // Consecutive circuit openings, for backoff
+  openUntil: number;
+  probeStartedAt: number;          // When the current half-open probe request started
+  usageDay: string;
+  tokensToday: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  lastSuccessAt?: number;
+}
+
+/** Error from a provider request, carrying the HTTP status and Retry-After delay */
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+const FAILURE_THRESHOLD = parseInt(process.env.AI_CIRCUIT_FAILURE_THRESHOLD || '') || 3;
+const COOLDOWN_MS = (parseInt(process.env.AI_CIRCUIT_COOLDOWN_SECONDS || '') || 60) * 1000;
+const MAX_COOLDOWN_MS = (parseInt(process.env.AI_CIRCUIT_MAX_COOLDOWN_SECONDS || '') || 3600) * 1000;
+const MAX_RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+// A probe that never finishes must not block the provider forever
+const PROBE_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? Math.min(seconds * 1000, MAX_RETRY_AFTER_MS) : undefined;
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.min(Math.max(0, date - Date.now()), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Daily token limits from AI_DAILY_TOKEN_LIMITS, e.g. "deepseek:500000,groq:100000"
+ * A limit of 0 removes the provider's default limit.
+ */
+function parseTokenLimits(value: string | undefined): Map<string, number> {
+  const limits = new Map<string, number>();
+  for (const entry of (value || '').split(',')) {
+    const [name, limit] = entry.split(':').map(part => part.trim());
+    const parsed = parseInt(limit);
+    if (name && !isNaN(parsed) && parsed >= 0) {
+      limits.set(name.toLowerCase(), parsed);
+    }
+  }
+  return limits;
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+}
+
+export class ProviderHealth {
+  private states: Map<string, ProviderState> = new Map();
+  private limits: Map<string, number | undefined> = new Map();
+  private readonly limitOverrides = parseTokenLimits(process.env.AI_DAILY_TOKEN_LIMITS);
+
+  /**
+   * Start tracking a provider
+   * @param defaultTokenLimit Daily token limit unless AI_DAILY_TOKEN_LIMITS overrides it
+   */
+  register(name: string, defaultTokenLimit?: number): void {
+    const override = this.limitOverrides.get(name);
+    const limit = override !== undefined ? override : defaultTokenLimit;
+    this.limits.set(name, limit ? limit : undefined);
+    this.getState(name);
+  }
+
+  /**
+   * Why a provider should be skipped right now, or null if it can be tried
+   */
+  getSkipReason(name: string): string | null {
+    const state = this.getState(name);
+    const limit = this.limits.get(name);
+
+    if (limit && state.tokensToday >= limit) {
+      return 'daily token quota used up';
+    }
+    if (state.openUntil > Date.now()) {
+      return `circuit open for ${formatDuration(state.openUntil - Date.now())}`;
+    }
+    if (this.isProbing(state)) {
+      return 'recovery probe in progress';
+    }
+    return null;
+  }
+
+  /**
+   * Claim a provider for a request. Returns false if it should be skipped.
+   * When the circuit is half-open only one request is let through.
+   */
+  tryAcquire(name: string): boolean {
+    if (this.getSkipReason(name)) return false;
+
+    const state = this.getState(name);
+    if (this.getCircuit(state) === 'half-open') {
+      state.probeStartedAt = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * The earliest time any of these providers can be tried again
+   */
+  getNextRetryTime(names: string[]): number | undefined {
+    const times = names.map(name => {
+      const state = this.getState(name);
+      const limit = this.limits.get(name);
+      return limit && state.tokensToday >= limit ? nextUtcMidnight() : state.openUntil;
+    }).filter(time => time > Date.now());
+
+    return times.length > 0 ? Math.min(...times) : undefined;
+  }
+
+  recordSuccess(name: string, latencyMs: number): void {
+    const state = this.getState(name);
+    state.requests++;
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.totalLatencyMs += latencyMs;
+    state.trips = 0;
+    state.openUntil = 0;
+    state.probeStartedAt = 0;
+    state.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * Count a failed request, opening the circuit when the provider looks down
+   */
+  recordFailure(name: string, error: unknown): void {
+    const state = this.getState(name);
+    const wasProbing = this.isProbing(state);
+    const message = error instanceof Error ? error.message : String(error);
+
+    state.requests++;
+    state.failures++;
+    state.consecutiveFailures++;
+    state.probeStartedAt = 0;
+    state.lastError = message.substring(0, 200);
+    state.lastErrorAt = Date.now();
+
+    // The provider told us when to come back
+    const retryAfterMs = error instanceof AIProviderError ? error.retryAfterMs : undefined;
+    let openFor = retryAfterMs ?? 0;
+
+    if (wasProbing || state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      openFor = Math.max(openFor, Math.min(COOLDOWN_MS * 2 ** state.trips, MAX_COOLDOWN_MS));
+      state.trips++;
+    }
+
+    if (openFor > 0) {
+      state.openUntil = Date.now() + openFor;
+      console.error(`AI provider ${name} circuit opened for ${formatDuration(state.openUntil - Date.now())}: ${state.lastError}`);
+    }
+  }
+
+  /**
+   * Add tokens used by a request to today's total
+   */
+  recordTokens(name: string, tokens: number): void {
+    this.getState(name).tokensToday += Math.max(0, Math.round(tokens));
+  }
+
+  getStats(): ProviderStats[] {
+    return Array.from(this.states.keys()).map(name => {
+      const state = this.getState(name);
+      const circuit = this.getCircuit(state);
+      return {
+        name,
+        requests: state.requests,
+        successes: state.successes,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        averageLatencyMs: state.successes > 0 ? Math.round(state.totalLatencyMs / state.successes) : 0,
+        circuit,
+        retryAt: circuit === 'open' ? state.openUntil : undefined,
+        tokensToday: state.tokensToday,
+        dailyTokenLimit: this.limits.get(name),
+        lastError: state.lastError,
+        lastErrorAt: state.lastErrorAt,
+        lastSuccessAt: state.lastSuccessAt
+      };
+    });
+  }
+
+  private isProbing(state: ProviderState): boolean {
+    return Date.now() - state.probeStartedAt < PROBE_TIMEOUT_MS;
+  }
+
+  private getCircuit(state: ProviderState): CircuitState {
+    if (state.openUntil > Date.now()) return 'open';
+    return state.trips > 0 ? 'half-open' : 'closed';
+  }
+
+  private getState(name: string): ProviderState {
+    let state = this.states.get(name);
+    if (!state) {
+      state = {
+        requests: 0,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        totalLatencyMs: 0,
+        trips: 0,
+        openUntil: 0,
+        probeStartedAt: 0,
+        usageDay: currentDay(),
+        tokensToday: 0
+      };
+      this.states.set(name, state);
+    }
+
+    // Quotas reset at midnight UTC
+    const today = currentDay();
+    if (state.usageDay !== today) {
+      state.usageDay = today;
+      state.tokensToday = 0;
+    }
+    return state;
+  }
+}
+
+/**
+ * Format a duration as e.g. "45s", "12m" or "3h 5m"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
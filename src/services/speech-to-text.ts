@@ -0,0 +1,149 @@
+/**
+ * Speech to Text - pluggable transcription backends for voice listening
+ *
+ * Two backends are built in, selected with STT_BACKEND:
+ * - "http": an OpenAI-compatible /audio/transcriptions endpoint (OpenAI, Groq,
+ *   a self-hosted faster-whisper server, ...) at STT_HTTP_URL
+ * - "whisper-cpp": a local whisper.cpp binary (STT_WHISPER_BIN) and model file
+ *   (STT_WHISPER_MODEL), so no audio leaves the machine
+ *
+ * Without STT_BACKEND the backend is picked from whichever is configured.
+ * Audio is handed over as 16 kHz mono WAV, which both accept.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export interface SpeechToTextBackend {
+  readonly name: string;
+  /**
+   * Transcribe a WAV file; returns an empty string when nothing was said
+   */
+  transcribe(wav: Buffer): Promise<string>;
+}
+
+const STT_LANGUAGE = process.env.STT_LANGUAGE || 'en';
+const STT_TIMEOUT_MS = 30_000;
+
+/**
+ * Encode 48 kHz stereo s16le PCM (what Discord's opus decoder produces) as a
+ * 16 kHz mono WAV file
+ */
+export function encodeWav(pcm: Buffer): Buffer {
+  // 3 stereo frames of 4 bytes each become one mono sample
+  const samples = Math.floor(pcm.length / 12);
+  const wav = Buffer.alloc(44 + samples * 2);
+
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write('WAVE', 8);
+  wav.write('fmt ', 12);
+  wav.writeUInt32LE(16, 16);          // PCM header size
+  wav.writeUInt16LE(1, 20);           // PCM format
+  wav.writeUInt16LE(1, 22);           // Mono
+  wav.writeUInt32LE(16000, 24);       // Sample rate
+  wav.writeUInt32LE(32000, 28);       // Byte rate
+  wav.writeUInt16LE(2, 32);           // Block align
+  wav.writeUInt16LE(16, 34);          // Bits per sample
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples * 2, 40);
+
+  for (let i = 0; i < samples; i++) {
+    let sum = 0;
+    for (let j = 0; j < 6; j++) {
+      sum += pcm.readInt16LE(i * 12 + j * 2);
+    }
+    wav.writeInt16LE(Math.round(sum / 6), 44 + i * 2);
+  }
+  return wav;
+}
+
+export class HttpSpeechToText implements SpeechToTextBackend {
+  readonly name = 'http';
+
+  constructor(
+    private url: string,
+    private apiKey?: string,
+    private model = 'whisper-1'
+  ) {}
+
+  async transcribe(wav: Buffer): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([wav], { type: 'audio/wav' }), 'speech.wav');
+    form.append('model', this.model);
+    form.append('language', STT_LANGUAGE);
+    form.append('response_format', 'json');
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: form,
+      signal: AbortSignal.timeout(STT_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Transcription failed (${response.status}): ${detail.substring(0, 200)}`);
+    }
+
+    const data = await response.json() as { text?: string };
+    return (data.text || '').trim();
+  }
+}
+
+export class WhisperCppSpeechToText implements SpeechToTextBackend {
+  readonly name = 'whisper-cpp';
+
+  constructor(
+    private binary: string,
+    private model: string
+  ) {}
+
+  async transcribe(wav: Buffer): Promise<string> {
+    const file = path.join(os.tmpdir(), `stt-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.wav`);
+    await fs.writeFile(file, wav);
+
+    try {
+      const output = await new Promise<string>((resolve, reject) => {
+        execFile(
+          this.binary,
+          ['-m', this.model, '-f', file, '-l', STT_LANGUAGE, '-nt', '-np'],
+          { timeout: STT_TIMEOUT_MS, maxBuffer: 1024 * 1024 },
+          (error, stdout) => error ? reject(new Error(`whisper.cpp failed: ${error.message}`)) : resolve(stdout)
+        );
+      });
+      return output
+        .replace(/\[[A-Z_ ]+\]/g, '')   // Markers like [BLANK_AUDIO]
+        .replace(/\s+/g, ' ')
+        .trim();
+    } finally {
+      await fs.unlink(file).catch(() => {});
+    }
+  }
+}
+
+let speechToText: SpeechToTextBackend | null | undefined;
+
+/**
+ * The configured transcription backend, or null if voice listening is not set up
+ */
+export function getSpeechToText(): SpeechToTextBackend | null {
+  if (speechToText === undefined) {
+    const backend = process.env.STT_BACKEND
+      || (process.env.STT_HTTP_URL ? 'http' : process.env.STT_WHISPER_BIN ? 'whisper-cpp' : '');
+
+    if (backend === 'http' && process.env.STT_HTTP_URL) {
+      speechToText = new HttpSpeechToText(process.env.STT_HTTP_URL, process.env.STT_HTTP_KEY, process.env.STT_MODEL);
+    } else if (backend === 'whisper-cpp' && process.env.STT_WHISPER_BIN && process.env.STT_WHISPER_MODEL) {
+      speechToText = new WhisperCppSpeechToText(process.env.STT_WHISPER_BIN, process.env.STT_WHISPER_MODEL);
+    } else {
+      if (backend) {
+        console.error(`Speech to text backend "${backend}" is not fully configured; voice listening is disabled`);
+      }
+      speechToText = null;
+    }
+  }
+  return speechToText;
+}
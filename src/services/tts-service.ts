@@ -0,0 +1,206 @@
+/**
+ * TTS Service - turns text into queued speech for a guild's voice channel
+ *
+ * Text is split into sentence-sized chunks. Every chunk is queued in the
+ * guild's audio mixer at once, so utterances never interleave, and the
+ * chunks are synthesised one after another in the background: playback
+ * starts as soon as the first sentence is ready instead of after the whole
+ * answer. The guild's pronunciation dictionary is applied first.
+ *
+ * Input wrapped in <speak>...</speak> is treated as SSML: its content is
+ * placed inside the voice/prosody elements unchanged and not chunked.
+ */
+
+import { Readable } from 'stream';
+import { MsEdgeTTS, OUTPUT_FORMAT } from 'msedge-tts';
+import { getAudioMixer, type EnqueuedClip } from './audio-mixer.js';
+import { getPronunciationStore } from './pronunciations.js';
+import { findVoice } from '../voice-settings.js';
+
+export interface SpeechOptions {
+  rate?: string;          // e.g. "fast", "+20%", "0.8"
+  pitch?: string;         // e.g. "low", "+2st", "-50Hz"
+  volume?: string;        // e.g. "loud", "+10%", "80"
+}
+
+export interface Utterance extends EnqueuedClip {
+  chunks: number;
+  truncated: boolean;
+}
+
+const MAX_CHUNK_LENGTH = 300;
+// The first chunk is kept short so speech starts quickly
+const FIRST_CHUNK_LENGTH = 120;
+const MAX_SPEECH_LENGTH = parseInt(process.env.TTS_MAX_CHARS || '') || 1500;
+
+const PROSODY_KEYWORDS: Record<keyof SpeechOptions, string[]> = {
+  rate: ['x-slow', 'slow', 'medium', 'fast', 'x-fast', 'default'],
+  pitch: ['x-low', 'low', 'medium', 'high', 'x-high', 'default'],
+  volume: ['silent', 'x-soft', 'soft', 'medium', 'loud', 'x-loud', 'default']
+};
+const PROSODY_VALUE = /^[+-]?\d+(\.\d+)?(%|st|Hz)?$/;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Check rate/pitch/volume values so they can't break out of the SSML attributes
+ */
+export function validateSpeechOptions(options: SpeechOptions): SpeechOptions {
+  for (const [name, value] of Object.entries(options) as [keyof SpeechOptions, string | undefined][]) {
+    if (value === undefined) continue;
+    if (!PROSODY_KEYWORDS[name].includes(value.toLowerCase()) && !PROSODY_VALUE.test(value)) {
+      throw new Error(`Invalid ${name} "${value}". Use ${PROSODY_KEYWORDS[name].join(', ')} or a relative value like +20%.`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Split text into chunks at sentence ends, falling back to commas and spaces
+ * for sentences longer than a chunk
+ */
+export function splitIntoChunks(text: string): string[] {
+  const sentences = text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    const limit = chunks.length === 0 ? FIRST_CHUNK_LENGTH : MAX_CHUNK_LENGTH;
+    if (current && current.length + sentence.length + 1 > limit) {
+      chunks.push(current);
+      current = '';
+    }
+
+    let rest = sentence;
+    while (rest.length > MAX_CHUNK_LENGTH) {
+      const cut = Math.max(rest.lastIndexOf(', ', MAX_CHUNK_LENGTH), rest.lastIndexOf(' ', MAX_CHUNK_LENGTH));
+      const at = cut > 0 ? cut + 1 : MAX_CHUNK_LENGTH;
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      chunks.push(rest.substring(0, at).trim());
+      rest = rest.substring(at).trim();
+    }
+    current = current ? `${current} ${rest}` : rest;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Shorten text to the speech limit, preferring a sentence end
+ */
+function truncateSpeech(text: string): { text: string; truncated: boolean } {
+  if (text.length <= MAX_SPEECH_LENGTH) return { text, truncated: false };
+
+  const cut = text.substring(0, MAX_SPEECH_LENGTH);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '));
+  return {
+    text: sentenceEnd > MAX_SPEECH_LENGTH / 2 ? cut.substring(0, sentenceEnd + 1) : `${cut.substring(0, MAX_SPEECH_LENGTH - 3)}...`,
+    truncated: true
+  };
+}
+
+function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const parts: Buffer[] = [];
+    stream.on('data', (part: Buffer) => parts.push(part));
+    stream.once('end', () => {
+      const audio = Buffer.concat(parts);
+      if (audio.length === 0) {
+        reject(new Error('No audio data received from the TTS service'));
+      } else {
+        resolve(audio);
+      }
+    });
+    stream.once('error', reject);
+  });
+}
+
+export class TTSService {
+  /**
+   * Queue text (or <speak> SSML) to be spoken in the guild's voice channel
+   * @param voiceName Full voice name, e.g. en-US-AriaNeural
+   */
+  async speak(guildId: string, input: string, voiceName: string, options: SpeechOptions = {}): Promise<Utterance> {
+    const prosody = validateSpeechOptions(options);
+    const voice = findVoice(voiceName);
+    const locale = voice?.locale || voiceName.split('-').slice(0, 2).join('-');
+
+    const ssml = this.extractSsml(input);
+    let chunks: string[];
+    let truncated = false;
+    if (ssml !== null) {
+      chunks = [ssml];
+    } else {
+      const limited = truncateSpeech(getPronunciationStore().apply(guildId, input.trim()));
+      truncated = limited.truncated;
+      chunks = splitIntoChunks(limited.text).map(escapeXml);
+    }
+    if (chunks.length === 0) {
+      throw new Error('Nothing to say');
+    }
+
+    const tts = new MsEdgeTTS();
+    await tts.setMetadata(voiceName, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3);
+
+    // Synthesise the chunks in order, each starting when the previous is done
+    let previous: Promise<unknown> = Promise.resolve();
+    const audio = chunks.map(chunk => {
+      const request = previous.catch(() => {}).then(() =>
+        readAll(tts.rawToStream(this.buildSsml(chunk, voiceName, locale, prosody)).audioStream)
+      );
+      previous = request;
+      return request;
+    });
+    // Failures are reported when the chunk's turn comes
+    audio.forEach(request => request.catch(() => {}));
+    previous.catch(() => {}).finally(() => tts.close());
+
+    const preview = input.length > 50 ? `${input.substring(0, 50)}...` : input;
+    const mixer = getAudioMixer();
+    const clips = audio.map((request, index) => mixer.enqueue(guildId, {
+      label: `TTS "${preview}" (${index + 1}/${chunks.length})`,
+      kind: 'tts',
+      source: async () => Readable.from(await request)
+    }));
+
+    return { ...clips[0], chunks: chunks.length, truncated };
+  }
+
+  /**
+   * Content of a <speak> document, or null for plain text
+   */
+  private extractSsml(input: string): string | null {
+    const match = input.trim().match(/^<speak[^>]*>([\s\S]*)<\/speak>$/i);
+    return match ? match[1].trim() : null;
+  }
+
+  private buildSsml(content: string, voiceName: string, locale: string, prosody: SpeechOptions): string {
+    return `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="${escapeXml(locale)}">`
+      + `<voice name="${escapeXml(voiceName)}">`
+      + `<prosody pitch="${prosody.pitch || 'default'}" rate="${prosody.rate || 'default'}" volume="${prosody.volume || 'default'}">`
+      + content
+      + '</prosody></voice></speak>';
+  }
+}
+
+let ttsService: TTSService | null = null;
+
+export function getTTSService(): TTSService {
+  if (!ttsService) {
+    ttsService = new TTSService();
+  }
+  return ttsService;
+}
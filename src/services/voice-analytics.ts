@@ -0,0 +1,333 @@
+/**
+ * Voice Analytics - who was in which voice channel, and when
+ *
+ * Every voiceStateUpdate is recorded as an event (join, leave, move, mute,
+ * deafen, stream), kept for VOICE_ANALYTICS_RETENTION_DAYS. Events change far
+ * more often than other bot state, so they are saved to their own file
+ * (VOICE_ANALYTICS_FILE) rather than the shared one. Sessions, weekly
+ * leaderboards and channel occupancy are worked out from the events when
+ * queried. Bots are not tracked, and neither is speech: only voice states are
+ * recorded, whether or not voice listening is on.
+ *
+ * When the bot starts, the stored events are reconciled with who is actually
+ * in voice, since joins and leaves during downtime were missed.
+ */
+
+import * as path from 'path';
+import type { Client, VoiceState } from 'discord.js';
+import { createStorage, StoredMap } from '../core/Storage.js';
+
+export type VoiceEventType =
+  | 'join' | 'leave' | 'move'
+  | 'mute' | 'unmute' | 'deafen' | 'undeafen'
+  | 'stream_start' | 'stream_end';
+
+export interface VoiceEvent {
+  type: VoiceEventType;
+  userId: string;
+  userName: string;
+  channelId: string;          // Channel joined, left, or where it happened; the new one for moves
+  fromChannelId?: string;     // Moves only
+  at: string;                 // ISO 8601
+}
+
+export interface VoiceSession {
+  userId: string;
+  userName: string;
+  channelId: string;
+  start: string;
+  end: string | null;         // null while still in the channel
+  seconds: number;
+}
+
+export interface VoiceLeaderboardEntry {
+  userId: string;
+  userName: string;
+  seconds: number;
+  sessions: number;
+}
+
+export interface VoiceLeaderboard {
+  guildId: string;
+  since: string;
+  until: string;
+  entries: VoiceLeaderboardEntry[];
+}
+
+export interface OccupancySlot {
+  weekday: string;            // UTC
+  hour: number;               // 0-23 UTC
+  averageMembers: number;     // Average number of members in voice during that hour
+}
+
+export interface VoiceOccupancy {
+  guildId: string;
+  channelId: string | null;   // null = all voice channels
+  since: string;
+  until: string;
+  hourly: { start: string; averageMembers: number }[];
+  busiestSlots: OccupancySlot[];
+}
+
+export interface TimelineFilter {
+  channelId?: string;
+  userId?: string;
+  limit?: number;
+}
+
+const RETENTION_DAYS = parseInt(process.env.VOICE_ANALYTICS_RETENTION_DAYS || '') || 30;
+const ANALYTICS_FILE = process.env.VOICE_ANALYTICS_FILE || path.join(process.cwd(), 'data', 'voice-analytics.json');
+// Oldest events are dropped past this, even within the retention period
+const MAX_EVENTS_PER_GUILD = 10_000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export class VoiceAnalytics {
+  private storage = createStorage(ANALYTICS_FILE);
+  private events = new StoredMap<VoiceEvent[]>('voice.events', () => this.storage);
+  private enabled = process.env.VOICE_ANALYTICS_ENABLED !== 'false';
+
+  /**
+   * Start recording voice state changes
+   */
+  start(client: Client): void {
+    if (!this.enabled) return;
+
+    client.on('voiceStateUpdate', (oldState, newState) => {
+      try {
+        this.onVoiceStateUpdate(oldState, newState);
+      } catch (error) {
+        console.error(`Voice analytics failed in guild ${newState.guild.id}:`, error);
+      }
+    });
+
+    for (const guild of client.guilds.cache.values()) {
+      this.reconcile(guild.id, new Map(
+        guild.voiceStates.cache
+          .filter(state => !!state.channelId && !state.member?.user.bot)
+          .map(state => [state.id, { channelId: state.channelId!, userName: state.member?.displayName || state.id }])
+      ));
+    }
+  }
+
+  /**
+   * Write unsaved events now (used on shutdown)
+   */
+  flush(): void {
+    this.storage.flush();
+  }
+
+  /**
+   * Recent events, newest first
+   */
+  getTimeline(guildId: string, filter: TimelineFilter = {}): VoiceEvent[] {
+    const limit = Math.min(filter.limit ?? 50, 500);
+    return (this.events.get(guildId) || [])
+      .filter(event => !filter.userId || event.userId === filter.userId)
+      .filter(event => !filter.channelId || event.channelId === filter.channelId || event.fromChannelId === filter.channelId)
+      .slice(-limit)
+      .reverse();
+  }
+
+  /**
+   * Time spent in voice channels, overlapping the window
+   */
+  getSessions(guildId: string, since: number, until = Date.now(), channelId?: string): VoiceSession[] {
+    const sessions: VoiceSession[] = [];
+    const open = new Map<string, { channelId: string; userName: string; start: number }>();
+
+    const close = (userId: string, end: number | null) => {
+      const session = open.get(userId);
+      if (!session) return;
+      open.delete(userId);
+
+      const start = Math.max(session.start, since);
+      const stop = Math.min(end ?? until, until);
+      if (stop <= start || (channelId && session.channelId !== channelId)) return;
+      sessions.push({
+        userId,
+        userName: session.userName,
+        channelId: session.channelId,
+        start: new Date(start).toISOString(),
+        end: end === null ? null : new Date(stop).toISOString(),
+        seconds: Math.round((stop - start) / 1000)
+      });
+    };
+
+    for (const event of this.events.get(guildId) || []) {
+      const at = Date.parse(event.at);
+      if (at > until) break;
+      if (event.type === 'join' || event.type === 'move') {
+        close(event.userId, at);
+        open.set(event.userId, { channelId: event.channelId, userName: event.userName, start: at });
+      } else if (event.type === 'leave') {
+        close(event.userId, at);
+      }
+    }
+    for (const userId of [...open.keys()]) {
+      close(userId, null);
+    }
+    return sessions;
+  }
+
+  /**
+   * Members with the most time in voice over the last few days
+   */
+  getLeaderboard(guildId: string, days = 7, limit = 10): VoiceLeaderboard {
+    const until = Date.now();
+    const since = until - days * DAY_MS;
+
+    const totals = new Map<string, VoiceLeaderboardEntry>();
+    for (const session of this.getSessions(guildId, since, until)) {
+      const entry = totals.get(session.userId) || { userId: session.userId, userName: session.userName, seconds: 0, sessions: 0 };
+      entry.userName = session.userName;
+      entry.seconds += session.seconds;
+      entry.sessions++;
+      totals.set(session.userId, entry);
+    }
+
+    return {
+      guildId,
+      since: new Date(since).toISOString(),
+      until: new Date(until).toISOString(),
+      entries: [...totals.values()].sort((a, b) => b.seconds - a.seconds).slice(0, limit)
+    };
+  }
+
+  /**
+   * How many members were in voice, hour by hour, and the busiest hours of the week
+   */
+  getOccupancy(guildId: string, days = 7, channelId?: string): VoiceOccupancy {
+    const until = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+    const since = until - days * DAY_MS;
+
+    // Member-seconds in voice per hour
+    const buckets = new Array<number>(days * 24).fill(0);
+    for (const session of this.getSessions(guildId, since, until, channelId)) {
+      const start = Date.parse(session.start);
+      const end = session.end ? Date.parse(session.end) : until;
+      for (let hourStart = Math.floor(start / HOUR_MS) * HOUR_MS; hourStart < end; hourStart += HOUR_MS) {
+        const overlap = Math.min(end, hourStart + HOUR_MS) - Math.max(start, hourStart);
+        buckets[(hourStart - since) / HOUR_MS] += overlap / 1000;
+      }
+    }
+
+    const hourly = buckets.map((seconds, index) => ({
+      start: new Date(since + index * HOUR_MS).toISOString(),
+      averageMembers: Math.round(seconds / 3600 * 100) / 100
+    }));
+
+    // Average each hour of the week over the weeks in the window
+    const slots = new Map<number, { total: number; count: number }>();
+    hourly.forEach((hour, index) => {
+      const date = new Date(since + index * HOUR_MS);
+      const key = date.getUTCDay() * 24 + date.getUTCHours();
+      const slot = slots.get(key) || { total: 0, count: 0 };
+      slot.total += hour.averageMembers;
+      slot.count++;
+      slots.set(key, slot);
+    });
+    const busiestSlots = [...slots.entries()]
+      .map(([key, slot]) => ({
+        weekday: WEEKDAYS[Math.floor(key / 24)],
+        hour: key % 24,
+        averageMembers: Math.round(slot.total / slot.count * 100) / 100
+      }))
+      .filter(slot => slot.averageMembers > 0)
+      .sort((a, b) => b.averageMembers - a.averageMembers)
+      .slice(0, 5);
+
+    return {
+      guildId,
+      channelId: channelId ?? null,
+      since: new Date(since).toISOString(),
+      until: new Date(until).toISOString(),
+      hourly,
+      busiestSlots
+    };
+  }
+
+  private onVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): void {
+    const member = newState.member ?? oldState.member;
+    if (!member || member.user.bot) return;
+
+    const guildId = newState.guild.id;
+    const base = { userId: member.id, userName: member.displayName };
+    const events: Omit<VoiceEvent, 'at'>[] = [];
+
+    if (oldState.channelId !== newState.channelId) {
+      if (!oldState.channelId) {
+        events.push({ ...base, type: 'join', channelId: newState.channelId! });
+      } else if (!newState.channelId) {
+        events.push({ ...base, type: 'leave', channelId: oldState.channelId });
+      } else {
+        events.push({ ...base, type: 'move', channelId: newState.channelId, fromChannelId: oldState.channelId });
+      }
+    } else if (newState.channelId) {
+      const channelId = newState.channelId;
+      const wasMuted = !!(oldState.selfMute || oldState.serverMute);
+      const isMuted = !!(newState.selfMute || newState.serverMute);
+      const wasDeaf = !!(oldState.selfDeaf || oldState.serverDeaf);
+      const isDeaf = !!(newState.selfDeaf || newState.serverDeaf);
+      // Deafening mutes too; record just the deafen
+      if (wasDeaf !== isDeaf) {
+        events.push({ ...base, type: isDeaf ? 'deafen' : 'undeafen', channelId });
+      } else if (wasMuted !== isMuted) {
+        events.push({ ...base, type: isMuted ? 'mute' : 'unmute', channelId });
+      }
+      if (!!oldState.streaming !== !!newState.streaming) {
+        events.push({ ...base, type: newState.streaming ? 'stream_start' : 'stream_end', channelId });
+      }
+    }
+
+    if (events.length > 0) {
+      this.record(guildId, events);
+    }
+  }
+
+  /**
+   * Close or open sessions that changed while the bot was offline
+   */
+  private reconcile(guildId: string, present: Map<string, { channelId: string; userName: string }>): void {
+    const open = new Map(this.getSessions(guildId, 0)
+      .filter(session => session.end === null)
+      .map(session => [session.userId, session]));
+    const events: Omit<VoiceEvent, 'at'>[] = [];
+
+    for (const [userId, session] of open) {
+      const now = present.get(userId);
+      if (!now) {
+        events.push({ type: 'leave', userId, userName: session.userName, channelId: session.channelId });
+      } else if (now.channelId !== session.channelId) {
+        events.push({ type: 'move', userId, userName: now.userName, channelId: now.channelId, fromChannelId: session.channelId });
+      }
+    }
+    for (const [userId, now] of present) {
+      if (!open.has(userId)) {
+        events.push({ type: 'join', userId, userName: now.userName, channelId: now.channelId });
+      }
+    }
+
+    if (events.length > 0) {
+      this.record(guildId, events);
+    }
+  }
+
+  private record(guildId: string, events: Omit<VoiceEvent, 'at'>[]): void {
+    const at = new Date().toISOString();
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString();
+    const stored = (this.events.get(guildId) || []).filter(event => event.at >= cutoff);
+    stored.push(...events.map(event => ({ ...event, at })));
+    this.events.set(guildId, stored.slice(-MAX_EVENTS_PER_GUILD));
+  }
+}
+
+let voiceAnalytics: VoiceAnalytics | null = null;
+
+export function getVoiceAnalytics(): VoiceAnalytics {
+  if (!voiceAnalytics) {
+    voiceAnalytics = new VoiceAnalytics();
+  }
+  return voiceAnalytics;
+}
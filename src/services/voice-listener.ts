@@ -0,0 +1,318 @@
+/**
+ * Voice Listener - lets members ask the AI questions by speaking
+ *
+ * Listening is opt-in twice over: a server manager enables it for a voice
+ * channel, and every member must consent before their audio is captured.
+ * Nobody else is ever recorded. Two modes per channel:
+ * - "wake": every utterance of a consenting member is transcribed and answered
+ *   when it starts with the wake word ("Sauron, what's ...")
+ * - "ptt": push-to-talk; only the next utterance after `!ptt` is captured
+ *
+ * Audio is kept in memory only for as long as the transcription takes. The
+ * bot stays deafened whenever it is not in a listening channel.
+ */
+
+import prism from 'prism-media';
+import {
+  EndBehaviorType,
+  getVoiceConnection,
+  VoiceConnection,
+  VoiceConnectionStatus
+} from '@discordjs/voice';
+import { StoredMap } from '../core/Storage.js';
+import { encodeWav, getSpeechToText } from './speech-to-text.js';
+
+export type ListenMode = 'wake' | 'ptt';
+
+export const LISTEN_MODES: ListenMode[] = ['wake', 'ptt'];
+
+export interface ListeningChannel {
+  textChannelId: string;      // Where questions and answers are posted
+  mode: ListenMode;
+  enabledBy: string;
+  enabledAt: number;
+}
+
+interface GuildListening {
+  channels: Record<string, ListeningChannel>;   // By voice channel ID
+  consent: string[];                            // Users who agreed to be heard
+}
+
+export interface VoiceQuestion {
+  guildId: string;
+  voiceChannelId: string;
+  textChannelId: string;
+  userId: string;
+  text: string;
+}
+
+export type VoiceQuestionHandler = (question: VoiceQuestion) => Promise<void>;
+
+interface ActiveListener {
+  connection: VoiceConnection;
+  onSpeaking: (userId: string) => void;
+}
+
+export const WAKE_WORD = (process.env.VOICE_WAKE_WORD || 'sauron').trim();
+export const PUSH_TO_TALK_SECONDS = 15;
+
+// An utterance ends after this much silence
+const SILENCE_MS = 1_000;
+const MIN_UTTERANCE_SECONDS = 0.5;
+const MAX_UTTERANCE_SECONDS = 15;
+// Decoded PCM is 48 kHz, 2 channels, 16 bit
+const PCM_BYTES_PER_SECOND = 48_000 * 2 * 2;
+
+const WAKE_PATTERN = new RegExp(
+  `^\\W*(?:(?:hey|hi|ok|okay)\\W+)?${WAKE_WORD.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\W+')}\\b\\W*([\\s\\S]*)$`,
+  'i'
+);
+
+export class VoiceListener {
+  private guilds = new StoredMap<GuildListening>('voice.listening');
+  private active: Map<string, ActiveListener> = new Map();
+  private pushToTalk: Map<string, number> = new Map();     // guildId:userId -> expiry
+  private busy: Set<string> = new Set();                   // guildId:userId being captured or answered
+  private questionHandler: VoiceQuestionHandler | null = null;
+
+  /**
+   * Set who answers transcribed questions (the prefix command handler)
+   */
+  setQuestionHandler(handler: VoiceQuestionHandler): void {
+    this.questionHandler = handler;
+  }
+
+  isAvailable(): boolean {
+    return getSpeechToText() !== null;
+  }
+
+  getChannel(guildId: string, voiceChannelId: string): ListeningChannel | undefined {
+    return this.guilds.get(guildId)?.channels[voiceChannelId];
+  }
+
+  listChannels(guildId: string): Record<string, ListeningChannel> {
+    return { ...this.guilds.get(guildId)?.channels };
+  }
+
+  /**
+   * Whether the bot is currently listening in the guild
+   */
+  isListening(guildId: string): boolean {
+    return this.active.has(guildId);
+  }
+
+  enable(guildId: string, voiceChannelId: string, textChannelId: string, mode: ListenMode, enabledBy: string): void {
+    if (!this.isAvailable()) {
+      throw new Error('Speech to text is not configured. Set STT_HTTP_URL or STT_WHISPER_BIN/STT_WHISPER_MODEL.');
+    }
+
+    const settings = this.getGuild(guildId);
+    settings.channels[voiceChannelId] = { textChannelId, mode, enabledBy, enabledAt: Date.now() };
+    this.guilds.set(guildId, settings);
+    this.sync(guildId);
+  }
+
+  /**
+   * Stop listening in a voice channel; returns false if it was not enabled
+   */
+  disable(guildId: string, voiceChannelId: string): boolean {
+    const settings = this.guilds.get(guildId);
+    if (!settings?.channels[voiceChannelId]) return false;
+
+    delete settings.channels[voiceChannelId];
+    this.guilds.set(guildId, settings);
+    this.sync(guildId);
+    return true;
+  }
+
+  hasConsent(guildId: string, userId: string): boolean {
+    return this.guilds.get(guildId)?.consent.includes(userId) ?? false;
+  }
+
+  setConsent(guildId: string, userId: string, consent: boolean): void {
+    const settings = this.getGuild(guildId);
+    settings.consent = settings.consent.filter(id => id !== userId);
+    if (consent) {
+      settings.consent.push(userId);
+    } else {
+      this.pushToTalk.delete(`${guildId}:${userId}`);
+    }
+    this.guilds.set(guildId, settings);
+  }
+
+  /**
+   * Capture the user's next utterance without the wake word
+   */
+  armPushToTalk(guildId: string, userId: string): void {
+    if (!this.hasConsent(guildId, userId)) {
+      throw new Error('You have not agreed to be listened to. Use `!listen consent` first.');
+    }
+    const connection = getVoiceConnection(guildId);
+    if (!connection?.joinConfig.channelId || !this.getChannel(guildId, connection.joinConfig.channelId)) {
+      throw new Error('Listening is not enabled in the voice channel the bot is in.');
+    }
+    this.pushToTalk.set(`${guildId}:${userId}`, Date.now() + PUSH_TO_TALK_SECONDS * 1000);
+  }
+
+  /**
+   * Start or stop listening to match the guild's voice connection and settings.
+   * Call after the bot joins or moves between voice channels.
+   */
+  sync(guildId: string): void {
+    const connection = getVoiceConnection(guildId);
+    const channelId = connection?.joinConfig.channelId;
+    const shouldListen = !!connection && !!channelId
+      && !!this.getChannel(guildId, channelId)
+      && this.isAvailable();
+
+    const current = this.active.get(guildId);
+    if (current && (!shouldListen || current.connection !== connection)) {
+      this.detach(guildId, current);
+    }
+    if (!shouldListen || !connection) return;
+
+    // Joining again (e.g. !join or !play) deafens the bot
+    if (connection.joinConfig.selfDeaf) {
+      connection.rejoin({ ...connection.joinConfig, selfDeaf: false });
+    }
+    if (this.active.get(guildId)?.connection === connection) return;
+
+    const listener: ActiveListener = {
+      connection,
+      onSpeaking: (userId) => this.onSpeaking(guildId, userId)
+    };
+    connection.receiver.speaking.on('start', listener.onSpeaking);
+    connection.once(VoiceConnectionStatus.Destroyed, () => {
+      if (this.active.get(guildId) === listener) {
+        this.active.delete(guildId);
+      }
+    });
+    this.active.set(guildId, listener);
+  }
+
+  private detach(guildId: string, listener: ActiveListener): void {
+    this.active.delete(guildId);
+    const { connection } = listener;
+    connection.receiver.speaking.off('start', listener.onSpeaking);
+    if (connection.state.status !== VoiceConnectionStatus.Destroyed && !connection.joinConfig.selfDeaf) {
+      connection.rejoin({ ...connection.joinConfig, selfDeaf: true });
+    }
+  }
+
+  private onSpeaking(guildId: string, userId: string): void {
+    const listener = this.active.get(guildId);
+    const voiceChannelId = listener?.connection.joinConfig.channelId;
+    if (!listener || !voiceChannelId) return;
+
+    // The bot may have been moved to a channel without listening
+    const channel = this.getChannel(guildId, voiceChannelId);
+    if (!channel || !this.hasConsent(guildId, userId)) return;
+
+    const key = `${guildId}:${userId}`;
+    if (channel.mode === 'ptt' && !this.isArmed(key)) return;
+    if (this.busy.has(key) || listener.connection.receiver.subscriptions.has(userId)) return;
+
+    this.busy.add(key);
+    this.capture(listener.connection, userId)
+      .then(pcm => pcm ? this.handleUtterance(guildId, voiceChannelId, channel, userId, pcm) : undefined)
+      .catch(error => console.error(`Voice listening failed for user ${userId} in guild ${guildId}:`, error))
+      .finally(() => this.busy.delete(key));
+  }
+
+  /**
+   * Record one utterance as 48 kHz stereo PCM; null if it was too short
+   */
+  private capture(connection: VoiceConnection, userId: string): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      const opus = connection.receiver.subscribe(userId, {
+        end: { behavior: EndBehaviorType.AfterSilence, duration: SILENCE_MS }
+      });
+      const decoder = new prism.opus.Decoder({ rate: 48_000, channels: 2, frameSize: 960 });
+      const parts: Buffer[] = [];
+      let size = 0;
+
+      const fail = (error: Error) => {
+        opus.destroy();
+        decoder.destroy();
+        reject(error);
+      };
+      opus.once('error', fail);
+      decoder.once('error', fail);
+
+      decoder.on('data', (pcm: Buffer) => {
+        parts.push(pcm);
+        size += pcm.length;
+        // Too long: stop recording and use what we have
+        if (size >= MAX_UTTERANCE_SECONDS * PCM_BYTES_PER_SECOND) {
+          opus.unpipe(decoder);
+          opus.destroy();
+          decoder.end();
+        }
+      });
+      decoder.once('end', () => {
+        resolve(size >= MIN_UTTERANCE_SECONDS * PCM_BYTES_PER_SECOND ? Buffer.concat(parts) : null);
+      });
+
+      opus.pipe(decoder);
+    });
+  }
+
+  private async handleUtterance(guildId: string, voiceChannelId: string, channel: ListeningChannel, userId: string, pcm: Buffer): Promise<void> {
+    const speechToText = getSpeechToText();
+    if (!speechToText || !this.questionHandler) return;
+
+    const transcript = await speechToText.transcribe(encodeWav(pcm));
+    if (!transcript) return;
+
+    const key = `${guildId}:${userId}`;
+    const wake = transcript.match(WAKE_PATTERN);
+    let question: string;
+    if (this.isArmed(key)) {
+      this.pushToTalk.delete(key);
+      question = wake ? wake[1] : transcript;
+    } else if (channel.mode === 'wake' && wake) {
+      question = wake[1];
+      if (!question.trim()) {
+        // Just the wake word: the question follows in the next utterance
+        this.pushToTalk.set(key, Date.now() + PUSH_TO_TALK_SECONDS * 1000);
+        return;
+      }
+    } else {
+      return;
+    }
+
+    question = question.trim();
+    if (question.length < 2) return;
+
+    await this.questionHandler({
+      guildId,
+      voiceChannelId,
+      textChannelId: channel.textChannelId,
+      userId,
+      text: question
+    });
+  }
+
+  private isArmed(key: string): boolean {
+    const expiry = this.pushToTalk.get(key);
+    if (expiry === undefined) return false;
+    if (expiry < Date.now()) {
+      this.pushToTalk.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  private getGuild(guildId: string): GuildListening {
+    return this.guilds.get(guildId) || { channels: {}, consent: [] };
+  }
+}
+
+let voiceListener: VoiceListener | null = null;
+
+export function getVoiceListener(): VoiceListener {
+  if (!voiceListener) {
+    voiceListener = new VoiceListener();
+  }
+  return voiceListener;
+}
@@ -0,0 +1,315 @@
+/**
+ * Voice Presence - when the bot joins, stays in and leaves voice channels
+ *
+ * Per-guild policy, kept in persistent storage:
+ * - home channel: joined on startup, and where the bot returns to instead of
+ *   leaving; it never leaves its home channel on its own
+ * - follow user: the bot joins whichever voice channel that member is in and
+ *   leaves when they do
+ * - empty / idle timeouts: leave after the channel had no listeners, or
+ *   nothing was played, for that many minutes
+ * - reconnect: rejoin after a gateway or voice server drop
+ *
+ * A voice lock (voice-priority.ts) takes precedence: while someone holds it
+ * the bot moves with them instead of following anyone else, and the lock is
+ * released when its holder has left voice for a minute.
+ */
+
+import {
+  entersState,
+  getVoiceConnection,
+  getVoiceConnections,
+  VoiceConnection,
+  VoiceConnectionDisconnectReason,
+  VoiceConnectionStatus
+} from '@discordjs/voice';
+import type { VoiceState } from 'discord.js';
+import type { DiscordService } from '../discord-service.js';
+import { StoredMap } from '../core/Storage.js';
+import { getVoiceLock, releaseVoiceLock, setVoiceLockChannel } from '../voice-priority.js';
+import { getAudioMixer } from './audio-mixer.js';
+import { musicService } from './music-service.js';
+import { getVoiceListener } from './voice-listener.js';
+
+export interface VoicePolicy {
+  homeChannelId: string | null;
+  followUserId: string | null;
+  emptyTimeoutMinutes: number;    // 0 = stay in an empty channel
+  idleTimeoutMinutes: number;     // 0 = stay while nothing plays
+  reconnect: boolean;
+}
+
+export const MAX_TIMEOUT_MINUTES = 24 * 60;
+
+const DEFAULT_POLICY: VoicePolicy = {
+  homeChannelId: null,
+  followUserId: null,
+  emptyTimeoutMinutes: parseInt(process.env.VOICE_EMPTY_TIMEOUT_MINUTES ?? '') >= 0
+    ? parseInt(process.env.VOICE_EMPTY_TIMEOUT_MINUTES!) : 2,
+  idleTimeoutMinutes: parseInt(process.env.VOICE_IDLE_TIMEOUT_MINUTES ?? '') >= 0
+    ? parseInt(process.env.VOICE_IDLE_TIMEOUT_MINUTES!) : 5,
+  reconnect: process.env.VOICE_RECONNECT !== 'false'
+};
+
+const SWEEP_INTERVAL_MS = 15_000;
+const MAX_REJOIN_ATTEMPTS = 5;
+// Discord closes the voice websocket with this code when the bot is moved or kicked
+const CLOSE_CODE_REMOVED = 4014;
+const LOCK_RELEASE_GRACE_MS = 60_000;
+
+interface GuildActivity {
+  emptySince?: number;
+  idleSince?: number;
+}
+
+export class VoicePresenceManager {
+  private policies = new StoredMap<Partial<VoicePolicy>>('voice.policy');
+  private discordService: DiscordService | null = null;
+  private activity: Map<string, GuildActivity> = new Map();
+  private watched = new WeakSet<VoiceConnection>();
+  private lockTimers: Map<string, NodeJS.Timeout> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  getPolicy(guildId: string): VoicePolicy {
+    return { ...DEFAULT_POLICY, ...this.policies.get(guildId) };
+  }
+
+  /**
+   * Change a guild's policy and act on it right away (e.g. join the new home channel)
+   */
+  async updatePolicy(guildId: string, changes: Partial<VoicePolicy>): Promise<VoicePolicy> {
+    for (const field of ['emptyTimeoutMinutes', 'idleTimeoutMinutes'] as const) {
+      const value = changes[field];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 0 && value <= MAX_TIMEOUT_MINUTES)) {
+        throw new Error(`Timeouts must be whole minutes between 0 and ${MAX_TIMEOUT_MINUTES}.`);
+      }
+    }
+    if (changes.homeChannelId) {
+      const channel = this.discordService?.getClient().guilds.cache.get(guildId)?.channels.cache.get(changes.homeChannelId);
+      if (!channel?.isVoiceBased()) {
+        throw new Error('The home channel must be a voice channel in this server.');
+      }
+    }
+
+    const updated = { ...this.policies.get(guildId) };
+    for (const [field, value] of Object.entries(changes) as [keyof VoicePolicy, VoicePolicy[keyof VoicePolicy] | undefined][]) {
+      if (value !== undefined) {
+        (updated as Record<string, unknown>)[field] = value;
+      }
+    }
+    this.policies.set(guildId, updated);
+
+    await this.applyPolicy(guildId);
+    return this.getPolicy(guildId);
+  }
+
+  /**
+   * Start following voice state changes and join home channels
+   */
+  start(discordService: DiscordService): void {
+    this.discordService = discordService;
+    discordService.getClient().on('voiceStateUpdate', (oldState, newState) => {
+      this.onVoiceStateUpdate(oldState, newState).catch(error =>
+        console.error(`Voice policy failed in guild ${newState.guild.id}:`, error)
+      );
+    });
+
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    for (const guildId of this.policies.keys()) {
+      this.applyPolicy(guildId).catch(error =>
+        console.error(`Could not join the home voice channel in guild ${guildId}:`, error)
+      );
+    }
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (const timer of this.lockTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.lockTimers.clear();
+  }
+
+  /**
+   * Handle drops of a voice connection; call for every connection the bot creates
+   */
+  watch(guildId: string, connection: VoiceConnection): void {
+    if (this.watched.has(connection)) return;
+    this.watched.add(connection);
+
+    connection.on(VoiceConnectionStatus.Disconnected, async (_, state) => {
+      if (state.reason === VoiceConnectionDisconnectReason.WebSocketClose && state.closeCode === CLOSE_CODE_REMOVED) {
+        // Moved to another channel (reconnects by itself) or kicked (stays out)
+        try {
+          await entersState(connection, VoiceConnectionStatus.Connecting, 5_000);
+        } catch {
+          if (connection.state.status !== VoiceConnectionStatus.Destroyed) connection.destroy();
+        }
+        return;
+      }
+
+      if (this.getPolicy(guildId).reconnect && connection.rejoinAttempts < MAX_REJOIN_ATTEMPTS) {
+        // Back off a little more on every attempt; a failed rejoin ends up here again
+        await new Promise(resolve => setTimeout(resolve, (connection.rejoinAttempts + 1) * 5_000));
+        if (connection.state.status === VoiceConnectionStatus.Disconnected) {
+          console.error(`Rejoining voice in guild ${guildId} (attempt ${connection.rejoinAttempts + 1})`);
+          connection.rejoin();
+        }
+      } else if (connection.state.status !== VoiceConnectionStatus.Destroyed) {
+        connection.destroy();
+      }
+    });
+
+    connection.once(VoiceConnectionStatus.Destroyed, () => {
+      this.activity.delete(guildId);
+      // Whoever made the connection, the music can't go on without it
+      musicService.destroy(guildId);
+    });
+  }
+
+  /**
+   * Join the followed user's channel or the home channel if the bot is not in voice
+   */
+  private async applyPolicy(guildId: string): Promise<void> {
+    if (!this.discordService || getVoiceConnection(guildId)) return;
+
+    const policy = this.getPolicy(guildId);
+    const guild = this.discordService.getClient().guilds.cache.get(guildId);
+    if (!guild) return;
+
+    const followed = policy.followUserId ? guild.voiceStates.cache.get(policy.followUserId)?.channelId : null;
+    const target = followed || policy.homeChannelId;
+    if (target && guild.channels.cache.get(target)?.isVoiceBased()) {
+      await this.discordService.joinVoiceChannel(guildId, target);
+    }
+  }
+
+  /**
+   * Leave voice, or go back to the home channel
+   */
+  private async release(guildId: string, reason: string): Promise<void> {
+    const { homeChannelId } = this.getPolicy(guildId);
+    const connection = getVoiceConnection(guildId);
+    if (!connection || connection.joinConfig.channelId === homeChannelId) return;
+
+    console.error(`Leaving voice in guild ${guildId}: ${reason}`);
+    musicService.destroy(guildId);
+    this.activity.delete(guildId);
+    if (homeChannelId) {
+      await this.applyPolicy(guildId);
+    }
+  }
+
+  private async onVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): Promise<void> {
+    const guildId = newState.guild.id;
+    const userId = newState.id;
+    if (oldState.channelId === newState.channelId || userId === newState.client.user.id) return;
+
+    if (!this.discordService) return;
+    const connection = getVoiceConnection(guildId);
+
+    const lock = getVoiceLock(guildId);
+    if (lock?.lockedBy === userId) {
+      this.onLockOwnerMoved(guildId, userId, newState.channelId);
+      // The bot stays with the lock holder, as after !lockvoice
+      if (newState.channelId && connection && connection.joinConfig.channelId !== newState.channelId) {
+        await this.discordService.joinVoiceChannel(guildId, newState.channelId);
+      }
+      return;
+    }
+
+    if (this.getPolicy(guildId).followUserId !== userId) return;
+    if (newState.channelId) {
+      // Don't walk away from the lock holder
+      if (lock && connection) return;
+      if (connection?.joinConfig.channelId !== newState.channelId) {
+        await this.discordService.joinVoiceChannel(guildId, newState.channelId);
+      }
+    } else if (connection?.joinConfig.channelId === oldState.channelId) {
+      await this.release(guildId, 'the followed member left voice');
+    }
+  }
+
+  /**
+   * The voice lock holder joined, moved or left voice
+   */
+  private onLockOwnerMoved(guildId: string, userId: string, channelId: string | null): void {
+    const pending = this.lockTimers.get(guildId);
+    if (pending) {
+      clearTimeout(pending);
+      this.lockTimers.delete(guildId);
+    }
+
+    if (channelId) {
+      setVoiceLockChannel(guildId, channelId);
+      return;
+    }
+
+    // Brief disconnects happen; only unlock if they stay away
+    const timer = setTimeout(() => {
+      this.lockTimers.delete(guildId);
+      const guild = this.discordService?.getClient().guilds.cache.get(guildId);
+      if (getVoiceLock(guildId)?.lockedBy === userId && !guild?.voiceStates.cache.get(userId)?.channelId) {
+        releaseVoiceLock(guildId);
+        console.error(`Voice lock in guild ${guildId} released: its holder left voice`);
+      }
+    }, LOCK_RELEASE_GRACE_MS);
+    timer.unref();
+    this.lockTimers.set(guildId, timer);
+  }
+
+  /**
+   * Leave channels that have been empty or idle for too long
+   */
+  private sweep(): void {
+    const client = this.discordService?.getClient();
+    if (!client) return;
+
+    const now = Date.now();
+    for (const connection of getVoiceConnections().values()) {
+      const { guildId, channelId } = connection.joinConfig;
+      if (connection.state.status !== VoiceConnectionStatus.Ready || !channelId) continue;
+
+      const channel = client.guilds.cache.get(guildId)?.channels.cache.get(channelId);
+      const listeners = channel?.isVoiceBased() ? channel.members.filter(member => !member.user.bot).size : 0;
+      const playing = !!musicService.getQueueInfo(guildId).currentTrack
+        || getAudioMixer().isPlayingClips(guildId)
+        || getVoiceListener().isListening(guildId);
+
+      const activity = this.activity.get(guildId) || {};
+      activity.emptySince = listeners > 0 ? undefined : activity.emptySince ?? now;
+      activity.idleSince = playing ? undefined : activity.idleSince ?? now;
+      this.activity.set(guildId, activity);
+
+      const policy = this.getPolicy(guildId);
+      const expired = (since: number | undefined, minutes: number) =>
+        since !== undefined && minutes > 0 && now - since >= minutes * 60_000;
+
+      let reason: string | null = null;
+      if (expired(activity.emptySince, policy.emptyTimeoutMinutes)) {
+        reason = `the channel was empty for ${policy.emptyTimeoutMinutes} minute(s)`;
+      } else if (expired(activity.idleSince, policy.idleTimeoutMinutes)) {
+        reason = `nothing played for ${policy.idleTimeoutMinutes} minute(s)`;
+      }
+      if (reason) {
+        this.release(guildId, reason).catch(error =>
+          console.error(`Could not leave voice in guild ${guildId}:`, error)
+        );
+      }
+    }
+  }
+}
+
+let voicePresence: VoicePresenceManager | null = null;
+
+export function getVoicePresence(): VoicePresenceManager {
+  if (!voicePresence) {
+    voicePresence = new VoicePresenceManager();
+  }
+  return voicePresence;
+}
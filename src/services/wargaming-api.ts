@@ -1,9 +1,108 @@
 /**
  * Wargaming API Service for World of Warships stats lookup
+ *
+ * Players and clans live on one of three regional servers (NA, EU, Asia),
+ * each with its own API host. Lookups take a region; `findInRegions` tries the
+ * preferred one first and falls back to the others when nothing is found.
  */
 
-const API_BASE_URL = 'https://api.worldofwarships.com/wows';
-const APP_ID = process.env.WARGAMING_APP_ID || '007e439533b8d74a7d831b1822603499';
+import { StoredMap } from '../core/Storage.js';
+import { CACHE_TTL_MS, wgBatchLookup, wgBatchLookupMany, wgRequest, type ApiResponse } from './wargaming-client.js';
+
+export type WowsRegion = 'na' | 'eu' | 'asia';
+
+export const WOWS_REGIONS: WowsRegion[] = ['na', 'eu', 'asia'];
+
+const WOWS_NUMBERS_URLS: Record<WowsRegion, string> = {
+  na: 'https://na.wows-numbers.com',
+  eu: 'https://wows-numbers.com',
+  asia: 'https://asia.wows-numbers.com',
+};
+
+// Other names people use for the regions
+const REGION_ALIASES: Record<string, WowsRegion> = {
+  na: 'na', us: 'na', com: 'na',
+  eu: 'eu',
+  asia: 'asia', sea: 'asia', as: 'asia',
+};
+
+export const DEFAULT_REGION: WowsRegion = parseRegion(process.env.WOWS_DEFAULT_REGION) || 'na';
+
+// Per-guild default region (persisted)
+const guildRegions = new StoredMap<WowsRegion>('wows.regions');
+
+/**
+ * Parse a region name or alias ("eu", "NA", "sea"); null if unknown
+ */
+export function parseRegion(value: string | undefined): WowsRegion | null {
+  return value ? REGION_ALIASES[value.trim().toLowerCase()] ?? null : null;
+}
+
+/**
+ * Split "name@eu" into the name and its region
+ * Without a known region suffix the whole input is the name.
+ */
+export function parseRegionalQuery(input: string): { query: string; region?: WowsRegion } {
+  const match = input.trim().match(/^(.+?)\s*@\s*([a-z]+)$/i);
+  const region = match ? parseRegion(match[2]) : null;
+  return match && region ? { query: match[1], region } : { query: input.trim() };
+}
+
+/**
+ * Display name of a region, e.g. "EU"
+ */
+export function formatRegion(region: WowsRegion): string {
+  return region.toUpperCase();
+}
+
+/**
+ * wows-numbers.com site for a region
+ */
+export function getWowsNumbersUrl(region: WowsRegion): string {
+  return WOWS_NUMBERS_URLS[region];
+}
+
+/**
+ * Get a guild's default region (WOWS_DEFAULT_REGION if none is set)
+ */
+export function getGuildRegion(guildId: string | null | undefined): WowsRegion {
+  return (guildId && guildRegions.get(guildId)) || DEFAULT_REGION;
+}
+
+/**
+ * Set or clear (null) a guild's default region
+ */
+export function setGuildRegion(guildId: string, region: WowsRegion | null): void {
+  if (region) {
+    guildRegions.set(guildId, region);
+  } else {
+    guildRegions.delete(guildId);
+  }
+}
+
+/**
+ * Run a lookup in the preferred region, then (with fallback) in the others
+ * until one finds something. With fallback, every region is first searched for
+ * an exact name (exactOnly), so a player or clan whose name only starts with
+ * the query in the preferred region does not hide an exact match elsewhere.
+ */
+export async function findInRegions<T>(
+  region: WowsRegion,
+  lookup: (region: WowsRegion, exactOnly: boolean) => Promise<T | null>,
+  fallback: boolean = true
+): Promise<T | null> {
+  const regions = fallback ? [region, ...WOWS_REGIONS.filter(r => r !== region)] : [region];
+  const passes = fallback ? [true, false] : [false];
+  for (const exactOnly of passes) {
+    for (const candidate of regions) {
+      const result = await lookup(candidate, exactOnly);
+      if (result) {
+        return result;
+      }
+    }
+  }
+  return null;
+}
 
 export interface PlayerSearchResult {
   account_id: number;
@@ -31,6 +130,7 @@ export interface ClanData {
   clan_id: number;
   tag: string;
   name: string;
+  role?: string;              // The player's rank in the clan, e.g. commander
 }
 
 export interface ClanSearchResult {
@@ -76,6 +176,7 @@ export interface ClanMember {
 }
 
 export interface FormattedClanInfo {
+  region: WowsRegion;
   clanId: number;
   tag: string;
   name: string;
@@ -94,6 +195,7 @@ export interface FormattedClanInfo {
 }
 
 export interface FormattedStats {
+  region: WowsRegion;
   accountId: number;
   nickname: string;
   battles: number;
@@ -111,6 +213,12 @@ export interface FormattedStats {
   lastBattle?: number;
 }
 
+export interface PlayerShips {
+  player: PlayerSearchResult;
+  region: WowsRegion;
+  ships: FormattedShipStats[];
+}
+
 export interface ShipInfo {
   ship_id: number;
   name: string;
@@ -173,11 +281,21 @@ const TIER_ROMAN: Record<number, string> = {
   6: 'VI', 7: 'VII', 8: 'VIII', 9: 'IX', 10: 'X', 11: 'XI',
 };
 
+/**
+ * Calculate PR (simplified formula) from per-battle averages; winRate in percent
+ */
+export function calculatePR(avgDamage: number, winRate: number, avgFrags: number): number {
+  return Math.round((avgDamage / 10) + (winRate * 10) + (avgFrags * 100));
+}
+
+// PR rating categories, best first
+export const PR_RATINGS = ['Elite', 'Excellent', 'Very Good', 'Good', 'Average', 'Below Average', 'Poor'];
+
 /**
  * Get PR rating category based on value
  * PR (Personal Rating) is a WoWS community metric for player skill
  */
-function getPRRating(pr: number): string {
+export function getPRRating(pr: number): string {
   if (pr >= 2450) return 'Elite';
   if (pr >= 2100) return 'Excellent';
   if (pr >= 1750) return 'Very Good';
@@ -187,26 +305,26 @@ function getPRRating(pr: number): string {
   return 'Poor';
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type ApiResponse = any;
+// Player and clan searches change rarely; cache them longer than stats
+const SEARCH_TTL_MS = Math.max(CACHE_TTL_MS, 30 * 60 * 1000);
 
 /**
- * Search for a player by name
+ * Search for a player by name; unless exactOnly, falls back to the first
+ * name starting with it
  */
-export async function searchPlayer(playerName: string): Promise<PlayerSearchResult | null> {
+export async function searchPlayer(playerName: string, region: WowsRegion = DEFAULT_REGION, exactOnly: boolean = false): Promise<PlayerSearchResult | null> {
   // Try exact match first
-  const exactUrl = `${API_BASE_URL}/account/list/?application_id=${APP_ID}&search=${encodeURIComponent(playerName)}&type=exact`;
-  const exactResponse = await fetch(exactUrl);
-  const exactData: ApiResponse = await exactResponse.json();
+  const exactData = await wgRequest(region, 'account/list', { search: playerName, type: 'exact' }, SEARCH_TTL_MS);
 
   if (exactData.status === 'ok' && exactData.data && exactData.data.length > 0) {
     return exactData.data[0];
   }
+  if (exactOnly) {
+    return null;
+  }
 
   // Fall back to startswith search
-  const startsWithUrl = `${API_BASE_URL}/account/list/?application_id=${APP_ID}&search=${encodeURIComponent(playerName)}&type=startswith&limit=1`;
-  const startsWithResponse = await fetch(startsWithUrl);
-  const startsWithData: ApiResponse = await startsWithResponse.json();
+  const startsWithData = await wgRequest(region, 'account/list', { search: playerName, type: 'startswith', limit: 1 }, SEARCH_TTL_MS);
 
   if (startsWithData.status === 'ok' && startsWithData.data && startsWithData.data.length > 0) {
     return startsWithData.data[0];
@@ -218,68 +336,84 @@ export async function searchPlayer(playerName: string): Promise<PlayerSearchResu
 /**
  * Get player stats by account ID
  */
-export async function getPlayerStats(accountId: number): Promise<PlayerStats | null> {
-  const url = `${API_BASE_URL}/account/info/?application_id=${APP_ID}&account_id=${accountId}`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
+export async function getPlayerStats(accountId: number, region: WowsRegion = DEFAULT_REGION): Promise<PlayerStats | null> {
+  return wgBatchLookup<PlayerStats>(region, 'account/info', 'account_id', accountId);
+}
 
-  if (data.status === 'ok' && data.data && data.data[accountId]) {
-    return data.data[accountId];
-  }
+/**
+ * Get stats for many players at once (batched, 100 per request)
+ */
+export async function getPlayersStats(accountIds: number[], region: WowsRegion = DEFAULT_REGION): Promise<Map<number, PlayerStats>> {
+  return wgBatchLookupMany<PlayerStats>(region, 'account/info', 'account_id', accountIds);
+}
+
+type ClanMembership = { clan_id: number | null; role: string; clan?: { tag: string; name: string } };
 
+function toClanData(membership: ClanMembership | null): ClanData | null {
+  if (membership?.clan_id && membership.clan) {
+    return {
+      clan_id: membership.clan_id,
+      tag: membership.clan.tag,
+      name: membership.clan.name,
+      role: membership.role,
+    };
+  }
   return null;
 }
 
 /**
  * Get player's clan info
  */
-export async function getPlayerClan(accountId: number): Promise<ClanData | null> {
-  const url = `${API_BASE_URL}/clans/accountinfo/?application_id=${APP_ID}&account_id=${accountId}`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
-
-  if (data.status === 'ok' && data.data && data.data[accountId]?.clan_id) {
-    const clanId = data.data[accountId].clan_id;
-
-    // Get clan details
-    const clanUrl = `${API_BASE_URL}/clans/info/?application_id=${APP_ID}&clan_id=${clanId}`;
-    const clanResponse = await fetch(clanUrl);
-    const clanData: ApiResponse = await clanResponse.json();
-
-    if (clanData.status === 'ok' && clanData.data && clanData.data[clanId]) {
-      return {
-        clan_id: clanId,
-        tag: clanData.data[clanId].tag,
-        name: clanData.data[clanId].name,
-      };
+export async function getPlayerClan(accountId: number, region: WowsRegion = DEFAULT_REGION): Promise<ClanData | null> {
+  // extra=clan includes the clan's tag and name, saving a clans/info request
+  return toClanData(await wgBatchLookup<ClanMembership>(region, 'clans/accountinfo', 'account_id', accountId, { extra: 'clan' }));
+}
+
+/**
+ * Get the clans of many players at once; players not in a clan are left out
+ */
+export async function getPlayersClans(accountIds: number[], region: WowsRegion = DEFAULT_REGION): Promise<Map<number, ClanData>> {
+  const memberships = await wgBatchLookupMany<ClanMembership>(region, 'clans/accountinfo', 'account_id', accountIds, { extra: 'clan' });
+  const clans = new Map<number, ClanData>();
+  for (const [accountId, membership] of memberships) {
+    const clan = toClanData(membership);
+    if (clan) {
+      clans.set(accountId, clan);
     }
   }
-
-  return null;
+  return clans;
 }
 
 /**
  * Get full player info with stats and clan
  */
-export async function getFullPlayerInfo(playerName: string): Promise<FormattedStats | null> {
+export async function getFullPlayerInfo(playerName: string, region: WowsRegion = DEFAULT_REGION, exactOnly: boolean = false): Promise<FormattedStats | null> {
   // Search for player
-  const player = await searchPlayer(playerName);
+  const player = await searchPlayer(playerName, region, exactOnly);
   if (!player) {
     return null;
   }
+  return getPlayerInfoByAccount(player.account_id, region);
+}
 
-  // Get stats
-  const stats = await getPlayerStats(player.account_id);
+/**
+ * Get full player info with stats and clan by account ID, e.g. for a linked account
+ */
+export async function getPlayerInfoByAccount(accountId: number, region: WowsRegion = DEFAULT_REGION): Promise<FormattedStats | null> {
+  // Get stats and clan info
+  const [stats, clan] = await Promise.all([
+    getPlayerStats(accountId, region),
+    getPlayerClan(accountId, region),
+  ]);
   if (!stats) {
     return null;
   }
-
-  // Get clan info
-  const clan = await getPlayerClan(player.account_id);
+  const player = { account_id: accountId, nickname: stats.nickname };
 
   // Format stats
   if (stats.hidden_profile) {
     return {
+      region,
       accountId: player.account_id,
       nickname: player.nickname,
       battles: 0,
@@ -297,6 +431,7 @@ export async function getFullPlayerInfo(playerName: string): Promise<FormattedSt
 
   if (!stats.statistics?.pvp) {
     return {
+      region,
       accountId: player.account_id,
       nickname: player.nickname,
       battles: 0,
@@ -319,9 +454,10 @@ export async function getFullPlayerInfo(playerName: string): Promise<FormattedSt
   const avgDamage = pvp.damage_dealt / battles;
   const winRate = (pvp.wins / battles) * 100;
   const avgFrags = pvp.frags / battles;
-  const pr = Math.round((avgDamage / 10) + (winRate * 10) + (avgFrags * 100));
+  const pr = calculatePR(avgDamage, winRate, avgFrags);
 
   return {
+    region,
     accountId: player.account_id,
     nickname: player.nickname,
     battles: pvp.battles,
@@ -340,10 +476,8 @@ export async function getFullPlayerInfo(playerName: string): Promise<FormattedSt
 /**
  * Search for similar player names (for suggestions)
  */
-export async function searchPlayerSuggestions(playerName: string, limit: number = 5): Promise<string[]> {
-  const url = `${API_BASE_URL}/account/list/?application_id=${APP_ID}&search=${encodeURIComponent(playerName)}&type=startswith&limit=${limit}`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
+export async function searchPlayerSuggestions(playerName: string, limit: number = 5, region: WowsRegion = DEFAULT_REGION): Promise<string[]> {
+  const data = await wgRequest(region, 'account/list', { search: playerName, type: 'startswith', limit }, SEARCH_TTL_MS);
 
   if (data.status === 'ok' && data.data && data.data.length > 0) {
     return data.data.map((p: PlayerSearchResult) => p.nickname);
@@ -352,69 +486,93 @@ export async function searchPlayerSuggestions(playerName: string, limit: number
   return [];
 }
 
-// Cache for ship encyclopedia data (ship_id -> ShipInfo)
-let shipEncyclopediaCache: Map<number, ShipInfo> | null = null;
-let shipCacheTimestamp: number = 0;
-const SHIP_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+// Ship encyclopedia per region (ship_id -> ShipInfo). It only changes with game
+// patches, so it is kept until the game version changes, checked hourly.
+interface ShipEncyclopedia {
+  ships: Map<number, ShipInfo>;
+  gameVersion: string | null;
+  fetchedAt: number;
+  checkedAt: number;
+}
+
+const shipEncyclopediaCache = new Map<WowsRegion, ShipEncyclopedia>();
+const shipEncyclopediaLoads = new Map<WowsRegion, Promise<Map<number, ShipInfo>>>();
+const SHIP_VERSION_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const SHIP_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Refetch weekly even without a new version
+const SHIP_FIELDS = 'ship_id,name,tier,type,nation,is_premium,is_special';
 
 /**
  * Get ship encyclopedia data (cached)
  */
-async function getShipEncyclopedia(): Promise<Map<number, ShipInfo>> {
-  // Return cached data if still valid
-  if (shipEncyclopediaCache && Date.now() - shipCacheTimestamp < SHIP_CACHE_DURATION) {
-    return shipEncyclopediaCache;
+async function getShipEncyclopedia(region: WowsRegion): Promise<Map<number, ShipInfo>> {
+  const cached = shipEncyclopediaCache.get(region);
+  if (cached && Date.now() - cached.checkedAt < SHIP_VERSION_CHECK_INTERVAL) {
+    return cached.ships;
   }
 
-  const ships = new Map<number, ShipInfo>();
-  let pageNo = 1;
-  let hasMore = true;
-
-  // Fetch all pages of ship data
-  while (hasMore) {
-    const url = `${API_BASE_URL}/encyclopedia/ships/?application_id=${APP_ID}&page_no=${pageNo}&fields=ship_id,name,tier,type,nation,is_premium,is_special`;
-    const response = await fetch(url);
-    const data: ApiResponse = await response.json();
-
-    if (data.status === 'ok' && data.data) {
-      for (const shipId of Object.keys(data.data)) {
-        const ship = data.data[shipId];
-        if (ship) {
-          ships.set(Number(shipId), {
-            ship_id: ship.ship_id,
-            name: ship.name,
-            tier: ship.tier,
-            type: ship.type,
-            nation: ship.nation,
-            is_premium: ship.is_premium || false,
-            is_special: ship.is_special || false,
-          });
-        }
-      }
+  // One load per region at a time
+  let load = shipEncyclopediaLoads.get(region);
+  if (!load) {
+    load = loadShipEncyclopedia(region, cached).finally(() => shipEncyclopediaLoads.delete(region));
+    shipEncyclopediaLoads.set(region, load);
+  }
+  return load;
+}
 
-      // Check if there are more pages
-      if (data.meta && data.meta.page_total > pageNo) {
-        pageNo++;
-      } else {
-        hasMore = false;
+async function loadShipEncyclopedia(region: WowsRegion, cached: ShipEncyclopedia | undefined): Promise<Map<number, ShipInfo>> {
+  const info = await wgRequest(region, 'encyclopedia/info', { fields: 'game_version' }, 0);
+  const gameVersion: string | null = info.status === 'ok' ? info.data?.game_version ?? null : null;
+
+  // Same game version: keep what we have
+  if (cached && gameVersion && cached.gameVersion === gameVersion && Date.now() - cached.fetchedAt < SHIP_CACHE_MAX_AGE) {
+    cached.checkedAt = Date.now();
+    return cached.ships;
+  }
+
+  const ships = new Map<number, ShipInfo>();
+  const addPage = (data: ApiResponse) => {
+    for (const shipId of Object.keys(data.data || {})) {
+      const ship = data.data[shipId];
+      if (ship) {
+        ships.set(Number(shipId), {
+          ship_id: ship.ship_id,
+          name: ship.name,
+          tier: ship.tier,
+          type: ship.type,
+          nation: ship.nation,
+          is_premium: ship.is_premium || false,
+          is_special: ship.is_special || false,
+        });
       }
-    } else {
-      hasMore = false;
     }
+  };
+
+  // The first page says how many there are; fetch the rest together
+  const first = await wgRequest(region, 'encyclopedia/ships', { page_no: 1, fields: SHIP_FIELDS }, 0);
+  if (first.status !== 'ok') {
+    // Keep serving stale data rather than none
+    return cached?.ships ?? ships;
+  }
+  addPage(first);
+
+  const pageTotal: number = first.meta?.page_total ?? 1;
+  const pages = await Promise.all(
+    Array.from({ length: pageTotal - 1 }, (_, i) => wgRequest(region, 'encyclopedia/ships', { page_no: i + 2, fields: SHIP_FIELDS }, 0))
+  );
+  if (pages.some(page => page.status !== 'ok')) {
+    return cached?.ships ?? ships;
   }
+  pages.forEach(addPage);
 
-  shipEncyclopediaCache = ships;
-  shipCacheTimestamp = Date.now();
+  shipEncyclopediaCache.set(region, { ships, gameVersion, fetchedAt: Date.now(), checkedAt: Date.now() });
   return ships;
 }
 
 /**
  * Get player's ship statistics
  */
-export async function getPlayerShipStats(accountId: number): Promise<ShipStats[]> {
-  const url = `${API_BASE_URL}/ships/stats/?application_id=${APP_ID}&account_id=${accountId}&fields=ship_id,pvp,last_battle_time`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
+export async function getPlayerShipStats(accountId: number, region: WowsRegion = DEFAULT_REGION): Promise<ShipStats[]> {
+  const data = await wgRequest(region, 'ships/stats', { account_id: accountId, fields: 'ship_id,pvp,last_battle_time' });
 
   if (data.status === 'ok' && data.data && data.data[accountId]) {
     return data.data[accountId] || [];
@@ -433,24 +591,26 @@ export async function getPlayerShipsFormatted(
     type?: string;
     sortBy?: 'battles' | 'winrate' | 'damage' | 'recent';
     limit?: number;
+    region?: WowsRegion;
+    exactOnly?: boolean;
   } = {}
-): Promise<{ player: PlayerSearchResult; ships: FormattedShipStats[] } | null> {
-  const { tier, type, sortBy = 'battles', limit = 10 } = options;
+): Promise<PlayerShips | null> {
+  const { tier, type, sortBy = 'battles', limit = 10, region = DEFAULT_REGION, exactOnly = false } = options;
 
   // Search for player
-  const player = await searchPlayer(playerName);
+  const player = await searchPlayer(playerName, region, exactOnly);
   if (!player) {
     return null;
   }
 
   // Get ship stats and encyclopedia in parallel
   const [shipStats, shipEncyclopedia] = await Promise.all([
-    getPlayerShipStats(player.account_id),
-    getShipEncyclopedia(),
+    getPlayerShipStats(player.account_id, region),
+    getShipEncyclopedia(region),
   ]);
 
   if (shipStats.length === 0) {
-    return { player, ships: [] };
+    return { player, region, ships: [] };
   }
 
   // Format ship stats
@@ -471,7 +631,7 @@ export async function getPlayerShipsFormatted(
     const avgDamage = pvp.damage_dealt / battles;
     const winRate = (pvp.wins / battles) * 100;
     const avgFrags = pvp.frags / battles;
-    const pr = Math.round((avgDamage / 10) + (winRate * 10) + (avgFrags * 100));
+    const pr = calculatePR(avgDamage, winRate, avgFrags);
 
     let accuracy: string | undefined;
     if (pvp.main_battery && pvp.main_battery.shots > 0) {
@@ -519,14 +679,14 @@ export async function getPlayerShipsFormatted(
   // Apply limit
   const limitedShips = formattedShips.slice(0, limit);
 
-  return { player, ships: limitedShips };
+  return { player, region, ships: limitedShips };
 }
 
 /**
  * Get Tier X ships for a player (useful for recruitment evaluation)
  */
-export async function getPlayerTierXShips(playerName: string): Promise<{ player: PlayerSearchResult; ships: FormattedShipStats[] } | null> {
-  return getPlayerShipsFormatted(playerName, { tier: 10, sortBy: 'battles', limit: 50 });
+export async function getPlayerTierXShips(playerName: string, region: WowsRegion = DEFAULT_REGION): Promise<PlayerShips | null> {
+  return getPlayerShipsFormatted(playerName, { tier: 10, sortBy: 'battles', limit: 50, region });
 }
 
 /**
@@ -537,12 +697,10 @@ export function formatTier(tier: number): string {
 }
 
 /**
- * Search for a clan by tag or name
+ * Search for a clan by tag or name; exactOnly only accepts an exact tag
  */
-export async function searchClan(query: string): Promise<ClanSearchResult | null> {
-  const url = `${API_BASE_URL}/clans/list/?application_id=${APP_ID}&search=${encodeURIComponent(query)}&limit=10`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
+export async function searchClan(query: string, region: WowsRegion = DEFAULT_REGION, exactOnly: boolean = false): Promise<ClanSearchResult | null> {
+  const data = await wgRequest(region, 'clans/list', { search: query, limit: 10 }, SEARCH_TTL_MS);
 
   if (data.status === 'ok' && data.data && data.data.length > 0) {
     // Try to find exact tag match first (case insensitive)
@@ -553,7 +711,7 @@ export async function searchClan(query: string): Promise<ClanSearchResult | null
       return exactTagMatch;
     }
     // Otherwise return first result
-    return data.data[0];
+    return exactOnly ? null : data.data[0];
   }
 
   return null;
@@ -562,26 +720,15 @@ export async function searchClan(query: string): Promise<ClanSearchResult | null
 /**
  * Get detailed clan info by clan ID
  */
-export async function getClanInfo(clanId: number, includeMembers: boolean = false): Promise<ClanFullInfo | null> {
-  const extra = includeMembers ? '&extra=members' : '';
-  const url = `${API_BASE_URL}/clans/info/?application_id=${APP_ID}&clan_id=${clanId}${extra}`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
-
-  if (data.status === 'ok' && data.data && data.data[clanId]) {
-    return data.data[clanId];
-  }
-
-  return null;
+export async function getClanInfo(clanId: number, includeMembers: boolean = false, region: WowsRegion = DEFAULT_REGION): Promise<ClanFullInfo | null> {
+  return wgBatchLookup<ClanFullInfo>(region, 'clans/info', 'clan_id', clanId, { extra: includeMembers ? 'members' : undefined });
 }
 
 /**
  * Search for clan suggestions (for autocomplete)
  */
-export async function searchClanSuggestions(query: string, limit: number = 5): Promise<string[]> {
-  const url = `${API_BASE_URL}/clans/list/?application_id=${APP_ID}&search=${encodeURIComponent(query)}&limit=${limit}`;
-  const response = await fetch(url);
-  const data: ApiResponse = await response.json();
+export async function searchClanSuggestions(query: string, limit: number = 5, region: WowsRegion = DEFAULT_REGION): Promise<string[]> {
+  const data = await wgRequest(region, 'clans/list', { search: query, limit }, SEARCH_TTL_MS);
 
   if (data.status === 'ok' && data.data && data.data.length > 0) {
     return data.data.map((c: ClanSearchResult) => `[${c.tag}] ${c.name}`);
@@ -593,15 +740,20 @@ export async function searchClanSuggestions(query: string, limit: number = 5): P
 /**
  * Get full formatted clan info
  */
-export async function getFullClanInfo(query: string, includeMembers: boolean = false): Promise<FormattedClanInfo | null> {
+export async function getFullClanInfo(
+  query: string,
+  includeMembers: boolean = false,
+  region: WowsRegion = DEFAULT_REGION,
+  exactOnly: boolean = false
+): Promise<FormattedClanInfo | null> {
   // Search for clan
-  const clanSearch = await searchClan(query);
+  const clanSearch = await searchClan(query, region, exactOnly);
   if (!clanSearch) {
     return null;
   }
 
   // Get detailed info (with members if requested)
-  const clanInfo = await getClanInfo(clanSearch.clan_id, includeMembers);
+  const clanInfo = await getClanInfo(clanSearch.clan_id, includeMembers, region);
   if (!clanInfo) {
     return null;
   }
@@ -635,6 +787,7 @@ export async function getFullClanInfo(query: string, includeMembers: boolean = f
   }
 
   return {
+    region,
     clanId: clanInfo.clan_id,
     tag: clanInfo.tag,
     name: clanInfo.name,
@@ -0,0 +1,278 @@
+/**
+ * Wargaming Client - rate-limited, cached and batched access to the Wargaming API
+ *
+ * All World of Warships lookups go through here:
+ * - Requests are spaced to stay under the application's rate limit
+ *   (WARGAMING_MAX_RPS), and retried with backoff when Wargaming still answers
+ *   REQUEST_LIMIT_EXCEEDED or is briefly unavailable
+ * - Successful responses are cached for a TTL chosen by the caller; identical
+ *   requests in flight share one fetch
+ * - Lookups by account or clan ID made at about the same time are merged into
+ *   one request of up to 100 IDs, and each ID's entry is cached on its own
+ */
+
+import { RateLimitError } from '../core/ErrorHandler.js';
+import type { WowsRegion } from './wargaming-api.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ApiResponse = any;
+
+export type RequestParams = Record<string, string | number | boolean | undefined>;
+
+const API_BASE_URLS: Record<WowsRegion, string> = {
+  na: 'https://api.worldofwarships.com/wows',
+  eu: 'https://api.worldofwarships.eu/wows',
+  asia: 'https://api.worldofwarships.asia/wows',
+};
+
+// Wargaming ID sign-in is shared by all games and served from the WoT API hosts
+const AUTH_LOGIN_URLS: Record<WowsRegion, string> = {
+  na: 'https://api.worldoftanks.com/wot/auth/login/',
+  eu: 'https://api.worldoftanks.eu/wot/auth/login/',
+  asia: 'https://api.worldoftanks.asia/wot/auth/login/',
+};
+
+const APP_ID = process.env.WARGAMING_APP_ID || '007e439533b8d74a7d831b1822603499';
+const MAX_REQUESTS_PER_SECOND = parseInt(process.env.WARGAMING_MAX_RPS || '') || 10;
+export const CACHE_TTL_MS = (parseInt(process.env.WOWS_CACHE_SECONDS || '') || 300) * 1000;
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const MAX_RETRIES = 3;
+const MAX_CACHE_ENTRIES = 5_000;
+const MAX_BATCH_SIZE = 100;
+// How long to wait for more IDs before sending a batch
+const BATCH_WINDOW_MS = 25;
+
+// Errors worth retrying: rate limit and temporary outages
+const RETRYABLE_ERRORS = new Set(['REQUEST_LIMIT_EXCEEDED', 'SOURCE_NOT_AVAILABLE']);
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface PendingBatch {
+  ids: Set<number>;
+  waiters: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }[]>;
+  timer: NodeJS.Timeout | null;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<ApiResponse>>();
+const batches = new Map<string, PendingBatch>();
+
+// Earliest time the next request may be sent
+let nextRequestAt = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait for a request slot under MAX_REQUESTS_PER_SECOND
+ */
+async function takeSlot(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt);
+  nextRequestAt = slot + 1000 / MAX_REQUESTS_PER_SECOND;
+  if (slot > now) {
+    await sleep(slot - now);
+  }
+}
+
+function buildUrl(region: WowsRegion, path: string, params: RequestParams): string {
+  const query = new URLSearchParams({ application_id: APP_ID });
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      query.set(key, String(value));
+    }
+  }
+  return `${API_BASE_URLS[region]}/${path}/?${query}`;
+}
+
+function cacheGet(key: string): unknown {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry.value;
+}
+
+function cacheSet(key: string, value: unknown, ttlMs: number): void {
+  if (ttlMs <= 0) return;
+  cache.delete(key);
+  cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+  // Maps keep insertion order, so the first keys are the oldest
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+/**
+ * Send one request, retrying rate-limit and availability errors
+ */
+async function send(url: string): Promise<ApiResponse> {
+  for (let attempt = 0; ; attempt++) {
+    await takeSlot();
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        if (attempt < MAX_RETRIES) continue;
+        throw new Error('Wargaming API did not respond in time, try again shortly');
+      }
+      throw error;
+    }
+    if (!response.ok && response.status !== 429 && response.status < 500) {
+      throw new Error(`Wargaming API request failed (${response.status})`);
+    }
+
+    const data: ApiResponse = response.ok ? await response.json() : { status: 'error', error: { message: 'SOURCE_NOT_AVAILABLE' } };
+    if (data.status !== 'error' || !RETRYABLE_ERRORS.has(data.error?.message)) {
+      return data;
+    }
+
+    const retryAfter = 500 * 2 ** attempt;
+    if (attempt >= MAX_RETRIES) {
+      throw new RateLimitError(`Wargaming API is busy (${data.error.message}), try again shortly`, retryAfter, true);
+    }
+    // Hold back every request, not just this one
+    nextRequestAt = Math.max(nextRequestAt, Date.now() + retryAfter);
+  }
+}
+
+/**
+ * Call a Wargaming API method, e.g. `wgRequest('eu', 'account/list', { search })`
+ * Successful responses are cached for ttlMs (0 = not cached).
+ */
+export async function wgRequest(region: WowsRegion, path: string, params: RequestParams = {}, ttlMs: number = CACHE_TTL_MS): Promise<ApiResponse> {
+  const url = buildUrl(region, path, params);
+  const cached = cacheGet(url);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const pending = inFlight.get(url);
+  if (pending) {
+    return pending;
+  }
+
+  const request = send(url)
+    .then(data => {
+      if (data.status === 'ok') {
+        cacheSet(url, data, ttlMs);
+      }
+      return data;
+    })
+    .finally(() => inFlight.delete(url));
+  inFlight.set(url, request);
+  return request;
+}
+
+/**
+ * URL of the Wargaming ID sign-in page for a region. After signing in, the
+ * player is sent to redirectUri with status, account_id, nickname and
+ * access_token added to its query string.
+ */
+export function wgLoginUrl(region: WowsRegion, redirectUri: string): string {
+  const query = new URLSearchParams({ application_id: APP_ID, redirect_uri: redirectUri });
+  return `${AUTH_LOGIN_URLS[region]}?${query}`;
+}
+
+/**
+ * Look up one entry of an ID-keyed method (account/info, clans/info, ...).
+ * Lookups for the same method and params are batched into one request, and the
+ * entry is null if Wargaming has no data for the ID.
+ */
+export function wgBatchLookup<T>(
+  region: WowsRegion,
+  path: string,
+  idParam: 'account_id' | 'clan_id',
+  id: number,
+  params: RequestParams = {},
+  ttlMs: number = CACHE_TTL_MS
+): Promise<T | null> {
+  const batchKey = buildUrl(region, path, params);
+  const entryKey = `${batchKey}#${id}`;
+  const cached = cacheGet(entryKey);
+  if (cached !== undefined) {
+    return Promise.resolve(cached as T | null);
+  }
+
+  return new Promise((resolve, reject) => {
+    let batch = batches.get(batchKey);
+    if (!batch) {
+      batch = { ids: new Set(), waiters: new Map(), timer: null };
+      batches.set(batchKey, batch);
+    }
+    batch.ids.add(id);
+    const waiters = batch.waiters.get(id) || [];
+    waiters.push({ resolve: value => resolve(value as T | null), reject });
+    batch.waiters.set(id, waiters);
+
+    if (batch.ids.size >= MAX_BATCH_SIZE) {
+      flushBatch(batchKey, region, path, idParam, params, ttlMs);
+    } else if (!batch.timer) {
+      batch.timer = setTimeout(() => flushBatch(batchKey, region, path, idParam, params, ttlMs), BATCH_WINDOW_MS);
+    }
+  });
+}
+
+/**
+ * Look up many IDs at once; returns the entries that exist, by ID
+ */
+export async function wgBatchLookupMany<T>(
+  region: WowsRegion,
+  path: string,
+  idParam: 'account_id' | 'clan_id',
+  ids: number[],
+  params: RequestParams = {},
+  ttlMs: number = CACHE_TTL_MS
+): Promise<Map<number, T>> {
+  const entries = await Promise.all(ids.map(id => wgBatchLookup<T>(region, path, idParam, id, params, ttlMs)));
+  const found = new Map<number, T>();
+  ids.forEach((id, index) => {
+    const entry = entries[index];
+    if (entry) {
+      found.set(id, entry);
+    }
+  });
+  return found;
+}
+
+function flushBatch(
+  batchKey: string,
+  region: WowsRegion,
+  path: string,
+  idParam: string,
+  params: RequestParams,
+  ttlMs: number
+): void {
+  const batch = batches.get(batchKey);
+  if (!batch) return;
+  batches.delete(batchKey);
+  if (batch.timer) {
+    clearTimeout(batch.timer);
+  }
+
+  const ids = [...batch.ids];
+  send(buildUrl(region, path, { ...params, [idParam]: ids.join(',') }))
+    .then(data => {
+      if (data.status !== 'ok') {
+        throw new Error(`Wargaming API error: ${data.error?.message || 'unknown error'}`);
+      }
+      for (const id of ids) {
+        const entry = data.data?.[id] ?? null;
+        cacheSet(`${batchKey}#${id}`, entry, ttlMs);
+        batch.waiters.get(id)?.forEach(waiter => waiter.resolve(entry));
+      }
+    })
+    .catch(error => {
+      for (const waiters of batch.waiters.values()) {
+        waiters.forEach(waiter => waiter.reject(error));
+      }
+    });
+}
@@ -0,0 +1,280 @@
+/**
+ * WoWS Roles - Discord roles that follow members' linked WoWS accounts
+ *
+ * Each server maps roles to what it cares about: having a verified link, being
+ * in one of its clans (by tag), the member's rank in that clan, and PR rating.
+ * Every WOWS_ROLE_SYNC_HOURS the clans and stats of linked members are fetched
+ * (batched per region) and the mapped roles added or removed to match. Only
+ * mapped roles are touched, and anyone holding one without qualifying for it
+ * loses it. Members whose region could not be fetched are left as they are.
+ */
+
+import type { GuildMember, GuildMemberManager } from 'discord.js';
+import type { DiscordService } from '../discord-service.js';
+import { PeriodicTask } from '../core/PeriodicTask.js';
+import { StoredMap } from '../core/Storage.js';
+import { getAccountLinks } from './account-links.js';
+import {
+  calculatePR,
+  getPlayersClans,
+  getPlayersStats,
+  getPRRating,
+  PR_RATINGS,
+  WOWS_REGIONS,
+  type ClanData,
+  type PlayerStats
+} from './wargaming-api.js';
+
+export interface WowsRoleConfig {
+  linkedRoleId?: string;                // Every linked member
+  clanRoles: Record<string, string>;    // Clan tag -> role ID
+  rankRoles: Record<string, string>;    // Clan rank -> role ID
+  prRoles: Record<string, string>;      // PR rating -> role ID
+}
+
+export type RoleMappingKind = 'linked' | 'clan' | 'rank' | 'pr';
+
+export interface RoleSyncResult {
+  guildId: string;
+  members: number;            // Members checked
+  added: number;
+  removed: number;
+  errors: string[];
+}
+
+// Clan ranks as the Wargaming API names them, highest first
+export const CLAN_RANKS = ['commander', 'executive_officer', 'recruitment_officer', 'commissioned_officer', 'officer', 'private'];
+
+const SYNC_INTERVAL_MS = (parseFloat(process.env.WOWS_ROLE_SYNC_HOURS || '') || 6) * 60 * 60 * 1000;
+const FIRST_RUN_DELAY_MS = 2 * 60_000;
+const MEMBER_FETCH_BATCH = 100;
+const MAX_ERRORS = 10;
+
+function emptyConfig(): WowsRoleConfig {
+  return { clanRoles: {}, rankRoles: {}, prRoles: {} };
+}
+
+function managedRoles(config: WowsRoleConfig): Set<string> {
+  return new Set([
+    ...(config.linkedRoleId ? [config.linkedRoleId] : []),
+    ...Object.values(config.clanRoles),
+    ...Object.values(config.rankRoles),
+    ...Object.values(config.prRoles)
+  ]);
+}
+
+/**
+ * Roles a linked member qualifies for
+ */
+function qualifyingRoles(config: WowsRoleConfig, stats: PlayerStats | undefined, clan: ClanData | undefined): Set<string> {
+  const roles = new Set<string>();
+  if (config.linkedRoleId) {
+    roles.add(config.linkedRoleId);
+  }
+
+  if (clan) {
+    const clanRole = config.clanRoles[clan.tag.toUpperCase()];
+    if (clanRole) {
+      roles.add(clanRole);
+    }
+    // Ranks only count in the server's own clans, if it has any
+    const ownClan = !!clanRole || Object.keys(config.clanRoles).length === 0;
+    const rankRole = clan.role ? config.rankRoles[clan.role] : undefined;
+    if (ownClan && rankRole) {
+      roles.add(rankRole);
+    }
+  }
+
+  const pvp = stats?.statistics?.pvp;
+  if (pvp?.battles && !stats?.hidden_profile) {
+    const pr = calculatePR(pvp.damage_dealt / pvp.battles, pvp.wins / pvp.battles * 100, pvp.frags / pvp.battles);
+    const prRole = config.prRoles[getPRRating(pr)];
+    if (prRole) {
+      roles.add(prRole);
+    }
+  }
+  return roles;
+}
+
+/**
+ * Canonical key of a mapping: upper-case clan tag, API rank name or PR rating.
+ * Returns null if the key is not valid for the kind.
+ */
+export function parseMappingKey(kind: RoleMappingKind, key: string): string | null {
+  const normalized = key.trim().toLowerCase().replace(/[\s_-]+/g, '');
+  switch (kind) {
+    case 'linked':
+      return 'linked';
+    case 'clan':
+      return /^[A-Za-z0-9_-]{2,5}$/.test(key.trim()) ? key.trim().toUpperCase() : null;
+    case 'rank':
+      return CLAN_RANKS.find(rank => rank.replace(/_/g, '') === normalized) ?? null;
+    case 'pr':
+      return PR_RATINGS.find(rating => rating.toLowerCase().replace(/\s/g, '') === normalized) ?? null;
+  }
+}
+
+export class WowsRoleSync {
+  private configs = new StoredMap<WowsRoleConfig>('wows.roles');
+  private discordService: DiscordService | null = null;
+  private task = new PeriodicTask('WoWS role sync', () => this.syncGuilds(), SYNC_INTERVAL_MS, FIRST_RUN_DELAY_MS);
+
+  /**
+   * Start syncing roles on a schedule
+   */
+  start(discordService: DiscordService): void {
+    this.discordService = discordService;
+    this.task.start();
+  }
+
+  stop(): void {
+    this.task.stop();
+  }
+
+  getConfig(guildId: string): WowsRoleConfig {
+    return this.configs.get(guildId) ?? emptyConfig();
+  }
+
+  /**
+   * Map a role, or unmap it with roleId null; key is ignored for 'linked'.
+   * Returns the canonical key, or null if the key is not valid.
+   */
+  setRole(guildId: string, kind: RoleMappingKind, key: string, roleId: string | null): string | null {
+    const canonical = parseMappingKey(kind, key);
+    if (!canonical) return null;
+
+    const config = this.getConfig(guildId);
+    if (kind === 'linked') {
+      config.linkedRoleId = roleId ?? undefined;
+    } else {
+      const mapping = kind === 'clan' ? config.clanRoles : kind === 'rank' ? config.rankRoles : config.prRoles;
+      if (roleId) {
+        mapping[canonical] = roleId;
+      } else {
+        delete mapping[canonical];
+      }
+    }
+
+    if (managedRoles(config).size > 0) {
+      this.configs.set(guildId, config);
+    } else {
+      this.configs.delete(guildId);
+    }
+    return canonical;
+  }
+
+  /**
+   * Sync every server with mapped roles
+   */
+  async syncAll(): Promise<void> {
+    await this.task.run();
+  }
+
+  private async syncGuilds(): Promise<void> {
+    for (const guildId of this.configs.keys()) {
+      try {
+        const result = await this.sync(guildId);
+        if (result.errors.length > 0) {
+          console.error(`WoWS role sync in guild ${guildId}: ${result.errors.join('; ')}`);
+        }
+      } catch (error) {
+        console.error(`WoWS role sync failed in guild ${guildId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Sync one server's members, or just one member
+   */
+  async sync(guildId: string, userId?: string): Promise<RoleSyncResult> {
+    const result: RoleSyncResult = { guildId, members: 0, added: 0, removed: 0, errors: [] };
+    const config = this.configs.get(guildId);
+    const guild = this.discordService?.getClient().guilds.cache.get(guildId);
+    if (!config || !guild || !this.discordService) return result;
+
+    const managed = managedRoles(config);
+    const links = new Map(getAccountLinks().getLinks()
+      .filter(link => !userId || link.userId === userId)
+      .map(link => [link.userId, link]));
+
+    // Linked members, and whoever else holds a mapped role
+    const userIds = new Set(links.keys());
+    if (userId) {
+      userIds.add(userId);
+    } else {
+      for (const roleId of managed) {
+        guild.roles.cache.get(roleId)?.members.forEach(member => userIds.add(member.id));
+      }
+    }
+    const members = await this.fetchMembers(guild.members, [...userIds]);
+
+    // Clans and stats of the linked members present, per region
+    const stats = new Map<string, PlayerStats>();
+    const clans = new Map<string, ClanData>();
+    const failedRegions = new Set<string>();
+    for (const region of WOWS_REGIONS) {
+      const inRegion = [...links.values()].filter(link => link.region === region && members.has(link.userId));
+      if (inRegion.length === 0) continue;
+      try {
+        const ids = inRegion.map(link => link.accountId);
+        const [regionStats, regionClans] = await Promise.all([getPlayersStats(ids, region), getPlayersClans(ids, region)]);
+        for (const link of inRegion) {
+          const entry = regionStats.get(link.accountId);
+          const clan = regionClans.get(link.accountId);
+          if (entry) stats.set(link.userId, entry);
+          if (clan) clans.set(link.userId, clan);
+        }
+      } catch (error) {
+        failedRegions.add(region);
+        this.addError(result, `${region.toUpperCase()} lookup failed: ${(error as Error).message}`);
+      }
+    }
+
+    for (const member of members.values()) {
+      const link = links.get(member.id);
+      if (member.user.bot || (link && failedRegions.has(link.region))) continue;
+      result.members++;
+
+      const wanted = link ? qualifyingRoles(config, stats.get(member.id), clans.get(member.id)) : new Set<string>();
+      for (const roleId of managed) {
+        const has = member.roles.cache.has(roleId);
+        try {
+          if (wanted.has(roleId) && !has) {
+            await this.discordService.addRoleToMember(guildId, member.id, roleId);
+            result.added++;
+          } else if (!wanted.has(roleId) && has) {
+            await this.discordService.removeRoleFromMember(guildId, member.id, roleId);
+            result.removed++;
+          }
+        } catch (error) {
+          this.addError(result, `${member.displayName}: ${(error as Error).message}`);
+        }
+      }
+    }
+    return result;
+  }
+
+  private async fetchMembers(manager: GuildMemberManager, userIds: string[]): Promise<Map<string, GuildMember>> {
+    const members = new Map<string, GuildMember>();
+    for (let i = 0; i < userIds.length; i += MEMBER_FETCH_BATCH) {
+      const fetched = await manager.fetch({ user: userIds.slice(i, i + MEMBER_FETCH_BATCH) });
+      fetched.forEach(member => members.set(member.id, member));
+    }
+    return members;
+  }
+
+  private addError(result: RoleSyncResult, error: string): void {
+    if (result.errors.length < MAX_ERRORS && !result.errors.includes(error)) {
+      result.errors.push(error);
+    }
+  }
+}
+
+let wowsRoleSync: WowsRoleSync | null = null;
+
+export function getWowsRoleSync(): WowsRoleSync {
+  if (!wowsRoleSync) {
+    wowsRoleSync = new WowsRoleSync();
+  }
+  return wowsRoleSync;
+}
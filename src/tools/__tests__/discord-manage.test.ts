@@ -0,0 +1,56 @@
+import { jest } from '@jest/globals';
+import { ZodError } from 'zod';
+import { MemoryStorage, setStorage } from '../../core/Storage.js';
+import type { ToolContext } from '../../core/ToolRegistry.js';
+import type { DiscordService } from '../../discord-service.js';
+import { registerTools } from '../index.js';
+
+const GUILD_ID = 'guild1';
+
+const findChannel = jest.fn(async (guildId: string, channelName: string) => `Found ${channelName} in ${guildId}`);
+
+const discordService = {
+  findChannel,
+  getClient: () => ({
+    guilds: { cache: new Map([[GUILD_ID, { id: GUILD_ID, channels: { cache: new Map() } }]]) }
+  })
+} as unknown as DiscordService;
+
+const context: ToolContext = { discordService };
+
+describe('discord_manage', () => {
+  const registry = registerTools();
+
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+  });
+
+  it('should pass params to tools that have their own action', async () => {
+    const created = await registry.run('discord_manage', {
+      action: 'manage_ai_persona',
+      params: { guildId: GUILD_ID, action: 'create', name: 'pirate', systemPrompt: 'Talk like a pirate' }
+    }, context);
+    expect(JSON.parse(created)).toMatchObject({ name: 'pirate', systemPrompt: 'Talk like a pirate' });
+
+    const listed = await registry.run('discord_manage', {
+      action: 'manage_ai_persona',
+      params: { guildId: GUILD_ID, action: 'list' }
+    }, context);
+    expect(JSON.parse(listed).personas).toEqual(expect.arrayContaining([expect.objectContaining({ name: 'pirate' })]));
+  });
+
+  it('should pass arguments next to action when there are no params', async () => {
+    const result = await registry.run('discord_manage', { action: 'find_channel', guildId: GUILD_ID, channelName: 'general' }, context);
+
+    expect(result).toBe(`Found general in ${GUILD_ID}`);
+    expect(findChannel).toHaveBeenCalledWith(GUILD_ID, 'general');
+  });
+
+  it('should not take the dispatch action as the tool action', async () => {
+    await expect(registry.run('discord_manage', { action: 'manage_ai_persona', guildId: GUILD_ID }, context)).rejects.toThrow(ZodError);
+  });
+
+  it('should reject unknown actions', async () => {
+    await expect(registry.run('discord_manage', { action: 'no_such_tool' }, context)).rejects.toThrow(ZodError);
+  });
+});
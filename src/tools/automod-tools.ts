@@ -0,0 +1,45 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatAutomodRules } from '../discord-formatters.js';
+
+/**
+ * AutoMod rules
+ */
+export const automodTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_automod_rule',
+    description: 'Create an automoderation rule',
+    category: 'Automod',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.CreateAutomodRuleSchema,
+    handler: (parsed, { discordService }) => discordService.createAutomodRule(parsed.guildId, parsed.name, parsed.eventType, parsed.triggerType, parsed.keywordFilter, parsed.presets, parsed.allowList, parsed.mentionLimit, parsed.enabled)
+  }),
+  defineTool({
+    name: 'edit_automod_rule',
+    description: 'Edit an existing automoderation rule',
+    category: 'Automod',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.EditAutomodRuleSchema,
+    handler: (parsed, { discordService }) => discordService.editAutomodRule(parsed.guildId, parsed.ruleId, parsed.name, parsed.enabled, parsed.keywordFilter, parsed.allowList, parsed.mentionLimit)
+  }),
+  defineTool({
+    name: 'delete_automod_rule',
+    description: 'Delete an automoderation rule',
+    category: 'Automod',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.DeleteAutomodRuleSchema,
+    handler: (parsed, { discordService }) => discordService.deleteAutomodRule(parsed.guildId, parsed.ruleId)
+  }),
+  defineTool({
+    name: 'get_automod_rules',
+    description: 'List all automoderation rules in the server',
+    category: 'Automod',
+    permission: 'ManageGuild',
+    scope: 'read',
+    schema: schemas.GetAutomodRulesSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getAutomodRules(parsed.guildId), formatAutomodRules)
+  })
+];
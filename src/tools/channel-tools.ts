@@ -0,0 +1,277 @@
+import { defineTool, structured, type ToolContext, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatChannelList, formatChannelStructure } from '../discord-formatters.js';
+import type { ChannelList, ChannelStructure } from '../discord-results.js';
+
+/**
+ * Drop channels the caller cannot see; categories stay while they or one of
+ * their channels are visible
+ */
+function visibleChannelList(list: ChannelList, { canViewChannel }: ToolContext): ChannelList {
+  return canViewChannel ? { ...list, channels: list.channels.filter(channel => canViewChannel(channel.id)) } : list;
+}
+
+function visibleChannelStructure(structure: ChannelStructure, { canViewChannel }: ToolContext): ChannelStructure {
+  if (!canViewChannel) return structure;
+
+  const categories = structure.categories
+    .map(category => ({ ...category, channels: category.channels.filter(channel => canViewChannel(channel.id)) }))
+    .filter(category => category.channels.length > 0 || canViewChannel(category.id));
+  return {
+    ...structure,
+    uncategorized: structure.uncategorized.filter(channel => canViewChannel(channel.id)),
+    categories
+  };
+}
+
+/**
+ * Channels, categories, positions and privacy
+ */
+export const channelTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_text_channel',
+    description: 'Create a new text channel',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.CreateTextChannelSchema,
+    handler: (parsed, { discordService }) => discordService.createTextChannel(parsed.guildId, parsed.name, parsed.categoryId)
+  }),
+  defineTool({
+    name: 'create_voice_channel',
+    description: 'Create a new voice channel',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.CreateVoiceChannelSchema,
+    handler: (parsed, { discordService }) => discordService.createVoiceChannel(parsed.guildId, parsed.name, parsed.categoryId, parsed.userLimit, parsed.bitrate)
+  }),
+  defineTool({
+    name: 'create_forum_channel',
+    description: 'Create a forum channel with advanced settings',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.CreateForumChannelSchema,
+    handler: (parsed, { discordService }) => discordService.createForumChannel(parsed.guildId, parsed.name, parsed.categoryId, {
+      topic: parsed.topic,
+      slowmode: parsed.slowmode,
+      defaultReactionEmoji: parsed.defaultReactionEmoji,
+      isPrivate: parsed.isPrivate,
+      allowedRoles: parsed.allowedRoles
+    })
+  }),
+  defineTool({
+    name: 'create_announcement_channel',
+    description: 'Create an announcement channel with advanced settings',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.CreateAnnouncementChannelSchema,
+    handler: (parsed, { discordService }) => discordService.createAnnouncementChannel(parsed.guildId, parsed.name, parsed.categoryId, {
+      topic: parsed.topic,
+      slowmode: parsed.slowmode,
+      isPrivate: parsed.isPrivate,
+      allowedRoles: parsed.allowedRoles
+    })
+  }),
+  defineTool({
+    name: 'create_stage_channel',
+    description: 'Create a stage voice channel with advanced settings',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.CreateStageChannelSchema,
+    handler: (parsed, { discordService }) => discordService.createStageChannel(parsed.guildId, parsed.name, parsed.categoryId, {
+      topic: parsed.topic,
+      bitrate: parsed.bitrate,
+      isPrivate: parsed.isPrivate,
+      allowedRoles: parsed.allowedRoles
+    })
+  }),
+  defineTool({
+    name: 'edit_channel_advanced',
+    description: 'Edit any channel with advanced settings including privacy and permissions',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.EditChannelAdvancedSchema,
+    handler: (parsed, { discordService }) => discordService.editChannelAdvanced(parsed.guildId, parsed.channelId, {
+      name: parsed.name,
+      topic: parsed.topic,
+      slowmode: parsed.slowmode,
+      userLimit: parsed.userLimit,
+      bitrate: parsed.bitrate,
+      isPrivate: parsed.isPrivate,
+      allowedRoles: parsed.allowedRoles,
+      categoryId: parsed.categoryId
+    })
+  }),
+  defineTool({
+    name: 'delete_channel',
+    description: 'Delete a channel',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.DeleteChannelSchema,
+    handler: (parsed, { discordService }) => discordService.deleteChannel(parsed.guildId, parsed.channelId)
+  }),
+  defineTool({
+    name: 'find_channel',
+    description: 'Find a channel type and ID using name and server ID',
+    category: 'Channel Management',
+    scope: 'read',
+    schema: schemas.FindChannelSchema,
+    handler: (parsed, { discordService }) => discordService.findChannel(parsed.guildId, parsed.channelName)
+  }),
+  defineTool({
+    name: 'list_channels',
+    description: 'List of all channels',
+    category: 'Channel Management',
+    scope: 'read',
+    schema: schemas.ListChannelsSchema,
+    handler: async (parsed, context) => structured(
+      visibleChannelList(await context.discordService.listChannels(parsed.guildId), context),
+      formatChannelList
+    )
+  }),
+  defineTool({
+    name: 'create_category',
+    description: 'Create a new category for channels',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.CreateCategorySchema,
+    handler: (parsed, { discordService }) => discordService.createCategory(parsed.guildId, parsed.name)
+  }),
+  defineTool({
+    name: 'delete_category',
+    description: 'Delete a category',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.DeleteCategorySchema,
+    handler: (parsed, { discordService }) => discordService.deleteCategory(parsed.guildId, parsed.categoryId)
+  }),
+  defineTool({
+    name: 'find_category',
+    description: 'Find a category ID using name and server ID',
+    category: 'Channel Management',
+    scope: 'read',
+    schema: schemas.FindCategorySchema,
+    handler: (parsed, { discordService }) => discordService.findCategory(parsed.guildId, parsed.categoryName)
+  }),
+  defineTool({
+    name: 'list_channels_in_category',
+    description: 'List of channels in a specific category',
+    category: 'Channel Management',
+    scope: 'read',
+    schema: schemas.ListChannelsInCategorySchema,
+    handler: async (parsed, context) => structured(
+      visibleChannelList(await context.discordService.listChannelsInCategory(parsed.guildId, parsed.categoryId), context),
+      formatChannelList
+    )
+  }),
+  defineTool({
+    name: 'set_channel_position',
+    description: 'Move a channel to a specific position',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.SetChannelPositionSchema,
+    handler: (parsed, { discordService }) => discordService.setChannelPosition(parsed.guildId, parsed.channelId, parsed.position)
+  }),
+  defineTool({
+    name: 'set_channel_positions',
+    description: 'Move multiple channels to specific positions',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.SetChannelPositionsSchema,
+    handler: (parsed, { discordService }) => discordService.setChannelPositions(parsed.guildId, parsed.channelPositions)
+  }),
+  defineTool({
+    name: 'move_channel_to_category',
+    description: 'Move a channel to a category or remove it from a category',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.MoveChannelToCategorySchema,
+    handler: (parsed, { discordService }) => discordService.moveChannelToCategory(parsed.guildId, parsed.channelId, parsed.categoryId)
+  }),
+  defineTool({
+    name: 'set_category_position',
+    description: 'Move a category to a specific position',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.SetCategoryPositionSchema,
+    handler: (parsed, { discordService }) => discordService.setCategoryPosition(parsed.guildId, parsed.categoryId, parsed.position)
+  }),
+  defineTool({
+    name: 'organize_channels',
+    description: 'Comprehensive channel and category organization tool',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.OrganizeChannelsSchema,
+    handler: (parsed, { discordService }) => discordService.organizeChannels(parsed.guildId, parsed.organization)
+  }),
+  defineTool({
+    name: 'get_channel_structure',
+    description: 'Get the current channel and category structure of the server',
+    category: 'Channel Management',
+    scope: 'read',
+    schema: schemas.GetChannelStructureSchema,
+    handler: async (parsed, context) => structured(
+      visibleChannelStructure(await context.discordService.getChannelStructure(parsed.guildId), context),
+      formatChannelStructure
+    )
+  }),
+  defineTool({
+    name: 'set_channel_private',
+    description: 'Make a channel private or public with role/member access control',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.SetChannelPrivateSchema,
+    handler: (parsed, { discordService }) => discordService.setChannelPrivate(parsed.guildId, parsed.channelId, {
+      isPrivate: parsed.isPrivate,
+      allowedRoles: parsed.allowedRoles,
+      allowedMembers: parsed.allowedMembers,
+      syncToCategory: parsed.syncToCategory
+    })
+  }),
+  defineTool({
+    name: 'set_category_private',
+    description: 'Make a category private or public with role/member access control',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.SetCategoryPrivateSchema,
+    handler: (parsed, { discordService }) => discordService.setCategoryPrivate(parsed.guildId, parsed.categoryId, {
+      isPrivate: parsed.isPrivate,
+      allowedRoles: parsed.allowedRoles,
+      allowedMembers: parsed.allowedMembers,
+      applyToChannels: parsed.applyToChannels
+    })
+  }),
+  defineTool({
+    name: 'bulk_set_privacy',
+    description: 'Set privacy for multiple channels and categories in one operation',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.BulkSetPrivacySchema,
+    handler: (parsed, { discordService }) => discordService.bulkSetPrivacy(parsed.guildId, parsed.targets)
+  }),
+  defineTool({
+    name: 'comprehensive_channel_management',
+    description: 'All-in-one channel management tool that performs multiple channel operations in sequence',
+    category: 'Channel Management',
+    permission: 'ManageChannels',
+    scope: 'admin',
+    schema: schemas.ComprehensiveChannelManagementSchema,
+    handler: (parsed, { discordService }) => discordService.comprehensiveChannelManagement(parsed.guildId, parsed.operations)
+  })
+];
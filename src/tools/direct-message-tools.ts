@@ -0,0 +1,49 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatMessages } from '../discord-formatters.js';
+
+/**
+ * Private messages between the bot and users
+ */
+export const directMessageTools: ToolDefinition[] = [
+  defineTool({
+    name: 'get_user_id_by_name',
+    description: 'Get a Discord user\'s ID by username in a guild for ping usage <@id>.',
+    category: 'Direct Messages',
+    scope: 'read',
+    schema: schemas.GetUserIdByNameSchema,
+    handler: (parsed, { discordService }) => discordService.getUserIdByName(parsed.username, parsed.guildId)
+  }),
+  defineTool({
+    name: 'send_private_message',
+    description: 'Send a private message to a specific user',
+    category: 'Direct Messages',
+    scope: 'admin',
+    schema: schemas.SendPrivateMessageSchema,
+    handler: (parsed, { discordService }) => discordService.sendPrivateMessage(parsed.userId, parsed.message)
+  }),
+  defineTool({
+    name: 'edit_private_message',
+    description: 'Edit a private message from a specific user',
+    category: 'Direct Messages',
+    scope: 'admin',
+    schema: schemas.EditPrivateMessageSchema,
+    handler: (parsed, { discordService }) => discordService.editPrivateMessage(parsed.userId, parsed.messageId, parsed.newMessage)
+  }),
+  defineTool({
+    name: 'delete_private_message',
+    description: 'Delete a private message from a specific user',
+    category: 'Direct Messages',
+    scope: 'admin',
+    schema: schemas.DeletePrivateMessageSchema,
+    handler: (parsed, { discordService }) => discordService.deletePrivateMessage(parsed.userId, parsed.messageId)
+  }),
+  defineTool({
+    name: 'read_private_messages',
+    description: 'Read recent message history from a specific user',
+    category: 'Direct Messages',
+    scope: 'admin',
+    schema: schemas.ReadPrivateMessagesSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.readPrivateMessages(parsed.userId, parsed.count), formatMessages)
+  })
+];
@@ -0,0 +1,61 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatEmojis, formatStickers } from '../discord-formatters.js';
+
+/**
+ * Custom emojis and stickers
+ */
+export const emojiTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_emoji',
+    description: 'Create a custom emoji in the server',
+    category: 'Emoji & Sticker',
+    permission: 'ManageGuildExpressions',
+    scope: 'admin',
+    schema: schemas.CreateEmojiSchema,
+    handler: (parsed, { discordService }) => discordService.createEmoji(parsed.guildId, parsed.name, parsed.imageUrl, parsed.roles)
+  }),
+  defineTool({
+    name: 'delete_emoji',
+    description: 'Delete a custom emoji from the server',
+    category: 'Emoji & Sticker',
+    permission: 'ManageGuildExpressions',
+    scope: 'admin',
+    schema: schemas.DeleteEmojiSchema,
+    handler: (parsed, { discordService }) => discordService.deleteEmoji(parsed.guildId, parsed.emojiId)
+  }),
+  defineTool({
+    name: 'get_emojis',
+    description: 'List all custom emojis in the server',
+    category: 'Emoji & Sticker',
+    scope: 'read',
+    schema: schemas.GetEmojisSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getEmojis(parsed.guildId), formatEmojis)
+  }),
+  defineTool({
+    name: 'create_sticker',
+    description: 'Create a custom sticker in the server',
+    category: 'Emoji & Sticker',
+    permission: 'ManageGuildExpressions',
+    scope: 'admin',
+    schema: schemas.CreateStickerSchema,
+    handler: (parsed, { discordService }) => discordService.createSticker(parsed.guildId, parsed.name, parsed.description, parsed.tags, parsed.imageUrl)
+  }),
+  defineTool({
+    name: 'delete_sticker',
+    description: 'Delete a custom sticker from the server',
+    category: 'Emoji & Sticker',
+    permission: 'ManageGuildExpressions',
+    scope: 'admin',
+    schema: schemas.DeleteStickerSchema,
+    handler: (parsed, { discordService }) => discordService.deleteSticker(parsed.guildId, parsed.stickerId)
+  }),
+  defineTool({
+    name: 'get_stickers',
+    description: 'List all custom stickers in the server',
+    category: 'Emoji & Sticker',
+    scope: 'read',
+    schema: schemas.GetStickersSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getStickers(parsed.guildId), formatStickers)
+  })
+];
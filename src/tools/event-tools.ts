@@ -0,0 +1,44 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatEvents } from '../discord-formatters.js';
+
+/**
+ * Scheduled events
+ */
+export const eventTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_event',
+    description: 'Create a scheduled Discord event',
+    category: 'Event Management',
+    permission: 'ManageEvents',
+    scope: 'admin',
+    schema: schemas.CreateEventSchema,
+    handler: (parsed, { discordService }) => discordService.createEvent(parsed.guildId, parsed.name, parsed.description, parsed.startTime, parsed.endTime, parsed.location, parsed.channelId)
+  }),
+  defineTool({
+    name: 'edit_event',
+    description: 'Edit an existing scheduled event',
+    category: 'Event Management',
+    permission: 'ManageEvents',
+    scope: 'admin',
+    schema: schemas.EditEventSchema,
+    handler: (parsed, { discordService }) => discordService.editEvent(parsed.guildId, parsed.eventId, parsed.name, parsed.description, parsed.startTime, parsed.endTime, parsed.location)
+  }),
+  defineTool({
+    name: 'delete_event',
+    description: 'Delete a scheduled event',
+    category: 'Event Management',
+    permission: 'ManageEvents',
+    scope: 'admin',
+    schema: schemas.DeleteEventSchema,
+    handler: (parsed, { discordService }) => discordService.deleteEvent(parsed.guildId, parsed.eventId)
+  }),
+  defineTool({
+    name: 'get_events',
+    description: 'List all scheduled events in the server',
+    category: 'Event Management',
+    scope: 'read',
+    schema: schemas.GetEventsSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getEvents(parsed.guildId), formatEvents)
+  })
+];
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { defineTool, resolveToolCall, ToolRegistry, type ToolDefinition } from '../core/ToolRegistry.js';
+import { serverTools } from './server-tools.js';
+import { messageTools } from './message-tools.js';
+import { directMessageTools } from './direct-message-tools.js';
+import { channelTools } from './channel-tools.js';
+import { webhookTools } from './webhook-tools.js';
+import { voiceTools } from './voice-tools.js';
+import { musicTools } from './music-tools.js';
+import { roleTools } from './role-tools.js';
+import { memberTools } from './member-tools.js';
+import { eventTools } from './event-tools.js';
+import { inviteTools } from './invite-tools.js';
+import { emojiTools } from './emoji-tools.js';
+import { automodTools } from './automod-tools.js';
+import { interactionTools } from './interaction-tools.js';
+import { wowsTools } from './wows-tools.js';
+import { personaTools } from './persona-tools.js';
+
+const toolGroups: ToolDefinition[][] = [
+  serverTools,
+  messageTools,
+  directMessageTools,
+  channelTools,
+  webhookTools,
+  voiceTools,
+  musicTools,
+  roleTools,
+  memberTools,
+  eventTools,
+  inviteTools,
+  emojiTools,
+  automodTools,
+  interactionTools,
+  wowsTools,
+  personaTools
+];
+
+/**
+ * Consolidated tool that dispatches to any other registered tool by action name
+ */
+function createDiscordManageTool(registry: ToolRegistry, actions: string[]): ToolDefinition {
+  const schema = z.object({
+    action: z.enum(actions as [string, ...string[]]).describe('The specific Discord operation to perform'),
+    params: z.record(z.any()).optional().describe('Arguments for the operation; required for operations that take their own action argument, otherwise they can be passed next to action')
+  }).passthrough();
+
+  return defineTool({
+    name: 'discord_manage',
+    description: 'Comprehensive Discord server management tool - handles all Discord operations through a single unified interface',
+    category: 'Other',
+    // Scope and permission checks are delegated to the selected action
+    scope: 'read',
+    schema,
+    handler: (args, context) => {
+      const call = resolveToolCall('discord_manage', args);
+      return registry.call(call.name, call.args, context);
+    }
+  });
+}
+
+/**
+ * Register every MCP tool with the shared registry
+ */
+export function registerTools(registry: ToolRegistry = ToolRegistry.getInstance()): ToolRegistry {
+  if (registry.has('discord_manage')) return registry;
+
+  const tools = toolGroups.flat();
+  registry.register(createDiscordManageTool(registry, tools.map(tool => tool.name)), ...tools);
+  return registry;
+}
@@ -0,0 +1,44 @@
+import { defineTool, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+
+/**
+ * Embeds, buttons, select menus and modals
+ */
+export const interactionTools: ToolDefinition[] = [
+  defineTool({
+    name: 'send_modal',
+    description: 'Send a modal dialog (requires active interaction context)',
+    category: 'Interactive Components',
+    permission: 'SendMessages',
+    scope: 'admin',
+    schema: schemas.SendModalSchema,
+    handler: (parsed, { discordService }) => discordService.sendModal(parsed.interactionId, parsed.title, parsed.customId, parsed.components)
+  }),
+  defineTool({
+    name: 'send_embed',
+    description: 'Send a rich embed message to a channel',
+    category: 'Interactive Components',
+    permission: 'EmbedLinks',
+    scope: 'admin',
+    schema: schemas.SendEmbedSchema,
+    handler: (parsed, { discordService }) => discordService.sendEmbed(parsed.channelId, parsed.title, parsed.description, parsed.color, parsed.fields, parsed.footer, parsed.image, parsed.thumbnail)
+  }),
+  defineTool({
+    name: 'send_button',
+    description: 'Send a message with interactive buttons',
+    category: 'Interactive Components',
+    permission: 'SendMessages',
+    scope: 'admin',
+    schema: schemas.SendButtonSchema,
+    handler: (parsed, { discordService }) => discordService.sendButton(parsed.channelId, parsed.content, parsed.buttons)
+  }),
+  defineTool({
+    name: 'send_select_menu',
+    description: 'Send a message with a select menu',
+    category: 'Interactive Components',
+    permission: 'SendMessages',
+    scope: 'admin',
+    schema: schemas.SendSelectMenuSchema,
+    handler: (parsed, { discordService }) => discordService.sendSelectMenu(parsed.channelId, parsed.content, parsed.customId, parsed.placeholder, parsed.minValues, parsed.maxValues, parsed.options)
+  })
+];
@@ -0,0 +1,36 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatInvites } from '../discord-formatters.js';
+
+/**
+ * Server invites
+ */
+export const inviteTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_invite',
+    description: 'Create an invite link with custom settings',
+    category: 'Invite Management',
+    permission: 'CreateInstantInvite',
+    scope: 'admin',
+    schema: schemas.CreateInviteSchema,
+    handler: (parsed, { discordService }) => discordService.createInvite(parsed.channelId, parsed.maxAge, parsed.maxUses, parsed.temporary)
+  }),
+  defineTool({
+    name: 'delete_invite',
+    description: 'Delete/revoke an invite',
+    category: 'Invite Management',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.DeleteInviteSchema,
+    handler: (parsed, { discordService }) => discordService.deleteInvite(parsed.inviteCode)
+  }),
+  defineTool({
+    name: 'get_invites',
+    description: 'List all server invites',
+    category: 'Invite Management',
+    permission: 'ManageGuild',
+    scope: 'read',
+    schema: schemas.GetInvitesSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getInvites(parsed.guildId), formatInvites)
+  })
+];
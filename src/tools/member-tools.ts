@@ -0,0 +1,42 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatMemberInfo, formatMembers } from '../discord-formatters.js';
+
+/**
+ * Member lookup and editing
+ */
+export const memberTools: ToolDefinition[] = [
+  defineTool({
+    name: 'get_members',
+    description: 'Get server members with pagination',
+    category: 'Member Management',
+    scope: 'read',
+    schema: schemas.GetMembersSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getMembers(parsed.guildId, parsed.limit, parsed.after), formatMembers)
+  }),
+  defineTool({
+    name: 'search_members',
+    description: 'Search members by username or nickname',
+    category: 'Member Management',
+    scope: 'read',
+    schema: schemas.SearchMembersSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.searchMembers(parsed.guildId, parsed.query, parsed.limit), formatMembers)
+  }),
+  defineTool({
+    name: 'edit_member',
+    description: 'Edit member properties like nickname and roles',
+    category: 'Member Management',
+    permission: 'ManageNicknames',
+    scope: 'admin',
+    schema: schemas.EditMemberSchema,
+    handler: (parsed, { discordService }) => discordService.editMember(parsed.guildId, parsed.userId, parsed.nickname, parsed.roles)
+  }),
+  defineTool({
+    name: 'get_member_info',
+    description: 'Get detailed information about a member',
+    category: 'Member Management',
+    scope: 'read',
+    schema: schemas.GetMemberInfoSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getMemberInfo(parsed.guildId, parsed.userId), formatMemberInfo)
+  })
+];
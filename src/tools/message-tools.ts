@@ -0,0 +1,161 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatMessageAttachments, formatMessageHistory, formatMessages, formatPinnedMessages } from '../discord-formatters.js';
+
+/**
+ * Channel messages, reactions, pins and attachments
+ */
+export const messageTools: ToolDefinition[] = [
+  defineTool({
+    name: 'send_message',
+    description: 'Send a message to a specific channel',
+    category: 'Message Management',
+    permission: 'SendMessages',
+    scope: 'admin',
+    schema: schemas.SendMessageSchema,
+    handler: (parsed, { discordService }) => discordService.sendMessage(parsed.channelId, parsed.message)
+  }),
+  defineTool({
+    name: 'edit_message',
+    description: 'Edit a message from a specific channel',
+    category: 'Message Management',
+    permission: 'SendMessages',
+    scope: 'admin',
+    schema: schemas.EditMessageSchema,
+    handler: (parsed, { discordService }) => discordService.editMessage(parsed.channelId, parsed.messageId, parsed.newMessage)
+  }),
+  defineTool({
+    name: 'delete_message',
+    description: 'Delete a message from a specific channel',
+    category: 'Message Management',
+    permission: 'ManageMessages',
+    scope: 'moderation',
+    schema: schemas.DeleteMessageSchema,
+    handler: (parsed, { discordService }) => discordService.deleteMessage(parsed.channelId, parsed.messageId)
+  }),
+  defineTool({
+    name: 'read_messages',
+    description: 'Read recent message history from a specific channel',
+    category: 'Message Management',
+    permission: 'ReadMessageHistory',
+    scope: 'read',
+    schema: schemas.ReadMessagesSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.readMessages(parsed.channelId, parsed.count), formatMessages)
+  }),
+  defineTool({
+    name: 'add_reaction',
+    description: 'Add a reaction (emoji) to a specific message',
+    category: 'Message Management',
+    permission: 'AddReactions',
+    scope: 'admin',
+    schema: schemas.AddReactionSchema,
+    handler: (parsed, { discordService }) => discordService.addReaction(parsed.channelId, parsed.messageId, parsed.emoji)
+  }),
+  defineTool({
+    name: 'remove_reaction',
+    description: 'Remove a specified reaction (emoji) from a message',
+    category: 'Message Management',
+    permission: 'ManageMessages',
+    scope: 'moderation',
+    schema: schemas.RemoveReactionSchema,
+    handler: (parsed, { discordService }) => discordService.removeReaction(parsed.channelId, parsed.messageId, parsed.emoji)
+  }),
+  defineTool({
+    name: 'pin_message',
+    description: 'Pin a message in a channel',
+    category: 'Message Management',
+    permission: 'ManageMessages',
+    scope: 'moderation',
+    schema: schemas.PinMessageSchema,
+    handler: (parsed, { discordService }) => discordService.pinMessage(parsed.channelId, parsed.messageId)
+  }),
+  defineTool({
+    name: 'unpin_message',
+    description: 'Unpin a message in a channel',
+    category: 'Message Management',
+    permission: 'ManageMessages',
+    scope: 'moderation',
+    schema: schemas.UnpinMessageSchema,
+    handler: (parsed, { discordService }) => discordService.unpinMessage(parsed.channelId, parsed.messageId)
+  }),
+  defineTool({
+    name: 'get_pinned_messages',
+    description: 'Get all pinned messages in a channel',
+    category: 'Message Management',
+    permission: 'ReadMessageHistory',
+    scope: 'read',
+    schema: schemas.GetPinnedMessagesSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getPinnedMessages(parsed.channelId), formatPinnedMessages)
+  }),
+  defineTool({
+    name: 'bulk_delete_messages',
+    description: 'Delete multiple messages at once',
+    category: 'Message Management',
+    permission: 'ManageMessages',
+    scope: 'moderation',
+    schema: schemas.BulkDeleteMessagesSchema,
+    handler: (parsed, { discordService }) => discordService.bulkDeleteMessages(parsed.channelId, parsed.messageIds, parsed.filterOld)
+  }),
+  defineTool({
+    name: 'crosspost_message',
+    description: 'Crosspost an announcement message',
+    category: 'Message Management',
+    permission: 'ManageMessages',
+    scope: 'admin',
+    schema: schemas.CrosspostMessageSchema,
+    handler: (parsed, { discordService }) => discordService.crosspostMessage(parsed.channelId, parsed.messageId)
+  }),
+  defineTool({
+    name: 'upload_file',
+    description: 'Upload a file to a channel',
+    category: 'Message Management',
+    permission: 'AttachFiles',
+    scope: 'admin',
+    schema: schemas.UploadFileSchema,
+    handler: (parsed, { discordService }) => discordService.uploadFile(parsed.channelId, parsed.filePath, parsed.fileName, parsed.content)
+  }),
+  defineTool({
+    name: 'get_message_attachments',
+    description: 'Get attachments from a specific message',
+    category: 'Message Management',
+    permission: 'ReadMessageHistory',
+    scope: 'read',
+    schema: schemas.GetMessageAttachmentsSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getMessageAttachments(parsed.channelId, parsed.messageId), formatMessageAttachments)
+  }),
+  defineTool({
+    name: 'read_images',
+    description: 'Read and analyze images from Discord messages with optional metadata and content analysis',
+    category: 'Message Management',
+    permission: 'ReadMessageHistory',
+    scope: 'read',
+    schema: schemas.ReadImagesSchema,
+    // snyk:ignore javascript/Ssrf - channelId/messageId are Discord snowflake IDs, not URLs.
+    // URLs are fetched from Discord API and validated against Discord CDN whitelist in readImages().
+    handler: (parsed, { discordService }) => discordService.readImages(
+      parsed.channelId,
+      parsed.messageId,
+      parsed.limit,
+      parsed.includeMetadata,
+      parsed.downloadImages
+    )
+  }),
+  defineTool({
+    name: 'get_message_history',
+    description: 'Get message history from a channel with pagination',
+    category: 'Message Management',
+    permission: 'ReadMessageHistory',
+    scope: 'read',
+    schema: schemas.GetMessageHistorySchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getMessageHistory(parsed.channelId, parsed.limit, parsed.before, parsed.after), formatMessageHistory)
+  }),
+  defineTool({
+    name: 'export_chat_log',
+    description: 'Export chat messages in various formats',
+    category: 'Message Management',
+    permission: 'ReadMessageHistory',
+    scope: 'admin',
+    schema: schemas.ExportChatLogSchema,
+    handler: (parsed, { discordService }) => discordService.exportChatLog(parsed.channelId, parsed.format, parsed.limit, parsed.dateRange)
+  })
+];
@@ -0,0 +1,141 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import { musicService, parseTimestamp, type PlayedTrack, type QueueInfo, type Track } from '../services/music-service.js';
+import * as schemas from '../types.js';
+
+function formatSeconds(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+function formatTrack(track: Track): string {
+  return `${track.title} (${formatSeconds(track.duration)}) - ${track.url} - requested by ${track.requestedBy}`;
+}
+
+function formatQueue(queue: QueueInfo): string {
+  if (!queue.currentTrack && queue.tracks.length === 0) {
+    return 'Nothing is playing and the queue is empty.';
+  }
+
+  const lines = [
+    `**Now playing${queue.paused ? ' (paused)' : ''}:** ${queue.currentTrack ? formatTrack(queue.currentTrack) : 'nothing'}`,
+    `**Loop:** ${queue.loopMode} | **Volume:** ${queue.volume}% | **Total:** ${formatSeconds(queue.totalDuration)}`
+  ];
+  if (queue.tracks.length > 0) {
+    lines.push(`**Up next (${queue.tracks.length}):**`);
+    lines.push(...queue.tracks.map((track, i) => `${i + 1}. ${formatTrack(track)}`));
+  }
+  return lines.join('\n');
+}
+
+function formatHistory(data: { guildId: string; tracks: PlayedTrack[] }): string {
+  if (data.tracks.length === 0) {
+    return 'Nothing has been played in this server yet.';
+  }
+  return data.tracks.map((track, i) => `${i + 1}. ${formatTrack(track)} - played ${track.playedAt}`).join('\n');
+}
+
+/**
+ * Turn a music service result into tool output, failing the call if it failed
+ */
+function unwrap(result: { success: boolean; message: string }): string {
+  if (!result.success) {
+    throw new Error(result.message.replace(/^❌ /, ''));
+  }
+  return result.message;
+}
+
+/**
+ * Music queue inspection and control (the queue started with !play)
+ */
+export const musicTools: ToolDefinition[] = [
+  defineTool({
+    name: 'get_music_queue',
+    description: 'Get the music queue: current track, upcoming tracks, loop mode and volume',
+    category: 'Music',
+    scope: 'read',
+    schema: schemas.GetMusicQueueSchema,
+    handler: async (parsed) => structured(musicService.getQueueInfo(parsed.guildId), formatQueue)
+  }),
+  defineTool({
+    name: 'get_music_history',
+    description: 'List recently played music tracks, most recent first',
+    category: 'Music',
+    scope: 'read',
+    schema: schemas.GetMusicHistorySchema,
+    handler: async (parsed) => structured(
+      { guildId: parsed.guildId, tracks: musicService.getHistory(parsed.guildId, parsed.limit) },
+      formatHistory
+    )
+  }),
+  defineTool({
+    name: 'music_shuffle',
+    description: 'Shuffle the upcoming music tracks',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicShuffleSchema,
+    handler: async (parsed) => unwrap(musicService.shuffle(parsed.guildId))
+  }),
+  defineTool({
+    name: 'music_remove',
+    description: 'Remove a track from the music queue by position',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicRemoveSchema,
+    handler: async (parsed) => unwrap(musicService.remove(parsed.guildId, parsed.position))
+  }),
+  defineTool({
+    name: 'music_move',
+    description: 'Move a track to another position in the music queue',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicMoveSchema,
+    handler: async (parsed) => unwrap(musicService.move(parsed.guildId, parsed.from, parsed.to))
+  }),
+  defineTool({
+    name: 'music_jump',
+    description: 'Skip straight to a track in the music queue',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicJumpSchema,
+    handler: async (parsed) => unwrap(musicService.jump(parsed.guildId, parsed.position))
+  }),
+  defineTool({
+    name: 'music_seek',
+    description: 'Seek to a position in the current music track (YouTube and Spotify tracks)',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicSeekSchema,
+    handler: async (parsed) => {
+      const seconds = typeof parsed.position === 'number' ? parsed.position : parseTimestamp(parsed.position);
+      if (seconds === null) {
+        throw new Error(`Invalid position "${parsed.position}", use seconds or mm:ss`);
+      }
+      return unwrap(await musicService.seek(parsed.guildId, seconds));
+    }
+  }),
+  defineTool({
+    name: 'music_clear_queue',
+    description: 'Remove all upcoming tracks from the music queue, keeping the current track',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicClearQueueSchema,
+    handler: async (parsed) => unwrap(musicService.clearQueue(parsed.guildId))
+  }),
+  defineTool({
+    name: 'music_set_loop',
+    description: 'Set the music loop mode (off, track or queue)',
+    category: 'Music',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.MusicSetLoopSchema,
+    handler: async (parsed) => unwrap(musicService.setLoopMode(parsed.guildId, parsed.mode))
+  })
+];
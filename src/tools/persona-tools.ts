@@ -0,0 +1,70 @@
+import { defineTool, type ToolDefinition } from '../core/ToolRegistry.js';
+import { getPersonaStore, type PersonaInput } from '../services/ai-personas.js';
+import * as schemas from '../types.js';
+
+/**
+ * AI chat personas (system prompt and generation settings per server and channel)
+ */
+export const personaTools: ToolDefinition[] = [
+  defineTool({
+    name: 'manage_ai_persona',
+    description: 'List, create, update, delete and assign AI chat personas (system prompt, temperature, max tokens, preferred provider/model, TTS voice) for a server or channel',
+    category: 'AI',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.ManageAIPersonaSchema,
+    handler: async ({ guildId, action, name, channelId, ...fields }, { discordService }) => {
+      const guild = discordService.getClient().guilds.cache.get(guildId);
+      if (!guild) {
+        throw new Error(`Server ${guildId} not found`);
+      }
+      if (channelId && !guild.channels.cache.has(channelId)) {
+        throw new Error(`Channel ${channelId} not found in this server`);
+      }
+
+      const store = getPersonaStore();
+      const requireName = (): string => {
+        if (!name) throw new Error(`A persona name is required for ${action}`);
+        return name;
+      };
+
+      switch (action) {
+        case 'list':
+          return JSON.stringify({ personas: store.list(guildId), ...store.getAssignments(guildId) }, null, 2);
+
+        case 'get': {
+          const persona = store.get(guildId, requireName());
+          if (!persona) throw new Error(`Persona "${name}" not found`);
+          return JSON.stringify(persona, null, 2);
+        }
+
+        case 'create': {
+          const input = Object.fromEntries(
+            Object.entries(fields).filter(([, value]) => value !== null && value !== undefined)
+          ) as PersonaInput;
+          return JSON.stringify(store.create(guildId, requireName(), { ...input, createdBy: 'MCP' }), null, 2);
+        }
+
+        case 'update':
+          return JSON.stringify(store.update(guildId, requireName(), fields), null, 2);
+
+        case 'delete':
+          store.delete(guildId, requireName());
+          return `Deleted persona "${name}"`;
+
+        case 'assign': {
+          const persona = store.assign(guildId, requireName(), channelId);
+          return channelId
+            ? `Channel ${channelId} now uses persona "${persona.name}"`
+            : `Persona "${persona.name}" is now the server default`;
+        }
+
+        case 'unassign':
+          if (!channelId) throw new Error('channelId is required for unassign');
+          return store.unassign(guildId, channelId)
+            ? `Channel ${channelId} now uses the server default persona`
+            : `Channel ${channelId} has no persona override`;
+      }
+    }
+  })
+];
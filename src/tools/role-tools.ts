@@ -0,0 +1,71 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatRoles } from '../discord-formatters.js';
+
+/**
+ * Roles and role assignment
+ */
+export const roleTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_role',
+    description: 'Create new server role',
+    category: 'Role Management',
+    permission: 'ManageRoles',
+    scope: 'admin',
+    schema: schemas.CreateRoleSchema,
+    handler: (parsed, { discordService }) => discordService.createRole(parsed.guildId, parsed.name, parsed.color, parsed.permissions)
+  }),
+  defineTool({
+    name: 'delete_role',
+    description: 'Remove existing role',
+    category: 'Role Management',
+    permission: 'ManageRoles',
+    scope: 'admin',
+    schema: schemas.DeleteRoleSchema,
+    handler: (parsed, { discordService }) => discordService.deleteRole(parsed.guildId, parsed.roleId)
+  }),
+  defineTool({
+    name: 'edit_role',
+    description: 'Modify role properties (name, color, permissions)',
+    category: 'Role Management',
+    permission: 'ManageRoles',
+    scope: 'admin',
+    schema: schemas.EditRoleSchema,
+    handler: (parsed, { discordService }) => discordService.editRole(parsed.guildId, parsed.roleId, parsed.name, parsed.color, parsed.permissions)
+  }),
+  defineTool({
+    name: 'add_role_to_member',
+    description: 'Assign role to member',
+    category: 'Role Management',
+    permission: 'ManageRoles',
+    scope: 'admin',
+    schema: schemas.AddRoleToMemberSchema,
+    handler: (parsed, { discordService }) => discordService.addRoleToMember(parsed.guildId, parsed.userId, parsed.roleId)
+  }),
+  defineTool({
+    name: 'remove_role_from_member',
+    description: 'Remove role from member',
+    category: 'Role Management',
+    permission: 'ManageRoles',
+    scope: 'admin',
+    schema: schemas.RemoveRoleFromMemberSchema,
+    handler: (parsed, { discordService }) => discordService.removeRoleFromMember(parsed.guildId, parsed.userId, parsed.roleId)
+  }),
+  defineTool({
+    name: 'get_roles',
+    description: 'List all server roles',
+    category: 'Role Management',
+    scope: 'read',
+    schema: schemas.GetRolesSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getRoles(parsed.guildId), formatRoles)
+  }),
+  defineTool({
+    name: 'set_role_positions',
+    description: 'Reorder role hierarchy',
+    category: 'Role Management',
+    permission: 'ManageRoles',
+    scope: 'admin',
+    schema: schemas.SetRolePositionsSchema,
+    handler: (parsed, { discordService }) => discordService.setRolePositions(parsed.guildId, parsed.rolePositions)
+  })
+];
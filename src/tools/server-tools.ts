@@ -0,0 +1,61 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatServerInfo, formatServerStats, formatServerWidget, formatWelcomeScreen } from '../discord-formatters.js';
+
+/**
+ * Server information and settings
+ */
+export const serverTools: ToolDefinition[] = [
+  defineTool({
+    name: 'get_server_info',
+    description: 'Get detailed discord server information',
+    category: 'Server Management',
+    scope: 'read',
+    schema: schemas.ServerInfoSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getServerInfo(parsed.guildId), formatServerInfo)
+  }),
+  defineTool({
+    name: 'edit_server',
+    description: 'Edit server settings like name, description, and verification level',
+    category: 'Server Management',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.EditServerSchema,
+    handler: (parsed, { discordService }) => discordService.editServer(parsed.guildId, parsed.name, parsed.description, parsed.icon, parsed.banner, parsed.verificationLevel)
+  }),
+  defineTool({
+    name: 'get_server_widget',
+    description: 'Get server widget information',
+    category: 'Server Management',
+    permission: 'ManageGuild',
+    scope: 'read',
+    schema: schemas.GetServerWidgetSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getServerWidget(parsed.guildId), formatServerWidget)
+  }),
+  defineTool({
+    name: 'get_welcome_screen',
+    description: 'Get server welcome screen information',
+    category: 'Server Management',
+    permission: 'ManageGuild',
+    scope: 'read',
+    schema: schemas.GetWelcomeScreenSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getWelcomeScreen(parsed.guildId), formatWelcomeScreen)
+  }),
+  defineTool({
+    name: 'edit_welcome_screen',
+    description: 'Edit server welcome screen settings',
+    category: 'Server Management',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.EditWelcomeScreenSchema,
+    handler: (parsed, { discordService }) => discordService.editWelcomeScreen(parsed.guildId, parsed.enabled, parsed.description, parsed.welcomeChannels)
+  }),
+  defineTool({
+    name: 'get_server_stats',
+    description: 'Get comprehensive server statistics',
+    category: 'Server Management',
+    scope: 'read',
+    schema: schemas.GetServerStatsSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getServerStats(parsed.guildId), formatServerStats)
+  })
+];
@@ -0,0 +1,174 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatVoiceConnections } from '../discord-formatters.js';
+import { findVoice } from '../voice-settings.js';
+import { getVoicePresence, type VoicePolicy } from '../services/voice-presence.js';
+import {
+  getVoiceAnalytics,
+  type VoiceEvent,
+  type VoiceLeaderboard,
+  type VoiceOccupancy
+} from '../services/voice-analytics.js';
+
+function formatVoicePolicy(policy: VoicePolicy): string {
+  return [
+    `**Home channel:** ${policy.homeChannelId ?? 'none'}`,
+    `**Following:** ${policy.followUserId ?? 'nobody'}`,
+    `**Leave when empty:** ${policy.emptyTimeoutMinutes > 0 ? `after ${policy.emptyTimeoutMinutes} min` : 'never'}`,
+    `**Leave when idle:** ${policy.idleTimeoutMinutes > 0 ? `after ${policy.idleTimeoutMinutes} min` : 'never'}`,
+    `**Reconnect:** ${policy.reconnect ? 'on' : 'off'}`
+  ].join('\n');
+}
+
+function formatHours(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function formatVoiceActivity(data: { guildId: string; events: VoiceEvent[] }): string {
+  if (data.events.length === 0) {
+    return 'No voice activity recorded.';
+  }
+  return data.events.map(event => {
+    const where = event.type === 'move' ? `${event.fromChannelId} -> ${event.channelId}` : event.channelId;
+    return `${event.at} ${event.userName} (${event.userId}) ${event.type} ${where}`;
+  }).join('\n');
+}
+
+function formatVoiceLeaderboard(board: VoiceLeaderboard): string {
+  if (board.entries.length === 0) {
+    return `Nobody was in voice between ${board.since} and ${board.until}.`;
+  }
+  return board.entries
+    .map((entry, i) => `${i + 1}. ${entry.userName} (${entry.userId}) - ${formatHours(entry.seconds)} in ${entry.sessions} session(s)`)
+    .join('\n');
+}
+
+function formatVoiceOccupancy(occupancy: VoiceOccupancy): string {
+  if (occupancy.busiestSlots.length === 0) {
+    return `Nobody was in voice between ${occupancy.since} and ${occupancy.until}.`;
+  }
+  const lines = occupancy.busiestSlots.map(slot =>
+    `${slot.weekday} ${slot.hour.toString().padStart(2, '0')}:00 UTC - ${slot.averageMembers} members on average`
+  );
+  return `**Busiest hours** (${occupancy.channelId ?? 'all voice channels'}, ${occupancy.since} to ${occupancy.until}):\n${lines.join('\n')}`;
+}
+
+/**
+ * Voice connections and audio playback
+ */
+export const voiceTools: ToolDefinition[] = [
+  defineTool({
+    name: 'join_voice_channel',
+    description: 'Connect bot to voice channel',
+    category: 'Voice & Audio',
+    permission: 'Connect',
+    scope: 'admin',
+    schema: schemas.JoinVoiceChannelSchema,
+    handler: (parsed, { discordService }) => discordService.joinVoiceChannel(parsed.guildId, parsed.channelId)
+  }),
+  defineTool({
+    name: 'leave_voice_channel',
+    description: 'Disconnect from voice channel',
+    category: 'Voice & Audio',
+    permission: 'Connect',
+    scope: 'admin',
+    schema: schemas.LeaveVoiceChannelSchema,
+    handler: (parsed, { discordService }) => discordService.leaveVoiceChannel(parsed.guildId, parsed.channelId)
+  }),
+  defineTool({
+    name: 'play_audio',
+    description: 'Stream audio in voice channel',
+    category: 'Voice & Audio',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.PlayAudioSchema,
+    handler: (parsed, { discordService }) => discordService.playAudio(parsed.guildId, parsed.audioUrl)
+  }),
+  defineTool({
+    name: 'stop_audio',
+    description: 'Stop current audio playback',
+    category: 'Voice & Audio',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.StopAudioSchema,
+    handler: (parsed, { discordService }) => discordService.stopAudio(parsed.guildId)
+  }),
+  defineTool({
+    name: 'speak_text',
+    description: 'Speak text (or SSML) with TTS in the connected voice channel; queued after other speech, music pauses meanwhile',
+    category: 'Voice & Audio',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.SpeakTextSchema,
+    handler: async ({ guildId, text, voice, ...options }, { discordService }) => {
+      const voiceName = voice ? findVoice(voice)?.name : undefined;
+      if (voice && !voiceName) {
+        throw new Error(`Voice "${voice}" not found`);
+      }
+      return discordService.speakText(guildId, text, voiceName, options);
+    }
+  }),
+  defineTool({
+    name: 'set_volume',
+    description: 'Set the server\'s saved volume for music, TTS and audio clips, the TTS volume, or loudness normalisation',
+    category: 'Voice & Audio',
+    permission: 'Speak',
+    scope: 'admin',
+    schema: schemas.SetVolumeSchema,
+    handler: ({ guildId, volume, ...options }, { discordService }) => discordService.setVolume(guildId, volume, options)
+  }),
+  defineTool({
+    name: 'get_voice_policy',
+    description: 'Get when the bot joins and leaves voice: home channel, followed member, empty/idle timeouts and reconnects',
+    category: 'Voice & Audio',
+    scope: 'read',
+    schema: schemas.GetVoicePolicySchema,
+    handler: async (parsed) => structured(getVoicePresence().getPolicy(parsed.guildId), formatVoicePolicy)
+  }),
+  defineTool({
+    name: 'set_voice_policy',
+    description: 'Set the home voice channel, a member to follow into voice, empty/idle timeouts, or reconnecting',
+    category: 'Voice & Audio',
+    permission: 'ManageGuild',
+    scope: 'admin',
+    schema: schemas.SetVoicePolicySchema,
+    handler: async ({ guildId, ...changes }) => structured(await getVoicePresence().updatePolicy(guildId, changes), formatVoicePolicy)
+  }),
+  defineTool({
+    name: 'get_voice_activity',
+    description: 'Recent voice joins, leaves, moves, mutes and streams, newest first',
+    category: 'Voice & Audio',
+    scope: 'read',
+    schema: schemas.GetVoiceActivitySchema,
+    handler: async ({ guildId, ...filter }) =>
+      structured({ guildId, events: getVoiceAnalytics().getTimeline(guildId, filter) }, formatVoiceActivity)
+  }),
+  defineTool({
+    name: 'get_voice_leaderboard',
+    description: 'Members who spent the most time in voice channels over the last days',
+    category: 'Voice & Audio',
+    scope: 'read',
+    schema: schemas.GetVoiceLeaderboardSchema,
+    handler: async ({ guildId, days, limit }) =>
+      structured(getVoiceAnalytics().getLeaderboard(guildId, days, limit), formatVoiceLeaderboard)
+  }),
+  defineTool({
+    name: 'get_voice_occupancy',
+    description: 'How many members were in voice hour by hour (UTC), and the busiest hours of the week - useful for scheduling events',
+    category: 'Voice & Audio',
+    scope: 'read',
+    schema: schemas.GetVoiceOccupancySchema,
+    handler: async ({ guildId, days, channelId }) =>
+      structured(getVoiceAnalytics().getOccupancy(guildId, days, channelId), formatVoiceOccupancy)
+  }),
+  defineTool({
+    name: 'get_voice_connections',
+    description: 'List active voice connections',
+    category: 'Voice & Audio',
+    scope: 'read',
+    schema: schemas.GetVoiceConnectionsSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.getVoiceConnections(), formatVoiceConnections)
+  })
+];
@@ -0,0 +1,45 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import * as schemas from '../types.js';
+import { formatWebhooks } from '../discord-formatters.js';
+
+/**
+ * Channel webhooks
+ */
+export const webhookTools: ToolDefinition[] = [
+  defineTool({
+    name: 'create_webhook',
+    description: 'Create a new webhook on a specific channel',
+    category: 'Webhook Management',
+    permission: 'ManageWebhooks',
+    scope: 'admin',
+    schema: schemas.CreateWebhookSchema,
+    handler: (parsed, { discordService }) => discordService.createWebhook(parsed.channelId, parsed.name)
+  }),
+  defineTool({
+    name: 'delete_webhook',
+    description: 'Delete a webhook',
+    category: 'Webhook Management',
+    permission: 'ManageWebhooks',
+    scope: 'admin',
+    schema: schemas.DeleteWebhookSchema,
+    handler: (parsed, { discordService }) => discordService.deleteWebhook(parsed.webhookId)
+  }),
+  defineTool({
+    name: 'list_webhooks',
+    description: 'List of webhooks on a specific channel',
+    category: 'Webhook Management',
+    permission: 'ManageWebhooks',
+    scope: 'read',
+    schema: schemas.ListWebhooksSchema,
+    handler: async (parsed, { discordService }) => structured(await discordService.listWebhooks(parsed.channelId), formatWebhooks)
+  }),
+  defineTool({
+    name: 'send_webhook_message',
+    description: 'Send a message via webhook',
+    category: 'Webhook Management',
+    permission: 'ManageWebhooks',
+    scope: 'admin',
+    schema: schemas.SendWebhookMessageSchema,
+    handler: (parsed, { discordService }) => discordService.sendWebhookMessage(parsed.webhookUrl, parsed.message)
+  })
+];
@@ -0,0 +1,188 @@
+import { defineTool, structured, type ToolDefinition } from '../core/ToolRegistry.js';
+import {
+  findInRegions,
+  getFullClanInfo,
+  getFullPlayerInfo,
+  getGuildRegion,
+  getPlayerInfoByAccount,
+  getPlayerShipsFormatted,
+  searchClanSuggestions,
+  searchPlayerSuggestions
+} from '../services/wargaming-api.js';
+import { getPlayerProgress, type PlayerProgress, type StatLine, type WatchedPlayer } from '../services/player-progress.js';
+import { getAccountLinks } from '../services/account-links.js';
+import { getClanRosterMonitor, type RosterChange, type WatchedClan } from '../services/clan-roster.js';
+import * as schemas from '../types.js';
+
+function formatStatLine(line: StatLine): string {
+  return `${line.battles} battles, ${line.winRate}% WR, ${line.avgDamage} avg damage, ${line.avgFrags} frags, ${line.survivalRate}% survival, PR ${line.pr} (${line.prRating})`;
+}
+
+function formatPlayerProgress(progress: PlayerProgress): string {
+  const lines = [
+    `${progress.nickname} (${progress.region.toUpperCase()}), ${progress.from} to ${progress.until}:`,
+    `Lifetime then: ${formatStatLine(progress.start)}`,
+    `Lifetime now: ${formatStatLine(progress.current)}`,
+    `Change: ${progress.change.battles} battles, ${progress.change.winRate} WR points, ${progress.change.avgDamage} avg damage, ${progress.change.pr} PR`
+  ];
+  lines.push(progress.recent ? `Recent form: ${formatStatLine(progress.recent)}` : 'No battles in this period.');
+  if (progress.from > progress.since) {
+    lines.push(`History only goes back to ${progress.from}.`);
+  }
+  return lines.join('\n');
+}
+
+function formatWatchedPlayers(data: { guildId: string; players: WatchedPlayer[] }): string {
+  if (data.players.length === 0) {
+    return 'No players are watched.';
+  }
+  return data.players.map(p => `${p.nickname} (${p.region.toUpperCase()}, account ${p.accountId}) - watched since ${p.addedAt}`).join('\n');
+}
+
+function formatRosterChange(change: RosterChange): string {
+  switch (change.type) {
+    case 'join': return `${change.nickname} joined as ${change.role}`;
+    case 'leave': return `${change.nickname} left (was ${change.role})`;
+    case 'rank': return `${change.nickname}: ${change.from} -> ${change.to}`;
+    case 'rename': return `${change.from} renamed to ${change.to}`;
+    case 'clan_rename': return `Clan renamed from ${change.from} to ${change.to}`;
+    case 'tag_change': return `Tag changed from [${change.from}] to [${change.to}]`;
+    case 'disbanded': return 'Clan disbanded';
+    case 'inactive': return `${change.nickname} inactive since ${change.lastBattle}`;
+  }
+}
+
+function formatWatchedClans(data: { guildId: string; clans: (WatchedClan & { changes: RosterChange[] })[] }): string {
+  if (data.clans.length === 0) {
+    return 'No clans are watched.';
+  }
+  return data.clans.map(clan => {
+    const header = `[${clan.tag}] ${clan.name} (${clan.region.toUpperCase()}) - announced in channel ${clan.channelId}, inactive after ${clan.inactiveDays || 'never'} days`;
+    const changes = clan.changes.map(change => `  ${change.at}: ${formatRosterChange(change)}`);
+    return [header, ...(changes.length > 0 ? changes : ['  No changes recorded yet.'])].join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Format a lookup result, or a not-found message with suggestions
+ */
+async function formatLookup(result: unknown, notFound: string, suggest: () => Promise<string[]>): Promise<string> {
+  if (result) {
+    return JSON.stringify(result, null, 2);
+  }
+  const suggestions = await suggest();
+  return suggestions.length > 0
+    ? `${notFound} Did you mean: ${suggestions.join(', ')}?`
+    : notFound;
+}
+
+/**
+ * World of Warships lookups (Wargaming API)
+ */
+export const wowsTools: ToolDefinition[] = [
+  defineTool({
+    name: 'wows_player_stats',
+    description: 'Get World of Warships player statistics (battles, win rate, damage, PR, clan) on the NA, EU or Asia server',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsPlayerStatsSchema,
+    handler: async (parsed) => {
+      const region = parsed.region ?? getGuildRegion(parsed.guildId);
+      return formatLookup(
+        await findInRegions(region, (r, exactOnly) => getFullPlayerInfo(parsed.playerName, r, exactOnly), !parsed.region),
+        `Player "${parsed.playerName}" not found.`,
+        () => searchPlayerSuggestions(parsed.playerName, 5, region)
+      );
+    }
+  }),
+  defineTool({
+    name: 'wows_player_ships',
+    description: 'Get per-ship World of Warships statistics for a player, optionally filtered by tier or type',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsPlayerShipsSchema,
+    handler: async (parsed) => {
+      const region = parsed.region ?? getGuildRegion(parsed.guildId);
+      return formatLookup(
+        await findInRegions(region, (r, exactOnly) => getPlayerShipsFormatted(parsed.playerName, {
+          tier: parsed.tier,
+          type: parsed.type,
+          sortBy: parsed.sortBy,
+          limit: parsed.limit,
+          region: r,
+          exactOnly
+        }), !parsed.region),
+        `Player "${parsed.playerName}" not found or has a hidden profile.`,
+        () => searchPlayerSuggestions(parsed.playerName, 5, region)
+      );
+    }
+  }),
+  defineTool({
+    name: 'wows_clan_info',
+    description: 'Get World of Warships clan information by tag or name, optionally with its members',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsClanInfoSchema,
+    handler: async (parsed) => {
+      const region = parsed.region ?? getGuildRegion(parsed.guildId);
+      return formatLookup(
+        await findInRegions(region, (r, exactOnly) => getFullClanInfo(parsed.query, parsed.includeMembers ?? false, r, exactOnly), !parsed.region),
+        `Clan "${parsed.query}" not found.`,
+        () => searchClanSuggestions(parsed.query, 5, region)
+      );
+    }
+  }),
+  defineTool({
+    name: 'wows_player_progress',
+    description: 'Recent form of a World of Warships player: change in lifetime stats over the last days and win rate, damage and PR over just those battles (from stat snapshots)',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsPlayerProgressSchema,
+    handler: async (parsed) => {
+      const region = parsed.region ?? getGuildRegion(parsed.guildId);
+      const progress = await getPlayerProgress().getProgress(parsed.playerName, region, parsed.days ?? 7, !parsed.region);
+      return progress
+        ? structured(progress, formatPlayerProgress)
+        : `Player "${parsed.playerName}" not found.`;
+    }
+  }),
+  defineTool({
+    name: 'wows_watched_players',
+    description: 'World of Warships players whose stats are snapshotted for a server',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsWatchedPlayersSchema,
+    handler: async ({ guildId }) =>
+      structured({ guildId, players: getPlayerProgress().getWatched(guildId) }, formatWatchedPlayers)
+  }),
+  defineTool({
+    name: 'wows_watched_clans',
+    description: 'World of Warships clans whose rosters a server watches, with their recent joins, leaves, rank changes and renames (newest first)',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsWatchedClansSchema,
+    handler: async ({ guildId, limit }) => {
+      const monitor = getClanRosterMonitor();
+      const clans = monitor.getWatched(guildId).map(clan => ({
+        ...clan,
+        changes: monitor.getChanges(clan.region, clan.clanId, limit ?? 20)
+      }));
+      return structured({ guildId, clans }, formatWatchedClans);
+    }
+  }),
+  defineTool({
+    name: 'wows_linked_account',
+    description: 'The World of Warships account a Discord member linked with !link, with its current stats',
+    category: 'World of Warships',
+    scope: 'read',
+    schema: schemas.WowsLinkedAccountSchema,
+    handler: async ({ userId }) => {
+      const link = getAccountLinks().getLink(userId);
+      if (!link) {
+        return `User ${userId} has not linked a World of Warships account.`;
+      }
+      const stats = await getPlayerInfoByAccount(link.accountId, link.region);
+      return JSON.stringify({ link, stats }, null, 2);
+    }
+  })
+];
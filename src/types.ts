@@ -132,13 +132,103 @@ export const StopAudioSchema = z.object({
   guildId: z.string().describe("Discord server ID")
 });
 
+export const SpeakTextSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  text: z.string().min(1).max(5000).describe("Text to speak, or SSML wrapped in <speak>...</speak>"),
+  voice: z.string().optional().describe("TTS voice, e.g. Guy or en-US-GuyNeural (default: the server's voice)"),
+  rate: z.string().optional().describe("Speaking rate: x-slow, slow, medium, fast, x-fast or relative like +20%"),
+  pitch: z.string().optional().describe("Pitch: x-low, low, medium, high, x-high or relative like +2st"),
+  volume: z.string().optional().describe("Speech volume: soft, medium, loud or relative like +10%")
+});
+
 export const SetVolumeSchema = z.object({
   guildId: z.string().describe("Discord server ID"),
-  volume: z.number().min(0).max(200).describe("Volume level (0-200)")
+  volume: z.number().min(0).max(200).optional().describe("Volume for music, TTS and audio clips (0-200)"),
+  ttsVolume: z.number().min(0).max(200).optional().describe("TTS volume as a percentage of the main volume (0-200)"),
+  normalize: z.boolean().optional().describe("Normalise loudness of all audio (applies from the next track or clip)")
 });
 
 export const GetVoiceConnectionsSchema = z.object({});
 
+export const GetVoicePolicySchema = z.object({
+  guildId: z.string().describe("Discord server ID")
+});
+
+export const SetVoicePolicySchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  homeChannelId: z.string().nullable().optional().describe("Voice channel joined on startup and returned to instead of leaving (null clears it)"),
+  followUserId: z.string().nullable().optional().describe("Member the bot follows into voice (null clears it)"),
+  emptyTimeoutMinutes: z.number().int().min(0).max(1440).optional().describe("Leave after the channel has had no listeners this long (0 = never)"),
+  idleTimeoutMinutes: z.number().int().min(0).max(1440).optional().describe("Leave after nothing has played this long (0 = never)"),
+  reconnect: z.boolean().optional().describe("Rejoin after a gateway or voice server drop")
+});
+
+export const GetVoiceActivitySchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  channelId: z.string().optional().describe("Only events in this voice channel"),
+  userId: z.string().optional().describe("Only events of this member"),
+  limit: z.number().int().min(1).max(500).optional().describe("Most recent events to return (default: 50)")
+});
+
+export const GetVoiceLeaderboardSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  days: z.number().int().min(1).max(90).optional().describe("Days to look back (default: 7)"),
+  limit: z.number().int().min(1).max(50).optional().describe("Members to return (default: 10)")
+});
+
+export const GetVoiceOccupancySchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  channelId: z.string().optional().describe("Only this voice channel (default: all)"),
+  days: z.number().int().min(1).max(90).optional().describe("Days to look back (default: 7)")
+});
+
+// =============================================================================
+// MUSIC SCHEMAS
+// =============================================================================
+
+export const GetMusicQueueSchema = z.object({
+  guildId: z.string().describe("Discord server ID")
+});
+
+export const GetMusicHistorySchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  limit: z.number().int().min(1).max(50).optional().describe("Maximum tracks to return (default: all kept)")
+});
+
+export const MusicShuffleSchema = z.object({
+  guildId: z.string().describe("Discord server ID")
+});
+
+export const MusicRemoveSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  position: z.number().int().min(1).describe("Queue position of the track to remove (1 = next up)")
+});
+
+export const MusicMoveSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  from: z.number().int().min(1).describe("Current queue position of the track"),
+  to: z.number().int().min(1).describe("New queue position")
+});
+
+export const MusicJumpSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  position: z.number().int().min(1).describe("Queue position to skip to")
+});
+
+export const MusicSeekSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  position: z.union([z.number().min(0), z.string()]).describe("Position in the current track: seconds, or mm:ss / hh:mm:ss")
+});
+
+export const MusicClearQueueSchema = z.object({
+  guildId: z.string().describe("Discord server ID")
+});
+
+export const MusicSetLoopSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  mode: z.enum(['off', 'track', 'queue']).describe("Loop mode: off, repeat the current track, or repeat the whole queue")
+});
+
 // Enhanced Event & Scheduling Schemas
 export const CreateEventSchema = z.object({
   guildId: z.string().describe("Discord server ID"),
@@ -773,3 +863,70 @@ export const GetAuditLogsSchema = z.object({
 export const GetBansSchema = z.object({
   guildId: z.string().optional().describe("Discord server ID")
 });
+
+// =============================================================================
+// WORLD OF WARSHIPS SCHEMAS
+// =============================================================================
+
+const WowsRegionSchema = z.enum(['na', 'eu', 'asia']).optional()
+  .describe("Server region to search only (default: the server's default region first, then the others)");
+
+export const WowsPlayerStatsSchema = z.object({
+  playerName: z.string().describe("World of Warships player nickname"),
+  region: WowsRegionSchema,
+  guildId: z.string().optional().describe("Discord server ID, for its default region")
+});
+
+export const WowsPlayerShipsSchema = z.object({
+  playerName: z.string().describe("World of Warships player nickname"),
+  tier: z.number().int().min(1).max(11).optional().describe("Only ships of this tier"),
+  type: z.enum(['Destroyer', 'Cruiser', 'Battleship', 'AirCarrier', 'Submarine']).optional().describe("Only ships of this type"),
+  sortBy: z.enum(['battles', 'winrate', 'damage', 'recent']).optional().describe("Sort order (default: battles)"),
+  limit: z.number().int().min(1).max(50).optional().describe("Maximum ships to return (default: 10)"),
+  region: WowsRegionSchema,
+  guildId: z.string().optional().describe("Discord server ID, for its default region")
+});
+
+export const WowsClanInfoSchema = z.object({
+  query: z.string().describe("Clan tag or name"),
+  includeMembers: z.boolean().optional().describe("Include the member list"),
+  region: WowsRegionSchema,
+  guildId: z.string().optional().describe("Discord server ID, for its default region")
+});
+
+export const WowsPlayerProgressSchema = z.object({
+  playerName: z.string().describe("World of Warships player nickname"),
+  days: z.number().int().min(1).max(90).optional().describe("Days to look back (default: 7)"),
+  region: WowsRegionSchema,
+  guildId: z.string().optional().describe("Discord server ID, for its default region")
+});
+
+export const WowsWatchedPlayersSchema = z.object({
+  guildId: z.string().describe("Discord server ID")
+});
+
+export const WowsWatchedClansSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  limit: z.number().int().min(1).max(200).optional().describe("Recent roster changes per clan (default: 20)")
+});
+
+export const WowsLinkedAccountSchema = z.object({
+  userId: z.string().describe("Discord user ID")
+});
+
+// =============================================================================
+// AI PERSONA SCHEMAS
+// =============================================================================
+
+export const ManageAIPersonaSchema = z.object({
+  guildId: z.string().describe("Discord server ID"),
+  action: z.enum(['list', 'get', 'create', 'update', 'delete', 'assign', 'unassign']).describe("Operation: list personas, get one, create/update/delete a persona, assign it to the server or a channel, or remove a channel's override"),
+  name: z.string().optional().describe("Persona name (required except for list and unassign)"),
+  systemPrompt: z.string().optional().describe("System prompt (required for create)"),
+  temperature: z.number().min(0).max(2).nullable().optional().describe("Sampling temperature 0-2 (null clears on update)"),
+  maxTokens: z.number().int().min(50).max(4000).nullable().optional().describe("Maximum reply tokens (null clears on update)"),
+  provider: z.string().nullable().optional().describe("Preferred AI provider, e.g. groq or deepseek (null clears on update)"),
+  model: z.string().nullable().optional().describe("Model for the preferred provider (null clears on update)"),
+  voice: z.string().nullable().optional().describe("TTS voice name, e.g. Guy or en-US-GuyNeural (null clears on update)"),
+  channelId: z.string().optional().describe("Channel for assign/unassign; omit on assign to set the server default")
+});
@@ -0,0 +1,146 @@
+import type { Message } from 'discord.js';
+
+const MAX_MESSAGE_LENGTH = 1900;
+const DEFAULT_EDIT_INTERVAL_MS = parseInt(process.env.AI_STREAM_EDIT_INTERVAL_MS || '') || 1200;
+
+/**
+ * Split text into Discord-sized chunks, preferring paragraph, line, sentence
+ * and word boundaries. Code blocks cut in half are closed and reopened.
+ */
+export function splitMessage(text: string, maxLength: number = MAX_MESSAGE_LENGTH): string[] {
+  const chunks: string[] = [];
+  let remaining = text.trim();
+  let reopenFence = '';
+
+  while (remaining.length > 0) {
+    remaining = reopenFence + remaining;
+    reopenFence = '';
+
+    if (remaining.length <= maxLength) {
+      chunks.push(remaining);
+      break;
+    }
+
+    // Leave room to close a code block
+    const window = remaining.substring(0, maxLength - 4);
+    let cut = -1;
+    for (const separator of ['\n\n', '\n', '. ', ' ']) {
+      const index = window.lastIndexOf(separator);
+      if (index > maxLength / 2) {
+        cut = index + separator.length;
+        break;
+      }
+    }
+    if (cut === -1) cut = window.length;
+
+    let chunk = remaining.substring(0, cut).trimEnd();
+    const fences = chunk.match(/```\w*/g) || [];
+    if (fences.length % 2 === 1) {
+      chunk += '\n```';
+      reopenFence = fences[fences.length - 1] + '\n';
+    }
+
+    chunks.push(chunk);
+    remaining = remaining.substring(cut).trimStart();
+  }
+
+  return chunks;
+}
+
+/**
+ * A reply that grows as an AI answer streams in.
+ *
+ * Edits are throttled to one per interval to stay inside Discord's rate
+ * limits, and answers longer than one message continue in follow-up messages.
+ */
+export class StreamingReply {
+  private messages: Message[] = [];
+  private pendingText: string | null = null;
+  private renderedText = '';
+  private lastRender = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(private source: Message, private editIntervalMs: number = DEFAULT_EDIT_INTERVAL_MS) {}
+
+  /**
+   * Show the answer so far (throttled)
+   */
+  update(text: string): void {
+    if (this.stopped || !text.trim()) return;
+
+    this.pendingText = text;
+    if (this.timer) return;
+
+    const wait = Math.max(0, this.editIntervalMs - (Date.now() - this.lastRender));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const pending = this.pendingText;
+      this.pendingText = null;
+      if (pending !== null && !this.stopped) {
+        this.enqueue(() => this.render(pending + ' ▌', false));
+      }
+    }, wait);
+  }
+
+  /**
+   * Stop showing partial text (e.g. when it trips the content filter)
+   */
+  stop(): void {
+    this.stopped = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Replace everything shown so far with the final answer
+   */
+  async finish(text: string): Promise<void> {
+    this.stopped = true;
+    this.clearTimer();
+    this.enqueue(() => this.render(text, true));
+    await this.queue;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pendingText = null;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error('Failed to update streaming reply:', error);
+    });
+  }
+
+  private async render(text: string, final: boolean): Promise<void> {
+    if (text === this.renderedText) return;
+
+    const chunks = splitMessage(text);
+    for (let i = 0; i < chunks.length; i++) {
+      const existing = this.messages[i];
+      if (existing) {
+        if (existing.content !== chunks[i]) {
+          this.messages[i] = await existing.edit(chunks[i]);
+        }
+      } else if (i === 0) {
+        this.messages.push(await this.source.reply(chunks[i]));
+      } else if (this.source.channel.isSendable()) {
+        this.messages.push(await this.source.channel.send(chunks[i]));
+      }
+    }
+
+    // The final answer can be shorter than what was streamed
+    if (final) {
+      for (const extra of this.messages.splice(chunks.length)) {
+        await extra.delete().catch(() => {});
+      }
+    }
+
+    this.renderedText = text;
+    this.lastRender = Date.now();
+  }
+}
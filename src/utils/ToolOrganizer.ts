@@ -17,6 +17,11 @@ export class ToolOrganizer {
   }
   
   private static extractCategory(tool: any): string {
+    // Registry tools declare their category
+    if (tool.category) {
+      return tool.category;
+    }
+
     // Try to extract category from tool name
     if (tool.name) {
       if (tool.name.includes('channel') || tool.name.includes('category')) {
@@ -1,19 +1,62 @@
 /**
  * Voice Priority Service
  *
- * Manages creator priority lock for voice commands.
- * When the creator locks the bot, only they can control voice features.
+ * Manages voice locks and who may control the bot's voice features.
+ * Voice controllers are the creator (BOT_CREATOR_ID) and members with the
+ * guild's DJ role; any of them can lock the bot so only controllers (and the
+ * lock holder) can use voice commands. A lock scoped to a channel also lets
+ * everyone in that voice channel keep control. Locks expire after a while and
+ * are persisted, so they survive restarts.
  */
 
+import type { GuildMember } from 'discord.js';
+import { StoredMap } from './core/Storage.js';
+
+export type LockScope = 'guild' | 'channel';
+
 interface VoiceLock {
   lockedBy: string;        // User ID who locked
-  lockedAt: Date;
+  lockedByName?: string;   // Display name when locked, for messages
+  lockedAt: number;        // Epoch ms
   guildId: string;
-  channelId?: string;      // The voice channel the creator is in
+  channelId?: string;      // The voice channel the lock holder is in
+  scope: LockScope;
+  expiresAt: number;       // Epoch ms
+}
+
+interface VoiceControlSettings {
+  djRoleId?: string;
+}
+
+export interface LockOptions {
+  channelId?: string;
+  scope?: LockScope;
+  minutes?: number;
 }
 
+export type VoiceDenialCode = 'locked' | 'channel_locked';
+
+// Why a voice command was refused, with a message ready to show
+export interface VoiceDenial {
+  code: VoiceDenialCode;
+  lockedBy: string;
+  channelId?: string;
+  expiresAt: number;
+  message: string;
+}
+
+export interface VoiceCommandCheck {
+  allowed: boolean;
+  reason?: VoiceDenial;
+}
+
+export const DEFAULT_LOCK_MINUTES = parseInt(process.env.VOICE_LOCK_MINUTES || '') || 120;
+export const MAX_LOCK_MINUTES = 24 * 60;
+
 // Per-guild voice locks
-const voiceLocks: Map<string, VoiceLock> = new Map();
+const voiceLocks = new StoredMap<VoiceLock>('voice.locks');
+// Per-guild DJ role
+const voiceControl = new StoredMap<VoiceControlSettings>('voice.control');
 
 /**
  * Get the bot creator's user ID from environment
@@ -38,18 +81,53 @@ export function isCreator(userId: string): boolean {
 }
 
 /**
- * Lock voice commands to creator only
+ * Get the guild's DJ role ID
+ */
+export function getDjRoleId(guildId: string): string | undefined {
+  return voiceControl.get(guildId)?.djRoleId;
+}
+
+/**
+ * Set or clear (null) the guild's DJ role
+ */
+export function setDjRoleId(guildId: string, roleId: string | null): void {
+  if (roleId) {
+    voiceControl.set(guildId, { ...voiceControl.get(guildId), djRoleId: roleId });
+  } else {
+    voiceControl.delete(guildId);
+  }
+}
+
+/**
+ * Check if a user may lock, unlock and always control voice: the creator or a DJ
+ */
+export function isVoiceController(guildId: string, userId: string, member?: GuildMember | null): boolean {
+  if (isCreator(userId)) {
+    return true;
+  }
+  const djRoleId = getDjRoleId(guildId);
+  return !!djRoleId && !!member?.roles.cache.has(djRoleId);
+}
+
+/**
+ * Lock voice commands to voice controllers (and, for a channel lock, that channel)
+ * Returns false if the user is not a voice controller.
  */
-export function lockVoice(guildId: string, userId: string, channelId?: string): boolean {
-  if (!isCreator(userId)) {
+export function lockVoice(guildId: string, userId: string, member?: GuildMember | null, options: LockOptions = {}): boolean {
+  if (!isVoiceController(guildId, userId, member)) {
     return false;
   }
 
+  const minutes = Math.min(options.minutes ?? DEFAULT_LOCK_MINUTES, MAX_LOCK_MINUTES);
+  const now = Date.now();
   voiceLocks.set(guildId, {
     lockedBy: userId,
-    lockedAt: new Date(),
+    lockedByName: member?.displayName,
+    lockedAt: now,
     guildId,
-    channelId
+    channelId: options.channelId,
+    scope: options.scope ?? 'guild',
+    expiresAt: now + minutes * 60_000
   });
 
   return true;
@@ -57,10 +135,10 @@ export function lockVoice(guildId: string, userId: string, channelId?: string):
 
 /**
  * Unlock voice commands for everyone
+ * Returns false if the user is neither a voice controller nor the lock holder.
  */
-export function unlockVoice(guildId: string, userId: string): boolean {
-  // Only creator can unlock
-  if (!isCreator(userId)) {
+export function unlockVoice(guildId: string, userId: string, member?: GuildMember | null): boolean {
+  if (!isVoiceController(guildId, userId, member) && getVoiceLock(guildId)?.lockedBy !== userId) {
     return false;
   }
 
@@ -68,41 +146,81 @@ export function unlockVoice(guildId: string, userId: string): boolean {
   return true;
 }
 
+/**
+ * Remove a guild's lock without a permission check (e.g. the holder left voice)
+ */
+export function releaseVoiceLock(guildId: string): boolean {
+  return voiceLocks.delete(guildId);
+}
+
+/**
+ * Keep the lock's channel in step with the lock holder's voice channel
+ */
+export function setVoiceLockChannel(guildId: string, channelId: string): void {
+  const lock = getVoiceLock(guildId);
+  if (lock && lock.channelId !== channelId) {
+    voiceLocks.set(guildId, { ...lock, channelId });
+  }
+}
+
 /**
  * Check if voice is locked in a guild
  */
 export function isVoiceLocked(guildId: string): boolean {
-  return voiceLocks.has(guildId);
+  return getVoiceLock(guildId) !== undefined;
 }
 
 /**
- * Get the voice lock info for a guild
+ * Get the voice lock info for a guild; expired locks are removed
  */
 export function getVoiceLock(guildId: string): VoiceLock | undefined {
-  return voiceLocks.get(guildId);
+  const lock = voiceLocks.get(guildId);
+  if (lock && lock.expiresAt <= Date.now()) {
+    voiceLocks.delete(guildId);
+    return undefined;
+  }
+  return lock;
+}
+
+function lockHolderName(lock: VoiceLock): string {
+  return isCreator(lock.lockedBy) ? getCreatorName() : (lock.lockedByName || 'a DJ');
 }
 
 /**
  * Check if a user can use voice commands
- * Returns { allowed: boolean, reason?: string }
+ * The member is needed for the DJ role and channel-scoped locks.
  */
-export function canUseVoiceCommand(guildId: string, userId: string): { allowed: boolean; reason?: string } {
-  const lock = voiceLocks.get(guildId);
+export function canUseVoiceCommand(guildId: string, userId: string, member?: GuildMember | null): VoiceCommandCheck {
+  const lock = getVoiceLock(guildId);
 
   // No lock - everyone can use
   if (!lock) {
     return { allowed: true };
   }
 
-  // Creator always allowed
-  if (isCreator(userId)) {
+  // The lock holder, the creator and DJs are always allowed
+  if (lock.lockedBy === userId || isVoiceController(guildId, userId, member)) {
     return { allowed: true };
   }
 
-  // Voice is locked by creator
+  // A channel lock still lets the people in that channel control the bot
+  const channelLock = lock.scope === 'channel' && !!lock.channelId;
+  if (channelLock && member?.voice.channelId === lock.channelId) {
+    return { allowed: true };
+  }
+
+  const until = ` until <t:${Math.floor(lock.expiresAt / 1000)}:t>`;
   return {
     allowed: false,
-    reason: `Voice commands are currently locked by ${getCreatorName()}. Only the creator can control the bot right now.`
+    reason: {
+      code: channelLock ? 'channel_locked' : 'locked',
+      lockedBy: lock.lockedBy,
+      channelId: lock.channelId,
+      expiresAt: lock.expiresAt,
+      message: channelLock
+        ? `🔒 Voice commands are locked to <#${lock.channelId}> by ${lockHolderName(lock)}${until}. Join that channel to control the bot.`
+        : `🔒 Voice commands are locked by ${lockHolderName(lock)}${until}. Only DJs can control the bot right now.`
+    }
   };
 }
 
@@ -110,12 +228,15 @@ export function canUseVoiceCommand(guildId: string, userId: string): { allowed:
  * Get lock status message
  */
 export function getLockStatus(guildId: string): string {
-  const lock = voiceLocks.get(guildId);
+  const lock = getVoiceLock(guildId);
+  const djRoleId = getDjRoleId(guildId);
+  const djLine = djRoleId ? `DJ role: <@&${djRoleId}>` : 'No DJ role set - only the creator can lock voice.';
 
   if (!lock) {
-    return 'Voice commands are unlocked - anyone can control the bot.';
+    return `🔓 Voice commands are unlocked - anyone can control the bot.\n${djLine}`;
   }
 
-  const duration = Math.floor((Date.now() - lock.lockedAt.getTime()) / 1000 / 60);
-  return `Voice locked by ${getCreatorName()} for ${duration} minute(s).`;
+  const duration = Math.floor((Date.now() - lock.lockedAt) / 1000 / 60);
+  const scope = lock.scope === 'channel' && lock.channelId ? ` to <#${lock.channelId}>` : '';
+  return `🔒 Voice locked${scope} by ${lockHolderName(lock)} for ${duration} minute(s), ends <t:${Math.floor(lock.expiresAt / 1000)}:R>.\n${djLine}`;
 }
@@ -5,6 +5,8 @@
  * msedge-tts provides 100+ high-quality neural voices.
  */
 
+import { StoredMap } from './core/Storage.js';
+
 export interface VoiceInfo {
   name: string;           // Full voice name (e.g., "en-US-JennyNeural")
   shortName: string;      // User-friendly name (e.g., "Jenny")
@@ -55,8 +57,8 @@ export const AVAILABLE_VOICES: VoiceInfo[] = [
 // Default voice
 export const DEFAULT_VOICE = 'en-US-JennyNeural';
 
-// Per-guild voice selection
-const guildVoices: Map<string, string> = new Map();
+// Per-guild voice selection (persisted)
+const guildVoices = new StoredMap<string>('voice.guildVoices');
 
 /**
  * Get the current voice for a guild